@@ -11,18 +11,22 @@ import RecipeDetail from "./pages/RecipeDetail";
 import Browse from "./pages/Browse";
 import BrowseDetail from "./pages/BrowseDetail";
 import RecipeCompare from "./pages/RecipeCompare";
+import Login from "./pages/Login";
+import Admin from "./pages/Admin";
 import { CompareFloatingButton } from "./components/CompareFloatingButton";
 
 function Router() {
   return (
     <Switch>
       <Route path={"/"} component={Home} />
+      <Route path={"/login"} component={Login} />
       <Route path={"/dashboard"} component={Dashboard} />
       <Route path={"/recipes/new"} component={NewRecipe} />
       <Route path={"/recipes/compare/:ids"} component={RecipeCompare} />
       <Route path={"/recipes/:id"} component={RecipeDetail} />
       <Route path={"/browse"} component={Browse} />
       <Route path={"/browse/:id"} component={BrowseDetail} />
+      <Route path={"/admin"} component={Admin} />
       <Route path={"/404"} component={NotFound} />
       {/* Final fallback route */}
       <Route component={NotFound} />
@@ -0,0 +1,47 @@
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertTriangle, ShieldCheck } from "lucide-react";
+
+interface RecipeAllergen {
+  code: string;
+  label: string;
+  ingredients: string[];
+}
+
+interface AllergenCardProps {
+  allergens: RecipeAllergen[];
+  className?: string;
+}
+
+export function AllergenCard({ allergens, className }: AllergenCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-500" />
+          過敏原
+        </CardTitle>
+        <CardDescription>根據食材名稱自動檢測，僅供參考；嚴重過敏者請再確認食材包裝標示</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {allergens.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-green-700">
+            <ShieldCheck className="h-4 w-4" />
+            未檢測到常見過敏原
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {allergens.map((allergen) => (
+              <div key={allergen.code} className="flex flex-wrap items-center gap-2">
+                <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                  {allergen.label}
+                </Badge>
+                <span className="text-sm text-gray-500">{allergen.ingredients.join("、")}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+const MAX_FILE_SIZE = 20 * 1024 * 1024;
+const ACCEPTED_EXTENSIONS = [".csv", ".json", ".zip", ".paprikarecipes", ".paprikarecipe"];
+
+const FORMAT_LABELS: Record<string, string> = {
+  csv: "CSV",
+  json: "JSON",
+  "schema.org": "schema.org",
+  paprika: "Paprika",
+  mealie: "Mealie",
+  tandoor: "Tandoor",
+};
+
+function readFileAsBase64(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.substring(dataUrl.indexOf(",") + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * 批量匯入：上傳檔案後先預覽每個食譜的驗證結果和重複情況，勾選後才真正匯入
+ */
+export function BulkImportPanel() {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const [file, setFile] = useState<{ name: string; contentBase64: string } | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const preview = trpc.recipes.bulkImport.useMutation({
+    onSuccess: (data) => {
+      // 預設勾選沒有錯誤而且不重複的食譜
+      setSelected(new Set(data.rows.filter(row => row.errors.length === 0 && !row.duplicate).map(row => row.index)));
+    },
+    onError: (error) => {
+      toast.error(`讀取檔案失敗: ${error.message}`);
+    },
+  });
+
+  const commit = trpc.recipes.bulkImport.useMutation({
+    onSuccess: (data) => {
+      const imported = data.result?.imported.length ?? 0;
+      const failed = data.result?.failed.length ?? 0;
+      utils.recipes.list.invalidate();
+      // 已匯入的食譜不再勾選，重試時只匯入失敗的食譜
+      const importedIndexes = new Set(data.result?.imported.map(item => item.index));
+      setSelected(prev => new Set(Array.from(prev).filter(index => !importedIndexes.has(index))));
+      if (failed > 0) {
+        toast.warning(`已匯入 ${imported} 個食譜，${failed} 個失敗`);
+      } else {
+        toast.success(`已匯入 ${imported} 個食譜`);
+        setLocation("/dashboard");
+      }
+    },
+    onError: (error) => {
+      toast.error(`匯入失敗: ${error.message}`);
+    },
+  });
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0];
+    e.target.value = "";
+    if (!selectedFile) return;
+    if (selectedFile.size > MAX_FILE_SIZE) {
+      toast.error("檔案太大，請上傳 20MB 以內的檔案");
+      return;
+    }
+    const contentBase64 = await readFileAsBase64(selectedFile);
+    setFile({ name: selectedFile.name, contentBase64 });
+    commit.reset();
+    preview.mutate({ fileName: selectedFile.name, contentBase64, dryRun: true });
+  };
+
+  const toggleRow = (index: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(index);
+    else next.delete(index);
+    setSelected(next);
+  };
+
+  const handleImport = () => {
+    if (!file || selected.size === 0) return;
+    commit.mutate({
+      fileName: file.name,
+      contentBase64: file.contentBase64,
+      dryRun: false,
+      rowIndexes: Array.from(selected),
+    });
+  };
+
+  const rows = preview.data?.rows ?? [];
+  const failedByIndex = new Map(commit.data?.result?.failed.map(item => [item.index, item.error]));
+  const importedIndexes = new Set(commit.data?.result?.imported.map(item => item.index));
+  const validCount = rows.filter(row => row.errors.length === 0).length;
+  const duplicateCount = rows.filter(row => row.duplicate).length;
+  const isBusy = preview.isPending || commit.isPending;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>批量匯入</CardTitle>
+        <CardDescription>
+          一次匯入多個食譜，支援 CSV、JSON 和其他食譜程式的匯出檔案
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <p className="font-medium mb-1">⚠️ 注意事項:</p>
+          <ul className="list-disc list-inside space-y-1">
+            <li>支援 Paprika(.paprikarecipes)、Mealie 和 Tandoor 的匯出檔案(JSON 或 ZIP)</li>
+            <li>CSV 第一行為欄位名稱：title、description、servings、prep_time、cook_time、ingredients、steps、source_url、categories(食材和步驟每行一項)</li>
+            <li>匯入前會先預覽，與現有食譜同名或同一來源網址的食譜預設不匯入</li>
+            <li>營養成分按本地營養成分表計算，改良建議可稍後在食譜頁生成</li>
+          </ul>
+        </div>
+
+        <div>
+          <Label htmlFor="bulk-import-file">匯入檔案</Label>
+          <Input
+            id="bulk-import-file"
+            type="file"
+            accept={ACCEPTED_EXTENSIONS.join(",")}
+            onChange={handleFileChange}
+            disabled={isBusy}
+          />
+        </div>
+
+        {preview.isPending && (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            正在讀取檔案...
+          </div>
+        )}
+
+        {rows.length > 0 && (
+          <>
+            <p className="text-sm text-gray-600">
+              共 {rows.length} 個食譜：{validCount} 個可匯入
+              {duplicateCount > 0 && `，${duplicateCount} 個可能重複`}
+              {rows.length - validCount > 0 && `，${rows.length - validCount} 個有錯誤`}
+            </p>
+            <div className="max-h-[28rem] overflow-auto rounded-lg border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>食譜</TableHead>
+                    <TableHead>格式</TableHead>
+                    <TableHead className="text-right">食材 / 步驟</TableHead>
+                    <TableHead>狀態</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map(row => {
+                    const failedError = failedByIndex.get(row.index);
+                    return (
+                      <TableRow key={row.index}>
+                        <TableCell>
+                          <Checkbox
+                            checked={selected.has(row.index)}
+                            disabled={row.errors.length > 0 || isBusy || importedIndexes.has(row.index)}
+                            onCheckedChange={(checked) => toggleRow(row.index, checked === true)}
+                          />
+                        </TableCell>
+                        <TableCell className="max-w-64 whitespace-normal">
+                          <p className="font-medium">{row.title ?? "（沒有名稱）"}</p>
+                          <p className="text-xs text-gray-500">{row.label}</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{FORMAT_LABELS[row.format] ?? row.format}</Badge>
+                        </TableCell>
+                        <TableCell className="text-right text-sm">
+                          {row.ingredientCount} / {row.stepCount}
+                        </TableCell>
+                        <TableCell className="max-w-72 whitespace-normal text-sm">
+                          {importedIndexes.has(row.index) ? (
+                            <span className="text-green-700">已匯入</span>
+                          ) : failedError ? (
+                            <span className="text-red-600">匯入失敗：{failedError}</span>
+                          ) : row.errors.length > 0 ? (
+                            <span className="text-red-600">{row.errors.join("；")}</span>
+                          ) : row.duplicate?.type === "existing" ? (
+                            <span className="text-amber-700">與現有食譜「{row.duplicate.title}」重複</span>
+                          ) : row.duplicate?.type === "file" ? (
+                            <span className="text-amber-700">
+                              與檔案中的「{rows[row.duplicate.rowIndex]?.title ?? rows[row.duplicate.rowIndex]?.label}」重複
+                            </span>
+                          ) : (
+                            <span className="text-green-700">可匯入</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+            <Button onClick={handleImport} disabled={isBusy || selected.size === 0} className="w-full">
+              {commit.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  匯入中...
+                </>
+              ) : (
+                `匯入 ${selected.size} 個食譜`
+              )}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
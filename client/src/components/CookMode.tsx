@@ -0,0 +1,453 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { ChevronLeft, ChevronRight, Flame, Mic, MicOff, Pause, Play, RotateCcw, Timer, Volume2, X } from "lucide-react";
+import { toast } from "sonner";
+import { cn } from "@/lib/utils";
+import { formatTimer, parseCookModeCommand, type CookModeCommand } from "@shared/cookMode";
+
+interface CookModeStep {
+  id: number;
+  stepNumber: number;
+  instruction: string;
+  duration: number | null;
+  temperature: string | null;
+  tips: string | null;
+  imageUrl: string | null;
+}
+
+interface CookModeProps {
+  title: string;
+  steps: CookModeStep[];
+  open: boolean;
+  onClose: () => void;
+}
+
+type StepTimer = {
+  remaining: number; // 暫停時的剩餘秒數
+  endsAt: number | null; // 運行中時的結束時間(以時間戳計算，分頁在背景時也準確)
+};
+
+function getRemaining(timer: StepTimer, now: number) {
+  return timer.endsAt === null ? timer.remaining : Math.max(0, Math.ceil((timer.endsAt - now) / 1000));
+}
+
+// 瀏覽器語音辨識(Chrome、Safari 以 webkit 前綴提供)，lib.dom 沒有這個類型
+interface CookModeSpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onresult: ((event: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+  onend: (() => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type SpeechRecognitionConstructor = new () => CookModeSpeechRecognition;
+
+function getSpeechRecognition(): SpeechRecognitionConstructor | null {
+  const w = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionConstructor;
+    webkitSpeechRecognition?: SpeechRecognitionConstructor;
+  };
+  return w.SpeechRecognition ?? w.webkitSpeechRecognition ?? null;
+}
+
+const SPEECH_LANG = navigator.language.startsWith("en") ? "en-US" : "zh-HK";
+
+/**
+ * 全螢幕烹飪模式：一次顯示一個步驟，支援步驟計時、螢幕常亮、鍵盤和語音操作
+ */
+export function CookMode({ title, steps, open, onClose }: CookModeProps) {
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [timers, setTimers] = useState<Record<number, StepTimer>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const [voiceEnabled, setVoiceEnabled] = useState(false);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  const step = steps[currentIndex];
+  const timer = step ? timers[step.id] : undefined;
+  const isTimerRunning = (stepId: number) => timers[stepId]?.endsAt != null;
+
+  // 每次打開都從第一步開始
+  useEffect(() => {
+    if (open) {
+      setCurrentIndex(0);
+      setTimers({});
+    }
+  }, [open]);
+
+  const playAlarm = useCallback(() => {
+    const context = audioContextRef.current;
+    if (context) {
+      // 連續三聲短嗶
+      for (let i = 0; i < 3; i++) {
+        const oscillator = context.createOscillator();
+        const gain = context.createGain();
+        oscillator.frequency.value = 880;
+        gain.gain.value = 0.3;
+        oscillator.connect(gain).connect(context.destination);
+        const start = context.currentTime + i * 0.4;
+        oscillator.start(start);
+        oscillator.stop(start + 0.25);
+      }
+    }
+    navigator.vibrate?.([300, 150, 300]);
+  }, []);
+
+  // 所有計時器共用一個每秒更新的時鐘，切換步驟時其他步驟的計時器繼續運行
+  const hasRunningTimer = Object.values(timers).some((t) => t.endsAt !== null);
+  useEffect(() => {
+    if (!open || !hasRunningTimer) return;
+    setNow(Date.now());
+    const interval = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(interval);
+  }, [open, hasRunningTimer]);
+
+  // 計時完成時提示並停止該計時器
+  useEffect(() => {
+    const finishedIds = Object.entries(timers)
+      .filter(([, t]) => t.endsAt !== null && t.endsAt <= now)
+      .map(([id]) => Number(id));
+    if (finishedIds.length === 0) return;
+
+    for (const id of finishedIds) {
+      const finishedStep = steps.find((s) => s.id === id);
+      toast.success(`步驟 ${finishedStep?.stepNumber ?? ""} 計時完成`, { duration: 10000 });
+    }
+    playAlarm();
+    setTimers((prev) => {
+      const next = { ...prev };
+      for (const id of finishedIds) next[id] = { remaining: 0, endsAt: null };
+      return next;
+    });
+  }, [now, timers, steps, playAlarm]);
+
+  // 螢幕常亮(切換分頁後 wake lock 會被釋放，回來時重新申請)
+  useEffect(() => {
+    if (!open || !("wakeLock" in navigator)) return;
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const requestWakeLock = async () => {
+      try {
+        sentinel = await navigator.wakeLock.request("screen");
+        if (released) void sentinel.release();
+      } catch (error) {
+        console.warn("[CookMode] Wake lock request failed:", error);
+      }
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") void requestWakeLock();
+    };
+
+    void requestWakeLock();
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      released = true;
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      void sentinel?.release();
+    };
+  }, [open]);
+
+  const goTo = useCallback(
+    (index: number) => {
+      setCurrentIndex(Math.min(Math.max(index, 0), steps.length - 1));
+    },
+    [steps.length]
+  );
+
+  const startTimer = useCallback(() => {
+    if (!step?.duration) return;
+    // 音效要在用戶操作時初始化，否則瀏覽器會阻止播放
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    void audioContextRef.current.resume();
+    const duration = step.duration;
+    setTimers((prev) => {
+      const existing = prev[step.id];
+      if (existing?.endsAt != null) return prev;
+      const remaining = existing && existing.remaining > 0 ? existing.remaining : duration * 60;
+      return { ...prev, [step.id]: { remaining, endsAt: Date.now() + remaining * 1000 } };
+    });
+  }, [step]);
+
+  const pauseTimer = useCallback(() => {
+    if (!step) return;
+    setTimers((prev) => {
+      const existing = prev[step.id];
+      if (existing?.endsAt == null) return prev;
+      return { ...prev, [step.id]: { remaining: getRemaining(existing, Date.now()), endsAt: null } };
+    });
+  }, [step]);
+
+  const resetTimer = () => {
+    if (!step) return;
+    setTimers((prev) => {
+      const { [step.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+  };
+
+  const readStep = useCallback(() => {
+    if (!step || !("speechSynthesis" in window)) return;
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(
+      [step.instruction, step.temperature && `火候：${step.temperature}`, step.tips && `提示：${step.tips}`].filter(Boolean).join("。")
+    );
+    utterance.lang = SPEECH_LANG;
+    window.speechSynthesis.speak(utterance);
+  }, [step]);
+
+  const handleClose = useCallback(() => {
+    setVoiceEnabled(false);
+    if ("speechSynthesis" in window) window.speechSynthesis.cancel();
+    if (document.fullscreenElement) void document.exitFullscreen().catch(() => {});
+    onClose();
+  }, [onClose]);
+
+  const runCommand = useCallback(
+    (command: CookModeCommand) => {
+      switch (command) {
+        case "next":
+          goTo(currentIndex + 1);
+          break;
+        case "previous":
+          goTo(currentIndex - 1);
+          break;
+        case "startTimer":
+          startTimer();
+          break;
+        case "pauseTimer":
+          pauseTimer();
+          break;
+        case "read":
+          readStep();
+          break;
+        case "exit":
+          handleClose();
+          break;
+      }
+    },
+    [currentIndex, goTo, startTimer, pauseTimer, readStep, handleClose]
+  );
+
+  // 語音辨識的回調只設定一次，用 ref 取得最新的指令處理函數
+  const runCommandRef = useRef(runCommand);
+  runCommandRef.current = runCommand;
+
+  // 鍵盤操作
+  useEffect(() => {
+    if (!open) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const keyCommands: Record<string, CookModeCommand> = {
+        ArrowRight: "next",
+        ArrowDown: "next",
+        PageDown: "next",
+        " ": "next",
+        Enter: "next",
+        ArrowLeft: "previous",
+        ArrowUp: "previous",
+        PageUp: "previous",
+        r: "read",
+        Escape: "exit",
+      };
+      if (e.key === "t") {
+        e.preventDefault();
+        if (step && timers[step.id]?.endsAt != null) pauseTimer();
+        else startTimer();
+        return;
+      }
+      const command = keyCommands[e.key];
+      if (command) {
+        e.preventDefault();
+        runCommandRef.current(command);
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [open, step, timers, startTimer, pauseTimer]);
+
+  // 語音指令(瀏覽器會在一段時間沒有聲音後停止辨識，啟用期間自動重新開始)
+  useEffect(() => {
+    if (!open || !voiceEnabled) return;
+    const Recognition = getSpeechRecognition();
+    if (!Recognition) return;
+
+    const recognition = new Recognition();
+    recognition.lang = SPEECH_LANG;
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    let active = true;
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const command = parseCookModeCommand(event.results[i][0].transcript);
+        if (command) runCommandRef.current(command);
+      }
+    };
+    recognition.onerror = (event) => {
+      if (event.error === "not-allowed" || event.error === "service-not-allowed") {
+        active = false;
+        setVoiceEnabled(false);
+        toast.error("無法使用麥克風，請檢查瀏覽器權限");
+      }
+    };
+    recognition.onend = () => {
+      if (active) recognition.start();
+    };
+
+    recognition.start();
+    return () => {
+      active = false;
+      recognition.stop();
+    };
+  }, [open, voiceEnabled]);
+
+  const toggleVoice = () => {
+    if (!voiceEnabled && !getSpeechRecognition()) {
+      toast.error("此瀏覽器不支援語音指令，請使用 Chrome 或 Safari");
+      return;
+    }
+    setVoiceEnabled(!voiceEnabled);
+  };
+
+  // 盡量進入全螢幕(需要在用戶操作中調用，失敗時仍以覆蓋層顯示)
+  useEffect(() => {
+    if (open && !document.fullscreenElement) {
+      void document.documentElement.requestFullscreen?.().catch(() => {});
+    }
+  }, [open]);
+
+  if (!open || !step) return null;
+
+  const totalSeconds = (step.duration ?? 0) * 60;
+  const remaining = timer ? getRemaining(timer, now) : totalSeconds;
+  const timerPercent = timer && totalSeconds > 0 ? Math.round(((totalSeconds - remaining) / totalSeconds) * 100) : 0;
+  const otherRunningTimers = steps.filter((s) => s.id !== step.id && isTimerRunning(s.id));
+  const isLastStep = currentIndex === steps.length - 1;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-white">
+      {/* 頂部：食譜名稱、進度和控制 */}
+      <div className="flex items-center justify-between gap-4 border-b px-6 py-4">
+        <div className="min-w-0">
+          <p className="truncate text-sm text-gray-500">{title}</p>
+          <p className="text-lg font-semibold">
+            步驟 {step.stepNumber} / {steps.length}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant={voiceEnabled ? "default" : "outline"} onClick={toggleVoice}>
+            {voiceEnabled ? <Mic className="mr-2 h-4 w-4" /> : <MicOff className="mr-2 h-4 w-4" />}
+            語音指令
+          </Button>
+          <Button variant="outline" size="icon" onClick={readStep} title="朗讀步驟 (R)">
+            <Volume2 className="h-5 w-5" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={handleClose} title="退出 (Esc)">
+            <X className="h-6 w-6" />
+          </Button>
+        </div>
+      </div>
+      <Progress value={((currentIndex + 1) / steps.length) * 100} className="h-1 rounded-none" />
+
+      {/* 其他步驟仍在運行的計時器 */}
+      {otherRunningTimers.length > 0 && (
+        <div className="flex flex-wrap gap-2 border-b bg-amber-50 px-6 py-2">
+          {otherRunningTimers.map((s) => (
+            <button
+              key={s.id}
+              type="button"
+              className="flex items-center gap-1 rounded-full bg-amber-100 px-3 py-1 text-sm font-medium text-amber-900"
+              onClick={() => goTo(steps.indexOf(s))}
+            >
+              <Timer className="h-4 w-4" />
+              步驟 {s.stepNumber}：{formatTimer(getRemaining(timers[s.id], now))}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* 當前步驟 */}
+      <div className="flex-1 overflow-y-auto px-6 py-8">
+        <div className="mx-auto max-w-4xl space-y-6">
+          <p className="text-3xl leading-relaxed text-gray-900 md:text-4xl">{step.instruction}</p>
+
+          {step.temperature && (
+            <div className="flex items-center gap-3 rounded-xl bg-orange-50 px-5 py-4 text-2xl font-semibold text-orange-700">
+              <Flame className="h-8 w-8" />
+              {step.temperature}
+            </div>
+          )}
+
+          {step.tips && (
+            <div className="rounded-xl bg-blue-50 px-5 py-4 text-xl text-blue-800">💡 {step.tips}</div>
+          )}
+
+          {step.duration ? (
+            <div className="space-y-3 rounded-xl border px-5 py-4">
+              <div className="flex flex-wrap items-center justify-between gap-4">
+                <span
+                  className={cn(
+                    "font-mono text-5xl font-bold tabular-nums",
+                    timer && remaining === 0 ? "text-green-600" : isTimerRunning(step.id) ? "text-gray-900" : "text-gray-500"
+                  )}
+                >
+                  {timer && remaining === 0 ? "完成" : formatTimer(remaining)}
+                </span>
+                <div className="flex gap-2">
+                  {isTimerRunning(step.id) ? (
+                    <Button size="lg" variant="outline" onClick={pauseTimer}>
+                      <Pause className="mr-2 h-5 w-5" />
+                      暫停
+                    </Button>
+                  ) : (
+                    <Button size="lg" onClick={startTimer}>
+                      <Play className="mr-2 h-5 w-5" />
+                      {timer && remaining > 0 ? "繼續計時" : "開始計時"}
+                    </Button>
+                  )}
+                  {timer && (
+                    <Button size="lg" variant="ghost" onClick={resetTimer}>
+                      <RotateCcw className="h-5 w-5" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              {timer && <Progress value={timerPercent} />}
+            </div>
+          ) : null}
+
+          {step.imageUrl && (
+            <img src={step.imageUrl} alt={`步驟 ${step.stepNumber}`} className="max-h-80 rounded-xl object-cover" />
+          )}
+        </div>
+      </div>
+
+      {/* 底部：上一步、下一步(按鈕加大，方便手不乾淨時用手肘或指節點按) */}
+      <div className="grid grid-cols-2 gap-4 border-t px-6 py-4">
+        <Button size="lg" variant="outline" className="h-16 text-lg" disabled={currentIndex === 0} onClick={() => goTo(currentIndex - 1)}>
+          <ChevronLeft className="mr-2 h-6 w-6" />
+          上一步
+        </Button>
+        {isLastStep ? (
+          <Button size="lg" className="h-16 text-lg" onClick={handleClose}>
+            完成
+          </Button>
+        ) : (
+          <Button size="lg" className="h-16 text-lg" onClick={() => goTo(currentIndex + 1)}>
+            下一步
+            <ChevronRight className="ml-2 h-6 w-6" />
+          </Button>
+        )}
+      </div>
+      <p className="pb-3 text-center text-xs text-gray-400">
+        鍵盤：← → 切換步驟 · T 開始/暫停計時 · R 朗讀 · Esc 退出
+        {voiceEnabled && " · 語音：「下一步」「上一步」「開始計時」「暫停」「再讀一次」「退出」"}
+      </p>
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Plus, Trash2, Save } from "lucide-react";
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { NutritionComparisonDialog } from "./NutritionComparisonDialog";
+import { StepImageEditor } from "./StepImageEditor";
 
 interface Recipe {
   id: number;
@@ -48,7 +49,10 @@ interface CookingStep {
   instruction: string;
   duration: number | null;
   temperature: string | null;
+  imageUrl?: string | null;
   tips: string | null;
+  isPassive?: boolean;
+  dependsOn?: number[] | null; // 前置步驟的步驟編號，null 表示接上一步
   order: number;
 }
 
@@ -125,6 +129,8 @@ export function EditRecipeDialog({
     fiber: null,
   });
   const [showComparison, setShowComparison] = useState(false);
+  // 步驟圖片是即時保存的，關閉對話框時要刷新頁面(編輯中途刷新會覆蓋未保存的修改)
+  const [stepImagesChanged, setStepImagesChanged] = useState(false);
   const [nutritionComparison, setNutritionComparison] = useState<{
     old: any;
     new: any;
@@ -285,6 +291,8 @@ export function EditRecipeDialog({
           duration: step.duration || undefined,
           temperature: step.temperature || undefined,
           tips: step.tips || undefined,
+          isPassive: step.isPassive ?? false,
+          dependsOn: step.dependsOn ?? null,
           order: step.order,
         });
       }
@@ -322,6 +330,7 @@ export function EditRecipeDialog({
         toast.success("食譜已更新");
       }
       
+      setStepImagesChanged(false);
       onSuccess();
       onOpenChange(false);
     } catch (error) {
@@ -329,8 +338,16 @@ export function EditRecipeDialog({
     }
   };
 
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen && stepImagesChanged) {
+      setStepImagesChanged(false);
+      onSuccess();
+    }
+    onOpenChange(nextOpen);
+  };
+
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
+    <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>編輯食譜</DialogTitle>
@@ -607,8 +624,63 @@ export function EditRecipeDialog({
                         }}
                       />
                     </div>
-                    <div className="col-span-1"></div>
+                    <div className="flex items-end pb-2">
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`step-passive-${step.id}`}
+                          checked={step.isPassive ?? false}
+                          onCheckedChange={(checked) => {
+                            const updated = [...editedSteps];
+                            updated[index].isPassive = checked === true;
+                            setEditedSteps(updated);
+                          }}
+                        />
+                        <Label htmlFor={`step-passive-${step.id}`}>無需看顧（燉煮、焗、醃等）</Label>
+                      </div>
+                    </div>
                   </div>
+                  {index > 0 && (
+                    <div className="space-y-2">
+                      <Label>開始條件</Label>
+                      <div className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`step-sequential-${step.id}`}
+                          checked={step.dependsOn == null}
+                          onCheckedChange={(checked) => {
+                            const updated = [...editedSteps];
+                            // 取消「接上一步」時預設仍等待上一步，再由用戶調整
+                            updated[index].dependsOn = checked === true ? null : [editedSteps[index - 1].order];
+                            setEditedSteps(updated);
+                          }}
+                        />
+                        <Label htmlFor={`step-sequential-${step.id}`}>接上一步（預設）</Label>
+                      </div>
+                      {step.dependsOn != null && (
+                        <div className="space-y-1 pl-6">
+                          <p className="text-sm text-gray-500">等待以下步驟完成後開始（都不選表示可以一開始就做）：</p>
+                          <div className="flex flex-wrap gap-4">
+                            {editedSteps.slice(0, index).map((previous, previousIndex) => (
+                              <div key={previous.id} className="flex items-center space-x-2">
+                                <Checkbox
+                                  id={`step-${step.id}-depends-${previous.id}`}
+                                  checked={step.dependsOn!.includes(previous.order)}
+                                  onCheckedChange={(checked) => {
+                                    const updated = [...editedSteps];
+                                    const current = step.dependsOn ?? [];
+                                    updated[index].dependsOn = checked === true
+                                      ? [...current, previous.order]
+                                      : current.filter((order) => order !== previous.order);
+                                    setEditedSteps(updated);
+                                  }}
+                                />
+                                <Label htmlFor={`step-${step.id}-depends-${previous.id}`}>步驟 {previousIndex + 1}</Label>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
                   <div className="space-y-2">
                     <Label>提示</Label>
                     <Input
@@ -620,6 +692,19 @@ export function EditRecipeDialog({
                       }}
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label>步驟圖片</Label>
+                    <StepImageEditor
+                      stepId={step.id}
+                      imageUrl={step.imageUrl ?? null}
+                      onChange={(imageUrl) => {
+                        const updated = [...editedSteps];
+                        updated[index].imageUrl = imageUrl;
+                        setEditedSteps(updated);
+                        setStepImagesChanged(true);
+                      }}
+                    />
+                  </div>
                 </div>
               </Card>
             ))}
@@ -726,7 +811,7 @@ export function EditRecipeDialog({
         </Tabs>
 
         <div className="flex justify-end gap-2 pt-4 border-t">
-          <Button variant="outline" onClick={() => onOpenChange(false)}>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
             取消
           </Button>
           <Button onClick={handleSave} disabled={updateRecipeMutation.isPending}>
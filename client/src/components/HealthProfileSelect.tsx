@@ -0,0 +1,32 @@
+import { trpc } from "@/lib/trpc";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { HEALTH_PROFILE_KEYS, type HealthProfileKey } from "@shared/healthScore";
+
+interface HealthProfileSelectProps {
+  value: HealthProfileKey;
+  onChange: (value: HealthProfileKey) => void;
+  className?: string;
+}
+
+export function HealthProfileSelect({ value, onChange, className }: HealthProfileSelectProps) {
+  const { data: profiles } = trpc.healthProfiles.list.useQuery();
+
+  return (
+    <Select
+      value={value}
+      onValueChange={(next) => {
+        const key = HEALTH_PROFILE_KEYS.find(k => k === next);
+        if (key) onChange(key);
+      }}
+    >
+      <SelectTrigger className={className ?? "w-44"}>
+        <SelectValue placeholder="飲食配置" />
+      </SelectTrigger>
+      <SelectContent>
+        {(profiles ?? []).map(profile => (
+          <SelectItem key={profile.key} value={profile.key}>{profile.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,49 @@
+import { trpc } from "@/lib/trpc";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { HealthProfileSelect } from "@/components/HealthProfileSelect";
+import { HealthScoreMatches } from "@/components/HealthScoreMatches";
+import { useHealthProfile } from "@/hooks/useHealthProfile";
+import { HeartPulse, Loader2 } from "lucide-react";
+
+interface HealthScoreCardProps {
+  recipeId: number;
+  className?: string;
+}
+
+/**
+ * 按用戶選擇的飲食配置顯示食譜健康評分和符合的規則
+ */
+export function HealthScoreCard({ recipeId, className }: HealthScoreCardProps) {
+  const [profile, setProfile] = useHealthProfile();
+  const { data: profiles } = trpc.healthProfiles.list.useQuery();
+  const { data, isLoading } = trpc.healthProfiles.score.useQuery({ recipeIds: [recipeId], profile });
+  const result = data?.scores[0];
+  const description = profiles?.find(p => p.key === profile)?.description;
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="flex items-center gap-2">
+            <HeartPulse className="h-5 w-5 text-green-600" />
+            健康評分
+          </CardTitle>
+          <HealthProfileSelect value={profile} onChange={setProfile} />
+        </div>
+        {description && <CardDescription>{description}</CardDescription>}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : result ? (
+          <div className="flex flex-wrap items-center gap-6">
+            <p className="text-4xl font-bold text-green-600">{result.score}/10</p>
+            <HealthScoreMatches matches={result.matches} />
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">無法計算評分</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,26 @@
+import { AlertTriangle, Check } from "lucide-react";
+
+interface HealthScoreMatchesProps {
+  matches: Array<{ label: string; points: number }>;
+}
+
+// 符合的評分規則：加分顯示為綠色，扣分顯示為紅色
+export function HealthScoreMatches({ matches }: HealthScoreMatchesProps) {
+  if (matches.length === 0) {
+    return <p className="text-xs text-gray-500">沒有符合的評分規則</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {matches.map((match, index) => (
+        <div
+          key={index}
+          className={`flex items-center gap-1 text-xs ${match.points >= 0 ? "text-green-700" : "text-red-700"}`}
+        >
+          {match.points >= 0 ? <Check className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+          {match.label}（{match.points > 0 ? `+${match.points}` : match.points}）
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { CheckCircle2, Circle, Loader2 } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+type ImportJobStage = "queued" | "scrape" | "prefilter" | "detect" | "analyze" | "done";
+
+interface ImportJobProgressProps {
+  inputMethod?: "manual" | "image" | "weblink" | "voice" | "file";
+  stage: ImportJobStage;
+  progressCurrent: number;
+  progressTotal: number;
+  progressMessage?: string | null;
+}
+
+const STAGES: { key: ImportJobStage; label: string }[] = [
+  { key: "queued", label: "排隊中" },
+  { key: "scrape", label: "抓取網頁內容" },
+  { key: "prefilter", label: "檢查是否為食譜" },
+  { key: "detect", label: "識別食譜數量" },
+  { key: "analyze", label: "分析食譜詳情" },
+];
+
+export function ImportJobProgress({ inputMethod = "weblink", stage, progressCurrent, progressTotal, progressMessage }: ImportJobProgressProps) {
+  const currentIndex = stage === "done" ? STAGES.length : STAGES.findIndex((s) => s.key === stage);
+  const analyzePercent = progressTotal > 0 ? Math.round((progressCurrent / progressTotal) * 100) : 0;
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      <ul className="space-y-2">
+        {STAGES.map((s, index) => {
+          const isDone = index < currentIndex;
+          const isActive = index === currentIndex;
+          return (
+            <li
+              key={s.key}
+              className={cn(
+                "flex items-center gap-2 text-sm",
+                isDone && "text-muted-foreground",
+                isActive && "font-medium",
+                !isDone && !isActive && "text-muted-foreground/60"
+              )}
+            >
+              {isDone ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              ) : isActive ? (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              ) : (
+                <Circle className="h-4 w-4" />
+              )}
+              {s.key === "scrape" && inputMethod === "image"
+                ? "辨識圖片內容"
+                : s.key === "scrape" && inputMethod === "voice"
+                ? "轉錄錄音內容"
+                : s.label}
+            </li>
+          );
+        })}
+      </ul>
+
+      {stage === "analyze" && progressTotal > 0 && (
+        <div className="space-y-1">
+          <div className="flex justify-between text-xs text-muted-foreground">
+            <span>分析食譜 {progressCurrent} / {progressTotal}</span>
+            <span>{analyzePercent}%</span>
+          </div>
+          <Progress value={analyzePercent} />
+        </div>
+      )}
+
+      {progressMessage && stage !== "scrape" && (
+        <p className="text-xs text-muted-foreground truncate">{progressMessage}</p>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState } from "react";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
 import { trpc } from "@/lib/trpc";
 import {
   Dialog,
@@ -10,9 +12,12 @@ import {
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Loader2, Check, ArrowRight } from "lucide-react";
 import { toast } from "sonner";
 
+type Substitution = inferRouterOutputs<AppRouter>["ingredients"]["getSuggestions"]["substitutions"][number];
+
 interface IngredientSubstitutionDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -30,7 +35,9 @@ export default function IngredientSubstitutionDialog({
   recipeId,
   onSubstituted,
 }: IngredientSubstitutionDialogProps) {
-  const [selectedSubstitution, setSelectedSubstitution] = useState<any>(null);
+  const [selectedSubstitution, setSelectedSubstitution] = useState<Substitution | null>(null);
+  // 勾選要一併套用的步驟修改(步驟編號)
+  const [selectedStepEdits, setSelectedStepEdits] = useState<Set<number>>(new Set());
 
   const getSuggestions = trpc.ingredients.getSuggestions.useMutation({
     onError: (error) => {
@@ -40,10 +47,23 @@ export default function IngredientSubstitutionDialog({
     },
   });
 
+  const proposeStepEdits = trpc.ingredients.proposeStepEdits.useMutation({
+    onSuccess: (data) => {
+      setSelectedStepEdits(new Set(data.stepEdits.map(edit => edit.stepNumber)));
+    },
+    onError: (error) => {
+      toast.error("無法生成步驟修改建議", {
+        description: `${error.message}，仍可只替換食材`,
+      });
+    },
+  });
+
   const replaceIngredient = trpc.ingredients.replace.useMutation({
-    onSuccess: () => {
+    onSuccess: (data) => {
       toast.success("食材已成功替換！", {
-        description: "營養成分已重新計算",
+        description: data.stepsUpdated > 0
+          ? `已修改 ${data.stepsUpdated} 個步驟，營養成分已重新計算`
+          : "營養成分已重新計算",
       });
       onOpenChange(false);
       onSubstituted?.();
@@ -63,16 +83,40 @@ export default function IngredientSubstitutionDialog({
     }
   };
 
-  const handleSubstitute = (substitution: any) => {
-    replaceIngredient.mutate({
-      ingredientId,
-      recipeId,
-      newName: substitution.name,
-      newAmount: substitution.amount,
-      newUnit: substitution.unit,
-    });
+  const handleSelect = (substitution: Substitution) => {
+    if (substitution === selectedSubstitution) return;
+    setSelectedSubstitution(substitution);
+    proposeStepEdits.reset();
   };
 
+  const toTarget = (substitution: Substitution) => ({
+    ingredientId,
+    recipeId,
+    newName: substitution.name,
+    newAmount: substitution.amount,
+    newUnit: substitution.unit,
+  });
+
+  // 先檢查步驟修改，再確認替換
+  const handleReviewSteps = (substitution: Substitution) => {
+    proposeStepEdits.mutate(toTarget(substitution));
+  };
+
+  const handleSubstitute = (substitution: Substitution) => {
+    const stepEdits = (proposeStepEdits.data?.stepEdits ?? [])
+      .filter(edit => selectedStepEdits.has(edit.stepNumber));
+    replaceIngredient.mutate({ ...toTarget(substitution), stepEdits });
+  };
+
+  const toggleStepEdit = (stepNumber: number, checked: boolean) => {
+    const next = new Set(selectedStepEdits);
+    if (checked) next.add(stepNumber);
+    else next.delete(stepNumber);
+    setSelectedStepEdits(next);
+  };
+
+  const stepReviewReady = proposeStepEdits.isSuccess || proposeStepEdits.isError;
+
   return (
     <Dialog open={open} onOpenChange={handleOpenChange}>
       <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
@@ -111,7 +155,7 @@ export default function IngredientSubstitutionDialog({
             {/* 替換選項 */}
             <div className="space-y-3">
               <p className="font-medium text-gray-700">推薦替換選項：</p>
-              {getSuggestions.data.substitutions.map((sub: any, index: number) => (
+              {getSuggestions.data.substitutions.map((sub, index) => (
                 <Card
                   key={index}
                   className={`cursor-pointer transition-all ${
@@ -119,7 +163,7 @@ export default function IngredientSubstitutionDialog({
                       ? "ring-2 ring-green-500 bg-green-50"
                       : "hover:bg-gray-50"
                   }`}
-                  onClick={() => setSelectedSubstitution(sub)}
+                  onClick={() => handleSelect(sub)}
                 >
                   <CardContent className="pt-4">
                     <div className="flex items-start justify-between">
@@ -140,7 +184,7 @@ export default function IngredientSubstitutionDialog({
 
                         {/* 健康益處標籤 */}
                         <div className="flex flex-wrap gap-2 mb-3">
-                          {sub.healthBenefits.map((benefit: string, idx: number) => (
+                          {sub.healthBenefits.map((benefit, idx) => (
                             <Badge key={idx} variant="secondary" className="bg-green-100 text-green-800">
                               {benefit}
                             </Badge>
@@ -185,6 +229,47 @@ export default function IngredientSubstitutionDialog({
               ))}
             </div>
 
+            {/* 步驟修改 */}
+            {proposeStepEdits.isPending && (
+              <div className="flex items-center gap-2 text-sm text-gray-600">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                AI 正在檢查需要修改的步驟...
+              </div>
+            )}
+            {proposeStepEdits.data && (
+              <div className="space-y-3">
+                <p className="font-medium text-gray-700">相關步驟修改：</p>
+                {proposeStepEdits.data.stepEdits.length === 0 ? (
+                  <p className="text-sm text-gray-500">步驟不需要修改</p>
+                ) : (
+                  proposeStepEdits.data.stepEdits.map(edit => (
+                    <label
+                      key={edit.stepNumber}
+                      className="flex items-start gap-3 p-3 border rounded-lg bg-amber-50 border-amber-200 cursor-pointer"
+                    >
+                      <Checkbox
+                        checked={selectedStepEdits.has(edit.stepNumber)}
+                        onCheckedChange={(checked) => toggleStepEdit(edit.stepNumber, checked === true)}
+                        disabled={replaceIngredient.isPending}
+                      />
+                      <div className="flex-1 text-sm space-y-1">
+                        <p className="font-semibold text-gray-700">步驟 {edit.stepNumber}</p>
+                        <p className="line-through text-gray-500">{edit.before.instruction}</p>
+                        <p className="text-gray-900">{edit.instruction}</p>
+                        {(edit.duration !== edit.before.duration || edit.temperature !== edit.before.temperature) && (
+                          <p className="text-xs text-gray-600">
+                            {edit.duration !== edit.before.duration && `時間：${edit.before.duration ?? "-"} → ${edit.duration ?? "-"} 分鐘　`}
+                            {edit.temperature !== edit.before.temperature && `溫度：${edit.before.temperature ?? "-"} → ${edit.temperature ?? "-"}`}
+                          </p>
+                        )}
+                        {edit.reason && <p className="text-xs text-gray-600">{edit.reason}</p>}
+                      </div>
+                    </label>
+                  ))
+                )}
+              </div>
+            )}
+
             {/* 操作按鈕 */}
             <div className="flex justify-end gap-3 pt-4">
               <Button
@@ -194,23 +279,43 @@ export default function IngredientSubstitutionDialog({
               >
                 取消
               </Button>
-              <Button
-                onClick={() => selectedSubstitution && handleSubstitute(selectedSubstitution)}
-                disabled={!selectedSubstitution || replaceIngredient.isPending}
-                className="bg-green-600 hover:bg-green-700"
-              >
-                {replaceIngredient.isPending ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    替換中...
-                  </>
-                ) : (
-                  <>
-                    <ArrowRight className="w-4 h-4 mr-2" />
-                    確認替換
-                  </>
-                )}
-              </Button>
+              {!stepReviewReady ? (
+                <Button
+                  onClick={() => selectedSubstitution && handleReviewSteps(selectedSubstitution)}
+                  disabled={!selectedSubstitution || proposeStepEdits.isPending}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {proposeStepEdits.isPending ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      檢查步驟中...
+                    </>
+                  ) : (
+                    <>
+                      <ArrowRight className="w-4 h-4 mr-2" />
+                      下一步：檢查步驟
+                    </>
+                  )}
+                </Button>
+              ) : (
+                <Button
+                  onClick={() => selectedSubstitution && handleSubstitute(selectedSubstitution)}
+                  disabled={!selectedSubstitution || replaceIngredient.isPending}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {replaceIngredient.isPending ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      替換中...
+                    </>
+                  ) : (
+                    <>
+                      <ArrowRight className="w-4 h-4 mr-2" />
+                      確認替換
+                    </>
+                  )}
+                </Button>
+              )}
             </div>
           </div>
         )}
@@ -0,0 +1,136 @@
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Bot, Download, Loader2, RefreshCw } from "lucide-react";
+import { toast } from "sonner";
+
+interface MachineInstructionsCardProps {
+  recipeId: number;
+  recipeTitle: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  heat: "加熱",
+  stir: "翻炒/攪拌",
+  add_ingredient: "加入食材",
+  wait: "等待",
+};
+
+const STIR_SPEED_LABELS: Record<string, string> = {
+  low: "慢速",
+  medium: "中速",
+  high: "快速",
+};
+
+function formatDuration(seconds: number) {
+  if (seconds < 60) return `${seconds} 秒`;
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return rest > 0 ? `${minutes} 分 ${rest} 秒` : `${minutes} 分鐘`;
+}
+
+export function MachineInstructionsCard({ recipeId, recipeTitle }: MachineInstructionsCardProps) {
+  const utils = trpc.useUtils();
+  const { data: program, isLoading } = trpc.recipes.getMachineInstructions.useQuery({ id: recipeId });
+
+  const generateMutation = trpc.recipes.generateMachineInstructions.useMutation({
+    onSuccess: () => {
+      toast.success("煮食機械指令已生成");
+      utils.recipes.getMachineInstructions.invalidate({ id: recipeId });
+    },
+    onError: (error) => {
+      toast.error(`生成失敗: ${error.message}`);
+    },
+  });
+
+  const handleDownload = () => {
+    if (!program) return;
+    const blob = new Blob([JSON.stringify(program, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${recipeTitle}-machine-program.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex-1">
+            <CardTitle className="flex items-center gap-2">
+              <Bot className="h-5 w-5" />
+              煮食機械指令
+            </CardTitle>
+            <CardDescription>根據烹飪步驟生成，可下載給廚房機械人執行</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => generateMutation.mutate({ id: recipeId })}
+              disabled={generateMutation.isPending}
+            >
+              {generateMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <RefreshCw className="mr-2 h-4 w-4" />
+              )}
+              {program ? "重新生成" : "生成指令"}
+            </Button>
+            {program && (
+              <Button variant="outline" size="sm" onClick={handleDownload}>
+                <Download className="mr-2 h-4 w-4" />
+                下載 JSON
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !program ? (
+          <p className="text-sm text-muted-foreground">尚未生成機械指令。修改烹飪步驟後請重新生成。</p>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm text-muted-foreground">
+              <Badge variant="secondary">{program.actions.length} 個動作</Badge>
+              <Badge variant="secondary">預計 {formatDuration(program.totalDurationSec)}</Badge>
+              <Badge variant="outline">v{program.version}</Badge>
+              <span>生成於 {new Date(program.generatedAt).toLocaleString("zh-TW")}</span>
+            </div>
+            <ol className="space-y-2">
+              {program.actions.map((action, index) => (
+                <li key={index} className="flex items-start gap-3 rounded border p-2 text-sm">
+                  <Badge variant="outline" className="shrink-0">步驟 {action.stepNumber}</Badge>
+                  <span className="font-medium shrink-0">{ACTION_LABELS[action.type]}</span>
+                  <span className="text-gray-600">
+                    {action.type === "heat" && (
+                      <>
+                        {action.targetTempC}°C
+                        {action.durationSec > 0 && `，保持 ${formatDuration(action.durationSec)}`}
+                      </>
+                    )}
+                    {action.type === "stir" && `${STIR_SPEED_LABELS[action.speed]}，${formatDuration(action.durationSec)}`}
+                    {action.type === "add_ingredient" && (
+                      <>
+                        {action.ingredient}
+                        {(action.amount || action.unit) && ` ${action.amount ?? ""}${action.unit ?? ""}`}
+                      </>
+                    )}
+                    {action.type === "wait" && formatDuration(action.durationSec)}
+                  </span>
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import { useAuth } from "@/_core/hooks/useAuth";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download, FileText, Loader2, NotebookText, Printer } from "lucide-react";
+import { toast } from "sonner";
+
+interface RecipeExportButtonProps {
+  recipeId: number;
+  size?: "default" | "sm";
+}
+
+// 把 base64 檔案內容轉成 Blob 後觸發瀏覽器下載
+function downloadBase64File(content: string, fileName: string, mimeType: string) {
+  const bytes = Uint8Array.from(atob(content), (char) => char.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function RecipeExportButton({ recipeId, size = "default" }: RecipeExportButtonProps) {
+  // PDF 由伺服器渲染，只限登入用戶
+  const { isAuthenticated } = useAuth();
+  const exportMutation = trpc.recipes.export.useMutation({
+    onSuccess: (file) => {
+      downloadBase64File(file.content, file.fileName, file.mimeType);
+      toast.success("匯出完成");
+    },
+    onError: (error) => {
+      toast.error(`匯出失敗: ${error.message}`);
+    },
+  });
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size={size} disabled={exportMutation.isPending}>
+          {exportMutation.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="w-4 h-4 mr-2" />
+          )}
+          匯出
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem disabled={!isAuthenticated} onClick={() => exportMutation.mutate({ id: recipeId, format: "pdf" })}>
+          <FileText className="w-4 h-4" />
+          PDF（完整版）{!isAuthenticated && "・需登入"}
+        </DropdownMenuItem>
+        <DropdownMenuItem disabled={!isAuthenticated} onClick={() => exportMutation.mutate({ id: recipeId, format: "card" })}>
+          <Printer className="w-4 h-4" />
+          廚房卡片（A5 PDF）{!isAuthenticated && "・需登入"}
+        </DropdownMenuItem>
+        <DropdownMenuItem onClick={() => exportMutation.mutate({ id: recipeId, format: "markdown" })}>
+          <NotebookText className="w-4 h-4" />
+          Markdown
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,96 @@
+import { useRef } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { ImageIcon, Loader2, Sparkles, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { ACCEPTED_IMAGE_TYPES, readImageForUpload, validateImageFile } from "@/lib/imageUpload";
+
+interface RecipeImageCardProps {
+  recipeId: number;
+  title: string;
+  imageUrl: string | null;
+  canEdit: boolean;
+  onChanged: () => void;
+}
+
+export function RecipeImageCard({ recipeId, title, imageUrl, canEdit, onChanged }: RecipeImageCardProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const generateImage = trpc.recipes.generateImage.useMutation({
+    onSuccess: () => {
+      toast.success("已生成菜式圖片");
+      onChanged();
+    },
+    onError: (error) => {
+      toast.error(`圖片生成失敗: ${error.message}`);
+    },
+  });
+
+  const uploadImage = trpc.recipes.uploadImage.useMutation({
+    onSuccess: () => {
+      toast.success("已更新圖片");
+      onChanged();
+    },
+    onError: (error) => {
+      toast.error(`上傳失敗: ${error.message}`);
+    },
+  });
+
+  const isPending = generateImage.isPending || uploadImage.isPending;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const error = validateImageFile(file);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    uploadImage.mutate({ id: recipeId, ...(await readImageForUpload(file)) });
+  };
+
+  if (!imageUrl && !canEdit) return null;
+
+  const controls = canEdit && (
+    <div className="flex flex-wrap gap-2">
+      <Button
+        variant="secondary"
+        size="sm"
+        disabled={isPending}
+        onClick={() => generateImage.mutate({ id: recipeId })}
+      >
+        {generateImage.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+        {imageUrl ? "重新生成" : "AI 生成圖片"}
+      </Button>
+      <Button variant="secondary" size="sm" disabled={isPending} onClick={() => fileInputRef.current?.click()}>
+        {uploadImage.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+        上傳圖片
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+
+  if (!imageUrl) {
+    return (
+      <div className="rounded-lg border border-dashed h-48 flex flex-col items-center justify-center gap-3 text-gray-500">
+        <ImageIcon className="h-8 w-8" />
+        <p className="text-sm">{generateImage.isPending ? "正在生成菜式圖片，可能需要一分鐘…" : "這個食譜還沒有圖片"}</p>
+        {controls}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative rounded-lg overflow-hidden">
+      <img src={imageUrl} alt={title} className="w-full h-96 object-cover" />
+      {controls && <div className="absolute bottom-3 right-3">{controls}</div>}
+    </div>
+  );
+}
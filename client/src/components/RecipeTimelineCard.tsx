@@ -0,0 +1,153 @@
+import { useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { GanttChart } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { buildRecipeTimeline, parseStepDependencies } from "@shared/timeline";
+
+interface TimelineStep {
+  stepNumber: number;
+  instruction: string;
+  duration: number | null;
+  isPassive: boolean;
+  dependsOn: string | null;
+}
+
+interface RecipeTimelineCardProps {
+  steps: TimelineStep[];
+  totalTime: number | null;
+  canEdit: boolean;
+  isUpdatingTotalTime?: boolean;
+  onApplyTotalTime: (minutes: number) => void;
+}
+
+// 按總時間選擇刻度間距，令時間軸大約有 4 至 8 個刻度
+function getTickInterval(totalTime: number) {
+  const intervals = [5, 10, 15, 30, 60, 120, 240];
+  return intervals.find((interval) => totalTime / interval <= 8) ?? 480;
+}
+
+function formatMinutes(minutes: number) {
+  if (minutes < 60) return `${minutes} 分鐘`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest > 0 ? `${hours} 小時 ${rest} 分鐘` : `${hours} 小時`;
+}
+
+/**
+ * 步驟時間線(甘特圖)：顯示哪些步驟可以同時進行，以及按關鍵路徑計算的總時間
+ */
+export function RecipeTimelineCard({ steps, totalTime, canEdit, isUpdatingTotalTime, onApplyTotalTime }: RecipeTimelineCardProps) {
+  const timeline = useMemo(
+    () =>
+      buildRecipeTimeline(
+        steps.map((step) => ({
+          stepNumber: step.stepNumber,
+          duration: step.duration,
+          isPassive: step.isPassive,
+          dependsOn: parseStepDependencies(step.dependsOn),
+        }))
+      ),
+    [steps]
+  );
+
+  // 沒有任何步驟時間時無法排出時間線
+  if (timeline.totalTime === 0) return null;
+
+  const tickInterval = getTickInterval(timeline.totalTime);
+  const ticks = Array.from({ length: Math.floor(timeline.totalTime / tickInterval) + 1 }, (_, i) => i * tickInterval);
+  const savedTime = timeline.sequentialTime - timeline.totalTime;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <GanttChart className="h-5 w-5" />
+              時間線
+            </CardTitle>
+            <CardDescription>
+              按步驟先後和可同時進行的步驟計算，總共約 {formatMinutes(timeline.totalTime)}
+              {savedTime > 0 && `（比逐步完成快 ${formatMinutes(savedTime)}）`}
+            </CardDescription>
+          </div>
+          {canEdit && totalTime !== timeline.totalTime && (
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isUpdatingTotalTime}
+              onClick={() => onApplyTotalTime(timeline.totalTime)}
+            >
+              設為總時間
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          {timeline.entries.map((entry) => {
+            const left = (entry.start / timeline.totalTime) * 100;
+            const width = ((entry.end - entry.start) / timeline.totalTime) * 100;
+            return (
+              <div key={entry.index} className="flex items-center gap-3">
+                <span className="w-12 shrink-0 text-right text-sm text-gray-500">步驟 {entry.stepNumber}</span>
+                <div className="relative h-7 flex-1 rounded bg-gray-50">
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <div
+                        className={cn(
+                          "absolute inset-y-0 flex min-w-1.5 items-center overflow-hidden rounded px-2 text-xs text-white",
+                          entry.isPassive ? "bg-amber-400" : "bg-green-600",
+                          entry.isCritical && "ring-2 ring-red-500 ring-offset-1"
+                        )}
+                        style={{ left: `${left}%`, width: `${width}%` }}
+                      >
+                        {entry.end > entry.start && <span className="truncate">{entry.end - entry.start}′</span>}
+                      </div>
+                    </TooltipTrigger>
+                    <TooltipContent className="max-w-xs">
+                      <p className="font-medium">
+                        {entry.start}–{entry.end} 分鐘{entry.isPassive ? "（無需看顧）" : ""}
+                      </p>
+                      <p>{steps[entry.index]?.instruction}</p>
+                      {entry.dependsOn.length > 0 && <p className="mt-1 opacity-80">等待步驟 {entry.dependsOn.join("、")} 完成</p>}
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* 時間軸 */}
+        <div className="flex items-center gap-3">
+          <span className="w-12 shrink-0" />
+          <div className="relative h-5 flex-1 border-t text-xs text-gray-400">
+            {ticks.map((tick) => (
+              <span key={tick} className="absolute -translate-x-1/2 pt-1" style={{ left: `${(tick / timeline.totalTime) * 100}%` }}>
+                {tick}′
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4 pt-2 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded bg-green-600" />
+            需要操作
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded bg-amber-400" />
+            無需看顧（可同時做其他步驟）
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="h-3 w-3 rounded ring-2 ring-red-500" />
+            關鍵路徑
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
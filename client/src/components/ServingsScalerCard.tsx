@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useLocation } from "wouter";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, Minus, Plus, Save, Scale } from "lucide-react";
+import { toast } from "sonner";
+
+interface ServingsScalerCardProps {
+  recipeId: number;
+  servings: number | null;
+  className?: string;
+}
+
+const MAX_SERVINGS = 100;
+
+export function ServingsScalerCard({ recipeId, servings, className }: ServingsScalerCardProps) {
+  const [, setLocation] = useLocation();
+  const originalServings = servings && servings > 0 ? servings : 1;
+  const [targetServings, setTargetServings] = useState(originalServings);
+
+  const scaleMutation = trpc.recipes.scale.useMutation({
+    onSuccess: (data) => {
+      if (data.newRecipeId) {
+        toast.success(`已另存為 ${data.servings} 人份的新食譜`);
+        setLocation(`/recipes/${data.newRecipeId}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`份量調整失敗: ${error.message}`);
+    },
+  });
+
+  const result = scaleMutation.data;
+  const changeServings = (value: number) => {
+    setTargetServings(Math.min(MAX_SERVINGS, Math.max(1, Math.round(value) || 1)));
+  };
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scale className="h-5 w-5" />
+          份量調整
+        </CardTitle>
+        <CardDescription>原食譜為 {originalServings} 人份，輸入人數後按比例換算食材份量</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => changeServings(targetServings - 1)} disabled={targetServings <= 1}>
+            <Minus className="h-4 w-4" />
+          </Button>
+          <Input
+            type="number"
+            min={1}
+            max={MAX_SERVINGS}
+            value={targetServings}
+            onChange={(e) => changeServings(Number(e.target.value))}
+            className="w-20 text-center"
+          />
+          <Button variant="outline" size="icon" onClick={() => changeServings(targetServings + 1)} disabled={targetServings >= MAX_SERVINGS}>
+            <Plus className="h-4 w-4" />
+          </Button>
+          <span className="text-sm text-gray-600">人份</span>
+          <Button
+            onClick={() => scaleMutation.mutate({ id: recipeId, servings: targetServings })}
+            disabled={scaleMutation.isPending}
+          >
+            {scaleMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            換算份量
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => scaleMutation.mutate({ id: recipeId, servings: targetServings, saveAsNew: true })}
+            disabled={scaleMutation.isPending || targetServings === originalServings}
+          >
+            <Save className="mr-2 h-4 w-4" />
+            另存為新食譜
+          </Button>
+        </div>
+
+        {result && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{result.servings} 人份</Badge>
+              <Badge variant="outline">× {Math.round(result.factor * 100) / 100}</Badge>
+              {result.nutrition.totalCalories !== null && (
+                <Badge variant="outline">總卡路里 {result.nutrition.totalCalories} 卡</Badge>
+              )}
+            </div>
+            <div className="space-y-2">
+              {result.ingredients.map((ing) => (
+                <div key={ing.id} className="flex items-center gap-3 py-2 border-b last:border-0 px-2">
+                  <span className="font-medium">{ing.name}</span>
+                  {ing.amount && <span className="text-gray-900">{ing.amount}</span>}
+                  {ing.unit && <span className="text-gray-500">{ing.unit}</span>}
+                  {ing.scaled ? (
+                    <span className="ml-auto text-xs text-gray-400 line-through">
+                      {ing.originalAmount} {ing.originalUnit}
+                    </span>
+                  ) : (
+                    <span className="ml-auto text-xs text-amber-600">按口味調整</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,90 @@
+import { useRef } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Loader2, Sparkles, Trash2, Upload } from "lucide-react";
+import { toast } from "sonner";
+import { ACCEPTED_IMAGE_TYPES, readImageForUpload, validateImageFile } from "@/lib/imageUpload";
+
+interface StepImageEditorProps {
+  stepId: number;
+  imageUrl: string | null;
+  onChange: (imageUrl: string | null) => void;
+}
+
+// 步驟圖片：上傳、AI 生成或移除，操作會立即保存
+export function StepImageEditor({ stepId, imageUrl, onChange }: StepImageEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const uploadImage = trpc.recipes.uploadStepImage.useMutation({
+    onSuccess: (data) => {
+      toast.success("已上傳步驟圖片");
+      onChange(data.imageUrl);
+    },
+    onError: (error) => {
+      toast.error(`上傳失敗: ${error.message}`);
+    },
+  });
+
+  const generateImage = trpc.recipes.generateStepImage.useMutation({
+    onSuccess: (data) => {
+      toast.success("已生成步驟圖片");
+      onChange(data.imageUrl);
+    },
+    onError: (error) => {
+      toast.error(`圖片生成失敗: ${error.message}`);
+    },
+  });
+
+  const removeImage = trpc.recipes.removeStepImage.useMutation({
+    onSuccess: () => {
+      onChange(null);
+    },
+    onError: (error) => {
+      toast.error(`移除失敗: ${error.message}`);
+    },
+  });
+
+  const isPending = uploadImage.isPending || generateImage.isPending || removeImage.isPending;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const error = validateImageFile(file);
+    if (error) {
+      toast.error(error);
+      return;
+    }
+    uploadImage.mutate({ stepId, ...(await readImageForUpload(file)) });
+  };
+
+  return (
+    <div className="flex items-start gap-3">
+      {imageUrl && (
+        <img src={imageUrl} alt="步驟圖片" className="h-20 w-28 rounded object-cover border" />
+      )}
+      <div className="flex flex-wrap gap-2">
+        <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={() => fileInputRef.current?.click()}>
+          {uploadImage.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+          {imageUrl ? "更換圖片" : "上傳圖片"}
+        </Button>
+        <Button type="button" variant="outline" size="sm" disabled={isPending} onClick={() => generateImage.mutate({ stepId })}>
+          {generateImage.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          AI 生成
+        </Button>
+        {imageUrl && (
+          <Button type="button" variant="ghost" size="sm" disabled={isPending} onClick={() => removeImage.mutate({ stepId })}>
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        )}
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(",")}
+          className="hidden"
+          onChange={handleFileChange}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useLocation } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { trpc } from "@/lib/trpc";
+import { toast } from "sonner";
+import { Loader2 } from "lucide-react";
+
+interface SuggestionApplyDialogProps {
+  suggestionId: number;
+  recipeId: number;
+  canEdit: boolean;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const DIFF_STYLES = {
+  added: { label: "新增", className: "bg-green-50 border-green-200", badge: "bg-green-600" },
+  removed: { label: "刪除", className: "bg-red-50 border-red-200", badge: "bg-red-600" },
+  modified: { label: "修改", className: "bg-amber-50 border-amber-200", badge: "bg-amber-600" },
+  unchanged: { label: "", className: "border-gray-100", badge: "" },
+} as const;
+
+const NUTRITION_FIELDS = [
+  { key: "calories", label: "卡路里", unit: "kcal" },
+  { key: "protein", label: "蛋白質", unit: "g" },
+  { key: "carbs", label: "碳水", unit: "g" },
+  { key: "fat", label: "脂肪", unit: "g" },
+  { key: "fiber", label: "纖維", unit: "g" },
+] as const;
+
+function formatIngredient(ingredient: { name: string; amount: string | null; unit: string | null } | null) {
+  if (!ingredient) return "";
+  return [ingredient.name, ingredient.amount, ingredient.unit].filter(Boolean).join(" ");
+}
+
+/**
+ * 預覽改良建議對食材和步驟的修改，並選擇更新原食譜或另存為新食譜
+ */
+export function SuggestionApplyDialog({ suggestionId, recipeId, canEdit, open, onOpenChange }: SuggestionApplyDialogProps) {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const { data: preview, isLoading, error } = trpc.suggestions.previewChanges.useQuery(
+    { suggestionId },
+    { enabled: open, retry: false }
+  );
+
+  const applySuggestion = trpc.suggestions.applyChanges.useMutation({
+    onSuccess: (data) => {
+      utils.suggestions.getByRecipe.invalidate({ recipeId });
+      onOpenChange(false);
+      if (data.mode === "update") {
+        toast.success("已套用建議，原來的內容已保存到版本歷史");
+        utils.recipes.getById.invalidate({ id: recipeId });
+        utils.versions.list.invalidate({ recipeId });
+      } else {
+        toast.success("已另存為新食譜");
+        setLocation(`/recipes/${data.recipeId}`);
+      }
+    },
+    onError: (error) => {
+      toast.error(`套用失敗: ${error.message}`);
+    },
+  });
+
+  const changedIngredients = preview?.ingredientDiff.filter(entry => entry.type !== "unchanged") ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>套用改良建議</DialogTitle>
+          <DialogDescription>
+            確認以下修改後，可以直接更新這個食譜，或另存為新食譜
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center gap-2 py-8 justify-center text-gray-600">
+            <Loader2 className="h-5 w-5 animate-spin" />
+            正在生成預覽...
+          </div>
+        ) : error ? (
+          <p className="py-6 text-center text-red-600">{error.message}</p>
+        ) : preview ? (
+          <div className="space-y-5 py-2">
+            {/* 營養變化 */}
+            <div className="grid grid-cols-5 gap-2 bg-blue-50 p-3 rounded-lg">
+              {NUTRITION_FIELDS.map(field => (
+                <div key={field.key} className="text-center">
+                  <p className="text-xs text-gray-600">{field.label}</p>
+                  <p className="text-xs line-through text-gray-400">{preview.nutrition.before[field.key] ?? "-"}</p>
+                  <p className="font-semibold">
+                    {preview.nutrition.after[field.key]}
+                    <span className="text-xs text-gray-500 ml-0.5">{field.unit}</span>
+                  </p>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <p className="font-medium mb-2">食材修改</p>
+              {changedIngredients.length === 0 ? (
+                <p className="text-sm text-gray-500">食材沒有變化</p>
+              ) : (
+                <div className="space-y-2">
+                  {changedIngredients.map((entry, index) => (
+                    <div key={index} className={`border rounded-lg p-2 text-sm ${DIFF_STYLES[entry.type].className}`}>
+                      <div className="flex items-center gap-2">
+                        <Badge className={DIFF_STYLES[entry.type].badge}>{DIFF_STYLES[entry.type].label}</Badge>
+                        {entry.before && entry.type !== "added" && (
+                          <span className={entry.type === "removed" ? "line-through text-gray-500" : "text-gray-500"}>
+                            {formatIngredient(entry.before)}
+                          </span>
+                        )}
+                        {entry.type === "modified" && <span className="text-gray-400">→</span>}
+                        {entry.after && entry.type !== "removed" && (
+                          <span className="font-medium">{formatIngredient(entry.after)}</span>
+                        )}
+                      </div>
+                      {entry.reason && <p className="text-xs text-gray-600 mt-1">{entry.reason}</p>}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div>
+              <p className="font-medium mb-2">步驟</p>
+              <div className="space-y-2">
+                {preview.stepDiff.map((entry, index) => (
+                  <div key={index} className={`border rounded-lg p-2 text-sm ${DIFF_STYLES[entry.type].className}`}>
+                    <div className="flex items-start gap-2">
+                      <span className="font-semibold text-gray-500 shrink-0">
+                        {entry.after ? entry.after.stepNumber : "-"}.
+                      </span>
+                      <div className="flex-1">
+                        {entry.type !== "unchanged" && (
+                          <Badge className={`${DIFF_STYLES[entry.type].badge} mb-1`}>{DIFF_STYLES[entry.type].label}</Badge>
+                        )}
+                        {entry.type === "modified" && (
+                          <p className="line-through text-gray-500">{entry.before?.instruction}</p>
+                        )}
+                        {entry.type === "removed" ? (
+                          <p className="line-through text-gray-500">{entry.before?.instruction}</p>
+                        ) : (
+                          <p className={entry.type === "unchanged" ? "text-gray-600" : ""}>{entry.after?.instruction}</p>
+                        )}
+                        {entry.reason && <p className="text-xs text-gray-600 mt-1">{entry.reason}</p>}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {preview.skipped.length > 0 && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                <p className="font-medium mb-1">以下修改無法對應原食譜，套用時會略過：</p>
+                <ul className="list-disc list-inside">
+                  {preview.skipped.map((message, index) => (
+                    <li key={index}>{message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        ) : null}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applySuggestion.isPending}>
+            取消
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => applySuggestion.mutate({ suggestionId, mode: "fork" })}
+            disabled={!preview || applySuggestion.isPending}
+          >
+            另存為新食譜
+          </Button>
+          {canEdit && (
+            <Button
+              onClick={() => applySuggestion.mutate({ suggestionId, mode: "update" })}
+              disabled={!preview || applySuggestion.isPending}
+            >
+              {applySuggestion.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              更新此食譜
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -22,9 +22,11 @@ import {
 import { trpc } from "@/lib/trpc";
 import { toast } from "sonner";
 import { Loader2, Lightbulb } from "lucide-react";
+import { SuggestionApplyDialog } from "@/components/SuggestionApplyDialog";
 
 interface SuggestionDialogProps {
   recipeId: number;
+  canEdit?: boolean;
   currentNutrition?: {
     calories?: number;
     protein?: number;
@@ -33,8 +35,10 @@ interface SuggestionDialogProps {
   };
 }
 
-export function SuggestionDialog({ recipeId, currentNutrition }: SuggestionDialogProps) {
+export function SuggestionDialog({ recipeId, canEdit = false, currentNutrition }: SuggestionDialogProps) {
   const [open, setOpen] = useState(false);
+  const [applySuggestionId, setApplySuggestionId] = useState<number | null>(null);
+  const utils = trpc.useUtils();
   const [suggestionType, setSuggestionType] = useState<string>("calories");
   const [suggestionText, setSuggestionText] = useState("");
   const [targetCalories, setTargetCalories] = useState<number | undefined>();
@@ -57,8 +61,11 @@ export function SuggestionDialog({ recipeId, currentNutrition }: SuggestionDialo
   const processSuggestion = trpc.suggestions.process.useMutation({
     onSuccess: (data) => {
       toast.success("AI已生成改良方案!");
-      // 重新加載頁面以顯示建議
-      window.location.reload();
+      utils.suggestions.getByRecipe.invalidate({ recipeId });
+      // 有可套用的修改時直接打開預覽
+      if (data.hasChanges) {
+        setApplySuggestionId(data.suggestionId);
+      }
     },
     onError: (error) => {
       toast.error(`處理失敗: ${error.message}`);
@@ -85,6 +92,7 @@ export function SuggestionDialog({ recipeId, currentNutrition }: SuggestionDialo
   const isProcessing = createSuggestion.isPending || processSuggestion.isPending;
 
   return (
+    <>
     <Dialog open={open} onOpenChange={setOpen}>
       <DialogTrigger asChild>
         <Button variant="outline" size="lg">
@@ -203,5 +211,15 @@ export function SuggestionDialog({ recipeId, currentNutrition }: SuggestionDialo
         </DialogFooter>
       </DialogContent>
     </Dialog>
+    {applySuggestionId !== null && (
+      <SuggestionApplyDialog
+        suggestionId={applySuggestionId}
+        recipeId={recipeId}
+        canEdit={canEdit}
+        open={applySuggestionId !== null}
+        onOpenChange={(value) => !value && setApplySuggestionId(null)}
+      />
+    )}
+    </>
   );
 }
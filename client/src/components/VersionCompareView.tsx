@@ -0,0 +1,284 @@
+import { useEffect, useState } from "react";
+import type { inferRouterOutputs } from "@trpc/server";
+import type { AppRouter } from "../../../server/routers";
+import { trpc } from "@/lib/trpc";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ArrowLeft, Loader2, RotateCcw } from "lucide-react";
+import { toast } from "sonner";
+
+const CURRENT = "current";
+
+type RecipeDiffField = inferRouterOutputs<AppRouter>["versions"]["compare"]["fields"][number]["field"];
+
+const DIFF_STYLES = {
+  added: { label: "新增", className: "bg-green-50 border-green-200" },
+  removed: { label: "刪除", className: "bg-red-50 border-red-200" },
+  modified: { label: "修改", className: "bg-amber-50 border-amber-200" },
+  unchanged: { label: "", className: "border-gray-100" },
+} as const;
+
+interface VersionCompareViewProps {
+  recipeId: number;
+  versions: Array<{ id: number; versionNumber: number }>;
+  initialVersionId: number;
+  onBack: () => void;
+  onRestored: () => void;
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined || value === "") return "（空）";
+  if (typeof value === "boolean") return value ? "已發佈" : "未發佈";
+  return String(value);
+}
+
+function formatIngredient(ingredient: { name: string; amount: string | null; unit: string | null; notes: string | null } | null) {
+  if (!ingredient) return "";
+  const text = [ingredient.name, ingredient.amount, ingredient.unit].filter(Boolean).join(" ");
+  return ingredient.notes ? `${text}（${ingredient.notes}）` : text;
+}
+
+function formatStep(step: { instruction: string; duration: number | null; temperature: string | null } | null) {
+  if (!step) return "";
+  const extras = [step.duration ? `${step.duration} 分鐘` : null, step.temperature].filter(Boolean);
+  return extras.length > 0 ? `${step.instruction}（${extras.join("，")}）` : step.instruction;
+}
+
+/**
+ * 左右對比兩個版本；左邊為目前食譜、右邊為過去版本時，可勾選要還原的部分
+ */
+export function VersionCompareView({ recipeId, versions, initialVersionId, onBack, onRestored }: VersionCompareViewProps) {
+  const utils = trpc.useUtils();
+  const [left, setLeft] = useState<string>(CURRENT);
+  const [right, setRight] = useState<string>(String(initialVersionId));
+  const [selectedFields, setSelectedFields] = useState<Set<RecipeDiffField>>(new Set());
+  const [selectedSteps, setSelectedSteps] = useState<Set<string>>(new Set());
+  const [restoreIngredients, setRestoreIngredients] = useState(false);
+  const [restoreCategories, setRestoreCategories] = useState(false);
+
+  const toVersionId = (value: string) => (value === CURRENT ? null : Number(value));
+  const { data: diff, isLoading } = trpc.versions.compare.useQuery({
+    recipeId,
+    fromVersionId: toVersionId(left),
+    toVersionId: toVersionId(right),
+  });
+
+  // 只有「目前 → 過去版本」的對比可以部分還原
+  const canRestore = left === CURRENT && right !== CURRENT;
+
+  useEffect(() => {
+    setSelectedFields(new Set());
+    setSelectedSteps(new Set());
+    setRestoreIngredients(false);
+    setRestoreCategories(false);
+  }, [left, right]);
+
+  const restoreParts = trpc.versions.restoreParts.useMutation({
+    onSuccess: (data) => {
+      toast.success(`已還原版本 ${data.versionNumber} 的${data.restored.join("、")}`);
+      utils.recipes.getById.invalidate({ id: recipeId });
+      utils.versions.list.invalidate({ recipeId });
+      utils.versions.compare.invalidate();
+      onRestored();
+    },
+    onError: (error) => {
+      toast.error(`還原失敗: ${error.message}`);
+    },
+  });
+
+  const toggle = <T,>(set: Set<T>, update: (next: Set<T>) => void, key: T, checked: boolean) => {
+    const next = new Set(set);
+    if (checked) next.add(key);
+    else next.delete(key);
+    update(next);
+  };
+
+  const nothingSelected = selectedFields.size === 0 && selectedSteps.size === 0 && !restoreIngredients && !restoreCategories;
+
+  const handleRestore = () => {
+    restoreParts.mutate({
+      versionId: Number(right),
+      fields: Array.from(selectedFields),
+      ingredients: restoreIngredients,
+      categories: restoreCategories,
+      stepKeys: Array.from(selectedSteps),
+    });
+  };
+
+  const versionOptions = (
+    <>
+      <SelectItem value={CURRENT}>目前版本</SelectItem>
+      {versions.map(version => (
+        <SelectItem key={version.id} value={String(version.id)}>
+          版本 {version.versionNumber}
+        </SelectItem>
+      ))}
+    </>
+  );
+
+  const ingredientChanges = diff?.ingredients.filter(entry => entry.type !== "unchanged") ?? [];
+  const hasChanges = diff && (
+    diff.fields.length > 0 ||
+    ingredientChanges.length > 0 ||
+    diff.steps.some(entry => entry.type !== "unchanged") ||
+    diff.categories.added.length > 0 ||
+    diff.categories.removed.length > 0
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onBack}>
+          <ArrowLeft className="h-4 w-4 mr-1" />
+          返回列表
+        </Button>
+        <Select value={left} onValueChange={setLeft}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>{versionOptions}</SelectContent>
+        </Select>
+        <span className="text-muted-foreground">↔</span>
+        <Select value={right} onValueChange={setRight}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>{versionOptions}</SelectContent>
+        </Select>
+      </div>
+
+      {canRestore && (
+        <p className="text-xs text-muted-foreground">勾選右邊版本中要還原的內容；還原食材時會一併還原營養成分</p>
+      )}
+
+      {isLoading && (
+        <div className="flex items-center justify-center gap-2 py-8 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          比較中...
+        </div>
+      )}
+
+      {diff && !hasChanges && (
+        <div className="text-center py-8 text-muted-foreground">兩個版本的內容相同</div>
+      )}
+
+      {diff && hasChanges && (
+        <div className="space-y-5 text-sm">
+          {diff.fields.length > 0 && (
+            <section>
+              <p className="font-medium mb-2">食譜資訊</p>
+              <div className="space-y-1">
+                {diff.fields.map(field => (
+                  <div key={field.field} className="grid grid-cols-[1.5rem_6rem_1fr_1fr] gap-2 items-start border rounded p-2">
+                    {canRestore ? (
+                      <Checkbox
+                        checked={selectedFields.has(field.field)}
+                        onCheckedChange={(checked) => toggle(selectedFields, setSelectedFields, field.field, checked === true)}
+                      />
+                    ) : <span />}
+                    <span className="text-muted-foreground">{field.label}</span>
+                    <span className="text-red-700 break-words">{formatValue(field.before)}</span>
+                    <span className="text-green-700 break-words">{formatValue(field.after)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {ingredientChanges.length > 0 && (
+            <section>
+              <div className="flex items-center gap-2 mb-2">
+                {canRestore && (
+                  <Checkbox
+                    checked={restoreIngredients}
+                    onCheckedChange={(checked) => setRestoreIngredients(checked === true)}
+                  />
+                )}
+                <p className="font-medium">食材</p>
+              </div>
+              <div className="space-y-1">
+                {ingredientChanges.map((entry, index) => (
+                  <div key={index} className={`grid grid-cols-[3rem_1fr_1fr] gap-2 border rounded p-2 ${DIFF_STYLES[entry.type].className}`}>
+                    <Badge variant="outline" className="h-fit">{DIFF_STYLES[entry.type].label}</Badge>
+                    <span className={entry.type === "removed" ? "line-through text-gray-500" : ""}>{formatIngredient(entry.before)}</span>
+                    <span>{formatIngredient(entry.after)}</span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {diff.steps.some(entry => entry.type !== "unchanged") && (
+            <section>
+              <p className="font-medium mb-2">步驟</p>
+              <div className="space-y-1">
+                {diff.steps.map(entry => (
+                  <div key={entry.key} className={`grid grid-cols-[1.5rem_3rem_1fr_1fr] gap-2 border rounded p-2 ${DIFF_STYLES[entry.type].className}`}>
+                    {canRestore && entry.type !== "unchanged" ? (
+                      <Checkbox
+                        checked={selectedSteps.has(entry.key)}
+                        onCheckedChange={(checked) => toggle(selectedSteps, setSelectedSteps, entry.key, checked === true)}
+                      />
+                    ) : <span />}
+                    {entry.type !== "unchanged" ? (
+                      <Badge variant="outline" className="h-fit">{DIFF_STYLES[entry.type].label}</Badge>
+                    ) : <span />}
+                    <span className={entry.type === "unchanged" ? "text-muted-foreground" : entry.type === "removed" ? "line-through text-gray-500" : ""}>
+                      {entry.before && `${entry.before.stepNumber}. ${formatStep(entry.before)}`}
+                    </span>
+                    <span className={entry.type === "unchanged" ? "text-muted-foreground" : ""}>
+                      {entry.after && `${entry.after.stepNumber}. ${formatStep(entry.after)}`}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {(diff.categories.added.length > 0 || diff.categories.removed.length > 0) && (
+            <section>
+              <div className="flex items-center gap-2 mb-2">
+                {canRestore && (
+                  <Checkbox
+                    checked={restoreCategories}
+                    onCheckedChange={(checked) => setRestoreCategories(checked === true)}
+                  />
+                )}
+                <p className="font-medium">分類</p>
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {diff.categories.removed.map(category => (
+                  <Badge key={`removed-${category.id}`} variant="outline" className="line-through text-red-700">{category.name}</Badge>
+                ))}
+                {diff.categories.added.map(category => (
+                  <Badge key={`added-${category.id}`} variant="outline" className="text-green-700">+ {category.name}</Badge>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {canRestore && (
+            <div className="flex justify-end">
+              <Button onClick={handleRestore} disabled={nothingSelected || restoreParts.isPending}>
+                {restoreParts.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                ) : (
+                  <RotateCcw className="h-4 w-4 mr-1" />
+                )}
+                還原所選內容
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -19,8 +19,9 @@ import {
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Clock, RotateCcw, ChevronRight } from "lucide-react";
+import { Clock, RotateCcw, ChevronRight, GitCompare } from "lucide-react";
 import { toast } from "sonner";
+import { VersionCompareView } from "@/components/VersionCompareView";
 
 interface VersionHistoryDialogProps {
   recipeId: number;
@@ -38,6 +39,8 @@ export function VersionHistoryDialog({
   const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
   const [showRestoreConfirm, setShowRestoreConfirm] = useState(false);
   const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+  // 正在對比的版本；為 null 時顯示版本列表
+  const [compareVersionId, setCompareVersionId] = useState<number | null>(null);
 
   const utils = trpc.useUtils();
 
@@ -82,28 +85,41 @@ export function VersionHistoryDialog({
   return (
     <>
       <Dialog open={open} onOpenChange={onOpenChange}>
-        <DialogContent className="max-w-3xl max-h-[80vh]">
+        <DialogContent className="max-w-4xl max-h-[80vh]">
           <DialogHeader>
             <DialogTitle>版本歷史</DialogTitle>
             <DialogDescription>
-              查看食譜的所有修改記錄,並可以還原到任何過去的版本
+              查看食譜的所有修改記錄,並可以還原到任何過去的版本,或只還原部分內容
             </DialogDescription>
           </DialogHeader>
 
           <ScrollArea className="h-[500px] pr-4">
-            {isLoading && (
+            {compareVersionId !== null && versions && (
+              <VersionCompareView
+                recipeId={recipeId}
+                versions={versions}
+                initialVersionId={compareVersionId}
+                onBack={() => setCompareVersionId(null)}
+                onRestored={() => {
+                  setCompareVersionId(null);
+                  onRestoreSuccess?.();
+                }}
+              />
+            )}
+
+            {compareVersionId === null && isLoading && (
               <div className="text-center py-8 text-muted-foreground">
                 載入中...
               </div>
             )}
 
-            {!isLoading && (!versions || versions.length === 0) && (
+            {compareVersionId === null && !isLoading && (!versions || versions.length === 0) && (
               <div className="text-center py-8 text-muted-foreground">
                 暫無版本歷史記錄
               </div>
             )}
 
-            {versions && versions.length > 0 && (
+            {compareVersionId === null && versions && versions.length > 0 && (
               <div className="space-y-3">
                 {versions.map((version) => (
                   <div
@@ -196,17 +212,27 @@ export function VersionHistoryDialog({
                         )}
                       </div>
 
-                      <Button
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setSelectedVersion(version.id);
-                          setShowRestoreConfirm(true);
-                        }}
-                      >
-                        <RotateCcw className="h-4 w-4 mr-1" />
-                        還原
-                      </Button>
+                      <div className="flex flex-col gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setCompareVersionId(version.id)}
+                        >
+                          <GitCompare className="h-4 w-4 mr-1" />
+                          比較
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedVersion(version.id);
+                            setShowRestoreConfirm(true);
+                          }}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          還原
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 ))}
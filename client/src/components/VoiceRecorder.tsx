@@ -0,0 +1,132 @@
+import { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Mic, Square, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+// 錄音上限(約 32kbps 的 opus 錄音，10 分鐘遠低於 16MB 的轉錄上限)
+const MAX_RECORDING_SECONDS = 10 * 60;
+
+// 按瀏覽器支援程度選擇錄音格式(Safari 只支援 mp4)
+const RECORDING_MIME_TYPES = ["audio/webm", "audio/ogg", "audio/mp4"];
+
+interface VoiceRecorderProps {
+  audio: Blob | null;
+  onChange: (audio: Blob | null) => void;
+  disabled?: boolean;
+}
+
+function formatElapsed(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+export function VoiceRecorder({ audio, onChange, disabled }: VoiceRecorderProps) {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const timerRef = useRef<number | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!audio) {
+      setAudioUrl(null);
+      return;
+    }
+    const url = URL.createObjectURL(audio);
+    setAudioUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [audio]);
+
+  // 離開頁面時停止錄音並釋放麥克風
+  useEffect(() => {
+    return () => {
+      if (timerRef.current !== null) window.clearInterval(timerRef.current);
+      if (recorderRef.current?.state === "recording") recorderRef.current.stop();
+    };
+  }, []);
+
+  const stopRecording = () => {
+    if (timerRef.current !== null) {
+      window.clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+    if (recorderRef.current?.state === "recording") {
+      recorderRef.current.stop();
+    }
+    setIsRecording(false);
+  };
+
+  const startRecording = async () => {
+    if (!navigator.mediaDevices?.getUserMedia || typeof MediaRecorder === "undefined") {
+      toast.error("此瀏覽器不支援錄音，請上傳錄音檔案");
+      return;
+    }
+
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch {
+      toast.error("無法使用麥克風，請檢查瀏覽器權限");
+      return;
+    }
+
+    const mimeType = RECORDING_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => {
+      if (e.data.size > 0) chunks.push(e.data);
+    };
+    recorder.onstop = () => {
+      stream.getTracks().forEach((track) => track.stop());
+      onChange(new Blob(chunks, { type: recorder.mimeType || mimeType || "audio/webm" }));
+    };
+
+    recorderRef.current = recorder;
+    recorder.start();
+    onChange(null);
+    setElapsed(0);
+    setIsRecording(true);
+    timerRef.current = window.setInterval(() => {
+      setElapsed((seconds) => seconds + 1);
+    }, 1000);
+  };
+
+  useEffect(() => {
+    if (isRecording && elapsed >= MAX_RECORDING_SECONDS) {
+      toast.info("已達錄音上限 10 分鐘");
+      stopRecording();
+    }
+  }, [isRecording, elapsed]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-3">
+        {isRecording ? (
+          <Button type="button" variant="destructive" onClick={stopRecording}>
+            <Square className="mr-2 h-4 w-4" />
+            停止錄音
+          </Button>
+        ) : (
+          <Button type="button" variant="outline" onClick={startRecording} disabled={disabled}>
+            <Mic className="mr-2 h-4 w-4" />
+            {audio ? "重新錄音" : "開始錄音"}
+          </Button>
+        )}
+        {isRecording && (
+          <span className="flex items-center gap-2 text-sm text-red-600">
+            <span className="h-2 w-2 rounded-full bg-red-600 animate-pulse" />
+            錄音中 {formatElapsed(elapsed)}
+          </span>
+        )}
+      </div>
+      {audioUrl && !isRecording && (
+        <div className="flex items-center gap-2">
+          <audio src={audioUrl} controls className="w-full" />
+          <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} disabled={disabled}>
+            <Trash2 className="h-4 w-4 text-red-500" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,15 +4,19 @@ export const APP_TITLE = import.meta.env.VITE_APP_TITLE || "App";
 
 export const APP_LOGO = "https://placehold.co/128x128/E1E7EF/1F2937?text=App";
 
-// Generate login URL at runtime so redirect URI reflects the current origin.
-export const getLoginUrl = () => {
+// 登入頁(本地帳號登入/註冊，已配置 OAuth 時同時提供 OAuth 登入)
+export const LOGIN_PATH = "/login";
+
+export const getLoginUrl = () => LOGIN_PATH;
+
+// Generate OAuth login URL at runtime so redirect URI reflects the current origin.
+// Returns null when OAuth is not configured.
+export const getOAuthLoginUrl = () => {
   const oauthPortalUrl = import.meta.env.VITE_OAUTH_PORTAL_URL;
   const appId = import.meta.env.VITE_APP_ID;
-  
-  // If OAuth is not configured, return a placeholder URL
+
   if (!oauthPortalUrl) {
-    console.warn("OAuth portal URL is not configured. Authentication features will not work.");
-    return "#"; // Return a safe placeholder
+    return null;
   }
   
   const redirectUri = `${window.location.origin}/api/oauth/callback`;
@@ -0,0 +1,23 @@
+import { useCallback, useState } from "react";
+import { DEFAULT_HEALTH_PROFILE, HEALTH_PROFILE_KEYS, type HealthProfileKey } from "@shared/healthScore";
+
+const HEALTH_PROFILE_KEY = "healthProfile";
+
+function readStoredProfile(): HealthProfileKey {
+  const saved = localStorage.getItem(HEALTH_PROFILE_KEY);
+  return HEALTH_PROFILE_KEYS.find(key => key === saved) ?? DEFAULT_HEALTH_PROFILE;
+}
+
+/**
+ * 用戶選擇的健康評分配置(保存在 localStorage，瀏覽、詳情和對比頁共用)
+ */
+export function useHealthProfile() {
+  const [profile, setProfileState] = useState<HealthProfileKey>(readStoredProfile);
+
+  const setProfile = useCallback((next: HealthProfileKey) => {
+    localStorage.setItem(HEALTH_PROFILE_KEY, next);
+    setProfileState(next);
+  }, []);
+
+  return [profile, setProfile] as const;
+}
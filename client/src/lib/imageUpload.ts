@@ -0,0 +1,35 @@
+// 上傳圖片(食譜封面、步驟圖片)的前端檢查和編碼，與伺服器 analyzeImageSchema 的限制一致
+
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic"] as const;
+export const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+
+export type AcceptedImageType = (typeof ACCEPTED_IMAGE_TYPES)[number];
+
+/**
+ * 檢查圖片格式和大小，返回錯誤訊息；沒有問題時返回 null
+ */
+export function validateImageFile(file: File): string | null {
+  if (!(ACCEPTED_IMAGE_TYPES as readonly string[]).includes(file.type)) {
+    return "只支援 JPG、PNG、WEBP 或 HEIC 圖片";
+  }
+  if (file.size > MAX_IMAGE_SIZE) {
+    return "圖片太大，請上傳 10MB 以內的圖片";
+  }
+  return null;
+}
+
+/**
+ * 讀取圖片為上傳 API 需要的格式(不含 data: 前綴的 base64)
+ */
+export async function readImageForUpload(file: File): Promise<{ imageBase64: string; mimeType: AcceptedImageType }> {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  return {
+    imageBase64: dataUrl.substring(dataUrl.indexOf(",") + 1),
+    mimeType: file.type as AcceptedImageType,
+  };
+}
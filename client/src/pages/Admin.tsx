@@ -0,0 +1,693 @@
+import DashboardLayout from "@/components/DashboardLayout";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { trpc } from "@/lib/trpc";
+import { Check, Eye, EyeOff, GitMerge, Loader2, Pencil, Plus, RotateCcw, Save, ShieldAlert, Star, Trash2, X } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Link } from "wouter";
+import { toast } from "sonner";
+import {
+  DEFAULT_HEALTH_PROFILE,
+  HEALTH_METRIC_LABELS,
+  HEALTH_METRICS,
+  HEALTH_OPERATOR_LABELS,
+  type HealthMetric,
+  type HealthProfileKey,
+  type HealthRule,
+  type HealthRuleOperator,
+} from "@shared/healthScore";
+
+type CategoryType = "ingredient" | "cuisine" | "method" | "health";
+
+const CATEGORY_TYPE_NAMES: Record<CategoryType, string> = {
+  ingredient: "主要食材",
+  cuisine: "菜系分類",
+  method: "烹調方法",
+  health: "健康標籤",
+};
+
+export default function Admin() {
+  const { user, loading } = useAuth();
+
+  if (loading) {
+    return (
+      <DashboardLayout>
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (user?.role !== "admin") {
+    return (
+      <DashboardLayout>
+        <Card className="max-w-lg mx-auto mt-12">
+          <CardHeader className="text-center">
+            <ShieldAlert className="h-10 w-10 text-red-500 mx-auto mb-2" />
+            <CardTitle>沒有權限</CardTitle>
+            <CardDescription>只有管理員可以進入管理後台</CardDescription>
+          </CardHeader>
+        </Card>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">管理後台</h1>
+          <p className="text-gray-600 mt-2">管理用戶角色、食譜分類、健康評分規則和內容審核</p>
+        </div>
+
+        <Tabs defaultValue="users">
+          <TabsList>
+            <TabsTrigger value="users">用戶</TabsTrigger>
+            <TabsTrigger value="categories">分類</TabsTrigger>
+            <TabsTrigger value="healthProfiles">健康評分</TabsTrigger>
+            <TabsTrigger value="moderation">審核</TabsTrigger>
+          </TabsList>
+          <TabsContent value="users">
+            <UsersPanel currentUserId={user.id} />
+          </TabsContent>
+          <TabsContent value="categories">
+            <CategoriesPanel />
+          </TabsContent>
+          <TabsContent value="healthProfiles">
+            <HealthProfilesPanel />
+          </TabsContent>
+          <TabsContent value="moderation">
+            <ModerationPanel />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </DashboardLayout>
+  );
+}
+
+function UsersPanel({ currentUserId }: { currentUserId: number }) {
+  const utils = trpc.useUtils();
+  const { data: users, isLoading } = trpc.admin.listUsers.useQuery();
+
+  const setRoleMutation = trpc.admin.setUserRole.useMutation({
+    onSuccess: () => {
+      toast.success("已更新用戶角色");
+      utils.admin.listUsers.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`更新失敗: ${error.message}`);
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>用戶管理</CardTitle>
+        <CardDescription>設定用戶為管理員或一般用戶</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>用戶</TableHead>
+                <TableHead>登入方式</TableHead>
+                <TableHead>食譜數量</TableHead>
+                <TableHead>最後登入</TableHead>
+                <TableHead>角色</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users?.map((u) => (
+                <TableRow key={u.id}>
+                  <TableCell>
+                    <div className="font-medium">{u.name || "-"}</div>
+                    <div className="text-xs text-gray-500">{u.email || u.openId}</div>
+                  </TableCell>
+                  <TableCell>{u.loginMethod || "-"}</TableCell>
+                  <TableCell>{u.recipeCount}</TableCell>
+                  <TableCell>{new Date(u.lastSignedIn).toLocaleString("zh-HK")}</TableCell>
+                  <TableCell>
+                    <Select
+                      value={u.role}
+                      disabled={u.id === currentUserId || setRoleMutation.isPending}
+                      onValueChange={(role) => setRoleMutation.mutate({ userId: u.id, role: role as "user" | "admin" })}
+                    >
+                      <SelectTrigger className="w-28">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="user">用戶</SelectItem>
+                        <SelectItem value="admin">管理員</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function CategoriesPanel() {
+  const utils = trpc.useUtils();
+  const { data: categories, isLoading } = trpc.admin.listCategories.useQuery();
+  const [newName, setNewName] = useState("");
+  const [newType, setNewType] = useState<CategoryType>("ingredient");
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editingName, setEditingName] = useState("");
+  const [mergingId, setMergingId] = useState<number | null>(null);
+
+  const onChanged = () => {
+    utils.admin.listCategories.invalidate();
+    utils.categories.list.invalidate();
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(`操作失敗: ${error.message}`);
+  };
+
+  const createMutation = trpc.admin.createCategory.useMutation({
+    onSuccess: () => {
+      toast.success("已新增分類");
+      setNewName("");
+      onChanged();
+    },
+    onError,
+  });
+  const updateMutation = trpc.admin.updateCategory.useMutation({
+    onSuccess: () => {
+      toast.success("已重新命名分類");
+      setEditingId(null);
+      onChanged();
+    },
+    onError,
+  });
+  const mergeMutation = trpc.admin.mergeCategories.useMutation({
+    onSuccess: () => {
+      toast.success("已合併分類");
+      setMergingId(null);
+      onChanged();
+    },
+    onError,
+  });
+  const deleteMutation = trpc.admin.deleteCategory.useMutation({
+    onSuccess: () => {
+      toast.success("已刪除分類");
+      onChanged();
+    },
+    onError,
+  });
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    createMutation.mutate({ name: newName.trim(), type: newType });
+  };
+
+  const handleDelete = (id: number, name: string, recipeCount: number) => {
+    const message = recipeCount > 0
+      ? `「${name}」正被 ${recipeCount} 個食譜使用，確定要刪除嗎？`
+      : `確定要刪除「${name}」嗎？`;
+    if (confirm(message)) {
+      deleteMutation.mutate({ id });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>分類管理</CardTitle>
+        <CardDescription>新增、重新命名、合併或刪除食譜分類</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleCreate} className="flex flex-wrap gap-2">
+          <Select value={newType} onValueChange={(value) => setNewType(value as CategoryType)}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(CATEGORY_TYPE_NAMES) as CategoryType[]).map((type) => (
+                <SelectItem key={type} value={type}>{CATEGORY_TYPE_NAMES[type]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="分類名稱" className="w-48" />
+          <Button type="submit" disabled={createMutation.isPending || !newName.trim()}>
+            <Plus className="mr-2 h-4 w-4" />
+            新增分類
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : (
+          (Object.keys(CATEGORY_TYPE_NAMES) as CategoryType[]).map((type) => {
+            const cats = categories?.filter((c) => c.type === type) ?? [];
+            return (
+              <div key={type} className="space-y-2">
+                <h3 className="text-sm font-semibold text-gray-700">{CATEGORY_TYPE_NAMES[type]}</h3>
+                {cats.length === 0 && <p className="text-sm text-gray-400">沒有分類</p>}
+                {cats.map((cat) => (
+                  <div key={cat.id} className="flex flex-wrap items-center gap-2 py-2 border-b last:border-0 px-2">
+                    {editingId === cat.id ? (
+                      <>
+                        <Input value={editingName} onChange={(e) => setEditingName(e.target.value)} className="w-48 h-8" />
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          disabled={!editingName.trim() || updateMutation.isPending}
+                          onClick={() => updateMutation.mutate({ id: cat.id, name: editingName.trim() })}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => setEditingId(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <span className="font-medium">{cat.name}</span>
+                    )}
+                    <Badge variant="secondary">{cat.recipeCount} 個食譜</Badge>
+
+                    {mergingId === cat.id && (
+                      <Select
+                        onValueChange={(value) => mergeMutation.mutate({ sourceId: cat.id, targetId: Number(value) })}
+                      >
+                        <SelectTrigger className="w-40 h-8">
+                          <SelectValue placeholder="合併到…" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {cats.filter((c) => c.id !== cat.id).map((c) => (
+                            <SelectItem key={c.id} value={String(c.id)}>{c.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+
+                    <div className="ml-auto flex gap-1">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="重新命名"
+                        onClick={() => {
+                          setEditingId(cat.id);
+                          setEditingName(cat.name);
+                        }}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="合併"
+                        disabled={cats.length < 2}
+                        onClick={() => setMergingId(mergingId === cat.id ? null : cat.id)}
+                      >
+                        <GitMerge className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        title="刪除"
+                        onClick={() => handleDelete(cat.id, cat.name, cat.recipeCount)}
+                      >
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// 編輯中的規則：數字和關鍵字保留輸入的文字，保存時才轉換
+interface DraftRule {
+  type: HealthRule["type"];
+  label: string;
+  metric: HealthMetric;
+  operator: HealthRuleOperator;
+  value: string;
+  keywords: string;
+  points: string;
+}
+
+function toDraftRule(rule: HealthRule): DraftRule {
+  return rule.type === "nutrient"
+    ? { type: "nutrient", label: rule.label, metric: rule.metric, operator: rule.operator, value: String(rule.value), keywords: "", points: String(rule.points) }
+    : { type: "keyword", label: rule.label, metric: "calories", operator: "lt", value: "", keywords: rule.keywords.join("、"), points: String(rule.points) };
+}
+
+function fromDraftRule(rule: DraftRule): HealthRule {
+  const points = Number(rule.points) || 0;
+  return rule.type === "nutrient"
+    ? { type: "nutrient", label: rule.label.trim(), metric: rule.metric, operator: rule.operator, value: Number(rule.value) || 0, points }
+    : { type: "keyword", label: rule.label.trim(), keywords: rule.keywords.split(/[,，、\s]+/).filter(Boolean), points };
+}
+
+function HealthProfilesPanel() {
+  const utils = trpc.useUtils();
+  const { data: profiles, isLoading } = trpc.healthProfiles.list.useQuery();
+  const [selectedKey, setSelectedKey] = useState<HealthProfileKey>(DEFAULT_HEALTH_PROFILE);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [rules, setRules] = useState<DraftRule[]>([]);
+
+  const profile = profiles?.find((p) => p.key === selectedKey);
+
+  // 切換配置或重新載入後，用已保存的內容重設編輯區
+  useEffect(() => {
+    if (!profile) return;
+    setName(profile.name);
+    setDescription(profile.description ?? "");
+    setRules(profile.rules.map(toDraftRule));
+  }, [profile]);
+
+  const onChanged = () => {
+    utils.healthProfiles.invalidate();
+    utils.recipes.browse.invalidate();
+  };
+  const onError = (error: { message: string }) => {
+    toast.error(`操作失敗: ${error.message}`);
+  };
+
+  const updateMutation = trpc.admin.updateHealthProfile.useMutation({
+    onSuccess: () => {
+      toast.success("已保存評分規則");
+      onChanged();
+    },
+    onError,
+  });
+  const resetMutation = trpc.admin.resetHealthProfile.useMutation({
+    onSuccess: () => {
+      toast.success("已恢復默認規則");
+      onChanged();
+    },
+    onError,
+  });
+
+  const updateRule = (index: number, patch: Partial<DraftRule>) => {
+    setRules((prev) => prev.map((rule, i) => (i === index ? { ...rule, ...patch } : rule)));
+  };
+
+  const addRule = (type: DraftRule["type"]) => {
+    setRules((prev) => [
+      ...prev,
+      { type, label: "", metric: "calories", operator: "lt", value: "", keywords: "", points: "1" },
+    ]);
+  };
+
+  const handleSave = () => {
+    updateMutation.mutate({
+      key: selectedKey,
+      name: name.trim(),
+      description: description.trim() || null,
+      rules: rules.map(fromDraftRule),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>健康評分規則</CardTitle>
+        <CardDescription>
+          每個飲食配置由 5 分開始，符合規則時加減分數，結果限制在 1-10 分；營養數值按每份計算，關鍵字在標題、食材和步驟中查找
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2">
+              <Select value={selectedKey} onValueChange={(value) => setSelectedKey(value as HealthProfileKey)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {profiles?.map((p) => (
+                    <SelectItem key={p.key} value={p.key}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {profile?.isCustomized && <Badge variant="secondary">已修改</Badge>}
+            </div>
+
+            <div className="grid gap-2 md:grid-cols-2">
+              <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="配置名稱" />
+              <Input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="說明" />
+            </div>
+
+            <div className="space-y-2">
+              {rules.map((rule, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2 py-2 border-b last:border-0">
+                  <Select
+                    value={rule.type}
+                    onValueChange={(value) => updateRule(index, { type: value as DraftRule["type"] })}
+                  >
+                    <SelectTrigger className="w-28 h-8">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="nutrient">營養</SelectItem>
+                      <SelectItem value="keyword">關鍵字</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    value={rule.label}
+                    onChange={(e) => updateRule(index, { label: e.target.value })}
+                    placeholder="規則名稱"
+                    className="w-36 h-8"
+                  />
+                  {rule.type === "nutrient" ? (
+                    <>
+                      <Select
+                        value={rule.metric}
+                        onValueChange={(value) => updateRule(index, { metric: value as HealthMetric })}
+                      >
+                        <SelectTrigger className="w-44 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {HEALTH_METRICS.map((metric) => (
+                            <SelectItem key={metric} value={metric}>{HEALTH_METRIC_LABELS[metric]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select
+                        value={rule.operator}
+                        onValueChange={(value) => updateRule(index, { operator: value as HealthRuleOperator })}
+                      >
+                        <SelectTrigger className="w-20 h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(HEALTH_OPERATOR_LABELS) as HealthRuleOperator[]).map((operator) => (
+                            <SelectItem key={operator} value={operator}>{HEALTH_OPERATOR_LABELS[operator]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        type="number"
+                        value={rule.value}
+                        onChange={(e) => updateRule(index, { value: e.target.value })}
+                        className="w-24 h-8"
+                      />
+                    </>
+                  ) : (
+                    <Input
+                      value={rule.keywords}
+                      onChange={(e) => updateRule(index, { keywords: e.target.value })}
+                      placeholder="關鍵字，以「、」分隔"
+                      className="flex-1 min-w-48 h-8"
+                    />
+                  )}
+                  <span className="text-sm text-gray-500">分數</span>
+                  <Input
+                    type="number"
+                    value={rule.points}
+                    onChange={(e) => updateRule(index, { points: e.target.value })}
+                    className="w-20 h-8"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="刪除規則"
+                    className="ml-auto"
+                    onClick={() => setRules((prev) => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" size="sm" onClick={() => addRule("nutrient")}>
+                <Plus className="mr-2 h-4 w-4" />
+                營養規則
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => addRule("keyword")}>
+                <Plus className="mr-2 h-4 w-4" />
+                關鍵字規則
+              </Button>
+              <div className="ml-auto flex gap-2">
+                <Button
+                  variant="outline"
+                  disabled={!profile?.isCustomized || resetMutation.isPending}
+                  onClick={() => {
+                    if (confirm(`確定要把「${profile?.name}」恢復為默認規則嗎？`)) {
+                      resetMutation.mutate({ key: selectedKey });
+                    }
+                  }}
+                >
+                  <RotateCcw className="mr-2 h-4 w-4" />
+                  恢復默認
+                </Button>
+                <Button
+                  disabled={updateMutation.isPending || !name.trim() || rules.length === 0}
+                  onClick={handleSave}
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  保存
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function ModerationPanel() {
+  const utils = trpc.useUtils();
+  const { data: publishedRecipes, isLoading: recipesLoading } = trpc.admin.listPublishedRecipes.useQuery({ limit: 50 });
+  const { data: reviews, isLoading: reviewsLoading } = trpc.admin.listReviews.useQuery({ limit: 50 });
+
+  const unpublishMutation = trpc.admin.unpublishRecipe.useMutation({
+    onSuccess: () => {
+      toast.success("已下架食譜");
+      utils.admin.listPublishedRecipes.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`下架失敗: ${error.message}`);
+    },
+  });
+
+  const setHiddenMutation = trpc.admin.setReviewHidden.useMutation({
+    onSuccess: (_, variables) => {
+      toast.success(variables.isHidden ? "已隱藏評論" : "已恢復評論");
+      utils.admin.listReviews.invalidate();
+    },
+    onError: (error) => {
+      toast.error(`操作失敗: ${error.message}`);
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>已發佈食譜</CardTitle>
+          <CardDescription>下架不適當的食譜，作者仍然可以在自己的控制台看到，但不能自行重新發佈</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {recipesLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : publishedRecipes && publishedRecipes.length > 0 ? (
+            <div className="space-y-2">
+              {publishedRecipes.map((recipe) => (
+                <div key={recipe.id} className="flex items-center gap-3 py-2 border-b last:border-0 px-2">
+                  <div className="min-w-0">
+                    <Link href={`/browse/${recipe.id}`}>
+                      <span className="font-medium hover:underline cursor-pointer">{recipe.title}</span>
+                    </Link>
+                    <div className="text-xs text-gray-500">
+                      {recipe.userName || `用戶 #${recipe.userId}`} · {new Date(recipe.updatedAt).toLocaleString("zh-HK")}
+                    </div>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    disabled={unpublishMutation.isPending}
+                    onClick={() => {
+                      if (confirm(`確定要下架「${recipe.title}」嗎？`)) {
+                        unpublishMutation.mutate({ id: recipe.id });
+                      }
+                    }}
+                  >
+                    <EyeOff className="mr-2 h-4 w-4" />
+                    下架
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">沒有已發佈的食譜</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>最新評論</CardTitle>
+          <CardDescription>隱藏的評論不會在食譜頁面顯示，也不會計入平均評分</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reviewsLoading ? (
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          ) : reviews && reviews.length > 0 ? (
+            <div className="space-y-2">
+              {reviews.map((review) => (
+                <div key={review.id} className={`flex items-start gap-3 py-2 border-b last:border-0 px-2 ${review.isHidden ? "opacity-60" : ""}`}>
+                  <div className="min-w-0 space-y-1">
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <span className="font-medium">{review.userName || `用戶 #${review.userId}`}</span>
+                      <span className="flex items-center text-amber-500">
+                        <Star className="h-3 w-3 fill-current mr-1" />
+                        {review.rating}
+                      </span>
+                      <span className="text-gray-500">於「{review.recipeTitle ?? "已刪除的食譜"}」</span>
+                      {review.isHidden && <Badge variant="outline">已隱藏</Badge>}
+                    </div>
+                    {review.comment && <p className="text-sm text-gray-700">{review.comment}</p>}
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="ml-auto"
+                    disabled={setHiddenMutation.isPending}
+                    onClick={() => setHiddenMutation.mutate({ id: review.id, isHidden: !review.isHidden })}
+                  >
+                    {review.isHidden ? <Eye className="mr-2 h-4 w-4" /> : <EyeOff className="mr-2 h-4 w-4" />}
+                    {review.isHidden ? "恢復" : "隱藏"}
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-400">沒有評論</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
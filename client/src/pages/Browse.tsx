@@ -13,13 +13,35 @@ import {
   PaginationEllipsis,
 } from "@/components/ui/pagination";
 import { trpc } from "@/lib/trpc";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Link } from "wouter";
-import { Search, Filter, Utensils, Flame, Beef } from "lucide-react";
+import { Search, Filter, Utensils, Flame, Beef, AlertTriangle, HeartPulse } from "lucide-react";
 import { APP_LOGO, APP_TITLE } from "@/const";
 import { StarRating } from "@/components/StarRating";
+import { HealthProfileSelect } from "@/components/HealthProfileSelect";
+import { useHealthProfile } from "@/hooks/useHealthProfile";
+import { extractSearchTerms, splitHighlightSegments } from "@shared/search";
+import { ALLERGEN_CODES, ALLERGEN_LABELS, type AllergenCode } from "@shared/allergens";
 
 const RECIPES_PER_PAGE = 12;
+const SEARCH_DEBOUNCE_MS = 300;
+
+// 小組件：高亮搜索關鍵詞
+function HighlightedText({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlightSegments(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 text-inherit rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
 
 // 小組件：顯示食譜評分
 function RecipeRatingDisplay({ recipeId }: { recipeId: number }) {
@@ -41,26 +63,41 @@ function RecipeRatingDisplay({ recipeId }: { recipeId: number }) {
 
 export default function Browse() {
   const [search, setSearch] = useState("");
+  const [debouncedSearch, setDebouncedSearch] = useState("");
   const [selectedCategories, setSelectedCategories] = useState<number[]>([]);
   const [minCalories, setMinCalories] = useState<string>("");
   const [maxCalories, setMaxCalories] = useState<string>("");
   const [minProtein, setMinProtein] = useState<string>("");
   const [maxProtein, setMaxProtein] = useState<string>("");
+  const [excludedAllergens, setExcludedAllergens] = useState<AllergenCode[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
+  const [healthProfile, setHealthProfile] = useHealthProfile();
+  const [sort, setSort] = useState<"newest" | "healthScore">("newest");
 
   const { data: categories } = trpc.categories.list.useQuery();
+
+  // 停止輸入後才搜索，避免每個按鍵都查詢一次
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearch(search.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const searchTerms = useMemo(() => extractSearchTerms(debouncedSearch), [debouncedSearch]);
   
   // 計算offset
   const offset = (currentPage - 1) * RECIPES_PER_PAGE;
   
   const { data: recipes, isLoading } = trpc.recipes.browse.useQuery({
-    search: search || undefined,
+    search: debouncedSearch || undefined,
     categoryIds: selectedCategories.length > 0 ? selectedCategories : undefined,
     minCalories: minCalories ? parseInt(minCalories) : undefined,
     maxCalories: maxCalories ? parseInt(maxCalories) : undefined,
     minProtein: minProtein ? parseInt(minProtein) : undefined,
     maxProtein: maxProtein ? parseInt(maxProtein) : undefined,
+    excludeAllergens: excludedAllergens.length > 0 ? excludedAllergens : undefined,
+    healthProfile,
+    sort,
     limit: RECIPES_PER_PAGE,
     offset: offset,
   });
@@ -68,7 +105,7 @@ export default function Browse() {
   // 當篩選條件改變時，重置到第一頁
   useEffect(() => {
     setCurrentPage(1);
-  }, [search, selectedCategories, minCalories, maxCalories, minProtein, maxProtein]);
+  }, [debouncedSearch, selectedCategories, minCalories, maxCalories, minProtein, maxProtein, excludedAllergens, healthProfile, sort]);
 
   // 判斷是否還有更多頁面（如果返回的結果等於每頁數量，可能還有更多）
   const hasMore = recipes && recipes.length === RECIPES_PER_PAGE;
@@ -81,6 +118,14 @@ export default function Browse() {
     );
   };
 
+  const toggleAllergen = (code: AllergenCode) => {
+    setExcludedAllergens(prev =>
+      prev.includes(code)
+        ? prev.filter(c => c !== code)
+        : [...prev, code]
+    );
+  };
+
   const clearFilters = () => {
     setSearch("");
     setSelectedCategories([]);
@@ -88,6 +133,7 @@ export default function Browse() {
     setMaxCalories("");
     setMinProtein("");
     setMaxProtein("");
+    setExcludedAllergens([]);
   };
 
   const categoriesByType = {
@@ -134,7 +180,7 @@ export default function Browse() {
             <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 h-5 w-5 text-gray-400" />
             <Input
               type="text"
-              placeholder="搜索食譜名稱或描述..."
+              placeholder="搜索食譜名稱、食材或步驟..."
               value={search}
               onChange={(e) => setSearch(e.target.value)}
               className="pl-12 pr-4 py-6 text-lg"
@@ -142,6 +188,24 @@ export default function Browse() {
           </div>
         </div>
 
+        {/* Health Profile & Sort */}
+        <div className="max-w-3xl mx-auto mb-4 flex flex-wrap items-center gap-3">
+          <Label className="text-sm text-gray-700 flex items-center gap-1">
+            <HeartPulse className="h-4 w-4 text-green-600" />
+            健康評分配置
+          </Label>
+          <HealthProfileSelect value={healthProfile} onChange={setHealthProfile} />
+          <Select value={sort} onValueChange={(value) => setSort(value === "healthScore" ? "healthScore" : "newest")}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="newest">{debouncedSearch ? "按相關度" : "按最新"}</SelectItem>
+              <SelectItem value="healthScore">按健康評分</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
         {/* Filter Toggle */}
         <div className="max-w-3xl mx-auto mb-6">
           <Button
@@ -251,6 +315,27 @@ export default function Browse() {
                 </div>
               </div>
 
+              {/* Allergen Filters */}
+              <div>
+                <Label className="text-sm font-semibold text-gray-700 mb-2 block">
+                  <AlertTriangle className="inline h-4 w-4 mr-1" />
+                  排除過敏原
+                </Label>
+                <div className="flex flex-wrap gap-2">
+                  {ALLERGEN_CODES.map(code => (
+                    <Button
+                      key={code}
+                      variant={excludedAllergens.includes(code) ? "destructive" : "outline"}
+                      size="sm"
+                      onClick={() => toggleAllergen(code)}
+                    >
+                      {ALLERGEN_LABELS[code]}
+                    </Button>
+                  ))}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">根據食材名稱自動檢測，僅供參考</p>
+              </div>
+
               <Button variant="ghost" onClick={clearFilters} className="w-full">
                 清除所有篩選
               </Button>
@@ -285,12 +370,19 @@ export default function Browse() {
                         </div>
                       )}
                       <CardHeader>
-                        <CardTitle className="line-clamp-2">{recipe.title}</CardTitle>
+                        <CardTitle className="line-clamp-2">
+                          <HighlightedText text={recipe.title} terms={searchTerms} />
+                        </CardTitle>
                         {recipe.description && (
                           <CardDescription className="line-clamp-2">
-                            {recipe.description}
+                            <HighlightedText text={recipe.description} terms={searchTerms} />
                           </CardDescription>
                         )}
+                        {recipe.snippet && (
+                          <p className="text-xs text-gray-500 line-clamp-2">
+                            <HighlightedText text={recipe.snippet} terms={searchTerms} />
+                          </p>
+                        )}
                       </CardHeader>
                       <CardContent>
                         <RecipeRatingDisplay recipeId={recipe.id} />
@@ -312,6 +404,15 @@ export default function Browse() {
                               <span>{recipe.servings} 人份</span>
                             </div>
                           )}
+                          {recipe.healthScore && (
+                            <div
+                              className="flex items-center gap-1 ml-auto"
+                              title={recipe.healthScore.matches.map(match => match.label).join("、")}
+                            >
+                              <HeartPulse className="h-4 w-4 text-green-600" />
+                              <span className="font-semibold text-green-700">{recipe.healthScore.score}/10</span>
+                            </div>
+                          )}
                         </div>
                       </CardContent>
                     </Card>
@@ -8,7 +8,13 @@ import { APP_TITLE } from "@/const";
 import { Streamdown } from "streamdown";
 import { toast } from "sonner";
 import { useState } from "react";
+import { parseStepDependencies } from "@shared/timeline";
 import { EditRecipeDialog } from "@/components/EditRecipeDialog";
+import { useAuth } from "@/_core/hooks/useAuth";
+import { ServingsScalerCard } from "@/components/ServingsScalerCard";
+import { AllergenCard } from "@/components/AllergenCard";
+import { HealthScoreCard } from "@/components/HealthScoreCard";
+import { RecipeExportButton } from "@/components/RecipeExportButton";
 
 export default function BrowseDetail() {
   const params = useParams<{ id: string }>();
@@ -17,9 +23,12 @@ export default function BrowseDetail() {
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editDialogTab, setEditDialogTab] = useState<"basic" | "categories" | "ingredients" | "steps" | "ai-improvements">("basic");
 
+  const { user } = useAuth();
   const { data: recipe, isLoading, refetch: refetchPublicRecipe } = trpc.recipes.getPublicById.useQuery({ id: recipeId });
+  // 只有作者和管理員可以編輯
+  const canEdit = Boolean(user && recipe && (user.id === recipe.userId || user.role === "admin"));
   // Also fetch full recipe data for editing
-  const { data: fullRecipe, refetch: refetchFullRecipe } = trpc.recipes.getById.useQuery({ id: recipeId }, { enabled: editDialogOpen });
+  const { data: fullRecipe, refetch: refetchFullRecipe } = trpc.recipes.getById.useQuery({ id: recipeId }, { enabled: editDialogOpen && canEdit });
   const { data: allCategories } = trpc.categories.list.useQuery();
 
   if (isLoading) {
@@ -61,14 +70,17 @@ export default function BrowseDetail() {
               </Button>
             </Link>
             <div className="flex items-center gap-4">
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={() => setEditDialogOpen(true)}
-              >
-                <Edit className="w-4 h-4 mr-2" />
-                編輯
-              </Button>
+              <RecipeExportButton recipeId={recipe.id} size="sm" />
+              {canEdit && (
+                <Button 
+                  variant="outline" 
+                  size="sm"
+                  onClick={() => setEditDialogOpen(true)}
+                >
+                  <Edit className="w-4 h-4 mr-2" />
+                  編輯
+                </Button>
+              )}
               <Link href="/">
                 <div className="flex items-center gap-2 cursor-pointer">
                   <Utensils className="h-5 w-5 text-green-600" />
@@ -99,16 +111,18 @@ export default function BrowseDetail() {
                 <p className="text-lg text-gray-600 mb-4">{recipe.description}</p>
               )}
             </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => {
-                setEditDialogTab("basic");
-                setEditDialogOpen(true);
-              }}
-            >
-              <Edit className="h-4 w-4" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setEditDialogTab("basic");
+                  setEditDialogOpen(true);
+                }}
+              >
+                <Edit className="h-4 w-4" />
+              </Button>
+            )}
           </div>
 
           {/* Categories */}
@@ -119,16 +133,18 @@ export default function BrowseDetail() {
                   {cat.name}
                 </Badge>
               ))}
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  setEditDialogTab("categories");
-                  setEditDialogOpen(true);
-                }}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditDialogTab("categories");
+                    setEditDialogOpen(true);
+                  }}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           )}
         </div>
@@ -145,6 +161,8 @@ export default function BrowseDetail() {
                       <span className="font-semibold">輸入方式：</span>
                       {recipe.inputMethod === "weblink" && "網址連結"}
                       {recipe.inputMethod === "image" && "圖片上傳"}
+                      {recipe.inputMethod === "voice" && "語音口述"}
+                      {recipe.inputMethod === "file" && "檔案匯入"}
                       {recipe.inputMethod === "manual" && "手動輸入"}
                     </p>
                     {recipe.sourceUrl && (
@@ -213,17 +231,19 @@ export default function BrowseDetail() {
         {/* Metadata - Servings and Calories */}
         <div className="grid md:grid-cols-3 gap-4 mb-8">
           <Card className="relative">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="absolute top-2 right-2 h-6 w-6 p-0"
-              onClick={() => {
-                setEditDialogTab("basic");
-                setEditDialogOpen(true);
-              }}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-2 right-2 h-6 w-6 p-0"
+                onClick={() => {
+                  setEditDialogTab("basic");
+                  setEditDialogOpen(true);
+                }}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            )}
             <CardContent className="pt-6">
               <div className="flex items-center gap-3">
                 <div className="h-10 w-10 bg-green-100 rounded-full flex items-center justify-center">
@@ -237,17 +257,19 @@ export default function BrowseDetail() {
             </CardContent>
           </Card>
           <Card className="relative">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="absolute top-2 right-2 h-6 w-6 p-0"
-              onClick={() => {
-                setEditDialogTab("basic");
-                setEditDialogOpen(true);
-              }}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-2 right-2 h-6 w-6 p-0"
+                onClick={() => {
+                  setEditDialogTab("basic");
+                  setEditDialogOpen(true);
+                }}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            )}
             <CardContent className="pt-6">
               <div className="flex items-center gap-3">
                 <div className="h-10 w-10 bg-orange-100 rounded-full flex items-center justify-center">
@@ -263,17 +285,19 @@ export default function BrowseDetail() {
             </CardContent>
           </Card>
           <Card className="relative">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="absolute top-2 right-2 h-6 w-6 p-0"
-              onClick={() => {
-                setEditDialogTab("basic");
-                setEditDialogOpen(true);
-              }}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-2 right-2 h-6 w-6 p-0"
+                onClick={() => {
+                  setEditDialogTab("basic");
+                  setEditDialogOpen(true);
+                }}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            )}
             <CardContent className="pt-6">
               <div className="flex items-center gap-3">
                 <div className="h-10 w-10 bg-blue-100 rounded-full flex items-center justify-center">
@@ -296,16 +320,18 @@ export default function BrowseDetail() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle className="text-amber-900">烹飪信息</CardTitle>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("basic");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("basic");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -369,22 +395,30 @@ export default function BrowseDetail() {
           </Card>
         )}
 
+        {/* Allergens */}
+        <AllergenCard allergens={recipe.allergens} className="mb-8" />
+
+        {/* Health Score */}
+        <HealthScoreCard recipeId={recipe.id} className="mb-8" />
+
         {/* Nutrition Info */}
         {(recipe.protein || recipe.carbs || recipe.fat || recipe.fiber) && (
           <Card className="mb-8">
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>營養成分</CardTitle>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("basic");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("basic");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -429,16 +463,18 @@ export default function BrowseDetail() {
                 </CardTitle>
                 <CardDescription>詳細的營養好處和需要注意的地方</CardDescription>
               </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  setEditDialogTab("basic");
-                  setEditDialogOpen(true);
-                }}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditDialogTab("basic");
+                    setEditDialogOpen(true);
+                  }}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -566,16 +602,18 @@ export default function BrowseDetail() {
                   <CardTitle>食材清單</CardTitle>
                   <CardDescription>所需材料</CardDescription>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("ingredients");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("ingredients");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -596,6 +634,11 @@ export default function BrowseDetail() {
           </Card>
         )}
 
+        {/* Servings Scaler */}
+        {recipe.ingredients && recipe.ingredients.length > 0 && (
+          <ServingsScalerCard recipeId={recipe.id} servings={recipe.servings} className="mb-8" />
+        )}
+
         {/* Cooking Steps */}
         {recipe.steps && recipe.steps.length > 0 && (
           <Card className="mb-8">
@@ -605,16 +648,18 @@ export default function BrowseDetail() {
                   <CardTitle>烹飪步驟</CardTitle>
                   <CardDescription>詳細製作過程</CardDescription>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("steps");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("steps");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -622,7 +667,7 @@ export default function BrowseDetail() {
                 {recipe.steps
                   .sort((a, b) => a.stepNumber - b.stepNumber)
                   .map((step) => (
-                    <div key={step.id} className="flex gap-4">
+                    <div key={step.id} id={`step-${step.stepNumber}`} className="flex gap-4">
                       <div className="flex-shrink-0">
                         <div className="h-8 w-8 bg-green-600 text-white rounded-full flex items-center justify-center font-semibold">
                           {step.stepNumber}
@@ -649,6 +694,14 @@ export default function BrowseDetail() {
                             💡 {step.tips}
                           </p>
                         )}
+                        {step.imageUrl && (
+                          <img
+                            src={step.imageUrl}
+                            alt={`步驟 ${step.stepNumber}`}
+                            className="mt-3 w-full max-w-md max-h-64 rounded-lg object-cover"
+                            loading="lazy"
+                          />
+                        )}
                       </div>
                     </div>
                   ))}
@@ -685,16 +738,18 @@ export default function BrowseDetail() {
                     </CardTitle>
                     <CardDescription>專業大廚的優化建議</CardDescription>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setEditDialogTab("ai-improvements");
-                      setEditDialogOpen(true);
-                    }}
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditDialogTab("ai-improvements");
+                        setEditDialogOpen(true);
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardHeader>
               <CardContent>
@@ -753,16 +808,18 @@ export default function BrowseDetail() {
                       </CardTitle>
                       <CardDescription>原始食譜 vs 米芝蓮級 AI 改良建議</CardDescription>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        setEditDialogTab("ai-improvements");
-                        setEditDialogOpen(true);
-                      }}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditDialogTab("ai-improvements");
+                          setEditDialogOpen(true);
+                        }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -997,7 +1054,10 @@ export default function BrowseDetail() {
             instruction: step.instruction,
             duration: step.duration,
             temperature: step.temperature,
+            imageUrl: step.imageUrl,
             tips: step.tips,
+            isPassive: step.isPassive,
+            dependsOn: parseStepDependencies(step.dependsOn),
             order: step.stepNumber,
           }))}
           categories={allCategories}
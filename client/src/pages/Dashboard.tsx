@@ -2,7 +2,7 @@ import DashboardLayout from "@/components/DashboardLayout";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { trpc } from "@/lib/trpc";
-import { Link, PlusCircle, Utensils, BarChart3, BookOpen, Trash2 } from "lucide-react";
+import { Link, Camera, Mic, PlusCircle, Utensils, BarChart3, BookOpen, Trash2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import {
   AlertDialog,
@@ -132,13 +132,25 @@ export default function Dashboard() {
             <CardDescription>選擇輸入方式創建新食譜</CardDescription>
           </CardHeader>
           <CardContent>
-            <div className="grid md:grid-cols-2 gap-4">
+            <div className="grid md:grid-cols-4 gap-4">
               <RouterLink href="/recipes/new?method=weblink">
                 <Button variant="outline" className="w-full h-24 flex flex-col gap-2">
                   <Link className="h-6 w-6" />
                   <span>網址連結</span>
                 </Button>
               </RouterLink>
+              <RouterLink href="/recipes/new?method=image">
+                <Button variant="outline" className="w-full h-24 flex flex-col gap-2">
+                  <Camera className="h-6 w-6" />
+                  <span>圖片上傳</span>
+                </Button>
+              </RouterLink>
+              <RouterLink href="/recipes/new?method=voice">
+                <Button variant="outline" className="w-full h-24 flex flex-col gap-2">
+                  <Mic className="h-6 w-6" />
+                  <span>語音口述</span>
+                </Button>
+              </RouterLink>
               <RouterLink href="/recipes/new?method=manual">
                 <Button variant="outline" className="w-full h-24 flex flex-col gap-2">
                   <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -1,6 +1,6 @@
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
-import { ChefHat, Link as LinkIcon, PenTool, Sparkles, Utensils, BarChart3 } from "lucide-react";
+import { ChefHat, Link as LinkIcon, Camera, PenTool, Sparkles, Utensils, BarChart3 } from "lucide-react";
 import { Link } from "wouter";
 
 export default function Home() {
@@ -159,10 +159,10 @@ export default function Home() {
       {/* Features Section */}
       <section className="container py-20">
         <div className="text-center mb-12">
-          <h3 className="text-3xl font-bold text-gray-900 mb-4 animate-fadeInUp">兩種輸入方式</h3>
+          <h3 className="text-3xl font-bold text-gray-900 mb-4 animate-fadeInUp">三種輸入方式</h3>
           <p className="text-gray-600 animate-fadeInUp animation-delay-200">靈活多樣，每種都支援 AI 健康改造分析</p>
         </div>
-        <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
+        <div className="grid md:grid-cols-3 gap-8 max-w-6xl mx-auto">
           <Card className="border-2 hover:border-green-200 transition-colors animate-slideInLeft animation-delay-400">
             <CardHeader>
               <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center mb-4">
@@ -182,6 +182,25 @@ export default function Home() {
             </CardContent>
           </Card>
 
+          <Card className="border-2 hover:border-green-200 transition-colors animate-fadeInUp animation-delay-400">
+            <CardHeader>
+              <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center mb-4">
+                <Camera className="h-6 w-6 text-green-600" />
+              </div>
+              <CardTitle>圖片上傳</CardTitle>
+              <CardDescription>
+                拍下手寫食譜卡或食譜書頁面，AI 自動辨識並整理成食譜
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm text-gray-600">
+                <li>• 辨識手寫和印刷文字</li>
+                <li>• 菜式照片也能推測做法</li>
+                <li>• 同樣提供營養分析和改造建議</li>
+              </ul>
+            </CardContent>
+          </Card>
+
           <Card className="border-2 hover:border-green-200 transition-colors animate-slideInRight animation-delay-600">
             <CardHeader>
               <div className="h-12 w-12 bg-green-100 rounded-lg flex items-center justify-center mb-4">
@@ -0,0 +1,136 @@
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { APP_TITLE, getOAuthLoginUrl } from "@/const";
+import { trpc } from "@/lib/trpc";
+import { ChefHat, Loader2 } from "lucide-react";
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { toast } from "sonner";
+
+export default function Login() {
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [name, setName] = useState("");
+  const oauthLoginUrl = getOAuthLoginUrl();
+
+  const onLoggedIn = async () => {
+    await utils.auth.me.invalidate();
+    setLocation("/dashboard");
+  };
+
+  const loginMutation = trpc.auth.login.useMutation({
+    onSuccess: async (user) => {
+      toast.success(`歡迎回來，${user.name || username}`);
+      await onLoggedIn();
+    },
+    onError: (error) => {
+      toast.error(`登入失敗: ${error.message}`);
+    },
+  });
+
+  const registerMutation = trpc.auth.register.useMutation({
+    onSuccess: async () => {
+      toast.success("註冊成功");
+      await onLoggedIn();
+    },
+    onError: (error) => {
+      toast.error(`註冊失敗: ${error.message}`);
+    },
+  });
+
+  const isPending = loginMutation.isPending || registerMutation.isPending;
+
+  const handleLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate({ username, password });
+  };
+
+  const handleRegister = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (password.length < 8) {
+      toast.error("密碼最少需要 8 個字元");
+      return;
+    }
+    registerMutation.mutate({ username, password, name: name.trim() || undefined });
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-green-50 to-white flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <Link href="/">
+            <div className="flex items-center justify-center gap-2 mb-2 cursor-pointer">
+              <ChefHat className="h-8 w-8 text-green-600" />
+              <span className="text-xl font-bold">{APP_TITLE}</span>
+            </div>
+          </Link>
+          <CardTitle>登入</CardTitle>
+          <CardDescription>登入後可以創建、編輯和發佈你的食譜</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="login">登入</TabsTrigger>
+              <TabsTrigger value="register">註冊</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <form onSubmit={handleLogin} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="login-username">用戶名</Label>
+                  <Input id="login-username" value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="login-password">密碼</Label>
+                  <Input id="login-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="current-password" required />
+                </div>
+                <Button type="submit" className="w-full" disabled={isPending}>
+                  {loginMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  登入
+                </Button>
+              </form>
+            </TabsContent>
+
+            <TabsContent value="register">
+              <form onSubmit={handleRegister} className="space-y-4 pt-2">
+                <div className="space-y-2">
+                  <Label htmlFor="register-username">用戶名</Label>
+                  <Input id="register-username" value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" placeholder="3-32 個英文字母、數字或 _ . -" required />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-name">顯示名稱（選填）</Label>
+                  <Input id="register-name" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="register-password">密碼</Label>
+                  <Input id="register-password" type="password" value={password} onChange={(e) => setPassword(e.target.value)} autoComplete="new-password" placeholder="最少 8 個字元" required />
+                </div>
+                <Button type="submit" className="w-full" disabled={isPending}>
+                  {registerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  註冊並登入
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+
+          {oauthLoginUrl && (
+            <>
+              <div className="relative text-center text-xs text-muted-foreground">
+                <span className="bg-card px-2 relative z-10">或</span>
+                <div className="absolute inset-x-0 top-1/2 border-t" />
+              </div>
+              <Button variant="outline" className="w-full" asChild>
+                <a href={oauthLoginUrl}>使用 OAuth 帳號登入</a>
+              </Button>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
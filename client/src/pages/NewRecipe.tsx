@@ -8,11 +8,39 @@ import { trpc } from "@/lib/trpc";
 import { useState, useEffect } from "react";
 import { useLocation, useParams, useSearch } from "wouter";
 import { toast } from "sonner";
-import { Loader2, Link as LinkIcon, PenTool } from "lucide-react";
+import { Loader2, Link as LinkIcon, PenTool, Camera, Mic, FileUp } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ImportJobProgress } from "@/components/ImportJobProgress";
+import { VoiceRecorder } from "@/components/VoiceRecorder";
+import { BulkImportPanel } from "@/components/BulkImportPanel";
+
+const ACTIVE_IMPORT_JOB_KEY = "activeImportJobId";
+const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/heic"];
+const MAX_IMAGE_SIZE = 10 * 1024 * 1024;
+const MAX_AUDIO_SIZE = 16 * 1024 * 1024;
+
+type VoiceMimeType = "audio/webm" | "audio/ogg" | "audio/mp4" | "audio/mpeg" | "audio/wav";
+
+// 瀏覽器錄音格式帶 codecs 參數，手機錄音檔案的類型名稱也不統一
+const AUDIO_MIME_ALIASES: Record<string, VoiceMimeType> = {
+  "audio/webm": "audio/webm",
+  "audio/ogg": "audio/ogg",
+  "audio/mp4": "audio/mp4",
+  "audio/m4a": "audio/mp4",
+  "audio/x-m4a": "audio/mp4",
+  "audio/mpeg": "audio/mpeg",
+  "audio/mp3": "audio/mpeg",
+  "audio/wav": "audio/wav",
+  "audio/wave": "audio/wav",
+  "audio/x-wav": "audio/wav",
+};
+
+function normalizeAudioMimeType(type: string): VoiceMimeType | null {
+  return AUDIO_MIME_ALIASES[type.split(";")[0].trim().toLowerCase()] ?? null;
+}
 
 export default function NewRecipe() {
   const [, setLocation] = useLocation();
@@ -24,7 +52,10 @@ export default function NewRecipe() {
   useEffect(() => {
     const methodMap: Record<string, string> = {
       'weblink': 'weblink',
-      'manual': 'manual'
+      'image': 'image',
+      'voice': 'voice',
+      'manual': 'manual',
+      'bulk': 'bulk'
     };
     
     // 優先使用路徑參數
@@ -45,6 +76,13 @@ export default function NewRecipe() {
   // Weblink state
   const [weblinkUrl, setWeblinkUrl] = useState("");
 
+  // Image state
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [imagePreview, setImagePreview] = useState<string | null>(null);
+
+  // Voice state
+  const [voiceAudio, setVoiceAudio] = useState<Blob | null>(null);
+
   // Manual state
   const [manualData, setManualData] = useState({
     title: "",
@@ -60,8 +98,101 @@ export default function NewRecipe() {
     allRecipes: { id: string; title: string }[];
   } | null>(null);
 
+  // 背景導入任務(刷新頁面後可從 localStorage 恢復)
+  const [activeImportJobId, setActiveImportJobId] = useState<number | null>(() => {
+    const saved = localStorage.getItem(ACTIVE_IMPORT_JOB_KEY);
+    return saved ? Number(saved) : null;
+  });
+
+  const clearActiveImportJob = () => {
+    localStorage.removeItem(ACTIVE_IMPORT_JOB_KEY);
+    setActiveImportJobId(null);
+  };
+
+  const showImportError = (errorMsg: string) => {
+    // 分離錯誤標題和建議（如果有換行符）
+    const parts = errorMsg.split('\n\n');
+    const mainError = parts[0];
+    const suggestions = parts.length > 1 ? parts.slice(1).join('\n') : null;
+    
+    if (errorMsg.includes('影片') || errorMsg.includes('小紅書') || errorMsg.includes('抖音')) {
+      toast.error(
+        mainError,
+        {
+          description: suggestions || "請嘗試使用手動輸入方式",
+          duration: 8000
+        }
+      );
+    } else if (errorMsg.includes('無法訪問') || errorMsg.includes('需要登入') || errorMsg.includes('內容不足')) {
+      toast.error(
+        mainError,
+        {
+          description: suggestions || "請嘗試使用手動輸入方式",
+          duration: 6000
+        }
+      );
+    } else {
+      toast.error(`創建失敗: ${errorMsg}`, { duration: 5000 });
+    }
+  };
+
+  const startImportJob = (jobId: number) => {
+    localStorage.setItem(ACTIVE_IMPORT_JOB_KEY, String(jobId));
+    setActiveImportJobId(jobId);
+  };
+
   const createFromWeblink = trpc.recipes.createFromWeblink.useMutation({
     onSuccess: (data) => {
+      startImportJob(data.jobId);
+    },
+    onError: (error) => {
+      showImportError(error.message);
+    },
+  });
+
+  const createFromImage = trpc.recipes.createFromImage.useMutation({
+    onSuccess: (data) => {
+      startImportJob(data.jobId);
+    },
+    onError: (error) => {
+      showImportError(error.message);
+    },
+  });
+
+  const createFromVoice = trpc.recipes.createFromVoice.useMutation({
+    onSuccess: (data) => {
+      startImportJob(data.jobId);
+    },
+    onError: (error) => {
+      showImportError(error.message);
+    },
+  });
+
+  // 輪詢導入任務進度，任務結束後停止
+  const importJob = trpc.importJobs.getById.useQuery(
+    { id: activeImportJobId ?? 0 },
+    {
+      enabled: activeImportJobId !== null,
+      refetchInterval: (query) => {
+        const status = query.state.data?.status;
+        return status === "completed" || status === "failed" ? false : 2000;
+      },
+    }
+  );
+
+  useEffect(() => {
+    if (activeImportJobId === null || !importJob.isFetched) return;
+    const job = importJob.data;
+
+    // 任務不存在(例如已被清除)
+    if (!job) {
+      clearActiveImportJob();
+      return;
+    }
+
+    if (job.status === "completed" && job.resultData) {
+      clearActiveImportJob();
+      const data = job.resultData;
       if (data.recipeCount && data.recipeCount > 1) {
         toast.success(`成功創建 ${data.recipeCount} 個食譜！`, {
           description: "已從影片中提取多個食譜，點擊下方查看",
@@ -76,36 +207,23 @@ export default function NewRecipe() {
         toast.success("食譜創建成功!");
         setLocation(`/recipes/${data.recipeId}`);
       }
-    },
-    onError: (error) => {
-      const errorMsg = error.message;
-      
-      // 分離錯誤標題和建議（如果有換行符）
-      const parts = errorMsg.split('\n\n');
-      const mainError = parts[0];
-      const suggestions = parts.length > 1 ? parts.slice(1).join('\n') : null;
-      
-      if (errorMsg.includes('影片') || errorMsg.includes('小紅書') || errorMsg.includes('抖音')) {
-        toast.error(
-          mainError,
-          {
-            description: suggestions || "請嘗試使用手動輸入方式",
-            duration: 8000
-          }
-        );
-      } else if (errorMsg.includes('無法訪問') || errorMsg.includes('需要登入') || errorMsg.includes('內容不足')) {
-        toast.error(
-          mainError,
-          {
-            description: suggestions || "請嘗試使用手動輸入方式",
-            duration: 6000
-          }
-        );
-      } else {
-        toast.error(`創建失敗: ${errorMsg}`, { duration: 5000 });
-      }
-    },
-  });
+    } else if (job.status === "failed") {
+      clearActiveImportJob();
+      showImportError(job.errorMessage || "導入失敗");
+    }
+  }, [activeImportJobId, importJob.data, importJob.isFetched]);
+
+  const importProgress = importJob.data && (importJob.data.status === "queued" || importJob.data.status === "running") && (
+    <ImportJobProgress
+      inputMethod={importJob.data.inputMethod}
+      stage={importJob.data.stage}
+      progressCurrent={importJob.data.progressCurrent}
+      progressTotal={importJob.data.progressTotal}
+      progressMessage={importJob.data.progressMessage}
+    />
+  );
+
+  const isImporting = createFromWeblink.isPending || createFromImage.isPending || createFromVoice.isPending || activeImportJobId !== null;
 
   const createManual = trpc.recipes.createManual.useMutation({
     onSuccess: (data) => {
@@ -126,6 +244,77 @@ export default function NewRecipe() {
     createFromWeblink.mutate({ url: weblinkUrl });
   };
 
+  const handleImageChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+      toast.error("只支援 JPG、PNG、WEBP 或 HEIC 圖片");
+      return;
+    }
+    if (file.size > MAX_IMAGE_SIZE) {
+      toast.error("圖片太大，請上傳 10MB 以內的圖片");
+      return;
+    }
+    setImageFile(file);
+    setImagePreview(URL.createObjectURL(file));
+  };
+
+  const handleImageSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!imageFile) {
+      toast.error("請選擇圖片");
+      return;
+    }
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(imageFile);
+    });
+    createFromImage.mutate({
+      imageBase64: dataUrl.substring(dataUrl.indexOf(",") + 1),
+      mimeType: imageFile.type as "image/jpeg" | "image/png" | "image/webp" | "image/heic",
+    });
+  };
+
+  const handleAudioFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!normalizeAudioMimeType(file.type)) {
+      toast.error("只支援 WEBM、OGG、M4A、MP3 或 WAV 錄音");
+      return;
+    }
+    setVoiceAudio(file);
+  };
+
+  const handleVoiceSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!voiceAudio) {
+      toast.error("請先錄音或選擇錄音檔案");
+      return;
+    }
+    const mimeType = normalizeAudioMimeType(voiceAudio.type);
+    if (!mimeType) {
+      toast.error("此瀏覽器的錄音格式不受支援，請上傳錄音檔案");
+      return;
+    }
+    if (voiceAudio.size > MAX_AUDIO_SIZE) {
+      toast.error("錄音太長，請錄製 16MB 以內的錄音");
+      return;
+    }
+    const dataUrl = await new Promise<string>((resolve, reject) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsDataURL(voiceAudio);
+    });
+    createFromVoice.mutate({
+      audioBase64: dataUrl.substring(dataUrl.indexOf(",") + 1),
+      mimeType,
+    });
+  };
+
   const handleManualSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!manualData.title) {
@@ -184,15 +373,27 @@ export default function NewRecipe() {
         </div>
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="weblink">
               <LinkIcon className="mr-2 h-4 w-4" />
               網址連結
             </TabsTrigger>
+            <TabsTrigger value="image">
+              <Camera className="mr-2 h-4 w-4" />
+              圖片上傳
+            </TabsTrigger>
+            <TabsTrigger value="voice">
+              <Mic className="mr-2 h-4 w-4" />
+              語音口述
+            </TabsTrigger>
             <TabsTrigger value="manual">
               <PenTool className="mr-2 h-4 w-4" />
               手動輸入
             </TabsTrigger>
+            <TabsTrigger value="bulk">
+              <FileUp className="mr-2 h-4 w-4" />
+              批量匯入
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="weblink">
@@ -221,15 +422,15 @@ export default function NewRecipe() {
                       placeholder="https://example.com/recipe"
                       value={weblinkUrl}
                       onChange={(e) => setWeblinkUrl(e.target.value)}
-                      disabled={createFromWeblink.isPending}
+                      disabled={isImporting}
                     />
                   </div>
                   <Button
                     type="submit"
-                    disabled={createFromWeblink.isPending}
+                    disabled={isImporting}
                     className="w-full"
                   >
-                    {createFromWeblink.isPending ? (
+                    {isImporting ? (
                       <>
                         <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                         分析中...
@@ -238,6 +439,111 @@ export default function NewRecipe() {
                       "開始分析"
                     )}
                   </Button>
+                  {importProgress}
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="image">
+            <Card>
+              <CardHeader>
+                <CardTitle>從圖片導入</CardTitle>
+                <CardDescription>
+                  上傳手寫食譜卡、食譜書頁面或菜式照片,AI將自動提取食材和步驟
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  <p className="font-medium mb-1">⚠️ 注意事項:</p>
+                  <ul className="list-disc list-inside space-y-1">
+                    <li>請確保文字清晰、光線充足、整頁完整入鏡</li>
+                    <li>只有菜式照片時,AI會根據常見做法推測食譜</li>
+                    <li>支援 JPG、PNG、WEBP、HEIC,最大 10MB</li>
+                  </ul>
+                </div>
+                <form onSubmit={handleImageSubmit} className="space-y-4">
+                  <div>
+                    <Label htmlFor="image">食譜圖片</Label>
+                    <Input
+                      id="image"
+                      type="file"
+                      accept={ACCEPTED_IMAGE_TYPES.join(",")}
+                      onChange={handleImageChange}
+                      disabled={isImporting}
+                    />
+                  </div>
+                  {imagePreview && (
+                    <img
+                      src={imagePreview}
+                      alt="食譜圖片預覽"
+                      className="max-h-80 w-full rounded-lg border object-contain"
+                    />
+                  )}
+                  <Button
+                    type="submit"
+                    disabled={isImporting || !imageFile}
+                    className="w-full"
+                  >
+                    {isImporting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        分析中...
+                      </>
+                    ) : (
+                      "開始分析"
+                    )}
+                  </Button>
+                  {importProgress}
+                </form>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="voice">
+            <Card>
+              <CardHeader>
+                <CardTitle>口述食譜</CardTitle>
+                <CardDescription>
+                  錄音讀出食譜或上傳語音備忘錄,AI將轉錄並自動提取食材和步驟
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                  <p className="font-medium mb-1">⚠️ 注意事項:</p>
+                  <ul className="list-disc list-inside space-y-1">
+                    <li>請在安靜的環境錄音,先讀出食譜名稱和份量</li>
+                    <li>逐一讀出食材和用量,再按順序講解每個步驟</li>
+                    <li>錄音最長 10 分鐘;上傳檔案支援 WEBM、OGG、M4A、MP3、WAV,最大 16MB</li>
+                  </ul>
+                </div>
+                <form onSubmit={handleVoiceSubmit} className="space-y-4">
+                  <VoiceRecorder audio={voiceAudio} onChange={setVoiceAudio} disabled={isImporting} />
+                  <div>
+                    <Label htmlFor="audio">或上傳錄音檔案</Label>
+                    <Input
+                      id="audio"
+                      type="file"
+                      accept="audio/*"
+                      onChange={handleAudioFileChange}
+                      disabled={isImporting}
+                    />
+                  </div>
+                  <Button
+                    type="submit"
+                    disabled={isImporting || !voiceAudio}
+                    className="w-full"
+                  >
+                    {isImporting ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        分析中...
+                      </>
+                    ) : (
+                      "開始分析"
+                    )}
+                  </Button>
+                  {importProgress}
                 </form>
               </CardContent>
             </Card>
@@ -415,6 +721,10 @@ export default function NewRecipe() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="bulk">
+            <BulkImportPanel />
+          </TabsContent>
         </Tabs>
       </div>
 
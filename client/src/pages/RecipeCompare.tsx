@@ -4,9 +4,12 @@ import { trpc } from "@/lib/trpc";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Plus, X, Check, AlertTriangle, BarChart3, Activity } from "lucide-react";
+import { ArrowLeft, Plus, X, BarChart3, Activity } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from "recharts";
 import DashboardLayout from "@/components/DashboardLayout";
+import { HealthProfileSelect } from "@/components/HealthProfileSelect";
+import { HealthScoreMatches } from "@/components/HealthScoreMatches";
+import { useHealthProfile } from "@/hooks/useHealthProfile";
 import { toast } from "sonner";
 
 export default function RecipeCompare() {
@@ -38,24 +41,13 @@ export default function RecipeCompare() {
     setLocation(`/recipes/compare/${newIds.join(",")}`);
   };
 
-  const calculateHealthScore = (recipe: {
-    protein?: number | null;
-    fiber?: number | null;
-    caloriesPerServing?: number | null;
-    fat?: number | null;
-    carbs?: number | null;
-  }) => {
-    let score = 5;
-    if (recipe.protein && recipe.protein > 20) score += 1;
-    if (recipe.fiber && recipe.fiber > 5) score += 1;
-    if (recipe.caloriesPerServing && recipe.caloriesPerServing < 300) score += 1;
-    if (recipe.fat && recipe.fat < 10) score += 1;
-    if (recipe.carbs && recipe.carbs < 30) score += 1;
-    if (recipe.caloriesPerServing && recipe.caloriesPerServing > 500) score -= 1;
-    if (recipe.fat && recipe.fat > 20) score -= 1;
-    if (recipe.carbs && recipe.carbs > 60) score -= 1;
-    return Math.max(1, Math.min(10, score));
-  };
+  // 健康評分由伺服器按所選飲食配置計算
+  const [healthProfile, setHealthProfile] = useHealthProfile();
+  const healthScoresQuery = trpc.healthProfiles.score.useQuery(
+    { recipeIds: recipeIds.slice(0, 10), profile: healthProfile },
+    { enabled: recipeIds.length > 0 }
+  );
+  const healthScores = new Map((healthScoresQuery.data?.scores ?? []).map((result) => [result.recipeId, result]));
 
   if (recipesQuery.isLoading) {
     return (
@@ -98,6 +90,7 @@ export default function RecipeCompare() {
             <p className="text-gray-600">並排比較 {recipes.length} 個食譜</p>
           </div>
           <div className="flex gap-2">
+            <HealthProfileSelect value={healthProfile} onChange={setHealthProfile} className="w-44 h-9" />
             <Button
               variant={chartView === "bar" ? "default" : "outline"}
               size="sm"
@@ -364,35 +357,12 @@ export default function RecipeCompare() {
                   <CardTitle className="text-sm">健康評分</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-center">
+                  <div className="flex flex-col items-center">
                     <div className="text-4xl font-bold text-green-600">
-                      {calculateHealthScore(recipe)}/10
+                      {healthScores.get(recipe.id)?.score ?? "-"}/10
                     </div>
-                    <div className="mt-2 space-y-1">
-                      {recipe.protein && recipe.protein > 20 && (
-                        <div className="flex items-center gap-1 text-xs text-green-700">
-                          <Check className="w-3 h-3" />
-                          高蛋白質
-                        </div>
-                      )}
-                      {recipe.fiber && recipe.fiber > 5 && (
-                        <div className="flex items-center gap-1 text-xs text-green-700">
-                          <Check className="w-3 h-3" />
-                          高纖維
-                        </div>
-                      )}
-                      {recipe.caloriesPerServing && recipe.caloriesPerServing > 500 && (
-                        <div className="flex items-center gap-1 text-xs text-red-700">
-                          <AlertTriangle className="w-3 h-3" />
-                          高卡路里
-                        </div>
-                      )}
-                      {recipe.fat && recipe.fat > 20 && (
-                        <div className="flex items-center gap-1 text-xs text-red-700">
-                          <AlertTriangle className="w-3 h-3" />
-                          高脂肪
-                        </div>
-                      )}
+                    <div className="mt-2">
+                      <HealthScoreMatches matches={healthScores.get(recipe.id)?.matches ?? []} />
                     </div>
                   </div>
                 </CardContent>
@@ -4,15 +4,26 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { trpc } from "@/lib/trpc";
 import { useParams, useLocation } from "wouter";
-import { Loader2, Utensils, Clock, Flame, Edit, Trash2, CheckCircle2, History, AlertCircle, ThumbsUp, ThumbsDown, Star, GitCompare } from "lucide-react";
+import { Loader2, Utensils, Clock, Flame, Edit, Trash2, CheckCircle2, History, AlertCircle, ThumbsUp, ThumbsDown, Star, GitCompare, ChefHat } from "lucide-react";
 import { toast } from "sonner";
 import { Streamdown } from "streamdown";
 import { SuggestionDialog } from "@/components/SuggestionDialog";
+import { SuggestionApplyDialog } from "@/components/SuggestionApplyDialog";
 import { EditRecipeDialog } from "@/components/EditRecipeDialog";
 import { VersionHistoryDialog } from "@/components/VersionHistoryDialog";
 import { RecipeReviews } from "@/components/RecipeReviews";
 import IngredientSubstitutionDialog from "@/components/IngredientSubstitutionDialog";
+import { MachineInstructionsCard } from "@/components/MachineInstructionsCard";
+import { ServingsScalerCard } from "@/components/ServingsScalerCard";
+import { AllergenCard } from "@/components/AllergenCard";
+import { HealthScoreCard } from "@/components/HealthScoreCard";
+import { RecipeImageCard } from "@/components/RecipeImageCard";
+import { CookMode } from "@/components/CookMode";
+import { RecipeTimelineCard } from "@/components/RecipeTimelineCard";
+import { RecipeExportButton } from "@/components/RecipeExportButton";
 import { useState } from "react";
+import { parseStepDependencies } from "@shared/timeline";
+import { useAuth } from "@/_core/hooks/useAuth";
 
 export default function RecipeDetail() {
   const params = useParams<{ id: string }>();
@@ -24,8 +35,15 @@ export default function RecipeDetail() {
   const [substitutionDialogOpen, setSubstitutionDialogOpen] = useState(false);
   const [selectedIngredient, setSelectedIngredient] = useState<{ id: number; name: string } | null>(null);
   const [copied, setCopied] = useState(false);
+  const [cookModeOpen, setCookModeOpen] = useState(false);
+  const [applySuggestionId, setApplySuggestionId] = useState<number | null>(null);
 
+  const { user } = useAuth();
   const { data: recipe, isLoading, refetch } = trpc.recipes.getById.useQuery({ id: recipeId });
+  // 只有作者和管理員可以編輯、發布和刪除
+  const canEdit = Boolean(user && recipe && (user.id === recipe.userId || user.role === "admin"));
+  // 被管理員下架的食譜只有管理員可以重新發布
+  const canPublish = canEdit && (!recipe?.moderationHidden || user?.role === "admin");
   const { data: suggestions } = trpc.suggestions.getByRecipe.useQuery({ recipeId });
   const { data: allCategories } = trpc.categories.list.useQuery();
 
@@ -90,23 +108,31 @@ export default function RecipeDetail() {
               ) : (
                 <Badge variant="secondary">草稿</Badge>
               )}
+              {recipe.moderationHidden && (
+                <Badge className="bg-red-100 text-red-700">已被管理員下架</Badge>
+              )}
             </div>
             {recipe.description && (
               <p className="text-gray-600">{recipe.description}</p>
             )}
           </div>
           <div className="flex gap-2">
-            <Button variant="outline" onClick={() => {
-              setEditDialogTab("basic");
-              setEditDialogOpen(true);
-            }}>
-              <Edit className="w-4 h-4 mr-2" />
-              編輯
-            </Button>
-            <Button variant="outline" onClick={() => setVersionHistoryOpen(true)}>
-              <History className="w-4 w-4 mr-2" />
-              版本歷史
-            </Button>
+            {canEdit && (
+              <Button variant="outline" onClick={() => {
+                setEditDialogTab("basic");
+                setEditDialogOpen(true);
+              }}>
+                <Edit className="w-4 h-4 mr-2" />
+                編輯
+              </Button>
+            )}
+            {canEdit && (
+              <Button variant="outline" onClick={() => setVersionHistoryOpen(true)}>
+                <History className="w-4 w-4 mr-2" />
+                版本歷史
+              </Button>
+            )}
+            <RecipeExportButton recipeId={recipeId} />
             <Button
               variant="outline"
               onClick={() => {
@@ -130,6 +156,7 @@ export default function RecipeDetail() {
             </Button>
             <SuggestionDialog 
               recipeId={recipeId}
+              canEdit={canEdit}
               currentNutrition={{
                 calories: recipe.totalCalories || undefined,
                 protein: recipe.protein || undefined,
@@ -137,15 +164,21 @@ export default function RecipeDetail() {
                 fat: recipe.fat || undefined,
               }}
             />
-            <Button variant="outline" onClick={handlePublishToggle}>
-              {recipe.isPublished ? "取消發布" : "發布"}
-            </Button>
-            <Button variant="outline" size="icon">
-              <Edit className="h-4 w-4" />
-            </Button>
-            <Button variant="outline" size="icon" onClick={handleDelete}>
-              <Trash2 className="h-4 w-4" />
-            </Button>
+            {canEdit && (
+              <>
+                <Button
+                  variant="outline"
+                  onClick={handlePublishToggle}
+                  disabled={!recipe.isPublished && !canPublish}
+                  title={!recipe.isPublished && !canPublish ? "此食譜已被管理員下架，只有管理員可以重新發布" : undefined}
+                >
+                  {recipe.isPublished ? "取消發布" : "發布"}
+                </Button>
+                <Button variant="outline" size="icon" onClick={handleDelete}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </>
+            )}
           </div>
         </div>
 
@@ -160,7 +193,9 @@ export default function RecipeDetail() {
                     <p className="text-sm text-gray-700">
                       <span className="font-semibold">輸入方式：</span>
                       {recipe.inputMethod === "weblink" && "網址連結"}
-                      {recipe.inputMethod === "image" && "圖片上傳（已停用）"}
+                      {recipe.inputMethod === "image" && "圖片上傳"}
+                      {recipe.inputMethod === "voice" && "語音口述"}
+                      {recipe.inputMethod === "file" && "檔案匯入"}
                       {recipe.inputMethod === "manual" && "手動輸入"}
                     </p>
                     {recipe.sourceUrl && (
@@ -227,30 +262,30 @@ export default function RecipeDetail() {
         )}
 
         {/* Image */}
-        {recipe.imageUrl && (
-          <div className="rounded-lg overflow-hidden">
-            <img
-              src={recipe.imageUrl}
-              alt={recipe.title}
-              className="w-full h-96 object-cover"
-            />
-          </div>
-        )}
+        <RecipeImageCard
+          recipeId={recipeId}
+          title={recipe.title}
+          imageUrl={recipe.imageUrl}
+          canEdit={canEdit}
+          onChanged={() => refetch()}
+        />
 
         {/* Metadata */}
         <div className="grid md:grid-cols-3 gap-4">
           <Card className="relative">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="absolute top-2 right-2 h-6 w-6 p-0"
-              onClick={() => {
-                setEditDialogTab("basic");
-                setEditDialogOpen(true);
-              }}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-2 right-2 h-6 w-6 p-0"
+                onClick={() => {
+                  setEditDialogTab("basic");
+                  setEditDialogOpen(true);
+                }}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            )}
             <CardContent className="pt-6">
               <div className="flex items-center gap-3">
                 <div className="h-10 w-10 bg-green-100 rounded-full flex items-center justify-center">
@@ -264,17 +299,19 @@ export default function RecipeDetail() {
             </CardContent>
           </Card>
           <Card className="relative">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="absolute top-2 right-2 h-6 w-6 p-0"
-              onClick={() => {
-                setEditDialogTab("basic");
-                setEditDialogOpen(true);
-              }}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-2 right-2 h-6 w-6 p-0"
+                onClick={() => {
+                  setEditDialogTab("basic");
+                  setEditDialogOpen(true);
+                }}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            )}
             <CardContent className="pt-6">
               <div className="flex items-center gap-3">
                 <div className="h-10 w-10 bg-orange-100 rounded-full flex items-center justify-center">
@@ -290,17 +327,19 @@ export default function RecipeDetail() {
             </CardContent>
           </Card>
           <Card className="relative">
-            <Button
-              variant="ghost"
-              size="sm"
-              className="absolute top-2 right-2 h-6 w-6 p-0"
-              onClick={() => {
-                setEditDialogTab("basic");
-                setEditDialogOpen(true);
-              }}
-            >
-              <Edit className="h-3 w-3" />
-            </Button>
+            {canEdit && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="absolute top-2 right-2 h-6 w-6 p-0"
+                onClick={() => {
+                  setEditDialogTab("basic");
+                  setEditDialogOpen(true);
+                }}
+              >
+                <Edit className="h-3 w-3" />
+              </Button>
+            )}
             <CardContent className="pt-6">
               <div className="flex items-center gap-3">
                 <div className="h-10 w-10 bg-blue-100 rounded-full flex items-center justify-center">
@@ -323,16 +362,18 @@ export default function RecipeDetail() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle className="text-amber-900">烹飪信息</CardTitle>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("basic");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("basic");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -396,22 +437,30 @@ export default function RecipeDetail() {
           </Card>
         )}
 
+        {/* Allergens */}
+        <AllergenCard allergens={recipe.allergens} />
+
+        {/* Health Score */}
+        <HealthScoreCard recipeId={recipeId} />
+
         {/* Nutrition Info */}
         {(recipe.protein || recipe.carbs || recipe.fat || recipe.fiber) && (
           <Card>
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>營養成分</CardTitle>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("basic");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("basic");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -456,16 +505,18 @@ export default function RecipeDetail() {
                 </CardTitle>
                 <CardDescription>詳細的營養好處和需要注意的地方</CardDescription>
               </div>
-              <Button
-                variant="ghost"
-                size="sm"
-                onClick={() => {
-                  setEditDialogTab("basic");
-                  setEditDialogOpen(true);
-                }}
-              >
-                <Edit className="h-4 w-4" />
-              </Button>
+              {canEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    setEditDialogTab("basic");
+                    setEditDialogOpen(true);
+                  }}
+                >
+                  <Edit className="h-4 w-4" />
+                </Button>
+              )}
             </div>
           </CardHeader>
           <CardContent>
@@ -590,16 +641,18 @@ export default function RecipeDetail() {
             <CardHeader>
               <div className="flex items-center justify-between">
                 <CardTitle>分類標籤</CardTitle>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("categories");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("categories");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -623,16 +676,18 @@ export default function RecipeDetail() {
                   <CardTitle>食材清單</CardTitle>
                   <CardDescription>所需材料</CardDescription>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("ingredients");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
-                </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("ingredients");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -642,6 +697,7 @@ export default function RecipeDetail() {
                     key={ing.id} 
                     className="flex items-center gap-3 py-2 border-b last:border-0 hover:bg-green-50 cursor-pointer rounded px-2 transition-colors group"
                     onClick={() => {
+                      if (!canEdit) return;
                       setSelectedIngredient({ id: ing.id, name: ing.name });
                       setSubstitutionDialogOpen(true);
                     }}
@@ -661,6 +717,11 @@ export default function RecipeDetail() {
           </Card>
         )}
 
+        {/* Servings Scaler */}
+        {recipe.ingredients && recipe.ingredients.length > 0 && (
+          <ServingsScalerCard recipeId={recipeId} servings={recipe.servings} />
+        )}
+
         {/* Cooking Steps */}
         {recipe.steps && recipe.steps.length > 0 && (
           <Card>
@@ -670,16 +731,22 @@ export default function RecipeDetail() {
                   <CardTitle>烹飪步驟</CardTitle>
                   <CardDescription>詳細製作過程</CardDescription>
                 </div>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => {
-                    setEditDialogTab("steps");
-                    setEditDialogOpen(true);
-                  }}
-                >
-                  <Edit className="h-4 w-4" />
+                <Button variant="outline" size="sm" onClick={() => setCookModeOpen(true)}>
+                  <ChefHat className="mr-2 h-4 w-4" />
+                  烹飪模式
                 </Button>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setEditDialogTab("steps");
+                      setEditDialogOpen(true);
+                    }}
+                  >
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
@@ -712,6 +779,14 @@ export default function RecipeDetail() {
                           💡 {step.tips}
                         </p>
                       )}
+                      {step.imageUrl && (
+                        <img
+                          src={step.imageUrl}
+                          alt={`步驟 ${step.stepNumber}`}
+                          className="mt-3 w-full max-w-md max-h-64 rounded-lg object-cover"
+                          loading="lazy"
+                        />
+                      )}
                     </div>
                   </div>
                 ))}
@@ -720,6 +795,22 @@ export default function RecipeDetail() {
           </Card>
         )}
 
+        {/* 步驟時間線 */}
+        {recipe.steps && recipe.steps.length > 0 && (
+          <RecipeTimelineCard
+            steps={recipe.steps}
+            totalTime={recipe.totalTime}
+            canEdit={canEdit}
+            isUpdatingTotalTime={updateRecipe.isPending}
+            onApplyTotalTime={(minutes) => updateRecipe.mutate({ id: recipe.id, totalTime: minutes })}
+          />
+        )}
+
+        {/* Machine Instructions */}
+        {recipe.steps && recipe.steps.length > 0 && (
+          <MachineInstructionsCard recipeId={recipeId} recipeTitle={recipe.title} />
+        )}
+
         {/* AI Improvement Suggestions */}
         {recipe.improvementSuggestions && (() => {
           // 直接使用 improvementSuggestions（已包含完整文本）
@@ -752,16 +843,18 @@ export default function RecipeDetail() {
                     </CardTitle>
                     <CardDescription>專業大廚的優化建議</CardDescription>
                   </div>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setEditDialogTab("ai-improvements");
-                      setEditDialogOpen(true);
-                    }}
-                  >
-                    <Edit className="h-4 w-4" />
-                  </Button>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setEditDialogTab("ai-improvements");
+                        setEditDialogOpen(true);
+                      }}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  )}
                 </div>
               </CardHeader>
               <CardContent>
@@ -829,16 +922,18 @@ export default function RecipeDetail() {
                       </CardTitle>
                       <CardDescription>原始食譜 vs 米芝蓮級 AI 改良建議</CardDescription>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => {
-                        setEditDialogTab("ai-improvements");
-                        setEditDialogOpen(true);
-                      }}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditDialogTab("ai-improvements");
+                          setEditDialogOpen(true);
+                        }}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent>
@@ -1261,12 +1356,22 @@ export default function RecipeDetail() {
                 {suggestions.map((suggestion) => (
                   <div key={suggestion.id} className="border-l-4 border-green-500 pl-4 py-2">
                     <div className="flex items-center gap-2 mb-2">
-                      <Badge variant={suggestion.status === "processed" ? "default" : "secondary"}>
-                        {suggestion.status === "processed" ? "已處理" : "處理中"}
+                      <Badge variant={suggestion.status === "pending" ? "secondary" : "default"}>
+                        {suggestion.status === "applied" ? "已套用" : suggestion.status === "processed" ? "已處理" : "處理中"}
                       </Badge>
                       <span className="text-sm text-gray-500">
                         {new Date(suggestion.createdAt).toLocaleDateString()}
                       </span>
+                      {suggestion.status === "processed" && suggestion.proposedChanges && user && (canEdit || suggestion.userId === user.id) && (
+                        <Button size="sm" variant="outline" className="ml-auto" onClick={() => setApplySuggestionId(suggestion.id)}>
+                          預覽並套用
+                        </Button>
+                      )}
+                      {suggestion.status === "applied" && suggestion.improvedRecipeId && suggestion.improvedRecipeId !== recipeId && (
+                        <Button size="sm" variant="link" className="ml-auto" onClick={() => setLocation(`/recipes/${suggestion.improvedRecipeId}`)}>
+                          查看改良版食譜
+                        </Button>
+                      )}
                     </div>
                     <div className="mb-3">
                       <p className="font-medium text-gray-700 mb-1">您的建議:</p>
@@ -1418,6 +1523,15 @@ export default function RecipeDetail() {
             </CardContent>
           </Card>
         )}
+        {applySuggestionId !== null && (
+          <SuggestionApplyDialog
+            suggestionId={applySuggestionId}
+            recipeId={recipeId}
+            canEdit={canEdit}
+            open={applySuggestionId !== null}
+            onOpenChange={(open) => !open && setApplySuggestionId(null)}
+          />
+        )}
       </div>
 
       {/* 編輯對話框 */}
@@ -1459,7 +1573,10 @@ export default function RecipeDetail() {
             instruction: step.instruction,
             duration: step.duration,
             temperature: step.temperature,
+            imageUrl: step.imageUrl,
             tips: step.tips,
+            isPassive: step.isPassive,
+            dependsOn: parseStepDependencies(step.dependsOn),
             order: step.stepNumber,
           }))}
           categories={allCategories || []}
@@ -1471,6 +1588,16 @@ export default function RecipeDetail() {
         />
       )}
 
+      {/* 烹飪模式 */}
+      {recipe.steps && recipe.steps.length > 0 && (
+        <CookMode
+          title={recipe.title}
+          steps={recipe.steps}
+          open={cookModeOpen}
+          onClose={() => setCookModeOpen(false)}
+        />
+      )}
+
       {/* 版本歷史對話框 */}
       <VersionHistoryDialog
         recipeId={recipeId}
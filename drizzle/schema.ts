@@ -1,14 +1,16 @@
-import { integer, pgEnum, pgTable, text, timestamp, varchar, boolean, serial } from "drizzle-orm/pg-core";
+import { integer, pgEnum, pgTable, text, timestamp, varchar, boolean, serial, real, uniqueIndex } from "drizzle-orm/pg-core";
 
 /**
  * PostgreSQL Enums
  */
 export const roleEnum = pgEnum("role", ["user", "admin"]);
-export const inputMethodEnum = pgEnum("inputMethod", ["manual", "image", "weblink"]);
+export const inputMethodEnum = pgEnum("inputMethod", ["manual", "image", "weblink", "voice", "file"]);
 export const difficultyEnum = pgEnum("difficulty", ["簡單", "中等", "困難"]);
 export const categoryTypeEnum = pgEnum("categoryType", ["ingredient", "cuisine", "method", "health"]);
 export const suggestionTypeEnum = pgEnum("suggestionType", ["nutrition", "calories", "taste", "method", "other"]);
 export const suggestionStatusEnum = pgEnum("suggestionStatus", ["pending", "processed", "applied"]);
+export const importJobStatusEnum = pgEnum("importJobStatus", ["queued", "running", "completed", "failed"]);
+export const importJobStageEnum = pgEnum("importJobStage", ["queued", "scrape", "prefilter", "detect", "analyze", "done"]);
 
 /**
  * Core user table backing auth flow.
@@ -28,6 +30,22 @@ export const users = pgTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+/**
+ * 本地帳號密碼 - 用戶名/密碼登入(不使用 OAuth 時)
+ * 對應的 users.openId 為「local:用戶名」；密碼雜湊不放在 users 表，避免隨用戶資料返回前端
+ */
+export const userCredentials = pgTable("userCredentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").notNull().unique(),
+  username: varchar("username", { length: 64 }).notNull().unique(),
+  passwordHash: text("passwordHash").notNull(), // scrypt$鹽$雜湊
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type UserCredential = typeof userCredentials.$inferSelect;
+export type InsertUserCredential = typeof userCredentials.$inferInsert;
+
 /**
  * 食譜主表 - 儲存所有食譜的基本資訊
  */
@@ -51,6 +69,7 @@ export const recipes = pgTable("recipes", {
   carbs: integer("carbs"), // 碳水化合物(克)
   fat: integer("fat"), // 脂肪(克)
   fiber: integer("fiber"), // 纖維(克)
+  allergens: text("allergens"), // 過敏原代碼(JSON格式的數組，由食材名稱自動檢測；null 表示未檢測)
   
   // 烹飪信息
   difficulty: difficultyEnum("difficulty"), // 難度等級
@@ -66,6 +85,10 @@ export const recipes = pgTable("recipes", {
   
   // 狀態
   isPublished: boolean("isPublished").default(false),
+  moderationHidden: boolean("moderationHidden").default(false).notNull(), // 被管理員下架(作者不能自行重新發佈)
+  
+  // 搜索文本(標題、描述、食材名稱和步驟，由資料庫觸發器維護，不需要手動寫入)
+  searchText: text("searchText"),
   
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
@@ -83,6 +106,10 @@ export const ingredients = pgTable("ingredients", {
   name: varchar("name", { length: 255 }).notNull(),
   amount: varchar("amount", { length: 100 }), // 例如: "200克", "2湯匙"
   unit: varchar("unit", { length: 50 }), // 單位
+  // 由 amount / unit 解析出的結構化份量(見 server/quantityParser.ts)
+  quantity: real("quantity"), // 數量(範圍時為下限)
+  quantityMax: real("quantityMax"), // 範圍上限
+  canonicalUnit: varchar("canonicalUnit", { length: 20 }), // 標準單位: g / ml / piece / to_taste
   calories: integer("calories"), // 該食材的卡路里
   notes: text("notes"), // 備註
   order: integer("order").notNull(), // 顯示順序
@@ -103,6 +130,8 @@ export const cookingSteps = pgTable("cookingSteps", {
   temperature: varchar("temperature", { length: 50 }), // 溫度設定
   imageUrl: text("imageUrl"), // 步驟圖片
   tips: text("tips"), // 小貼士
+  isPassive: boolean("isPassive").default(false).notNull(), // 無需看顧的步驟(燉煮、焗、醃等)，可同時進行其他步驟
+  dependsOn: text("dependsOn"), // 前置步驟的步驟編號(JSON 數組)，null 表示接上一步
 });
 
 export type CookingStep = typeof cookingSteps.$inferSelect;
@@ -161,6 +190,7 @@ export const userSuggestions = pgTable("userSuggestions", {
   improvedFat: integer("improvedFat"), // 優化後脂肪(g)
   improvedFiber: integer("improvedFiber"), // 優化後纖維(g)
   healthTips: text("healthTips"), // 健康提示
+  proposedChanges: text("proposedChanges"), // 可套用的食材/步驟修改(JSON)
   
   // 狀態
   status: suggestionStatusEnum("status").default("pending").notNull(),
@@ -189,7 +219,10 @@ export const recipeVersions = pgTable("recipeVersions", {
   changedFields: text("changedFields"), // 變更的欄位列表(JSON)
   
   createdAt: timestamp("createdAt").defaultNow().notNull(),
-});
+}, (table) => [
+  // 同一食譜的版本號不能重複(同時編輯時由資料庫保證)
+  uniqueIndex("idx_recipeVersions_recipeId_versionNumber").on(table.recipeId, table.versionNumber),
+]);
 
 export type RecipeVersion = typeof recipeVersions.$inferSelect;
 export type InsertRecipeVersion = typeof recipeVersions.$inferInsert;
@@ -205,6 +238,7 @@ export const recipeReviews = pgTable("recipeReviews", {
   // 評分和評論
   rating: integer("rating").notNull(), // 1-5星級評分
   comment: text("comment"), // 評論內容
+  isHidden: boolean("isHidden").default(false).notNull(), // 管理員隱藏(不公開顯示，不計入平均評分)
   
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().notNull(),
@@ -212,3 +246,75 @@ export const recipeReviews = pgTable("recipeReviews", {
 
 export type RecipeReview = typeof recipeReviews.$inferSelect;
 export type InsertRecipeReview = typeof recipeReviews.$inferInsert;
+
+/**
+ * 導入任務表 - 網址導入改為背景任務處理，記錄每個階段的進度
+ */
+export const importJobs = pgTable("importJobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("userId").notNull(), // 提交者
+  inputMethod: inputMethodEnum("inputMethod").default("weblink").notNull(), // weblink、image 或 voice
+  sourceUrl: text("sourceUrl").notNull(), // 要導入的網址(圖片、語音導入時為上傳後的檔案URL)
+  
+  // 狀態和進度
+  status: importJobStatusEnum("status").default("queued").notNull(),
+  stage: importJobStageEnum("stage").default("queued").notNull(), // 當前階段
+  progressCurrent: integer("progressCurrent").default(0).notNull(), // 已分析完成的食譜數
+  progressTotal: integer("progressTotal").default(0).notNull(), // 偵測到的食譜總數
+  progressMessage: text("progressMessage"), // 當前處理中的項目
+  attempts: integer("attempts").default(0).notNull(), // 已嘗試次數(伺服器重啟後會重新排隊)
+  heartbeatAt: timestamp("heartbeatAt"), // 執行中的 worker 定期更新，太久沒有更新視為中斷
+  createdRecipeIds: text("createdRecipeIds"), // 本次嘗試已保存的食譜ID(JSON格式的數組)，重試前先刪除
+  
+  // 結果
+  resultData: text("resultData"), // 創建的食譜列表(JSON格式)
+  errorMessage: text("errorMessage"), // 失敗原因
+  
+  startedAt: timestamp("startedAt"),
+  completedAt: timestamp("completedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type ImportJob = typeof importJobs.$inferSelect;
+export type InsertImportJob = typeof importJobs.$inferInsert;
+
+/**
+ * 食物營養成分表 - 本地營養數據庫(可從 CSV 匯入，例如 USDA / 食物安全中心數據)
+ * 所有營養數值以每100克可食部分計算
+ */
+export const foodNutrients = pgTable("foodNutrients", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 200 }).notNull().unique(), // 標準名稱
+  aliases: text("aliases"), // 其他名稱(JSON格式的數組)，用於匹配食材名稱
+  caloriesPer100g: real("caloriesPer100g").notNull(), // 卡路里(kcal)
+  proteinPer100g: real("proteinPer100g").default(0).notNull(), // 蛋白質(克)
+  carbsPer100g: real("carbsPer100g").default(0).notNull(), // 碳水化合物(克)
+  fatPer100g: real("fatPer100g").default(0).notNull(), // 脂肪(克)
+  fiberPer100g: real("fiberPer100g").default(0).notNull(), // 纖維(克)
+  gramsPerPiece: real("gramsPerPiece"), // 每個/隻的重量(克)，用於「2個雞蛋」這類份量
+  densityGPerMl: real("densityGPerMl"), // 密度(克/毫升)，用於湯匙、杯等容量單位，空值當作1
+  source: varchar("source", { length: 50 }), // 數據來源
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type FoodNutrient = typeof foodNutrients.$inferSelect;
+export type InsertFoodNutrient = typeof foodNutrients.$inferInsert;
+
+/**
+ * 健康評分配置 - 管理員修改過的飲食配置(低碳、糖尿病友善等)
+ * 沒有記錄的配置使用程式內置的默認規則，刪除記錄即恢復默認
+ */
+export const healthProfiles = pgTable("healthProfiles", {
+  id: serial("id").primaryKey(),
+  key: varchar("key", { length: 50 }).notNull().unique(), // 配置代號(對應 shared/healthScore.ts)
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  rules: text("rules").notNull(), // 評分規則(JSON格式的數組)
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().notNull(),
+});
+
+export type HealthProfileRecord = typeof healthProfiles.$inferSelect;
+export type InsertHealthProfile = typeof healthProfiles.$inferInsert;
@@ -0,0 +1,26 @@
+import "dotenv/config";
+import { toIngredientQuantityFields } from "../server/quantityParser";
+import { getIngredientsWithoutQuantity, updateIngredient } from "../server/db";
+
+// 用法: pnpm db:backfill-quantities
+// 為舊食材解析份量文字，填入 quantity / quantityMax / canonicalUnit；可重複執行
+async function backfillIngredientQuantities() {
+  const rows = await getIngredientsWithoutQuantity();
+  console.log(`📊 Found ${rows.length} ingredient(s) without structured quantity`);
+
+  let parsedCount = 0;
+  for (const row of rows) {
+    const fields = toIngredientQuantityFields(row.amount, row.unit);
+    if (!fields.canonicalUnit) continue;
+    await updateIngredient(row.id, fields);
+    parsedCount++;
+  }
+
+  console.log(`✅ Parsed ${parsedCount} ingredient(s), ${rows.length - parsedCount} left unparsed`);
+  process.exit(0);
+}
+
+backfillIngredientQuantities().catch(error => {
+  console.error("❌ Failed to backfill ingredient quantities:", error);
+  process.exit(1);
+});
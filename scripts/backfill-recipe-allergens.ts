@@ -0,0 +1,24 @@
+import "dotenv/config";
+import { refreshRecipeAllergens } from "../server/allergens";
+import { getRecipeIdsWithoutAllergens } from "../server/db";
+
+// 用法: pnpm db:backfill-allergens
+// 為尚未檢測過敏原的舊食譜按食材名稱檢測過敏原；可重複執行
+async function backfillRecipeAllergens() {
+  const recipeIds = await getRecipeIdsWithoutAllergens();
+  console.log(`📊 Found ${recipeIds.length} recipe(s) without allergen data`);
+
+  let withAllergens = 0;
+  for (const recipeId of recipeIds) {
+    const codes = await refreshRecipeAllergens(recipeId);
+    if (codes.length > 0) withAllergens++;
+  }
+
+  console.log(`✅ Checked ${recipeIds.length} recipe(s), ${withAllergens} contain allergens`);
+  process.exit(0);
+}
+
+backfillRecipeAllergens().catch(error => {
+  console.error("❌ Failed to backfill recipe allergens:", error);
+  process.exit(1);
+});
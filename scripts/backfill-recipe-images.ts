@@ -0,0 +1,21 @@
+import "dotenv/config";
+import { generateMissingRecipeImages } from "../server/dishImage";
+
+// 用法: pnpm db:backfill-images [數量上限，預設 20]
+// 為沒有圖片的食譜生成 AI 菜式圖片；需要配置圖片生成服務，可重複執行
+async function backfillRecipeImages() {
+  const limit = Number(process.argv[2]) || 20;
+  const { total, generated, failed } = await generateMissingRecipeImages(limit);
+
+  console.log(`📊 Found ${total} recipe(s) without image (limit ${limit})`);
+  for (const { recipeId, error } of failed) {
+    console.log(`⚠️  Recipe ${recipeId}: ${error}`);
+  }
+  console.log(`✅ Generated ${generated} image(s), ${failed.length} failed`);
+  process.exit(0);
+}
+
+backfillRecipeImages().catch(error => {
+  console.error("❌ Failed to backfill recipe images:", error);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+-- Recipe search: searchText triggers, CJK-aware tsvector and search indexes.
+-- Not part of drizzle/schema.ts, so run this after scripts/supabase-init.sql or `pnpm db:push`:
+--   pnpm db:setup-search   (or paste this file into the Supabase SQL editor)
+-- Safe to re-run; it also refreshes searchText for every existing recipe.
+-- "searchText" = title + description + ingredient names + step text, kept in sync by triggers.
+-- CJK text has no word boundaries, so recipe_search_vector() splits every CJK character into
+-- its own token; the app queries words as phrases of adjacent characters (番 <-> 茄).
+-- Requires a UTF-8 database locale (Supabase default) so the parser treats CJK as letters.
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE OR REPLACE FUNCTION recipe_search_vector(doc TEXT)
+RETURNS tsvector AS $$
+  SELECT to_tsvector('simple', regexp_replace(lower(coalesce(doc, '')), '([぀-ヿ㐀-䶿一-鿿가-힯])', ' \1 ', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION recipe_search_text(rid INTEGER, title TEXT, description TEXT)
+RETURNS TEXT AS $$
+  SELECT concat_ws(' ',
+    title,
+    description,
+    (SELECT string_agg("name", ' ' ORDER BY "order") FROM "ingredients" WHERE "recipeId" = rid),
+    (SELECT string_agg("instruction", ' ' ORDER BY "stepNumber") FROM "cookingSteps" WHERE "recipeId" = rid)
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION update_recipe_search_text()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW."searchText" = recipe_search_text(NEW."id", NEW."title", NEW."description");
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_parent_recipe_search_text()
+RETURNS TRIGGER AS $$
+DECLARE
+  rid INTEGER;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    rid := OLD."recipeId";
+  ELSE
+    rid := NEW."recipeId";
+  END IF;
+  UPDATE "recipes" SET "searchText" = recipe_search_text("id", "title", "description") WHERE "id" = rid;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_recipes_search_text ON "recipes";
+CREATE TRIGGER update_recipes_search_text BEFORE INSERT OR UPDATE OF "title", "description" ON "recipes"
+  FOR EACH ROW EXECUTE FUNCTION update_recipe_search_text();
+
+DROP TRIGGER IF EXISTS refresh_recipe_search_text_ingredients ON "ingredients";
+CREATE TRIGGER refresh_recipe_search_text_ingredients AFTER INSERT OR UPDATE OR DELETE ON "ingredients"
+  FOR EACH ROW EXECUTE FUNCTION refresh_parent_recipe_search_text();
+
+DROP TRIGGER IF EXISTS refresh_recipe_search_text_steps ON "cookingSteps";
+CREATE TRIGGER refresh_recipe_search_text_steps AFTER INSERT OR UPDATE OR DELETE ON "cookingSteps"
+  FOR EACH ROW EXECUTE FUNCTION refresh_parent_recipe_search_text();
+
+-- Backfill existing recipes (rows written before the triggers existed may be missing or stale)
+UPDATE "recipes" SET "searchText" = recipe_search_text("id", "title", "description");
+
+CREATE INDEX IF NOT EXISTS idx_recipes_search_vector ON "recipes" USING GIN (recipe_search_vector("searchText"));
+CREATE INDEX IF NOT EXISTS idx_recipes_search_trgm ON "recipes" USING GIN ("searchText" gin_trgm_ops);
@@ -0,0 +1,30 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import "dotenv/config";
+import { parseFoodNutrientCsv } from "../server/nutritionEngine";
+import { upsertFoodNutrient } from "../server/db";
+
+// 用法: pnpm db:seed-nutrients [csv路徑]
+// 預設匯入 scripts/food-nutrients.csv，可傳入 USDA / 食物安全中心的匯出檔(欄位需相同)
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+async function seedFoodNutrients() {
+  const csvPath = path.resolve(process.argv[2] ?? path.join(__dirname, "food-nutrients.csv"));
+  console.log(`📄 Reading nutrient table from ${csvPath}`);
+
+  const rows = parseFoodNutrientCsv(readFileSync(csvPath, "utf-8"));
+  console.log(`📊 Parsed ${rows.length} food(s)`);
+
+  for (const row of rows) {
+    await upsertFoodNutrient(row);
+  }
+
+  console.log(`✅ Imported ${rows.length} food(s) into foodNutrients`);
+  process.exit(0);
+}
+
+seedFoodNutrients().catch(error => {
+  console.error("❌ Failed to seed food nutrients:", error);
+  process.exit(1);
+});
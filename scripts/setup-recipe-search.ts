@@ -0,0 +1,28 @@
+import "dotenv/config";
+import { readFileSync } from "node:fs";
+import postgres from "postgres";
+
+// 用法: pnpm db:setup-search
+// 建立食譜搜索的觸發器、函數和索引，並回填所有食譜的 searchText；可重複執行
+// drizzle/schema.ts 無法表達觸發器和函數索引，pnpm db:push 之後必須執行一次
+async function setupRecipeSearch() {
+  const connectionString = process.env.DATABASE_URL;
+  if (!connectionString) {
+    throw new Error("DATABASE_URL is not set");
+  }
+
+  const client = postgres(connectionString, { max: 1 });
+  try {
+    await client.unsafe(readFileSync(new URL("./recipe-search.sql", import.meta.url), "utf8"));
+    const [{ count }] = await client<{ count: number }[]>`SELECT count(*)::int AS count FROM "recipes"`;
+    console.log(`✅ Recipe search triggers and indexes are ready, refreshed searchText for ${count} recipe(s)`);
+  } finally {
+    await client.end();
+  }
+  process.exit(0);
+}
+
+setupRecipeSearch().catch(error => {
+  console.error("❌ Failed to set up recipe search:", error);
+  process.exit(1);
+});
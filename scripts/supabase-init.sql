@@ -3,11 +3,17 @@
 
 -- Create Enums
 CREATE TYPE "role" AS ENUM ('user', 'admin');
-CREATE TYPE "inputMethod" AS ENUM ('manual', 'image', 'weblink');
+CREATE TYPE "inputMethod" AS ENUM ('manual', 'image', 'weblink', 'voice', 'file');
 CREATE TYPE "difficulty" AS ENUM ('簡單', '中等', '困難');
 CREATE TYPE "categoryType" AS ENUM ('ingredient', 'cuisine', 'method', 'health');
 CREATE TYPE "suggestionType" AS ENUM ('nutrition', 'calories', 'taste', 'method', 'other');
 CREATE TYPE "suggestionStatus" AS ENUM ('pending', 'processed', 'applied');
+CREATE TYPE "importJobStatus" AS ENUM ('queued', 'running', 'completed', 'failed');
+CREATE TYPE "importJobStage" AS ENUM ('queued', 'scrape', 'prefilter', 'detect', 'analyze', 'done');
+
+-- Upgrade existing enums
+ALTER TYPE "inputMethod" ADD VALUE IF NOT EXISTS 'voice';
+ALTER TYPE "inputMethod" ADD VALUE IF NOT EXISTS 'file';
 
 -- Users table
 CREATE TABLE IF NOT EXISTS "users" (
@@ -22,6 +28,16 @@ CREATE TABLE IF NOT EXISTS "users" (
   "lastSignedIn" TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Local username/password credentials (users.openId = 'local:<username>')
+CREATE TABLE IF NOT EXISTS "userCredentials" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL UNIQUE,
+  "username" VARCHAR(64) NOT NULL UNIQUE,
+  "passwordHash" TEXT NOT NULL,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
 -- Recipes table
 CREATE TABLE IF NOT EXISTS "recipes" (
   "id" SERIAL PRIMARY KEY,
@@ -39,6 +55,7 @@ CREATE TABLE IF NOT EXISTS "recipes" (
   "carbs" INTEGER,
   "fat" INTEGER,
   "fiber" INTEGER,
+  "allergens" TEXT,
   "difficulty" "difficulty",
   "prepTime" INTEGER,
   "cookTime" INTEGER,
@@ -48,10 +65,21 @@ CREATE TABLE IF NOT EXISTS "recipes" (
   "improvementSuggestions" TEXT,
   "machineInstructions" TEXT,
   "isPublished" BOOLEAN DEFAULT false,
+  "moderationHidden" BOOLEAN NOT NULL DEFAULT FALSE,
+  "searchText" TEXT,
   "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+-- Upgrade existing recipes tables (full-text search, see "Recipe search" below)
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "searchText" TEXT;
+
+-- Upgrade existing recipes tables (then run: pnpm db:backfill-allergens)
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "allergens" TEXT;
+
+-- Upgrade existing recipes tables (admin moderation)
+ALTER TABLE "recipes" ADD COLUMN IF NOT EXISTS "moderationHidden" BOOLEAN NOT NULL DEFAULT FALSE;
+
 -- Ingredients table
 CREATE TABLE IF NOT EXISTS "ingredients" (
   "id" SERIAL PRIMARY KEY,
@@ -59,11 +87,19 @@ CREATE TABLE IF NOT EXISTS "ingredients" (
   "name" VARCHAR(255) NOT NULL,
   "amount" VARCHAR(100),
   "unit" VARCHAR(50),
+  "quantity" REAL,
+  "quantityMax" REAL,
+  "canonicalUnit" VARCHAR(20),
   "calories" INTEGER,
   "notes" TEXT,
   "order" INTEGER NOT NULL
 );
 
+-- Upgrade existing ingredients tables (then run: pnpm db:backfill-quantities)
+ALTER TABLE "ingredients" ADD COLUMN IF NOT EXISTS "quantity" REAL;
+ALTER TABLE "ingredients" ADD COLUMN IF NOT EXISTS "quantityMax" REAL;
+ALTER TABLE "ingredients" ADD COLUMN IF NOT EXISTS "canonicalUnit" VARCHAR(20);
+
 -- Cooking Steps table
 CREATE TABLE IF NOT EXISTS "cookingSteps" (
   "id" SERIAL PRIMARY KEY,
@@ -73,9 +109,15 @@ CREATE TABLE IF NOT EXISTS "cookingSteps" (
   "duration" INTEGER,
   "temperature" VARCHAR(50),
   "imageUrl" TEXT,
-  "tips" TEXT
+  "tips" TEXT,
+  "isPassive" BOOLEAN NOT NULL DEFAULT FALSE,
+  "dependsOn" TEXT
 );
 
+-- Upgrade existing cookingSteps tables (step timeline)
+ALTER TABLE "cookingSteps" ADD COLUMN IF NOT EXISTS "isPassive" BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE "cookingSteps" ADD COLUMN IF NOT EXISTS "dependsOn" TEXT;
+
 -- Categories table
 CREATE TABLE IF NOT EXISTS "categories" (
   "id" SERIAL PRIMARY KEY,
@@ -111,11 +153,14 @@ CREATE TABLE IF NOT EXISTS "userSuggestions" (
   "improvedFat" INTEGER,
   "improvedFiber" INTEGER,
   "healthTips" TEXT,
+  "proposedChanges" TEXT,
   "status" "suggestionStatus" NOT NULL DEFAULT 'pending',
   "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
 );
 
+ALTER TABLE "userSuggestions" ADD COLUMN IF NOT EXISTS "proposedChanges" TEXT;
+
 -- Recipe Versions table
 CREATE TABLE IF NOT EXISTS "recipeVersions" (
   "id" SERIAL PRIMARY KEY,
@@ -135,6 +180,64 @@ CREATE TABLE IF NOT EXISTS "recipeReviews" (
   "userId" INTEGER NOT NULL,
   "rating" INTEGER NOT NULL,
   "comment" TEXT,
+  "isHidden" BOOLEAN NOT NULL DEFAULT FALSE,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Upgrade existing recipeReviews tables
+ALTER TABLE "recipeReviews" ADD COLUMN IF NOT EXISTS "isHidden" BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Import Jobs table
+CREATE TABLE IF NOT EXISTS "importJobs" (
+  "id" SERIAL PRIMARY KEY,
+  "userId" INTEGER NOT NULL,
+  "inputMethod" "inputMethod" NOT NULL DEFAULT 'weblink',
+  "sourceUrl" TEXT NOT NULL,
+  "status" "importJobStatus" NOT NULL DEFAULT 'queued',
+  "stage" "importJobStage" NOT NULL DEFAULT 'queued',
+  "progressCurrent" INTEGER NOT NULL DEFAULT 0,
+  "progressTotal" INTEGER NOT NULL DEFAULT 0,
+  "progressMessage" TEXT,
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "heartbeatAt" TIMESTAMP,
+  "createdRecipeIds" TEXT,
+  "resultData" TEXT,
+  "errorMessage" TEXT,
+  "startedAt" TIMESTAMP,
+  "completedAt" TIMESTAMP,
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Upgrade existing importJobs tables (resume interrupted jobs)
+ALTER TABLE "importJobs" ADD COLUMN IF NOT EXISTS "heartbeatAt" TIMESTAMP;
+ALTER TABLE "importJobs" ADD COLUMN IF NOT EXISTS "createdRecipeIds" TEXT;
+
+-- Food Nutrients table (per 100g, seed with: pnpm db:seed-nutrients)
+CREATE TABLE IF NOT EXISTS "foodNutrients" (
+  "id" SERIAL PRIMARY KEY,
+  "name" VARCHAR(200) NOT NULL UNIQUE,
+  "aliases" TEXT,
+  "caloriesPer100g" REAL NOT NULL,
+  "proteinPer100g" REAL NOT NULL DEFAULT 0,
+  "carbsPer100g" REAL NOT NULL DEFAULT 0,
+  "fatPer100g" REAL NOT NULL DEFAULT 0,
+  "fiberPer100g" REAL NOT NULL DEFAULT 0,
+  "gramsPerPiece" REAL,
+  "densityGPerMl" REAL,
+  "source" VARCHAR(50),
+  "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
+  "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Health Profiles table (admin overrides of the built-in health score rules)
+CREATE TABLE IF NOT EXISTS "healthProfiles" (
+  "id" SERIAL PRIMARY KEY,
+  "key" VARCHAR(50) NOT NULL UNIQUE,
+  "name" VARCHAR(100) NOT NULL,
+  "description" TEXT,
+  "rules" TEXT NOT NULL,
   "createdAt" TIMESTAMP NOT NULL DEFAULT NOW(),
   "updatedAt" TIMESTAMP NOT NULL DEFAULT NOW()
 );
@@ -152,6 +255,9 @@ $$ LANGUAGE plpgsql;
 CREATE TRIGGER update_users_updated_at BEFORE UPDATE ON "users"
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_userCredentials_updated_at BEFORE UPDATE ON "userCredentials"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 CREATE TRIGGER update_recipes_updated_at BEFORE UPDATE ON "recipes"
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
@@ -161,6 +267,15 @@ CREATE TRIGGER update_userSuggestions_updated_at BEFORE UPDATE ON "userSuggestio
 CREATE TRIGGER update_recipeReviews_updated_at BEFORE UPDATE ON "recipeReviews"
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
 
+CREATE TRIGGER update_importJobs_updated_at BEFORE UPDATE ON "importJobs"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_foodNutrients_updated_at BEFORE UPDATE ON "foodNutrients"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_healthProfiles_updated_at BEFORE UPDATE ON "healthProfiles"
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
 -- Create indexes for better performance
 CREATE INDEX IF NOT EXISTS idx_recipes_userId ON "recipes"("userId");
 CREATE INDEX IF NOT EXISTS idx_recipes_isPublished ON "recipes"("isPublished");
@@ -171,6 +286,18 @@ CREATE INDEX IF NOT EXISTS idx_recipeCategories_categoryId ON "recipeCategories"
 CREATE INDEX IF NOT EXISTS idx_userSuggestions_recipeId ON "userSuggestions"("recipeId");
 CREATE INDEX IF NOT EXISTS idx_userSuggestions_userId ON "userSuggestions"("userId");
 CREATE INDEX IF NOT EXISTS idx_recipeVersions_recipeId ON "recipeVersions"("recipeId");
+-- Renumber duplicate version numbers left by concurrent edits, then keep them unique per recipe
+UPDATE "recipeVersions" v SET "versionNumber" = numbered.rn
+FROM (SELECT "id", ROW_NUMBER() OVER (PARTITION BY "recipeId" ORDER BY "versionNumber", "id") AS rn FROM "recipeVersions") numbered
+WHERE v."id" = numbered."id" AND v."versionNumber" <> numbered.rn;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_recipeVersions_recipeId_versionNumber ON "recipeVersions"("recipeId", "versionNumber");
 CREATE INDEX IF NOT EXISTS idx_recipeReviews_recipeId ON "recipeReviews"("recipeId");
 CREATE INDEX IF NOT EXISTS idx_recipeReviews_userId ON "recipeReviews"("userId");
+CREATE INDEX IF NOT EXISTS idx_importJobs_status ON "importJobs"("status");
+CREATE INDEX IF NOT EXISTS idx_importJobs_userId ON "importJobs"("userId");
+
+-- ==================== Recipe search ====================
+-- The searchText triggers, recipe_search_vector() and search indexes live in
+-- scripts/recipe-search.sql so databases created with `pnpm db:push` get them too.
+-- Run that file next (or `pnpm db:setup-search`).
 
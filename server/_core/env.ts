@@ -12,4 +12,6 @@ export const ENV = {
   openaiApiKey: process.env.OPENAI_API_KEY ?? "",
   stabilityAiApiKey: process.env.STABILITY_AI_API_KEY ?? "",
   replicateApiToken: process.env.REPLICATE_API_TOKEN ?? "",
+  ytDlpPath: process.env.YT_DLP_PATH ?? "yt-dlp",
+  publicBaseUrl: process.env.PUBLIC_BASE_URL ?? "",
 };
@@ -31,6 +31,18 @@ export type GenerateImageResponse = {
   url?: string;
 };
 
+/**
+ * Whether any image generation service is configured (same order as generateImage)
+ */
+export function isImageGenerationConfigured(): boolean {
+  return Boolean(
+    ENV.stabilityAiApiKey || process.env.STABILITY_AI_API_KEY ||
+    ENV.replicateApiToken || process.env.REPLICATE_API_TOKEN ||
+    ENV.openaiApiKey || process.env.OPENAI_API_KEY ||
+    ((ENV.forgeApiUrl || process.env.BUILT_IN_FORGE_API_URL) && (ENV.forgeApiKey || process.env.BUILT_IN_FORGE_API_KEY))
+  );
+}
+
 export async function generateImage(
   options: GenerateImageOptions
 ): Promise<GenerateImageResponse> {
@@ -11,6 +11,8 @@ import { appRouter } from "../routers";
 import { createContext } from "./context";
 import { serveStatic, setupVite } from "./vite";
 import { getDb } from "../db";
+import { startImportWorker } from "../importWorker";
+import { registerSeoRoutes } from "../recipeSeo";
 
 // Get the directory of the current file
 const __filename = fileURLToPath(import.meta.url);
@@ -173,6 +175,9 @@ async function startServer() {
     console.error("[Startup] ❌ Database connection test error:", error);
   }
   console.log(""); // Empty line for readability
+
+  // 啟動背景導入 worker（處理網址導入任務）
+  await startImportWorker();
   
   const app = express();
   const server = createServer(app);
@@ -201,6 +206,8 @@ async function startServer() {
   
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
+  // sitemap.xml 和 robots.txt(已發佈食譜的 SEO)
+  registerSeoRoutes(app);
   // tRPC API
   app.use(
     "/api/trpc",
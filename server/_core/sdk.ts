@@ -18,6 +18,9 @@ import type {
 const isNonEmptyString = (value: unknown): value is string =>
   typeof value === "string" && value.length > 0;
 
+// openId prefix for users created by the local username/password provider
+export const LOCAL_OPEN_ID_PREFIX = "local:";
+
 export type SessionPayload = {
   openId: string;
   appId: string;
@@ -171,7 +174,8 @@ class SDKServer {
     return this.signSession(
       {
         openId,
-        appId: ENV.appId,
+        // Local login works without an OAuth app, but the session still needs a non-empty appId
+        appId: ENV.appId || "local",
         name: options.name || "",
       },
       options
@@ -270,6 +274,11 @@ class SDKServer {
     const signedInAt = new Date();
     let user = await db.getUserByOpenId(sessionUserId);
 
+    // Local accounts only exist in our DB, there is nothing to sync
+    if (!user && sessionUserId.startsWith(LOCAL_OPEN_ID_PREFIX)) {
+      throw ForbiddenError("User not found");
+    }
+
     // If user not in DB, sync from OAuth server automatically
     if (!user) {
       try {
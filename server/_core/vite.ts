@@ -5,6 +5,7 @@ import { nanoid } from "nanoid";
 import path from "path";
 import { createServer as createViteServer } from "vite";
 import viteConfig from "../../vite.config";
+import { getSeoRecipeId, renderRecipeSeoHtml } from "../recipeSeo";
 
 export async function setupVite(app: Express, server: Server) {
   const serverOptions = {
@@ -51,7 +52,7 @@ export async function setupVite(app: Express, server: Server) {
       template = template.replace(/%VITE_APP_LOGO%/g, envVars.VITE_APP_LOGO);
       template = template.replace(/%VITE_APP_TITLE%/g, envVars.VITE_APP_TITLE);
       
-      const page = await vite.transformIndexHtml(url, template);
+      const page = await renderRecipeSeoHtml(req, await vite.transformIndexHtml(url, template));
       res.status(200).set({ "Content-Type": "text/html" }).end(page);
     } catch (e) {
       vite.ssrFixStacktrace(e as Error);
@@ -74,7 +75,20 @@ export function serveStatic(app: Express) {
   app.use(express.static(distPath));
 
   // fall through to index.html if the file doesn't exist
-  app.use("*", (_req, res) => {
-    res.sendFile(path.resolve(distPath, "index.html"));
+  app.use("*", async (req, res, next) => {
+    const indexPath = path.resolve(distPath, "index.html");
+    // 已發佈食譜的公開頁面要加入 SEO 標籤
+    if (getSeoRecipeId(req.originalUrl) === null) {
+      res.sendFile(indexPath);
+      return;
+    }
+
+    try {
+      const template = await fs.promises.readFile(indexPath, "utf-8");
+      const page = await renderRecipeSeoHtml(req, template);
+      res.status(200).set({ "Content-Type": "text/html" }).end(page);
+    } catch (e) {
+      next(e);
+    }
   });
 }
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(user: AuthenticatedUser | null): { ctx: TrpcContext } {
+  const ctx: TrpcContext = {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as TrpcContext["res"],
+  };
+
+  return { ctx };
+}
+
+function createUser(id: number, role: "user" | "admin" = "user"): AuthenticatedUser {
+  return {
+    id,
+    openId: `local:user${id}`,
+    email: null,
+    name: `User ${id}`,
+    loginMethod: "local",
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+}
+
+describe("admin console", () => {
+  it("should reject non-admin users", async () => {
+    const caller = appRouter.createCaller(createContext(createUser(1)).ctx);
+
+    await expect(caller.admin.listUsers()).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.admin.setUserRole({ userId: 1, role: "admin" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.admin.deleteCategory({ id: 1 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.admin.setReviewHidden({ id: 1, isHidden: true })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.admin.resetHealthProfile({ key: "lowCarb" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("should reject anonymous users", async () => {
+    const caller = appRouter.createCaller(createContext(null).ctx);
+
+    await expect(caller.admin.listReviews({ limit: 10 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("should not let an admin remove their own admin role", async () => {
+    const caller = appRouter.createCaller(createContext(createUser(2, "admin")).ctx);
+
+    await expect(caller.admin.setUserRole({ userId: 2, role: "user" })).rejects.toThrow("不能取消自己的管理員權限");
+  });
+
+  it("should refuse to merge a category into itself", async () => {
+    const caller = appRouter.createCaller(createContext(createUser(2, "admin")).ctx);
+
+    await expect(caller.admin.mergeCategories({ sourceId: 5, targetId: 5 })).rejects.toThrow("不能把分類合併到自己");
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, it } from "vitest";
+import { detectIngredientAllergens, summarizeRecipeAllergens } from "./allergens";
+
+describe("detectIngredientAllergens", () => {
+  it("should detect common Chinese ingredient names", () => {
+    expect(detectIngredientAllergens("雞蛋")).toEqual(["eggs"]);
+    expect(detectIngredientAllergens("蝦仁")).toEqual(["crustaceans"]);
+    expect(detectIngredientAllergens("蠔油")).toEqual(["molluscs"]);
+    expect(detectIngredientAllergens("白芝麻")).toEqual(["sesame"]);
+    expect(detectIngredientAllergens("生抽豉油")).toEqual(["gluten", "soybeans"]);
+  });
+
+  it("should not flag look-alike names", () => {
+    expect(detectIngredientAllergens("芝麻菜")).toEqual([]);
+    expect(detectIngredientAllergens("椰奶")).toEqual([]);
+    expect(detectIngredientAllergens("牛油果")).toEqual([]);
+    expect(detectIngredientAllergens("魷魚")).toEqual(["molluscs"]);
+    expect(detectIngredientAllergens("eggplant")).toEqual([]);
+    expect(detectIngredientAllergens("peanut butter")).toEqual(["peanuts"]);
+  });
+
+  it("should still detect allergens next to an excluded word", () => {
+    expect(detectIngredientAllergens("魷魚和三文魚")).toEqual(["molluscs", "fish"]);
+  });
+
+  it("should match English words with plurals and notes in brackets", () => {
+    expect(detectIngredientAllergens("Eggs")).toEqual(["eggs"]);
+    expect(detectIngredientAllergens("pine nuts")).toEqual(["treeNuts"]);
+    expect(detectIngredientAllergens("醬汁(含花生)")).toEqual(["peanuts"]);
+  });
+});
+
+describe("summarizeRecipeAllergens", () => {
+  it("should roll up allergens per recipe with the matching ingredients", () => {
+    const summary = summarizeRecipeAllergens([
+      { name: "雞蛋" },
+      { name: "牛奶" },
+      { name: "鹹蛋黃" },
+      { name: "白菜" },
+    ]);
+
+    expect(summary).toEqual([
+      { code: "eggs", label: "蛋類", ingredients: ["雞蛋", "鹹蛋黃"] },
+      { code: "milk", label: "奶類", ingredients: ["牛奶"] },
+    ]);
+  });
+});
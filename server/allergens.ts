@@ -0,0 +1,158 @@
+import { ALLERGEN_CODES, ALLERGEN_LABELS, type AllergenCode } from "@shared/allergens";
+import * as db from "./db";
+
+/**
+ * 過敏原檢測
+ * 按食材名稱(包括括號內的補充說明)做關鍵詞匹配，再匯總成食譜的過敏原列表；
+ * 食譜的匯總結果存入 recipes.allergens 供瀏覽篩選使用
+ */
+
+type AllergenRule = {
+  keywords: string[];
+  // 名稱包含這些詞時不算(例如「芝麻菜」是沙律菜，「魷魚」屬軟體動物而非魚類)
+  excludes?: string[];
+};
+
+const ALLERGEN_RULES: Record<AllergenCode, AllergenRule> = {
+  gluten: {
+    keywords: [
+      "麵粉", "麵包", "麵條", "麵", "面粉", "小麥", "大麥", "黑麥", "燕麥", "麩", "烤麩", "麵筋",
+      "餃子皮", "雲吞皮", "餛飩皮", "春卷皮", "意粉", "通粉", "烏冬", "拉麵", "麵包糠", "啤酒", "豉油", "醬油",
+      "wheat", "flour", "bread", "breadcrumb", "pasta", "spaghetti", "noodle", "barley", "rye", "oat",
+      "couscous", "semolina", "soy sauce", "beer",
+    ],
+    excludes: ["玉米麵", "粟米麵", "無麩質", "gluten-free", "gluten free"],
+  },
+  crustaceans: {
+    keywords: ["蝦", "蟹", "龍蝦", "蝦米", "蝦醬", "蝦皮", "shrimp", "prawn", "crab", "lobster", "crayfish", "shellfish"],
+  },
+  molluscs: {
+    keywords: [
+      "蠔", "蚝", "蜆", "青口", "扇貝", "帶子", "瑤柱", "鮑魚", "魷魚", "墨魚", "八爪魚", "章魚", "鱆魚", "螺", "蛤",
+      "花甲", "淡菜", "oyster", "clam", "mussel", "scallop", "squid", "calamari", "octopus", "cuttlefish",
+      "abalone", "snail", "escargot", "shellfish",
+    ],
+    excludes: ["螺絲粉", "螺絲麵", "螺旋"],
+  },
+  fish: {
+    keywords: [
+      "魚", "鯷", "三文魚", "吞拿魚", "鱈", "木魚", "柴魚", "鰹", "fish", "salmon", "tuna", "cod", "anchovy",
+      "anchovies", "bonito", "sardine", "mackerel", "trout", "tilapia", "halibut",
+    ],
+    excludes: ["魷魚", "墨魚", "八爪魚", "章魚", "鱆魚", "鮑魚", "甲魚", "鱷魚", "魚香", "魚腥草", "shellfish"],
+  },
+  eggs: {
+    keywords: ["蛋", "雞蛋", "鴨蛋", "鵪鶉蛋", "皮蛋", "鹹蛋", "蛋黃醬", "美乃滋", "egg", "mayonnaise", "mayo", "meringue"],
+    excludes: ["雞蛋花", "無蛋", "egg-free", "eggless"],
+  },
+  milk: {
+    keywords: [
+      "奶", "乳", "芝士", "起司", "牛油", "黃油", "忌廉", "乳酪", "優格", "milk", "cheese", "butter", "cream",
+      "yogurt", "yoghurt", "whey", "ghee", "parmesan", "mozzarella",
+    ],
+    excludes: [
+      "椰奶", "椰漿", "豆奶", "杏仁奶", "燕麥奶", "米奶", "腐乳", "南乳", "乳鴿", "乳豬", "花生牛油", "牛油果", "奶白菜", "無乳",
+      "coconut milk", "coconut cream", "almond milk", "soy milk", "oat milk", "rice milk", "peanut butter",
+      "cocoa butter", "butter bean", "cream of tartar", "dairy-free",
+    ],
+  },
+  peanuts: {
+    keywords: ["花生", "peanut", "groundnut"],
+  },
+  treeNuts: {
+    keywords: [
+      "杏仁", "核桃", "合桃", "腰果", "開心果", "榛子", "夏威夷果", "碧根果", "松子", "巴西果", "almond", "walnut",
+      "cashew", "pistachio", "hazelnut", "pecan", "macadamia", "pine nut", "brazil nut",
+    ],
+  },
+  soybeans: {
+    keywords: [
+      "大豆", "黃豆", "豆腐", "豆漿", "豆奶", "腐竹", "腐皮", "枝豆", "毛豆", "味噌", "麵豉", "豉油", "醬油", "豆豉",
+      "納豆", "腐乳", "南乳", "天貝", "豆瓣醬", "soy", "soya", "tofu", "edamame", "miso", "tempeh", "natto",
+    ],
+    excludes: ["杏仁豆腐"],
+  },
+  sesame: {
+    keywords: ["芝麻", "麻油", "胡麻", "香油", "sesame", "tahini"],
+    excludes: ["芝麻菜"],
+  },
+  celery: {
+    keywords: ["芹", "celery", "celeriac"],
+  },
+  mustard: {
+    keywords: ["芥末", "芥辣", "芥菜籽", "mustard", "wasabi"],
+    excludes: ["mustard green"],
+  },
+  sulphites: {
+    keywords: [
+      "葡萄酒", "紅酒", "白葡萄酒", "葡萄乾", "提子乾", "杏脯", "亞硫酸", "wine", "raisin", "dried apricot",
+      "sulfite", "sulphite",
+    ],
+  },
+  lupin: {
+    keywords: ["羽扇豆", "lupin", "lupine"],
+  },
+  buckwheat: {
+    keywords: ["蕎麥", "buckwheat", "soba"],
+  },
+};
+
+function containsKeyword(name: string, keyword: string) {
+  // 英文要完整單詞匹配(可帶複數 s/es)，避免 egg 匹配到 eggplant
+  if (/^[a-z\s-]+$/.test(keyword)) {
+    return new RegExp(`(^|[^a-z])${keyword}(e?s)?([^a-z]|$)`).test(name);
+  }
+  return name.includes(keyword);
+}
+
+/**
+ * 檢測單個食材含有的過敏原
+ */
+export function detectIngredientAllergens(name: string): AllergenCode[] {
+  const normalized = name.trim().toLowerCase();
+  if (!normalized) return [];
+
+  return ALLERGEN_CODES.filter(code => {
+    const rule = ALLERGEN_RULES[code];
+    // 先移除排除詞再匹配，這樣「魷魚和三文魚」仍然會檢測到魚類
+    const remaining = (rule.excludes ?? []).reduce((text, exclude) => text.split(exclude).join(" "), normalized);
+    return rule.keywords.some(keyword => containsKeyword(remaining, keyword));
+  });
+}
+
+export type RecipeAllergen = {
+  code: AllergenCode;
+  label: string;
+  ingredients: string[]; // 含有此過敏原的食材名稱
+};
+
+/**
+ * 匯總食譜的過敏原，按過敏原列表的順序返回
+ */
+export function summarizeRecipeAllergens(ingredients: Array<{ name: string }>): RecipeAllergen[] {
+  const found = new Map<AllergenCode, string[]>();
+  for (const ingredient of ingredients) {
+    for (const code of detectIngredientAllergens(ingredient.name)) {
+      const names = found.get(code) ?? [];
+      if (!names.includes(ingredient.name)) names.push(ingredient.name);
+      found.set(code, names);
+    }
+  }
+
+  return ALLERGEN_CODES.filter(code => found.has(code)).map(code => ({
+    code,
+    label: ALLERGEN_LABELS[code],
+    ingredients: found.get(code)!,
+  }));
+}
+
+/**
+ * 重新檢測食譜的過敏原並寫入 recipes.allergens
+ * 食材有變動(創建、編輯、替換、還原、導入)後調用
+ */
+export async function refreshRecipeAllergens(recipeId: number): Promise<AllergenCode[]> {
+  const ingredientList = await db.getIngredientsByRecipeId(recipeId);
+  const codes = summarizeRecipeAllergens(ingredientList).map(allergen => allergen.code);
+  await db.updateRecipe(recipeId, { allergens: JSON.stringify(codes) });
+  return codes;
+}
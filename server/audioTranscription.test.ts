@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from "vitest";
+import type { WhisperSegment } from "./_core/voiceTranscription";
+import { audioMimeTypeFromFileName, buildTranscriptText, transcribeVideoAudio } from "./audioTranscription";
+
+function segment(text: string, noSpeechProb = 0.01): WhisperSegment {
+  return {
+    id: 0,
+    seek: 0,
+    start: 0,
+    end: 1,
+    text,
+    tokens: [],
+    temperature: 0,
+    avg_logprob: -0.2,
+    compression_ratio: 1,
+    no_speech_prob: noSpeechProb,
+  };
+}
+
+describe("buildTranscriptText", () => {
+  it("should put each segment on its own line and skip silence", () => {
+    const transcript = buildTranscriptText({
+      text: "番茄炒蛋 兩個番茄 三隻雞蛋 謝謝",
+      segments: [segment(" 番茄炒蛋 "), segment("兩個番茄，三隻雞蛋"), segment("謝謝", 0.95), segment("  ")],
+    });
+
+    expect(transcript).toBe("番茄炒蛋\n兩個番茄，三隻雞蛋");
+  });
+
+  it("should fall back to the full text when there are no segments", () => {
+    expect(buildTranscriptText({ text: " 先把雞蛋打散 ", segments: [] })).toBe("先把雞蛋打散");
+  });
+});
+
+describe("audioMimeTypeFromFileName", () => {
+  it("should map yt-dlp audio extensions to mime types", () => {
+    expect(audioMimeTypeFromFileName("audio.m4a")).toBe("audio/mp4");
+    expect(audioMimeTypeFromFileName("audio.WEBM")).toBe("audio/webm");
+    expect(audioMimeTypeFromFileName("/recipe-imports/1/123-abc.mp3")).toBe("audio/mpeg");
+    expect(audioMimeTypeFromFileName("audio.mkv")).toBeNull();
+  });
+});
+
+describe("transcribeVideoAudio", () => {
+  it("should return null without calling the transcriber when yt-dlp is missing", async () => {
+    const transcriber = vi.fn(async () => "不應被調用");
+
+    const transcript = await transcribeVideoAudio("https://www.youtube.com/watch?v=test", {
+      transcriber,
+      ytDlpPath: "/nonexistent/yt-dlp",
+    });
+
+    expect(transcript).toBeNull();
+    expect(transcriber).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,154 @@
+import { execFile } from "node:child_process";
+import { mkdtemp, readFile, readdir, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { promisify } from "node:util";
+import { ENV } from "./_core/env";
+import { transcribeAudio, type TranscriptionResponse } from "./_core/voiceTranscription";
+import { storagePut } from "./storage";
+
+/**
+ * 音訊轉錄
+ * 語音口述導入和沒有字幕的影片共用：影片先用 yt-dlp 下載音訊並上傳到儲存空間，再交給轉錄服務
+ */
+
+const execFileAsync = promisify(execFile);
+
+// 轉錄服務的檔案大小上限
+export const MAX_TRANSCRIPTION_AUDIO_BYTES = 16 * 1024 * 1024;
+
+// 只下載音訊；選最低音質即可(語音辨識不需要高音質，30 分鐘影片也能在 16MB 以內)
+const YT_DLP_AUDIO_FORMAT = "worstaudio[ext=m4a]/worstaudio[ext=webm]/worstaudio";
+const YT_DLP_TIMEOUT_MS = 5 * 60 * 1000;
+
+const AUDIO_MIME_TYPES: Record<string, string> = {
+  m4a: "audio/mp4",
+  mp4: "audio/mp4",
+  webm: "audio/webm",
+  weba: "audio/webm",
+  ogg: "audio/ogg",
+  opus: "audio/ogg",
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+};
+
+// 提示轉錄服務這是烹飪內容，有助正確辨認食材和烹飪用語
+const RECIPE_TRANSCRIPTION_PROMPT = "這是一段講解食譜的錄音，內容包括食譜名稱、食材、份量、烹飪步驟、火候和時間。";
+
+/**
+ * 轉錄器：輸入已上傳的音訊網址，返回逐段一行的文字
+ * 預設使用內建的 Whisper 轉錄服務，也可以傳入其他實現
+ */
+export type AudioTranscriber = (audio: { url: string; mimeType: string }) => Promise<string>;
+
+export const whisperTranscriber: AudioTranscriber = async ({ url }) => {
+  const result = await transcribeAudio({ audioUrl: url, prompt: RECIPE_TRANSCRIPTION_PROMPT });
+  if ("error" in result) {
+    console.error('[audioTranscription] ❌ Transcription failed:', result.code, result.details || result.error);
+    throw new Error(result.code === "FILE_TOO_LARGE" ? "錄音檔案太大，請使用 16MB 以內的錄音" : `語音轉錄失敗: ${result.error}`);
+  }
+  console.log('[audioTranscription] 📊 Transcription result:', { language: result.language, duration: result.duration });
+  return buildTranscriptText(result);
+};
+
+/**
+ * 把轉錄結果整理成逐段一行的文字(與影片字幕格式一致)，跳過幾乎肯定是靜音的片段
+ */
+export function buildTranscriptText(result: Pick<TranscriptionResponse, "text" | "segments">): string {
+  const segments = (result.segments ?? [])
+    .filter(segment => segment.no_speech_prob < 0.8)
+    .map(segment => segment.text.trim())
+    .filter(Boolean);
+
+  if (segments.length === 0) {
+    return result.text.trim();
+  }
+  return segments.join('\n');
+}
+
+export function audioMimeTypeFromFileName(fileName: string): string | null {
+  const extension = fileName.split(".").pop()?.toLowerCase() ?? "";
+  return AUDIO_MIME_TYPES[extension] ?? null;
+}
+
+/**
+ * 用 yt-dlp 下載影片音訊到臨時資料夾，返回檔案內容
+ */
+async function downloadVideoAudio(url: string, ytDlpPath: string): Promise<{ buffer: Buffer; mimeType: string; extension: string }> {
+  const dir = await mkdtemp(join(tmpdir(), "video-audio-"));
+  try {
+    await execFileAsync(
+      ytDlpPath,
+      [
+        "--no-playlist",
+        "--no-progress",
+        "-f", YT_DLP_AUDIO_FORMAT,
+        "--max-filesize", String(MAX_TRANSCRIPTION_AUDIO_BYTES),
+        "-o", join(dir, "audio.%(ext)s"),
+        // "--" 之後的參數一律當作網址，避免以 "-" 開頭的網址被解析成選項
+        "--",
+        url,
+      ],
+      { timeout: YT_DLP_TIMEOUT_MS, maxBuffer: 10 * 1024 * 1024 }
+    );
+
+    // 超過 --max-filesize 時 yt-dlp 會跳過下載而不報錯
+    const fileName = (await readdir(dir)).find(name => name.startsWith("audio.") && !name.endsWith(".part"));
+    if (!fileName) {
+      throw new Error("沒有下載到影片音訊(可能超過 16MB 上限)");
+    }
+    const mimeType = audioMimeTypeFromFileName(fileName);
+    if (!mimeType) {
+      throw new Error(`不支援的音訊格式: ${fileName}`);
+    }
+
+    const buffer = await readFile(join(dir, fileName));
+    return { buffer, mimeType, extension: fileName.split(".").pop()! };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+export type VideoAudioTranscriptionOptions = {
+  transcriber?: AudioTranscriber;
+  ytDlpPath?: string;
+};
+
+/**
+ * 下載影片音訊並轉錄(影片沒有字幕時的備用方案)
+ * 任何一步失敗都返回 null，由呼叫方繼續使用網頁文字
+ */
+export async function transcribeVideoAudio(url: string, options: VideoAudioTranscriptionOptions = {}): Promise<string | null> {
+  const transcriber = options.transcriber ?? whisperTranscriber;
+  const ytDlpPath = options.ytDlpPath ?? ENV.ytDlpPath;
+
+  if (!options.transcriber && (!ENV.forgeApiUrl || !ENV.forgeApiKey)) {
+    console.log('[audioTranscription] ⚠️  Transcription service not configured, skipping audio fallback');
+    return null;
+  }
+
+  const startTime = Date.now();
+  try {
+    console.log('[audioTranscription] 🎧 Downloading video audio with yt-dlp:', url);
+    const audio = await downloadVideoAudio(url, ytDlpPath);
+    console.log(`[audioTranscription] ✅ Downloaded ${(audio.buffer.length / (1024 * 1024)).toFixed(2)}MB (${audio.mimeType})`);
+
+    const { url: audioUrl } = await storagePut(
+      `video-audio/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${audio.extension}`,
+      audio.buffer,
+      audio.mimeType
+    );
+
+    const transcript = await transcriber({ url: audioUrl, mimeType: audio.mimeType });
+    console.log(`[audioTranscription] ⏱️  Audio fallback completed in ${Date.now() - startTime}ms (${transcript.length} chars)`);
+    return transcript;
+  } catch (error) {
+    const code = (error as NodeJS.ErrnoException).code;
+    if (code === "ENOENT") {
+      console.warn('[audioTranscription] ⚠️  yt-dlp not found, see YT_DLP_SETUP.md');
+    } else {
+      console.warn('[audioTranscription] ⚠️  Audio fallback failed:', error instanceof Error ? error.message : String(error));
+    }
+    return null;
+  }
+}
@@ -0,0 +1,264 @@
+import { deflateRawSync, gzipSync } from "zlib";
+import { describe, expect, it } from "vitest";
+import {
+  getDefaultImportIndexes,
+  markDuplicates,
+  normalizeRecipeObject,
+  normalizeTitleKey,
+  parseBulkImportFile,
+  parseCsv,
+  parseDurationText,
+  readZipEntries,
+} from "./bulkImport";
+
+// 生成測試用的 ZIP(deflate 壓縮)
+function buildZip(files: Array<{ name: string; data: Buffer }>): Buffer {
+  const localParts: Buffer[] = [];
+  const centralParts: Buffer[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, "utf8");
+    const compressed = deflateRawSync(file.data);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(compressed.length, 18);
+    local.writeUInt32LE(file.data.length, 22);
+    local.writeUInt16LE(name.length, 26);
+    localParts.push(local, name, compressed);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(compressed.length, 20);
+    central.writeUInt32LE(file.data.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(offset, 42);
+    centralParts.push(central, name);
+
+    offset += local.length + name.length + compressed.length;
+  }
+
+  const centralDirectory = Buffer.concat(centralParts);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 8);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...localParts, centralDirectory, end]);
+}
+
+const paprikaRecipe = {
+  uid: "ABC-123",
+  name: "Banana Bread",
+  ingredients: "3 ripe bananas\n2 cups flour\n\nsalt, to taste",
+  directions: "Mash the bananas.\nMix everything.\nBake for 60 minutes.",
+  servings: "8 servings",
+  prep_time: "15 mins",
+  cook_time: "1 hr",
+  source_url: "https://example.com/banana-bread",
+  categories: ["Baking"],
+};
+
+describe("parseCsv", () => {
+  it("should handle quoted fields with commas, quotes and line breaks", () => {
+    const rows = parseCsv('title,ingredients\n"Soup, hot","1 cup ""stock""\n2 carrots"\r\n\nSalad,lettuce\n');
+    expect(rows).toEqual([
+      ["title", "ingredients"],
+      ["Soup, hot", '1 cup "stock"\n2 carrots'],
+      ["Salad", "lettuce"],
+    ]);
+  });
+});
+
+describe("parseDurationText", () => {
+  it("should parse ISO durations, English and Chinese text", () => {
+    expect(parseDurationText("PT1H30M")).toBe(90);
+    expect(parseDurationText("1 hr 15 mins")).toBe(75);
+    expect(parseDurationText("45 minutes")).toBe(45);
+    expect(parseDurationText("1 小時 30 分鐘")).toBe(90);
+    expect(parseDurationText("20")).toBe(20);
+    expect(parseDurationText(12)).toBe(12);
+    expect(parseDurationText("overnight")).toBeNull();
+  });
+});
+
+describe("normalizeRecipeObject", () => {
+  it("should read Mealie exports with parsed ingredients", () => {
+    const result = normalizeRecipeObject({
+      slug: "tomato-soup",
+      name: "Tomato Soup",
+      recipeServings: 4,
+      prepTime: "10 minutes",
+      performTime: "PT30M",
+      orgURL: "https://example.com/soup",
+      recipeIngredient: [
+        { quantity: 500, unit: { name: "g" }, food: { name: "tomatoes" }, note: "ripe" },
+        { quantity: 0, unit: null, food: null, note: "salt to taste" },
+      ],
+      recipeInstructions: [{ text: "Chop tomatoes." }, { text: "Simmer for 30 minutes." }],
+      tags: [{ name: "Soup" }],
+      nutrition: { calories: "120 kcal", proteinContent: "3 g" },
+    });
+
+    expect(result?.format).toBe("mealie");
+    expect(result?.recipe).toMatchObject({
+      title: "Tomato Soup",
+      servings: 4,
+      prepTime: 10,
+      cookTime: 30,
+      sourceUrl: "https://example.com/soup",
+      categories: ["Soup"],
+      nutrition: { calories: 120, protein: 3, carbs: null },
+    });
+    expect(result?.recipe.ingredients[0]).toEqual({ name: "tomatoes", amount: "500", unit: "g", notes: "ripe" });
+    expect(result?.recipe.ingredients[1].name).toBe("salt");
+    expect(result?.recipe.steps.map(step => step.instruction)).toEqual(["Chop tomatoes.", "Simmer for 30 minutes."]);
+  });
+
+  it("should read Tandoor exports with ingredients inside steps", () => {
+    const result = normalizeRecipeObject({
+      name: "Pancakes",
+      servings: 2,
+      working_time: 10,
+      waiting_time: 5,
+      keywords: [{ name: "Breakfast" }],
+      steps: [
+        {
+          instruction: "Whisk everything together.",
+          time: 5,
+          ingredients: [
+            { food: null, is_header: true, note: "Batter" },
+            { food: { name: "flour" }, unit: { name: "g" }, amount: 200, note: "" },
+            { food: { name: "salt" }, unit: null, amount: 0, no_amount: true },
+          ],
+        },
+        { instruction: "Fry in a pan.", ingredients: [] },
+      ],
+    });
+
+    expect(result?.format).toBe("tandoor");
+    expect(result?.recipe.totalTime).toBe(15);
+    expect(result?.recipe.ingredients).toEqual([
+      { name: "flour", amount: "200", unit: "g", notes: null },
+      { name: "salt", amount: "", unit: "", notes: null },
+    ]);
+    expect(result?.recipe.steps).toEqual([
+      { instruction: "Whisk everything together.", duration: 5 },
+      { instruction: "Fry in a pan.", duration: null },
+    ]);
+    expect(result?.recipe.categories).toEqual(["Breakfast"]);
+  });
+
+  it("should read Paprika recipes and split ingredient lines", () => {
+    const result = normalizeRecipeObject(paprikaRecipe);
+    expect(result?.format).toBe("paprika");
+    expect(result?.recipe).toMatchObject({ title: "Banana Bread", servings: 8, prepTime: 15, cookTime: 60 });
+    expect(result?.recipe.ingredients.map(ingredient => ingredient.name)).toEqual(["ripe bananas", "flour", "salt"]);
+    expect(result?.recipe.steps).toHaveLength(3);
+  });
+});
+
+describe("parseBulkImportFile", () => {
+  it("should read CSV rows and report per-row validation errors", () => {
+    const csv = [
+      "名稱,食材,步驟,份量",
+      '番茄炒蛋,"番茄 2個\n雞蛋 3隻","打散雞蛋\n炒熟",2',
+      "沒有步驟,雞蛋,,1",
+      ',鹽,"加鹽",1',
+    ].join("\n");
+    const rows = parseBulkImportFile("recipes.csv", Buffer.from(csv));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[0]).toMatchObject({ label: "第 2 行", format: "csv", errors: [] });
+    expect(rows[0].recipe?.ingredients[0]).toMatchObject({ name: "番茄", amount: "2", unit: "個" });
+    expect(rows[1].errors).toEqual(["沒有步驟"]);
+    expect(rows[2].errors).toContain("缺少食譜名稱");
+  });
+
+  it("should reject CSV files without a title column", () => {
+    expect(() => parseBulkImportFile("recipes.csv", Buffer.from("foo,bar\n1,2"))).toThrow("CSV 缺少食譜名稱欄位");
+  });
+
+  it("should read JSON arrays and { recipes: [...] }", () => {
+    const json = JSON.stringify({
+      recipes: [
+        { title: "Salad", ingredients: [{ name: "lettuce", amount: "1", unit: "head" }], steps: ["Wash", "Toss"] },
+        "not a recipe",
+      ],
+    });
+    const rows = parseBulkImportFile("export.json", Buffer.from(json));
+
+    expect(rows[0]).toMatchObject({ format: "json", errors: [] });
+    expect(rows[1]).toMatchObject({ recipe: null, errors: ["無法識別的食譜格式"] });
+  });
+
+  it("should read Paprika .paprikarecipes archives", () => {
+    const archive = buildZip([
+      { name: "Banana Bread.paprikarecipe", data: gzipSync(JSON.stringify(paprikaRecipe)) },
+      { name: "Soup.paprikarecipe", data: gzipSync(JSON.stringify({ ...paprikaRecipe, name: "Soup" })) },
+    ]);
+    const rows = parseBulkImportFile("My Recipes.paprikarecipes", archive);
+
+    expect(rows.map(row => [row.label, row.format, row.recipe?.title])).toEqual([
+      ["Banana Bread.paprikarecipe", "paprika", "Banana Bread"],
+      ["Soup.paprikarecipe", "paprika", "Soup"],
+    ]);
+  });
+
+  it("should read JSON files inside nested zip archives", () => {
+    const inner = buildZip([{ name: "recipe.json", data: Buffer.from(JSON.stringify({ name: "Pasta", working_time: 5, waiting_time: 0, steps: [] })) }]);
+    const rows = parseBulkImportFile("tandoor.zip", buildZip([{ name: "1.zip", data: inner }]));
+    expect(rows).toHaveLength(1);
+    expect(rows[0].format).toBe("tandoor");
+  });
+
+  it("should count the bytes actually decompressed across all zip entries", () => {
+    const zeros = Buffer.alloc(600);
+    const archive = buildZip([{ name: "a.json", data: zeros }, { name: "b.json", data: zeros }]);
+
+    expect(readZipEntries(archive, { remaining: 1200 })).toHaveLength(2);
+    expect(() => readZipEntries(archive, { remaining: 1000 })).toThrow("解壓後超過大小上限");
+  });
+
+  it("should stop decompressing gzip files past the size limit", () => {
+    // 約 100KB 的 gzip，解壓後超過 100MB
+    const bomb = gzipSync(Buffer.alloc(101 * 1024 * 1024));
+
+    expect(() => parseBulkImportFile("bomb.paprikarecipe", bomb)).toThrow("解壓後超過大小上限");
+  });
+
+  it("should reject broken zip files", () => {
+    expect(() => readZipEntries(Buffer.from("PK\u0003\u0004broken"))).toThrow("無法讀取 ZIP 檔案");
+  });
+});
+
+describe("markDuplicates", () => {
+  it("should flag duplicates of existing recipes and of earlier rows", () => {
+    const csv = [
+      "title,ingredients,steps,source_url",
+      "Banana Bread!,banana,bake,",
+      "Pancakes,flour,fry,https://example.com/pancakes",
+      "pancakes,flour,fry,",
+      "Waffles,flour,bake,http://www.example.com/old-soup/",
+    ].join("\n");
+    const rows = markDuplicates(parseBulkImportFile("recipes.csv", Buffer.from(csv)), [
+      { id: 7, title: "banana bread", sourceUrl: null },
+      { id: 8, title: "Old Soup", sourceUrl: "https://example.com/old-soup" },
+    ]);
+
+    expect(rows[0].duplicate).toEqual({ type: "existing", recipeId: 7, title: "banana bread" });
+    expect(rows[1].duplicate).toBeNull();
+    expect(rows[2].duplicate).toEqual({ type: "file", rowIndex: 1 });
+    expect(rows[3].duplicate).toEqual({ type: "existing", recipeId: 8, title: "Old Soup" });
+    expect(getDefaultImportIndexes(rows)).toEqual([1]);
+  });
+
+  it("should ignore case, spaces and punctuation in titles", () => {
+    expect(normalizeTitleKey("番茄 炒蛋！")).toBe(normalizeTitleKey("番茄炒蛋"));
+    expect(normalizeTitleKey("Mac & Cheese")).toBe("maccheese");
+  });
+});
@@ -0,0 +1,746 @@
+import { gunzipSync, inflateRawSync } from "zlib";
+import type { FoodNutrient } from "../drizzle/schema";
+import { refreshRecipeAllergens } from "./allergens";
+import * as db from "./db";
+import { calculateNutrition } from "./nutritionEngine";
+import { parseIngredientLine, toIngredientQuantityFields } from "./quantityParser";
+import { parseIsoDuration, parseRecipeYield, type StructuredNutrition } from "./structuredRecipe";
+import { guessPassiveStep } from "@shared/timeline";
+
+/**
+ * 批量匯入食譜
+ * 支援 CSV、JSON，以及其他食譜管理程式的匯出檔案：Paprika(.paprikarecipes / .paprikarecipe)、Mealie 和 Tandoor(JSON 或 ZIP)
+ * 先解析成預覽(每個食譜的驗證錯誤和重複檢測)，用戶確認後才寫入資料庫；營養只用本地營養成分表計算，不逐個調用 AI
+ */
+
+export type BulkImportFormat = "csv" | "json" | "schema.org" | "paprika" | "mealie" | "tandoor";
+
+export type BulkImportIngredient = {
+  name: string;
+  amount: string;
+  unit: string;
+  notes: string | null;
+};
+
+export type BulkImportStep = {
+  instruction: string;
+  duration: number | null; // 分鐘
+};
+
+export type BulkImportRecipe = {
+  title: string;
+  description: string | null;
+  servings: number | null;
+  prepTime: number | null; // 分鐘
+  cookTime: number | null;
+  totalTime: number | null;
+  sourceUrl: string | null;
+  imageUrl: string | null;
+  ingredients: BulkImportIngredient[];
+  steps: BulkImportStep[];
+  categories: string[]; // 分類名稱，匯入時對應到現有分類
+  nutrition: StructuredNutrition | null; // 每份營養(來源檔案有提供時)
+};
+
+export type BulkImportDuplicate =
+  | { type: "existing"; recipeId: number; title: string }
+  | { type: "file"; rowIndex: number };
+
+export type BulkImportRow = {
+  index: number;
+  label: string; // 在檔案中的位置，例如「第 3 行」或 ZIP 內的檔案名稱
+  format: BulkImportFormat;
+  recipe: BulkImportRecipe | null;
+  errors: string[];
+  duplicate: BulkImportDuplicate | null;
+};
+
+export type BulkImportResult = {
+  imported: Array<{ index: number; recipeId: number }>;
+  failed: Array<{ index: number; error: string }>;
+};
+
+// 上傳檔案(解碼後)和解壓後內容的大小上限，以及每次最多匯入的食譜數量
+export const MAX_BULK_IMPORT_BYTES = 20 * 1024 * 1024;
+const MAX_UNCOMPRESSED_BYTES = 100 * 1024 * 1024;
+export const MAX_BULK_IMPORT_ROWS = 200;
+
+type JsonObject = Record<string, unknown>;
+
+type RecipeSource = {
+  label: string;
+  value: unknown;
+  format?: BulkImportFormat; // CSV 的行和 Paprika 檔案已知格式，其他按內容判斷
+};
+
+// ========== 檔案解析 ==========
+
+type ZipEntry = { name: string; data: Buffer };
+
+// 解壓後內容的剩餘額度，同一個上傳檔案(包括 ZIP 內的 ZIP 和 gzip)共用
+export type DecompressBudget = { remaining: number };
+
+const UNCOMPRESSED_LIMIT_ERROR = "檔案解壓後超過大小上限";
+
+function createDecompressBudget(): DecompressBudget {
+  return { remaining: MAX_UNCOMPRESSED_BYTES };
+}
+
+function consumeBudget(budget: DecompressBudget, bytes: number) {
+  budget.remaining -= bytes;
+  if (budget.remaining < 0) throw new Error(UNCOMPRESSED_LIMIT_ERROR);
+}
+
+/**
+ * 解壓並按實際解壓出來的大小扣減額度(不信任檔案聲明的大小)
+ */
+function decompress(data: Buffer, method: "inflateRaw" | "gunzip", budget: DecompressBudget): Buffer {
+  if (budget.remaining <= 0) throw new Error(UNCOMPRESSED_LIMIT_ERROR);
+  let output: Buffer;
+  try {
+    const options = { maxOutputLength: budget.remaining };
+    output = method === "gunzip" ? gunzipSync(data, options) : inflateRawSync(data, options);
+  } catch (error) {
+    if (error instanceof RangeError) throw new Error(UNCOMPRESSED_LIMIT_ERROR);
+    throw error;
+  }
+  consumeBudget(budget, output.length);
+  return output;
+}
+
+function isZip(buffer: Buffer) {
+  return buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50;
+}
+
+function isGzip(buffer: Buffer) {
+  return buffer.length >= 2 && buffer[0] === 0x1f && buffer[1] === 0x8b;
+}
+
+/**
+ * 讀取 ZIP 檔案中的所有檔案(只支援不壓縮和 deflate，已涵蓋常見食譜程式的匯出檔案)
+ */
+export function readZipEntries(buffer: Buffer, budget: DecompressBudget = createDecompressBudget()): ZipEntry[] {
+  try {
+    // 從檔案尾部往前找 End of Central Directory(後面最多有 64KB 註解)
+    let eocd = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+      if (buffer.readUInt32LE(i) === 0x06054b50) {
+        eocd = i;
+        break;
+      }
+    }
+    if (eocd === -1) throw new Error("找不到 ZIP 目錄");
+
+    const entryCount = buffer.readUInt16LE(eocd + 10);
+    let offset = buffer.readUInt32LE(eocd + 16);
+    const entries: ZipEntry[] = [];
+
+    for (let i = 0; i < entryCount; i++) {
+      if (buffer.readUInt32LE(offset) !== 0x02014b50) throw new Error("ZIP 目錄損壞");
+      const method = buffer.readUInt16LE(offset + 10);
+      const compressedSize = buffer.readUInt32LE(offset + 20);
+      const nameLength = buffer.readUInt16LE(offset + 28);
+      const extraLength = buffer.readUInt16LE(offset + 30);
+      const commentLength = buffer.readUInt16LE(offset + 32);
+      const localOffset = buffer.readUInt32LE(offset + 42);
+      const name = buffer.toString("utf8", offset + 46, offset + 46 + nameLength);
+      offset += 46 + nameLength + extraLength + commentLength;
+
+      if (name.endsWith("/") || (method !== 0 && method !== 8)) continue;
+
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const raw = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) {
+        consumeBudget(budget, raw.length);
+        entries.push({ name, data: raw });
+      } else {
+        entries.push({ name, data: decompress(raw, "inflateRaw", budget) });
+      }
+    }
+    return entries;
+  } catch (error) {
+    if (error instanceof Error && error.message === UNCOMPRESSED_LIMIT_ERROR) throw error;
+    console.error("[bulkImport] ❌ Failed to read zip:", error);
+    throw new Error("無法讀取 ZIP 檔案，請確認檔案沒有損壞");
+  }
+}
+
+/**
+ * 解析 CSV(RFC 4180：欄位可用雙引號包住，引號內可以有逗號和換行)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const content = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+// CSV 欄位名稱(英文或中文)對應到通用 JSON 的欄位
+const CSV_COLUMN_ALIASES: Record<string, string> = {
+  title: "title", name: "title", 名稱: "title", 標題: "title", 食譜名稱: "title",
+  description: "description", 描述: "description", 簡介: "description",
+  servings: "servings", yield: "servings", 份量: "servings",
+  preptime: "prepTime", 準備時間: "prepTime",
+  cooktime: "cookTime", 烹飪時間: "cookTime",
+  totaltime: "totalTime", 總時間: "totalTime",
+  sourceurl: "sourceUrl", url: "sourceUrl", source: "sourceUrl", 來源: "sourceUrl", 網址: "sourceUrl",
+  imageurl: "imageUrl", image: "imageUrl", 圖片: "imageUrl",
+  ingredients: "ingredients", 食材: "ingredients",
+  steps: "steps", instructions: "steps", directions: "steps", 步驟: "steps",
+  categories: "categories", tags: "categories", 分類: "categories", 標籤: "categories",
+};
+
+function csvToSources(text: string): RecipeSource[] {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const keys = header.map(column => CSV_COLUMN_ALIASES[column.trim().toLowerCase().replace(/[\s_-]+/g, "")] ?? null);
+  if (!keys.includes("title")) {
+    throw new Error("CSV 缺少食譜名稱欄位(title 或 名稱)");
+  }
+
+  return rows.map((cells, i) => {
+    const value: JsonObject = {};
+    keys.forEach((key, column) => {
+      if (key && cells[column]?.trim()) value[key] = cells[column];
+    });
+    // 第 1 行是欄位名稱
+    return { label: `第 ${i + 2} 行`, value, format: "csv" as const };
+  });
+}
+
+function parseJsonText(text: string, label: string) {
+  try {
+    return JSON.parse(text.replace(/^\uFEFF/, ""));
+  } catch {
+    throw new Error(`${label} 不是有效的 JSON`);
+  }
+}
+
+// JSON 可以是單一食譜、食譜數組或 { recipes: [...] }
+function jsonToSources(data: unknown, label: string, format?: BulkImportFormat): RecipeSource[] {
+  const items = Array.isArray(data)
+    ? data
+    : data && typeof data === "object" && Array.isArray((data as JsonObject).recipes)
+      ? (data as JsonObject).recipes as unknown[]
+      : [data];
+  return items.map((value, i) => ({ label: items.length > 1 ? `${label} 第 ${i + 1} 個食譜` : label, value, format }));
+}
+
+function zipToSources(buffer: Buffer, budget: DecompressBudget, depth = 0): RecipeSource[] {
+  const sources: RecipeSource[] = [];
+  for (const entry of readZipEntries(buffer, budget)) {
+    const name = entry.name.toLowerCase();
+    if (name.endsWith(".paprikarecipe")) {
+      const json = decompress(entry.data, "gunzip", budget).toString("utf8");
+      sources.push(...jsonToSources(parseJsonText(json, entry.name), entry.name, "paprika"));
+    } else if (name.endsWith(".json")) {
+      sources.push(...jsonToSources(parseJsonText(entry.data.toString("utf8"), entry.name), entry.name));
+    } else if (name.endsWith(".zip") && depth === 0) {
+      // Tandoor 的匯出檔案是每個食譜一個 ZIP，再打包成一個 ZIP
+      sources.push(...zipToSources(entry.data, budget, depth + 1));
+    }
+  }
+  return sources;
+}
+
+function extractRecipeSources(fileName: string, buffer: Buffer): RecipeSource[] {
+  const name = fileName.toLowerCase();
+  const budget = createDecompressBudget();
+  if (isZip(buffer)) return zipToSources(buffer, budget);
+  // 單個 Paprika 食譜(.paprikarecipe)是 gzip 壓縮的 JSON
+  if (isGzip(buffer)) {
+    return jsonToSources(parseJsonText(decompress(buffer, "gunzip", budget).toString("utf8"), fileName), fileName, "paprika");
+  }
+
+  const text = buffer.toString("utf8");
+  if (name.endsWith(".csv") || !/^\uFEFF?\s*[[{]/.test(text)) return csvToSources(text);
+  return jsonToSources(parseJsonText(text, fileName), fileName);
+}
+
+// ========== 各種格式轉換為統一結構 ==========
+
+function asString(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number" && Number.isFinite(value)) return String(value);
+  return null;
+}
+
+function asObject(value: unknown): JsonObject | null {
+  return value && typeof value === "object" && !Array.isArray(value) ? value as JsonObject : null;
+}
+
+// 多行文字拆成列表(忽略空行)
+function splitLines(value: string): string[] {
+  return value.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+}
+
+// 列表欄位：數組、多行文字，或 CSV 中以分號分隔的文字
+function asList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  const text = asString(value);
+  if (!text) return [];
+  return text.includes("\n") ? splitLines(text) : text.split(/[;；]/).map(part => part.trim()).filter(Boolean);
+}
+
+function asNameList(value: unknown): string[] {
+  return asList(value)
+    .map(item => asString(item) ?? asString(asObject(item)?.name))
+    .filter((name): name is string => !!name);
+}
+
+/**
+ * 解析時間：ISO 8601(PT1H30M)、「1 hr 30 mins」、「1 小時 30 分鐘」或純數字(分鐘)
+ */
+export function parseDurationText(value: unknown): number | null {
+  if (typeof value === "number") return value > 0 ? Math.round(value) : null;
+  const text = asString(value);
+  if (!text) return null;
+
+  const iso = parseIsoDuration(text);
+  if (iso !== null) return iso;
+  if (/^\d+(?:\.\d+)?$/.test(text)) return Math.round(parseFloat(text)) || null;
+
+  const hours = text.match(/(\d+(?:\.\d+)?)\s*(?:h|hr|hrs|hour|hours|小時|小时)/i);
+  const minutes = text.match(/(\d+(?:\.\d+)?)\s*(?:m|min|mins|minute|minutes|分鐘|分钟|分)(?![a-z])/i);
+  if (!hours && !minutes) return null;
+  const total = Math.round((hours ? parseFloat(hours[1]) * 60 : 0) + (minutes ? parseFloat(minutes[1]) : 0));
+  return total > 0 ? total : null;
+}
+
+function parseNutritionNumber(value: unknown): number | null {
+  const match = asString(value)?.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+  return match ? Math.round(parseFloat(match[0])) : null;
+}
+
+function parseNutritionObject(value: unknown): StructuredNutrition | null {
+  const nutrition = asObject(value);
+  if (!nutrition) return null;
+  const result: StructuredNutrition = {
+    calories: parseNutritionNumber(nutrition.calories),
+    protein: parseNutritionNumber(nutrition.proteinContent ?? nutrition.protein),
+    carbs: parseNutritionNumber(nutrition.carbohydrateContent ?? nutrition.carbs),
+    fat: parseNutritionNumber(nutrition.fatContent ?? nutrition.fat),
+    fiber: parseNutritionNumber(nutrition.fiberContent ?? nutrition.fiber),
+  };
+  return Object.values(result).some(v => v !== null) ? result : null;
+}
+
+function lineToIngredient(line: string, notes: string | null = null): BulkImportIngredient {
+  return { ...parseIngredientLine(line), notes };
+}
+
+// 通用食材：文字，或 { name, amount, unit, notes }
+function parseGenericIngredient(value: unknown): BulkImportIngredient | null {
+  const line = asString(value);
+  if (line) return lineToIngredient(line);
+  const item = asObject(value);
+  if (!item) return null;
+  const name = asString(item.name);
+  if (!name) return null;
+  return {
+    name,
+    amount: asString(item.amount) ?? "",
+    unit: asString(item.unit) ?? "",
+    notes: asString(item.notes ?? item.note),
+  };
+}
+
+// Mealie 的食材：{ quantity, unit: { name }, food: { name }, note }；未解析的食材只有 note 或 originalText
+function parseMealieIngredient(value: unknown): BulkImportIngredient | null {
+  const line = asString(value);
+  if (line) return lineToIngredient(line);
+  const item = asObject(value);
+  if (!item) return null;
+
+  const food = asString(asObject(item.food)?.name);
+  const note = asString(item.note);
+  if (!food) {
+    const text = asString(item.originalText) ?? asString(item.display) ?? note;
+    return text ? lineToIngredient(text) : null;
+  }
+  const quantity = typeof item.quantity === "number" && item.quantity > 0 ? String(item.quantity) : "";
+  return {
+    name: food,
+    amount: quantity,
+    unit: asString(asObject(item.unit)?.name) ?? "",
+    notes: note,
+  };
+}
+
+function parseStepList(value: unknown): BulkImportStep[] {
+  return asList(value)
+    .map(item => {
+      const instruction = asString(item) ?? asString(asObject(item)?.instruction) ?? asString(asObject(item)?.text);
+      if (!instruction) return null;
+      return { instruction, duration: parseDurationText(asObject(item)?.duration) };
+    })
+    .filter((step): step is BulkImportStep => !!step);
+}
+
+function httpUrl(value: unknown): string | null {
+  const url = asString(value);
+  return url && /^https?:\/\//i.test(url) ? url : null;
+}
+
+// 通用 JSON、CSV 和 Paprika(欄位為 name / ingredients / directions / prep_time 等)
+function fromGeneric(item: JsonObject): BulkImportRecipe {
+  const prepTime = parseDurationText(item.prepTime ?? item.prep_time);
+  const cookTime = parseDurationText(item.cookTime ?? item.cook_time);
+  const description = [asString(item.description), asString(item.notes)].filter(Boolean).join("\n\n");
+  return {
+    title: asString(item.title) ?? asString(item.name) ?? "",
+    description: description || null,
+    servings: parseRecipeYield(item.servings ?? item.yield),
+    prepTime,
+    cookTime,
+    totalTime: parseDurationText(item.totalTime ?? item.total_time),
+    sourceUrl: httpUrl(item.sourceUrl ?? item.source_url ?? item.url),
+    imageUrl: httpUrl(item.imageUrl ?? item.image_url ?? item.image),
+    ingredients: asList(item.ingredients)
+      .map(parseGenericIngredient)
+      .filter((ingredient): ingredient is BulkImportIngredient => !!ingredient),
+    steps: parseStepList(item.steps ?? item.instructions ?? item.directions),
+    categories: asNameList(item.categories ?? item.tags),
+    nutrition: parseNutritionObject(item.nutrition),
+  };
+}
+
+// Mealie 和 schema.org Recipe(recipeIngredient / recipeInstructions)
+function fromSchemaOrg(item: JsonObject): BulkImportRecipe {
+  const image = Array.isArray(item.image) ? item.image[0] : item.image;
+  return {
+    title: asString(item.name) ?? "",
+    description: asString(item.description),
+    servings: parseRecipeYield(item.recipeServings ?? item.recipeYield),
+    prepTime: parseDurationText(item.prepTime),
+    cookTime: parseDurationText(item.cookTime ?? item.performTime),
+    totalTime: parseDurationText(item.totalTime),
+    sourceUrl: httpUrl(item.orgURL ?? item.url),
+    imageUrl: httpUrl(asObject(image)?.url ?? image),
+    ingredients: asList(item.recipeIngredient)
+      .map(parseMealieIngredient)
+      .filter((ingredient): ingredient is BulkImportIngredient => !!ingredient),
+    steps: asList(item.recipeInstructions).flatMap(step => {
+      // schema.org 的 HowToSection 包含多個步驟
+      const section = asObject(step)?.itemListElement;
+      return parseStepList(section ?? [step]);
+    }),
+    categories: [...asNameList(item.recipeCategory), ...asNameList(item.tags), ...asNameList(item.keywords)],
+    nutrition: parseNutritionObject(item.nutrition),
+  };
+}
+
+// Tandoor：食材放在各個步驟內，時間分為 working_time(準備)和 waiting_time(等待)
+function fromTandoor(item: JsonObject): BulkImportRecipe {
+  const steps = Array.isArray(item.steps) ? item.steps.map(asObject).filter((step): step is JsonObject => !!step) : [];
+  const ingredients = steps.flatMap(step => (Array.isArray(step.ingredients) ? step.ingredients : []))
+    .map(asObject)
+    .filter((ingredient): ingredient is JsonObject => !!ingredient && !ingredient.is_header)
+    .map(ingredient => {
+      const name = asString(asObject(ingredient.food)?.name);
+      if (!name) return null;
+      const amount = typeof ingredient.amount === "number" && ingredient.amount > 0 && !ingredient.no_amount
+        ? String(ingredient.amount)
+        : "";
+      return {
+        name,
+        amount,
+        unit: asString(asObject(ingredient.unit)?.name) ?? "",
+        notes: asString(ingredient.note),
+      };
+    })
+    .filter((ingredient): ingredient is BulkImportIngredient => !!ingredient);
+
+  const prepTime = parseDurationText(item.working_time);
+  const cookTime = parseDurationText(item.waiting_time);
+  return {
+    title: asString(item.name) ?? "",
+    description: asString(item.description),
+    servings: parseRecipeYield(item.servings),
+    prepTime,
+    cookTime,
+    totalTime: prepTime || cookTime ? (prepTime ?? 0) + (cookTime ?? 0) : null,
+    sourceUrl: httpUrl(item.source_url),
+    imageUrl: null,
+    ingredients,
+    steps: steps
+      .map(step => ({
+        instruction: asString(step.instruction) ?? asString(step.name) ?? "",
+        duration: parseDurationText(step.time),
+      }))
+      .filter(step => step.instruction),
+    categories: asNameList(item.keywords),
+    nutrition: null,
+  };
+}
+
+/**
+ * 按欄位判斷食譜來自哪個程式，並轉成統一結構
+ */
+export function normalizeRecipeObject(value: unknown, knownFormat?: BulkImportFormat): { format: BulkImportFormat; recipe: BulkImportRecipe } | null {
+  const item = asObject(value);
+  if (!item) return null;
+
+  if (knownFormat === "csv" || knownFormat === "paprika") {
+    return { format: knownFormat, recipe: fromGeneric(item) };
+  }
+  if (Array.isArray(item.steps) && ("working_time" in item || "waiting_time" in item)) {
+    return { format: "tandoor", recipe: fromTandoor(item) };
+  }
+  if ("recipeIngredient" in item || "recipeInstructions" in item) {
+    const isMealie = "slug" in item || "orgURL" in item || "recipeServings" in item;
+    return { format: isMealie ? "mealie" : "schema.org", recipe: fromSchemaOrg(item) };
+  }
+  if (typeof item.directions === "string" && ("uid" in item || "hash" in item || "photo_data" in item)) {
+    return { format: "paprika", recipe: fromGeneric(item) };
+  }
+  return { format: "json", recipe: fromGeneric(item) };
+}
+
+// ========== 驗證和重複檢測 ==========
+
+/**
+ * 檢查食譜能否寫入資料庫(長度按資料表欄位上限)
+ */
+export function validateBulkImportRecipe(recipe: BulkImportRecipe): string[] {
+  const errors: string[] = [];
+  if (!recipe.title) errors.push("缺少食譜名稱");
+  if (recipe.title.length > 255) errors.push("食譜名稱超過 255 字");
+  if (recipe.ingredients.length === 0) errors.push("沒有食材");
+  if (recipe.steps.length === 0) errors.push("沒有步驟");
+  recipe.ingredients.forEach((ingredient, i) => {
+    if (ingredient.name.length > 255) errors.push(`第 ${i + 1} 項食材名稱超過 255 字`);
+    if (ingredient.amount.length > 100) errors.push(`第 ${i + 1} 項食材份量超過 100 字`);
+    if (ingredient.unit.length > 50) errors.push(`第 ${i + 1} 項食材單位超過 50 字`);
+  });
+  return errors;
+}
+
+/**
+ * 用於比較的標題：忽略大小寫、空白和標點
+ */
+export function normalizeTitleKey(title: string): string {
+  return title.toLowerCase().replace(new RegExp("[\\s\\p{P}\\p{S}]+", "gu"), "");
+}
+
+function normalizeUrlKey(url: string | null) {
+  return url ? url.trim().toLowerCase().replace(/^https?:\/\/(www\.)?/, "").replace(/[/?#]+$/, "") : null;
+}
+
+/**
+ * 標記重複的食譜：與用戶現有食譜同名或同一來源網址，或者與檔案中較前的食譜重複
+ */
+export function markDuplicates(
+  rows: BulkImportRow[],
+  existing: Array<{ id: number; title: string; sourceUrl: string | null }>
+): BulkImportRow[] {
+  const existingByTitle = new Map(existing.map(recipe => [normalizeTitleKey(recipe.title), recipe]));
+  const existingByUrl = new Map(
+    existing.filter(recipe => recipe.sourceUrl).map(recipe => [normalizeUrlKey(recipe.sourceUrl)!, recipe])
+  );
+  const seenTitles = new Map<string, number>();
+  const seenUrls = new Map<string, number>();
+
+  return rows.map(row => {
+    if (!row.recipe || !row.recipe.title) return row;
+    const titleKey = normalizeTitleKey(row.recipe.title);
+    const urlKey = normalizeUrlKey(row.recipe.sourceUrl);
+
+    const match = existingByTitle.get(titleKey) ?? (urlKey ? existingByUrl.get(urlKey) : undefined);
+    const earlierRow = seenTitles.get(titleKey) ?? (urlKey ? seenUrls.get(urlKey) : undefined);
+    if (!seenTitles.has(titleKey)) seenTitles.set(titleKey, row.index);
+    if (urlKey && !seenUrls.has(urlKey)) seenUrls.set(urlKey, row.index);
+
+    const duplicate: BulkImportDuplicate | null = match
+      ? { type: "existing", recipeId: match.id, title: match.title }
+      : earlierRow !== undefined
+        ? { type: "file", rowIndex: earlierRow }
+        : null;
+    return { ...row, duplicate };
+  });
+}
+
+/**
+ * 解析檔案並驗證每個食譜(不涉及資料庫)
+ */
+export function parseBulkImportFile(fileName: string, buffer: Buffer): BulkImportRow[] {
+  const sources = extractRecipeSources(fileName, buffer);
+  if (sources.length === 0) {
+    throw new Error("檔案中找不到食譜");
+  }
+  if (sources.length > MAX_BULK_IMPORT_ROWS) {
+    throw new Error(`每次最多匯入 ${MAX_BULK_IMPORT_ROWS} 個食譜，檔案中有 ${sources.length} 個`);
+  }
+
+  return sources.map((source, index) => {
+    const normalized = normalizeRecipeObject(source.value, source.format);
+    if (!normalized) {
+      return { index, label: source.label, format: source.format ?? "json", recipe: null, errors: ["無法識別的食譜格式"], duplicate: null };
+    }
+    return {
+      index,
+      label: source.label,
+      format: normalized.format,
+      recipe: normalized.recipe,
+      errors: validateBulkImportRecipe(normalized.recipe),
+      duplicate: null,
+    };
+  });
+}
+
+/**
+ * 預覽(dry run)：解析、驗證並檢查與用戶現有食譜是否重複
+ */
+export async function previewBulkImport(userId: number, fileName: string, buffer: Buffer): Promise<BulkImportRow[]> {
+  const rows = parseBulkImportFile(fileName, buffer);
+  const existing = await db.getRecipesByUserId(userId);
+  return markDuplicates(rows, existing);
+}
+
+/**
+ * 返回給前端的預覽(只包含摘要，不傳回完整食材和步驟)
+ */
+export function toBulkImportPreview(row: BulkImportRow) {
+  return {
+    index: row.index,
+    label: row.label,
+    format: row.format,
+    title: row.recipe?.title || null,
+    servings: row.recipe?.servings ?? null,
+    totalTime: row.recipe?.totalTime ?? null,
+    ingredientCount: row.recipe?.ingredients.length ?? 0,
+    stepCount: row.recipe?.steps.length ?? 0,
+    errors: row.errors,
+    duplicate: row.duplicate,
+  };
+}
+
+/**
+ * 預設匯入的食譜：沒有驗證錯誤而且不重複
+ */
+export function getDefaultImportIndexes(rows: BulkImportRow[]): number[] {
+  return rows.filter(row => row.recipe && row.errors.length === 0 && !row.duplicate).map(row => row.index);
+}
+
+// ========== 寫入資料庫 ==========
+
+async function saveImportedRecipe(
+  userId: number,
+  recipe: BulkImportRecipe,
+  nutrientTable: FoodNutrient[],
+  categoryIdsByName: Map<string, number>
+): Promise<number> {
+  const servings = recipe.servings ?? 1;
+  const nutritionResult = await calculateNutrition(recipe.ingredients, { table: nutrientTable, useLLMFallback: false });
+  // 來源檔案提供的每份營養優先，沒有的項目用營養成分表計算
+  const provided = (value: number | null | undefined) => (value === null || value === undefined ? null : value * servings);
+  const totalCalories = provided(recipe.nutrition?.calories) ?? nutritionResult.totals.calories;
+
+  // 只加入名稱相同的現有分類，不自動創建新分類
+  const categoryIds = new Set(
+    recipe.categories
+      .map(name => categoryIdsByName.get(name.trim().toLowerCase()))
+      .filter((id): id is number => id !== undefined)
+  );
+
+  const recipeId = await db.createRecipeWithContent({
+    userId,
+    title: recipe.title,
+    description: recipe.description,
+    inputMethod: "file",
+    sourceUrl: recipe.sourceUrl,
+    imageUrl: recipe.imageUrl,
+    servings,
+    totalCalories,
+    caloriesPerServing: Math.round(totalCalories / servings),
+    protein: provided(recipe.nutrition?.protein) ?? nutritionResult.totals.protein,
+    carbs: provided(recipe.nutrition?.carbs) ?? nutritionResult.totals.carbs,
+    fat: provided(recipe.nutrition?.fat) ?? nutritionResult.totals.fat,
+    fiber: provided(recipe.nutrition?.fiber) ?? nutritionResult.totals.fiber,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    totalTime: recipe.totalTime,
+    isPublished: false,
+  }, {
+    ingredients: recipe.ingredients.map((ingredient, i) => ({
+      name: ingredient.name,
+      amount: ingredient.amount || null,
+      unit: ingredient.unit || null,
+      ...toIngredientQuantityFields(ingredient.amount, ingredient.unit),
+      calories: Math.round(nutritionResult.ingredients[i].calories),
+      notes: ingredient.notes,
+      order: i + 1,
+    })),
+    steps: recipe.steps.map((step, i) => ({
+      stepNumber: i + 1,
+      instruction: step.instruction,
+      duration: step.duration,
+      isPassive: guessPassiveStep(step.instruction),
+    })),
+    categoryIds: Array.from(categoryIds),
+  });
+  await refreshRecipeAllergens(recipeId);
+
+  return recipeId;
+}
+
+/**
+ * 匯入選定的食譜；有驗證錯誤的會被略過，單個食譜寫入失敗不影響其他食譜
+ */
+export async function commitBulkImport(userId: number, rows: BulkImportRow[], indexes: number[]): Promise<BulkImportResult> {
+  const selected = new Set(indexes);
+  const nutrientTable = await db.getAllFoodNutrients();
+  const categoryIdsByName = new Map((await db.getAllCategories()).map(category => [category.name.trim().toLowerCase(), category.id]));
+  const result: BulkImportResult = { imported: [], failed: [] };
+
+  for (const row of rows) {
+    if (!selected.has(row.index)) continue;
+    if (!row.recipe || row.errors.length > 0) {
+      result.failed.push({ index: row.index, error: row.errors.join("；") || "無法識別的食譜格式" });
+      continue;
+    }
+    try {
+      const recipeId = await saveImportedRecipe(userId, row.recipe, nutrientTable, categoryIdsByName);
+      result.imported.push({ index: row.index, recipeId });
+    } catch (error) {
+      console.error(`[bulkImport] ❌ Failed to import "${row.recipe.title}":`, error);
+      result.failed.push({ index: row.index, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  console.log(`[bulkImport] ✅ Imported ${result.imported.length}/${selected.size} recipe(s) for user ${userId}`);
+  return result;
+}
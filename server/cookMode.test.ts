@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { formatTimer, parseCookModeCommand } from "@shared/cookMode";
+
+describe("parseCookModeCommand", () => {
+  it("should recognise Chinese commands", () => {
+    expect(parseCookModeCommand("下一步")).toBe("next");
+    expect(parseCookModeCommand("好，上一步。")).toBe("previous");
+    expect(parseCookModeCommand("開始計時")).toBe("startTimer");
+    expect(parseCookModeCommand("停止計時")).toBe("pauseTimer");
+    expect(parseCookModeCommand("再讀一次")).toBe("read");
+    expect(parseCookModeCommand("退出")).toBe("exit");
+  });
+
+  it("should match English commands as whole words", () => {
+    expect(parseCookModeCommand("Next step please")).toBe("next");
+    expect(parseCookModeCommand("go back")).toBe("previous");
+    expect(parseCookModeCommand("pause the timer")).toBe("pauseTimer");
+    expect(parseCookModeCommand("backing tray")).toBeNull();
+  });
+
+  it("should ignore unrelated speech", () => {
+    expect(parseCookModeCommand("")).toBeNull();
+    expect(parseCookModeCommand("加少少鹽")).toBeNull();
+  });
+});
+
+describe("formatTimer", () => {
+  it("should format minutes and hours", () => {
+    expect(formatTimer(0)).toBe("0:00");
+    expect(formatTimer(65)).toBe("1:05");
+    expect(formatTimer(59.2)).toBe("1:00");
+    expect(formatTimer(3725)).toBe("1:02:05");
+    expect(formatTimer(-3)).toBe("0:00");
+  });
+});
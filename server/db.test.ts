@@ -0,0 +1,246 @@
+import { describe, expect, it } from "vitest";
+import { eq, getTableName, type SQL, type Table } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { cookingSteps, ingredients, recipeCategories, recipes, recipeVersions } from "../drizzle/schema";
+import {
+  createRecipeWithContent,
+  deleteRecipe,
+  getDb,
+  insertRecipeVersion,
+  insertRecipeWithContent,
+  replaceRecipeParts,
+  writeRecipeParts,
+  type DbTransaction,
+} from "./db";
+
+type Row = Record<string, unknown>;
+
+const dialect = new PgDialect();
+
+/**
+ * 記憶體中的事務：只支援食譜寫入用到的 insert/update/delete、讀取最新版本號的 select 和 select ... for update 行鎖，
+ * where 條件不會過濾數據(每個測試只有一個食譜)，但會記錄在 calls 中；work 拋出錯誤時還原到事務開始前的數據
+ * 所有寫入都記錄在 calls 中，用於確認 helper 只經由傳入的 tx 寫入
+ */
+function createFakeDatabase(options: { failOnInsert?: Table } = {}) {
+  let tables = new Map<string, Row[]>();
+  let nextId = 1;
+  const calls: Array<{ op: string; table: string; params?: unknown[] }> = [];
+  const rows = (table: Table) => tables.get(getTableName(table)) ?? [];
+  const record = (op: string, table: Table, where?: SQL) => {
+    calls.push({ op, table: getTableName(table), ...(where && { params: dialect.sqlToQuery(where).params }) });
+  };
+
+  const tx = {
+    select: () => ({
+      from: (table: Table) => ({
+        where: (where: SQL) => ({
+          for: async (strength: string) => {
+            record(`select for ${strength}`, table, where);
+            return rows(table);
+          },
+          orderBy: () => ({
+            // 按插入順序倒序(最後插入的版本號最大)
+            limit: async (count: number) => {
+              record("select", table, where);
+              return [...rows(table)].reverse().slice(0, count);
+            },
+          }),
+        }),
+      }),
+    }),
+    insert: (table: Table) => ({
+      values: (values: Row | Row[]) => {
+        const run = () => {
+          record("insert", table);
+          if (options.failOnInsert === table) {
+            throw new Error(`null value in column violates not-null constraint (${getTableName(table)})`);
+          }
+          const inserted = (Array.isArray(values) ? values : [values]).map(value => ({ id: nextId++, ...value }));
+          tables.set(getTableName(table), [...rows(table), ...inserted]);
+          return inserted;
+        };
+        return {
+          returning: async () => run().map(row => ({ id: row.id })),
+          then: (resolve: (value: unknown) => void, reject: (error: unknown) => void) =>
+            Promise.resolve().then(run).then(resolve, reject),
+        };
+      },
+    }),
+    update: (table: Table) => ({
+      set: (data: Row) => ({
+        where: async (where: SQL) => {
+          record("update", table, where);
+          tables.set(getTableName(table), rows(table).map(row => ({ ...row, ...data })));
+        },
+      }),
+    }),
+    delete: (table: Table) => ({
+      where: async (where: SQL) => {
+        record("delete", table, where);
+        tables.set(getTableName(table), []);
+      },
+    }),
+  };
+
+  return {
+    rows,
+    calls,
+    async transaction<T>(work: (tx: DbTransaction) => Promise<T>) {
+      const saved = new Map(Array.from(tables, ([name, list]) => [name, list.map(row => ({ ...row }))]));
+      try {
+        return await work(tx as unknown as DbTransaction);
+      } catch (error) {
+        tables = saved;
+        throw error;
+      }
+    },
+  };
+}
+
+const recipe = { userId: 1, title: "番茄炒蛋", servings: 2 };
+const content = {
+  ingredients: [
+    { name: "番茄", amount: "2", unit: "個", order: 1 },
+    { name: "雞蛋", amount: "3", unit: "隻", order: 2 },
+  ],
+  steps: [
+    { stepNumber: 1, instruction: "打散雞蛋" },
+    { stepNumber: 2, instruction: "炒番茄" },
+  ],
+  categoryIds: [3, 5, 3],
+};
+
+describe("insertRecipeWithContent", () => {
+  // 沒有 DATABASE_URL 時全局連接不可用，helper 如果繞過 tx 使用 getDb() 會直接失敗
+  it.skipIf(!!process.env.DATABASE_URL)("should run without the global connection", async () => {
+    expect(await getDb()).toBeNull();
+    const fake = createFakeDatabase();
+    await expect(fake.transaction(tx => insertRecipeWithContent(tx, recipe, content))).resolves.toBe(1);
+  });
+
+  it("should write the recipe with its ingredients, steps and categories", async () => {
+    const fake = createFakeDatabase();
+    const recipeId = await fake.transaction(tx => insertRecipeWithContent(tx, recipe, content));
+
+    expect(fake.calls).toEqual([
+      { op: "insert", table: "recipes" },
+      { op: "insert", table: "ingredients" },
+      { op: "insert", table: "cookingSteps" },
+      { op: "insert", table: "recipeCategories" },
+    ]);
+
+    expect(fake.rows(recipes)).toHaveLength(1);
+    expect(fake.rows(ingredients).map(row => [row.recipeId, row.name])).toEqual([[recipeId, "番茄"], [recipeId, "雞蛋"]]);
+    expect(fake.rows(cookingSteps).map(row => [row.recipeId, row.stepNumber])).toEqual([[recipeId, 1], [recipeId, 2]]);
+    expect(fake.rows(recipeCategories).map(row => row.categoryId)).toEqual([3, 5]);
+  });
+
+  it("should leave no orphan rows when a later insert fails", async () => {
+    const fake = createFakeDatabase({ failOnInsert: cookingSteps });
+
+    await expect(fake.transaction(tx => insertRecipeWithContent(tx, recipe, content))).rejects.toThrow("not-null");
+    expect(fake.rows(recipes)).toEqual([]);
+    expect(fake.rows(ingredients)).toEqual([]);
+    expect(fake.rows(cookingSteps)).toEqual([]);
+    expect(fake.rows(recipeCategories)).toEqual([]);
+  });
+});
+
+describe("writeRecipeParts", () => {
+  it("should only replace the provided parts", async () => {
+    const fake = createFakeDatabase();
+    const recipeId = await fake.transaction(tx => insertRecipeWithContent(tx, recipe, content));
+    fake.calls.length = 0;
+
+    await fake.transaction(tx => writeRecipeParts(tx, recipeId, {
+      recipe: { title: "番茄炒蛋（少油）" },
+      steps: [{ stepNumber: 1, instruction: "少油炒番茄和雞蛋" }],
+    }));
+
+    expect(fake.calls).toEqual([
+      { op: "update", table: "recipes", params: [recipeId] },
+      { op: "delete", table: "cookingSteps", params: [recipeId] },
+      { op: "insert", table: "cookingSteps" },
+    ]);
+
+    expect(fake.rows(recipes)[0].title).toBe("番茄炒蛋（少油）");
+    expect(fake.rows(ingredients)).toHaveLength(2);
+    expect(fake.rows(cookingSteps).map(row => row.instruction)).toEqual(["少油炒番茄和雞蛋"]);
+    expect(fake.rows(recipeCategories)).toHaveLength(2);
+  });
+
+  it("should keep the previous content when a replacement fails midway", async () => {
+    const fake = createFakeDatabase({ failOnInsert: recipeCategories });
+    const recipeId = await fake.transaction(tx => insertRecipeWithContent(tx, recipe, { ...content, categoryIds: [] }));
+
+    await expect(fake.transaction(tx => writeRecipeParts(tx, recipeId, {
+      recipe: { title: "新標題" },
+      ingredients: [{ name: "豆腐", order: 1 }],
+      steps: [],
+      categoryIds: [7],
+    }))).rejects.toThrow("not-null");
+
+    expect(fake.rows(recipes)[0].title).toBe("番茄炒蛋");
+    expect(fake.rows(ingredients).map(row => row.name)).toEqual(["番茄", "雞蛋"]);
+    expect(fake.rows(cookingSteps)).toHaveLength(2);
+  });
+});
+
+describe("insertRecipeVersion", () => {
+  it("should number versions from the latest one in the same transaction", async () => {
+    const fake = createFakeDatabase();
+    const entry = { userId: 1, snapshotData: { recipe }, changeDescription: "編輯食譜", changedFields: ["title"] };
+
+    expect(await fake.transaction(tx => insertRecipeVersion(tx, 7, entry))).toBe(1);
+    expect(await fake.transaction(tx => insertRecipeVersion(tx, 7, entry))).toBe(2);
+
+    expect(fake.rows(recipeVersions).map(row => [row.recipeId, row.versionNumber, row.changedFields])).toEqual([
+      [7, 1, "[\"title\"]"],
+      [7, 2, "[\"title\"]"],
+    ]);
+    // 每次先鎖定食譜行再讀取最新版本號
+    expect(fake.calls).toEqual([
+      { op: "select for update", table: "recipes", params: [7] },
+      { op: "select", table: "recipeVersions", params: [7] },
+      { op: "insert", table: "recipeVersions" },
+      { op: "select for update", table: "recipes", params: [7] },
+      { op: "select", table: "recipeVersions", params: [7] },
+      { op: "insert", table: "recipeVersions" },
+    ]);
+  });
+});
+
+// 需要真實數據庫，未設定 DATABASE_URL 時略過
+describe.skipIf(!process.env.DATABASE_URL)("recipe transactions with a database", () => {
+  it("should not leave a recipe behind when a step violates a constraint", async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+    const title = `事務測試 ${Date.now()}`;
+
+    await expect(createRecipeWithContent({ ...recipe, title }, {
+      ingredients: content.ingredients,
+      steps: [{ stepNumber: 1, instruction: null as unknown as string }],
+    })).rejects.toThrow();
+
+    expect(await db.select().from(recipes).where(eq(recipes.title, title))).toEqual([]);
+  });
+
+  it("should roll back a partial replacement", async () => {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+    const recipeId = await createRecipeWithContent({ ...recipe, title: `事務測試 ${Date.now()}` }, content);
+
+    try {
+      await expect(replaceRecipeParts(recipeId, {
+        ingredients: [{ name: "豆腐", order: 1 }],
+        steps: [{ stepNumber: 1, instruction: null as unknown as string }],
+      })).rejects.toThrow();
+
+      const remaining = await db.select().from(ingredients).where(eq(ingredients.recipeId, recipeId));
+      expect(remaining.map(row => row.name).sort()).toEqual(["番茄", "雞蛋"]);
+    } finally {
+      await deleteRecipe(recipeId);
+    }
+  });
+});
@@ -1,9 +1,10 @@
-import { eq, and, or, like, gte, lte, inArray, desc } from "drizzle-orm";
+import { eq, and, or, ilike, gte, lt, lte, inArray, desc, sql, isNull, type SQL } from "drizzle-orm";
 import postgres from "postgres";
 import { drizzle } from "drizzle-orm/postgres-js";
 import { 
   InsertUser, 
   users,
+  userCredentials,
   recipes,
   ingredients,
   cookingSteps,
@@ -12,16 +13,29 @@ import {
   userSuggestions,
   recipeVersions,
   recipeReviews,
+  importJobs,
+  foodNutrients,
+  healthProfiles,
   InsertRecipe,
   InsertIngredient,
   InsertCookingStep,
+  CookingStep,
   InsertCategory,
   InsertRecipeCategory,
   InsertUserSuggestion,
   InsertRecipeVersion,
-  InsertRecipeReview
+  InsertRecipeReview,
+  InsertImportJob,
+  InsertFoodNutrient,
+  InsertHealthProfile,
+  InsertUserCredential
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import type { AllergenCode } from "@shared/allergens";
+import { MAX_SEARCH_QUERY_LENGTH } from "@shared/search";
+import { DEFAULT_HEALTH_PROFILE, type HealthProfileKey, type HealthRule } from "@shared/healthScore";
+import { buildSearchSnippet, buildTsQuery, escapeLikePattern } from "./recipeSearch";
+import { healthScoreSql, mergeHealthProfiles, scoreRecipe } from "./healthScore";
 
 let _db: ReturnType<typeof drizzle> | null = null;
 let _client: postgres.Sql | null = null;
@@ -164,6 +178,18 @@ export async function getDb() {
   return _db;
 }
 
+export type DbTransaction = Parameters<Parameters<ReturnType<typeof drizzle>["transaction"]>[0]>[0];
+
+/**
+ * 在數據庫事務中執行多行寫入；work 拋出錯誤時整個事務回滾，不會留下寫了一半的數據
+ */
+export async function withTransaction<T>(work: (tx: DbTransaction) => Promise<T>): Promise<T> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return db.transaction(work);
+}
+
 export async function upsertUser(user: InsertUser): Promise<void> {
   if (!user.openId) {
     throw new Error("User openId is required for upsert");
@@ -236,6 +262,53 @@ export async function getUserByOpenId(openId: string) {
   return result.length > 0 ? result[0] : undefined;
 }
 
+export async function getUserById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// ========== Local Credentials ==========
+
+export async function getUserCredentialByUsername(username: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(userCredentials).where(eq(userCredentials.username, username)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// Postgres 唯一索引衝突；drizzle 會把驅動的錯誤放在 cause 中
+function isUniqueViolation(error: unknown): boolean {
+  const code = (value: unknown) => (value as { code?: unknown } | null | undefined)?.code;
+  return code(error) === "23505" || code((error as { cause?: unknown } | null)?.cause) === "23505";
+}
+
+/**
+ * 在同一個事務中創建本地帳號的用戶和登入憑證
+ * 用戶名已被使用時返回 null(包括同時註冊同一用戶名時撞到唯一索引)
+ */
+export async function createLocalUser(user: InsertUser, credential: Omit<InsertUserCredential, "userId">) {
+  try {
+    return await withTransaction(async (tx) => {
+      const values: InsertUser = { ...user, ...(user.openId === ENV.ownerOpenId && { role: "admin" as const }) };
+      // 之前註冊失敗可能留下沒有憑證的用戶，沿用該用戶
+      const [created] = await tx
+        .insert(users)
+        .values(values)
+        .onConflictDoUpdate({ target: users.openId, set: { name: values.name, lastSignedIn: values.lastSignedIn } })
+        .returning();
+      await tx.insert(userCredentials).values({ ...credential, userId: created.id });
+      return created;
+    });
+  } catch (error) {
+    if (isUniqueViolation(error)) return null;
+    throw error;
+  }
+}
+
 // ========== Recipe Management ==========
 
 export async function createRecipe(recipe: InsertRecipe) {
@@ -292,6 +365,20 @@ export async function getAllRecipes() {
   return db.select().from(recipes).orderBy(desc(recipes.createdAt));
 }
 
+// 沒有圖片的食譜(用於批量生成菜式圖片)
+export async function getRecipeIdsWithoutImage(limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({ id: recipes.id })
+    .from(recipes)
+    .where(or(isNull(recipes.imageUrl), eq(recipes.imageUrl, "")))
+    .orderBy(desc(recipes.createdAt))
+    .limit(limit);
+  return rows.map(row => row.id);
+}
+
 export async function updateRecipe(id: number, data: Partial<InsertRecipe>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -304,10 +391,12 @@ export async function deleteRecipe(id: number) {
   if (!db) throw new Error("Database not available");
   
   // 刪除關聯數據
-  await db.delete(ingredients).where(eq(ingredients.recipeId, id));
-  await db.delete(cookingSteps).where(eq(cookingSteps.recipeId, id));
-  await db.delete(recipeCategories).where(eq(recipeCategories.recipeId, id));
-  await db.delete(recipes).where(eq(recipes.id, id));
+  await db.transaction(async (tx) => {
+    await tx.delete(ingredients).where(eq(ingredients.recipeId, id));
+    await tx.delete(cookingSteps).where(eq(cookingSteps.recipeId, id));
+    await tx.delete(recipeCategories).where(eq(recipeCategories.recipeId, id));
+    await tx.delete(recipes).where(eq(recipes.id, id));
+  });
 }
 
 // ========== Ingredients Management ==========
@@ -327,6 +416,14 @@ export async function getIngredientsByRecipeId(recipeId: number) {
   return db.select().from(ingredients).where(eq(ingredients.recipeId, recipeId)).orderBy(ingredients.order);
 }
 
+// 尚未解析結構化份量的食材(用於回填舊數據)
+export async function getIngredientsWithoutQuantity() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return db.select().from(ingredients).where(isNull(ingredients.canonicalUnit));
+}
+
 export async function deleteIngredientsByRecipeId(recipeId: number) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -503,6 +600,17 @@ export async function updateUserSuggestion(id: number, updates: Partial<InsertUs
     .where(eq(userSuggestions.id, id));
 }
 
+/**
+ * 在事務中把已處理的建議標記為已套用；建議已被套用(包括同時套用)時返回 false，調用者應拋出錯誤回滾
+ */
+export async function markSuggestionApplied(tx: DbTransaction, id: number, improvedRecipeId: number) {
+  const result = await tx.update(userSuggestions)
+    .set({ status: "applied", improvedRecipeId })
+    .where(and(eq(userSuggestions.id, id), eq(userSuggestions.status, "processed")))
+    .returning({ id: userSuggestions.id });
+  return result.length > 0;
+}
+
 // ========== 公開瀏覽功能 ==========
 
 export async function browsePublishedRecipes(filters: {
@@ -512,15 +620,78 @@ export async function browsePublishedRecipes(filters: {
   maxCalories?: number;
   minProtein?: number;
   maxProtein?: number;
+  excludeAllergens?: AllergenCode[];
+  healthRules?: HealthRule[]; // 提供時每個食譜附帶按此配置計算的健康評分
+  sort?: "newest" | "healthScore";
   limit?: number;
   offset?: number;
 }) {
   const db = await getDb();
   if (!db) return [];
 
-  const { search, categoryIds, minCalories, maxCalories, minProtein, maxProtein, limit = 20, offset = 0 } = filters;
+  const { categoryIds, minCalories, maxCalories, minProtein, maxProtein, excludeAllergens, healthRules, sort, limit = 20, offset = 0 } = filters;
+  const search = filters.search?.trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+
+  // 所有條件以 AND 組合
+  const conditions: SQL[] = [eq(recipes.isPublished, true)];
+
+  // 營養範圍篩選
+  if (minCalories !== undefined) conditions.push(gte(recipes.totalCalories, minCalories));
+  if (maxCalories !== undefined) conditions.push(lte(recipes.totalCalories, maxCalories));
+  if (minProtein !== undefined) conditions.push(gte(recipes.protein, minProtein));
+  if (maxProtein !== undefined) conditions.push(lte(recipes.protein, maxProtein));
+
+  // 排除含指定過敏原的食譜；未檢測過敏原的食譜也一併排除，寧缺勿濫
+  if (excludeAllergens && excludeAllergens.length > 0) {
+    const codes = sql.join(excludeAllergens.map(code => sql`${code}`), sql`, `);
+    conditions.push(
+      sql`${recipes.allergens} IS NOT NULL AND NOT (${recipes.allergens}::jsonb ?| ARRAY[${codes}]::text[])`
+    );
+  }
+
+  // 分類篩選
+  if (categoryIds && categoryIds.length > 0) {
+    conditions.push(
+      inArray(
+        recipes.id,
+        db
+          .select({ recipeId: recipeCategories.recipeId })
+          .from(recipeCategories)
+          .where(inArray(recipeCategories.categoryId, categoryIds))
+      )
+    );
+  }
 
-  let query = db
+  // 關鍵字搜索：全文索引(標題、描述、食材、步驟) + 子字串 + 錯字容忍
+  let rank: SQL<number> = sql<number>`0`;
+  if (search) {
+    const tsQuery = buildTsQuery(search);
+    const vector = sql`recipe_search_vector(${recipes.searchText})`;
+    const pattern = `%${escapeLikePattern(search)}%`;
+    const matches: SQL[] = [
+      ilike(recipes.searchText, pattern),
+      sql`${search} <% ${recipes.searchText}`,
+    ];
+    if (tsQuery) {
+      matches.push(sql`${vector} @@ to_tsquery('simple', ${tsQuery})`);
+    }
+    conditions.push(or(...matches)!);
+
+    // 相關度：全文排名 + 相似度，標題命中額外加分
+    rank = sql<number>`(
+      ${tsQuery ? sql`ts_rank(${vector}, to_tsquery('simple', ${tsQuery}))` : sql`0`}
+      + word_similarity(${search}, ${recipes.searchText})
+      + CASE WHEN ${recipes.title} ILIKE ${pattern} THEN 1 ELSE 0 END
+    )`.mapWith(Number);
+  }
+
+  // 排序：有搜索時按相關度，否則按最新；按健康評分排序時評分優先
+  const orderBy: SQL[] = search ? [desc(rank), desc(recipes.createdAt)] : [desc(recipes.createdAt)];
+  if (sort === "healthScore" && healthRules) {
+    orderBy.unshift(desc(healthScoreSql(healthRules)));
+  }
+
+  const results = await db
     .select({
       id: recipes.id,
       title: recipes.title,
@@ -530,58 +701,34 @@ export async function browsePublishedRecipes(filters: {
       protein: recipes.protein,
       carbs: recipes.carbs,
       fat: recipes.fat,
+      fiber: recipes.fiber,
+      caloriesPerServing: recipes.caloriesPerServing,
       imageUrl: recipes.imageUrl,
       createdAt: recipes.createdAt,
+      searchText: recipes.searchText,
+      rank,
     })
     .from(recipes)
-    .where(eq(recipes.isPublished, true))
-    .$dynamic();
-
-  // 關鍵字搜索
-  if (search) {
-    query = query.where(
-      or(
-        like(recipes.title, `%${search}%`),
-        like(recipes.description, `%${search}%`)
-      )
-    );
-  }
+    .where(and(...conditions))
+    .orderBy(...orderBy)
+    .limit(limit)
+    .offset(offset);
 
-  // 營養範圍篩選
-  if (minCalories !== undefined) {
-    query = query.where(gte(recipes.totalCalories, minCalories));
-  }
-  if (maxCalories !== undefined) {
-    query = query.where(lte(recipes.totalCalories, maxCalories));
-  }
-  if (minProtein !== undefined) {
-    query = query.where(gte(recipes.protein, minProtein));
-  }
-  if (maxProtein !== undefined) {
-    query = query.where(lte(recipes.protein, maxProtein));
-  }
+  return results.map(({ searchText, rank: _rank, ...recipe }) => ({
+    ...recipe,
+    snippet: search ? buildSearchSnippet({ ...recipe, searchText }, search) : null,
+    healthScore: healthRules ? scoreRecipe({ ...recipe, searchText }, healthRules) : null,
+  }));
 
-  // 分類篩選
-  if (categoryIds && categoryIds.length > 0) {
-    const recipeIds = await db
-      .select({ recipeId: recipeCategories.recipeId })
-      .from(recipeCategories)
-      .where(inArray(recipeCategories.categoryId, categoryIds));
-    
-    const ids = recipeIds.map(r => r.recipeId);
-    if (ids.length > 0) {
-      query = query.where(inArray(recipes.id, ids));
-    } else {
-      return []; // 沒有符合分類的食譜
-    }
-  }
+}
 
-  const results = await query
-    .orderBy(desc(recipes.createdAt))
-    .limit(limit)
-    .offset(offset);
+// 尚未檢測過敏原的食譜(用於回填)
+export async function getRecipeIdsWithoutAllergens() {
+  const db = await getDb();
+  if (!db) return [];
 
-  return results;
+  const rows = await db.select({ id: recipes.id }).from(recipes).where(isNull(recipes.allergens));
+  return rows.map(row => row.id);
 }
 
 export async function getPublishedRecipeById(recipeId: number) {
@@ -597,6 +744,18 @@ export async function getPublishedRecipeById(recipeId: number) {
   return result.length > 0 ? result[0] : null;
 }
 
+// sitemap.xml：所有已發佈食譜的 id 和最後更新時間
+export async function getPublishedRecipesForSitemap() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({ id: recipes.id, updatedAt: recipes.updatedAt })
+    .from(recipes)
+    .where(eq(recipes.isPublished, true))
+    .orderBy(desc(recipes.updatedAt));
+}
+
 // 更新食材
 export async function getIngredientById(id: number) {
   const db = await getDb();
@@ -620,7 +779,43 @@ export async function deleteIngredient(id: number) {
   await db.delete(ingredients).where(eq(ingredients.id, id));
 }
 
+/**
+ * 在同一個事務中更新食材並替換食譜的全部步驟；editSteps 為 null 時只更新食材，提供 version 時一併寫入版本快照
+ * editSteps 收到在事務中鎖定的現有步驟並返回新的完整步驟，可拋出錯誤拒絕已過期的修改
+ */
+export async function replaceIngredientAndSteps(
+  recipeId: number,
+  ingredientId: number,
+  ingredientData: Partial<InsertIngredient>,
+  editSteps: ((currentSteps: CookingStep[]) => RecipeStepRow[]) | null,
+  version?: RecipeVersionEntry
+) {
+  await withTransaction(async (tx) => {
+    // 先寫版本(鎖定食譜行)再鎖定步驟，與其他食譜寫入的加鎖順序一致
+    if (version) {
+      await insertRecipeVersion(tx, recipeId, version);
+    }
+    const steps = editSteps
+      ? editSteps(await tx.select().from(cookingSteps).where(eq(cookingSteps.recipeId, recipeId)).orderBy(cookingSteps.stepNumber).for("update"))
+      : null;
+    await tx.update(ingredients)
+      .set(ingredientData)
+      .where(and(eq(ingredients.id, ingredientId), eq(ingredients.recipeId, recipeId)));
+    if (steps) {
+      await writeRecipeParts(tx, recipeId, { steps });
+    }
+  });
+}
+
 // 更新步驟
+export async function getCookingStepById(id: number) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const result = await db.select().from(cookingSteps).where(eq(cookingSteps.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
 export async function updateCookingStep(id: number, data: Partial<InsertCookingStep>) {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
@@ -635,39 +830,150 @@ export async function deleteCookingStep(id: number) {
   await db.delete(cookingSteps).where(eq(cookingSteps.id, id));
 }
 
-// 更新食譜分類關聯
+// 更新食譜分類關聯(刪除舊關聯與添加新關聯在同一事務中完成)
 export async function updateRecipeCategories(recipeId: number, categoryIds: number[]) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
-  
-  // 刪除現有關聯
-  await db.delete(recipeCategories).where(eq(recipeCategories.recipeId, recipeId));
-  
-  // 添加新關聯
-  if (categoryIds.length > 0) {
-    await db.insert(recipeCategories).values(
-      categoryIds.map(categoryId => ({ recipeId, categoryId }))
-    );
+  await replaceRecipeParts(recipeId, { categoryIds });
+}
+
+// ==================== 食譜內容寫入(事務) ====================
+// 食譜、食材、步驟與分類關聯的多行寫入都經過以下函數，由調用者決定事務範圍；
+// 傳入的 tx 必須是同一個事務，任何一行失敗都會令整個事務回滾
+
+export type RecipeIngredientRow = Omit<InsertIngredient, "recipeId">;
+export type RecipeStepRow = Omit<InsertCookingStep, "recipeId">;
+
+export interface RecipeContent {
+  ingredients?: RecipeIngredientRow[];
+  steps?: RecipeStepRow[];
+  categoryIds?: number[];
+}
+
+export interface RecipeParts extends RecipeContent {
+  recipe?: Partial<InsertRecipe>;
+}
+
+async function insertRecipeContent(tx: DbTransaction, recipeId: number, content: RecipeContent) {
+  if (content.ingredients && content.ingredients.length > 0) {
+    await tx.insert(ingredients).values(content.ingredients.map(ingredient => ({ ...ingredient, recipeId })));
+  }
+  if (content.steps && content.steps.length > 0) {
+    await tx.insert(cookingSteps).values(content.steps.map(step => ({ ...step, recipeId })));
+  }
+  if (content.categoryIds && content.categoryIds.length > 0) {
+    const categoryIds = Array.from(new Set(content.categoryIds));
+    await tx.insert(recipeCategories).values(categoryIds.map(categoryId => ({ recipeId, categoryId })));
   }
 }
 
-// ==================== 版本歷史相關函數 ====================
+/**
+ * 在事務中創建食譜及其食材、步驟和分類，返回新食譜 ID
+ */
+export async function insertRecipeWithContent(tx: DbTransaction, recipe: InsertRecipe, content: RecipeContent) {
+  const result = await tx.insert(recipes).values(recipe).returning({ id: recipes.id });
+  const recipeId = result[0].id;
+  await insertRecipeContent(tx, recipeId, content);
+  return recipeId;
+}
 
 /**
- * 創建食譜版本快照
+ * 在事務中替換食譜的部分內容；沒有提供的部分保持不變
+ * 替換步驟時一併清除按舊步驟生成的煮食機械指令
  */
-export async function createRecipeVersion(
+export async function writeRecipeParts(tx: DbTransaction, recipeId: number, parts: RecipeParts) {
+  const recipe = parts.steps ? { ...parts.recipe, machineInstructions: null } : parts.recipe;
+  if (recipe && Object.keys(recipe).length > 0) {
+    await tx.update(recipes).set(recipe).where(eq(recipes.id, recipeId));
+  }
+  if (parts.ingredients) {
+    await tx.delete(ingredients).where(eq(ingredients.recipeId, recipeId));
+  }
+  if (parts.steps) {
+    await tx.delete(cookingSteps).where(eq(cookingSteps.recipeId, recipeId));
+  }
+  if (parts.categoryIds) {
+    await tx.delete(recipeCategories).where(eq(recipeCategories.recipeId, recipeId));
+  }
+  await insertRecipeContent(tx, recipeId, parts);
+}
+
+/**
+ * 一次過創建完整食譜；任何一行寫入失敗都不會留下沒有食材或步驟的半成品食譜
+ */
+export async function createRecipeWithContent(recipe: InsertRecipe, content: RecipeContent) {
+  return withTransaction(tx => insertRecipeWithContent(tx, recipe, content));
+}
+
+/**
+ * 在同一個事務中替換食譜的部分內容；沒有提供的部分保持不變
+ * 提供 version 時，修改前的版本快照和修改一起寫入
+ */
+export async function replaceRecipeParts(recipeId: number, parts: RecipeParts, version?: RecipeVersionEntry) {
+  await withTransaction(async (tx) => {
+    if (version) {
+      await insertRecipeVersion(tx, recipeId, version);
+    }
+    await writeRecipeParts(tx, recipeId, parts);
+  });
+}
+
+/**
+ * 還原版本：還原前的快照、還原內容和還原後的版本記錄在同一個事務中寫入
+ * 還原後的記錄保存寫入後實際的食譜狀態，而不是被還原的舊快照
+ */
+export async function restoreRecipeParts(
   recipeId: number,
-  userId: number,
-  snapshotData: any,
-  changeDescription?: string,
-  changedFields?: string[]
+  parts: RecipeParts,
+  before: RecipeVersionEntry | undefined,
+  after: Omit<RecipeVersionEntry, "snapshotData">
 ) {
-  const db = await getDb();
-  if (!db) throw new Error("Database not available");
+  await withTransaction(async (tx) => {
+    if (before) {
+      await insertRecipeVersion(tx, recipeId, before);
+    }
+    await writeRecipeParts(tx, recipeId, parts);
+    await insertRecipeVersion(tx, recipeId, { ...after, snapshotData: await readRecipeSnapshotData(tx, recipeId) });
+  });
+}
+
+/**
+ * 在同一個事務中更新每個食材的卡路里和食譜的總營養
+ */
+export async function updateRecipeNutrition(
+  recipeId: number,
+  nutrition: Partial<InsertRecipe>,
+  ingredientCalories: Array<{ id: number; calories: number }>
+) {
+  await withTransaction(async (tx) => {
+    for (const ingredient of ingredientCalories) {
+      await tx.update(ingredients)
+        .set({ calories: ingredient.calories })
+        .where(and(eq(ingredients.id, ingredient.id), eq(ingredients.recipeId, recipeId)));
+    }
+    await tx.update(recipes).set(nutrition).where(eq(recipes.id, recipeId));
+  });
+}
+
+// ==================== 版本歷史相關函數 ====================
+
+// 和食譜修改一起寫入的版本快照(修改前的狀態)
+export type RecipeVersionEntry = {
+  userId: number;
+  snapshotData: any;
+  changeDescription?: string;
+  changedFields?: string[];
+};
+
+/**
+ * 在事務中寫入版本快照，返回新的版本號
+ */
+export async function insertRecipeVersion(tx: DbTransaction, recipeId: number, entry: RecipeVersionEntry) {
+  const { userId, snapshotData, changeDescription, changedFields } = entry;
+
+  // 鎖定食譜行，同時編輯同一食譜的事務在此排隊，不會取得相同的版本號(唯一索引兜底)
+  await tx.select({ id: recipes.id }).from(recipes).where(eq(recipes.id, recipeId)).for("update");
 
   // 獲取當前最大版本號
-  const versions = await db
+  const versions = await tx
     .select()
     .from(recipeVersions)
     .where(eq(recipeVersions.recipeId, recipeId))
@@ -685,7 +991,7 @@ export async function createRecipeVersion(
     changedFields: changedFields ? JSON.stringify(changedFields) : null,
   };
 
-  await db.insert(recipeVersions).values(version);
+  await tx.insert(recipeVersions).values(version);
   return nextVersionNumber;
 }
 
@@ -726,6 +1032,13 @@ export async function getRecipeSnapshotData(recipeId: number) {
   const db = await getDb();
   if (!db) return null;
 
+  return readRecipeSnapshotData(db, recipeId);
+}
+
+/**
+ * 讀取食譜快照；傳入 tx 時讀到同一事務中尚未提交的寫入
+ */
+async function readRecipeSnapshotData(db: Pick<DbTransaction, "select">, recipeId: number) {
   // 獲取食譜基本資訊
   const recipeResults = await db
     .select()
@@ -800,7 +1113,7 @@ export async function getReviewsByRecipeId(recipeId: number) {
     })
     .from(recipeReviews)
     .leftJoin(users, eq(recipeReviews.userId, users.id))
-    .where(eq(recipeReviews.recipeId, recipeId))
+    .where(and(eq(recipeReviews.recipeId, recipeId), eq(recipeReviews.isHidden, false)))
     .orderBy(desc(recipeReviews.createdAt));
   
   return reviews;
@@ -845,7 +1158,7 @@ export async function getRecipeAverageRating(recipeId: number): Promise<{ averag
   const reviews = await db
     .select()
     .from(recipeReviews)
-    .where(eq(recipeReviews.recipeId, recipeId));
+    .where(and(eq(recipeReviews.recipeId, recipeId), eq(recipeReviews.isHidden, false)));
   
   if (reviews.length === 0) {
     return { average: 0, count: 0 };
@@ -856,3 +1169,343 @@ export async function getRecipeAverageRating(recipeId: number): Promise<{ averag
   
   return { average: Math.round(average * 10) / 10, count: reviews.length };
 }
+
+// ==================== Import Jobs ====================
+
+export async function createImportJob(job: InsertImportJob) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const result = await db.insert(importJobs).values(job).returning({ id: importJobs.id });
+  return result[0].id;
+}
+
+export async function getImportJobById(id: number) {
+  const db = await getDb();
+  if (!db) return null;
+  
+  const result = await db.select().from(importJobs).where(eq(importJobs.id, id)).limit(1);
+  return result.length > 0 ? result[0] : null;
+}
+
+export async function getActiveImportJobsByUserId(userId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db
+    .select()
+    .from(importJobs)
+    .where(and(eq(importJobs.userId, userId), inArray(importJobs.status, ["queued", "running"])))
+    .orderBy(desc(importJobs.createdAt));
+}
+
+export async function updateImportJob(id: number, data: Partial<InsertImportJob>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  await db.update(importJobs).set(data).where(eq(importJobs.id, id));
+}
+
+/**
+ * 領取下一個排隊中的任務
+ * 只有當狀態仍然是 queued 時才會更新，避免多個 worker 領取同一個任務
+ */
+export async function claimNextImportJob() {
+  const db = await getDb();
+  if (!db) return null;
+
+  const candidates = await db
+    .select({ id: importJobs.id })
+    .from(importJobs)
+    .where(eq(importJobs.status, "queued"))
+    .orderBy(importJobs.createdAt)
+    .limit(1);
+
+  if (candidates.length === 0) return null;
+
+  const claimed = await db
+    .update(importJobs)
+    .set({
+      status: "running",
+      startedAt: new Date(),
+      heartbeatAt: new Date(),
+      attempts: sql`${importJobs.attempts} + 1`,
+    })
+    .where(and(eq(importJobs.id, candidates[0].id), eq(importJobs.status, "queued")))
+    .returning();
+
+  return claimed.length > 0 ? claimed[0] : null;
+}
+
+/**
+ * 更新執行中任務的心跳時間
+ */
+export async function touchImportJob(id: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.update(importJobs).set({ heartbeatAt: new Date() }).where(and(eq(importJobs.id, id), eq(importJobs.status, "running")));
+}
+
+/**
+ * 記錄任務已保存的食譜(並行保存，用 SQL 追加避免互相覆蓋)
+ */
+export async function addImportJobRecipe(id: number, recipeId: number) {
+  const db = await getDb();
+  if (!db) return;
+
+  await db
+    .update(importJobs)
+    .set({ createdRecipeIds: sql`(COALESCE(${importJobs.createdRecipeIds}, '[]')::jsonb || ${JSON.stringify([recipeId])}::jsonb)::text` })
+    .where(eq(importJobs.id, id));
+}
+
+/**
+ * 把中斷的任務重新排隊：只處理心跳超過 staleBefore 的任務，避免搶走其他實例正在執行的任務
+ * 已達到重試上限的任務直接標記為失敗
+ */
+export async function requeueInterruptedImportJobs(maxAttempts: number, staleBefore: Date) {
+  const db = await getDb();
+  if (!db) return { requeued: 0, failed: 0 };
+
+  const stale = and(
+    eq(importJobs.status, "running"),
+    or(
+      lt(importJobs.heartbeatAt, staleBefore),
+      and(isNull(importJobs.heartbeatAt), lt(importJobs.startedAt, staleBefore))
+    )
+  );
+
+  const failed = await db
+    .update(importJobs)
+    .set({
+      status: "failed",
+      errorMessage: "導入任務多次中斷，請重新提交。",
+      completedAt: new Date(),
+    })
+    .where(and(stale, gte(importJobs.attempts, maxAttempts)))
+    .returning({ id: importJobs.id });
+
+  const requeued = await db
+    .update(importJobs)
+    .set({ status: "queued", stage: "queued" })
+    .where(stale)
+    .returning({ id: importJobs.id });
+
+  return { requeued: requeued.length, failed: failed.length };
+}
+
+// ==================== Food Nutrients ====================
+
+export async function getAllFoodNutrients() {
+  const db = await getDb();
+  if (!db) return [];
+  
+  return await db.select().from(foodNutrients);
+}
+
+/**
+ * 新增或更新營養成分(以名稱為唯一鍵)，用於從 CSV 匯入
+ */
+export async function upsertFoodNutrient(nutrient: InsertFoodNutrient) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  
+  const { name, ...data } = nutrient;
+  await db
+    .insert(foodNutrients)
+    .values(nutrient)
+    .onConflictDoUpdate({ target: foodNutrients.name, set: data });
+}
+
+// ==================== Health Profiles ====================
+
+// 管理員修改過的健康評分配置(沒有記錄的配置使用默認規則)
+export async function getHealthProfileRecords() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db.select().from(healthProfiles);
+}
+
+export async function upsertHealthProfile(profile: InsertHealthProfile) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  const { key, ...data } = profile;
+  await db
+    .insert(healthProfiles)
+    .values(profile)
+    .onConflictDoUpdate({ target: healthProfiles.key, set: data });
+}
+
+// 所有健康評分配置(默認規則合併管理員的修改)
+export async function getHealthProfiles() {
+  return mergeHealthProfiles(await getHealthProfileRecords());
+}
+
+export async function getHealthProfile(key: HealthProfileKey = DEFAULT_HEALTH_PROFILE) {
+  const profiles = await getHealthProfiles();
+  return profiles.find(profile => profile.key === key) ?? profiles[0];
+}
+
+// 刪除記錄即恢復默認規則
+export async function deleteHealthProfile(key: string) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.delete(healthProfiles).where(eq(healthProfiles.key, key));
+}
+
+// ==================== Admin ====================
+
+export async function getAllUsers() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      id: users.id,
+      openId: users.openId,
+      name: users.name,
+      email: users.email,
+      loginMethod: users.loginMethod,
+      role: users.role,
+      createdAt: users.createdAt,
+      lastSignedIn: users.lastSignedIn,
+      recipeCount: sql<number>`(SELECT COUNT(*) FROM ${recipes} WHERE ${recipes.userId} = ${users.id})`.mapWith(Number),
+    })
+    .from(users)
+    .orderBy(desc(users.createdAt));
+}
+
+export async function updateUserRole(id: number, role: "user" | "admin") {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(users).set({ role }).where(eq(users.id, id));
+}
+
+export async function getCategoryById(id: number) {
+  const db = await getDb();
+  if (!db) return undefined;
+
+  const result = await db.select().from(categories).where(eq(categories.id, id)).limit(1);
+  return result.length > 0 ? result[0] : undefined;
+}
+
+// 每個分類被多少個食譜使用
+export async function getCategoryUsageCounts() {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      categoryId: recipeCategories.categoryId,
+      recipeCount: sql<number>`COUNT(*)`.mapWith(Number),
+    })
+    .from(recipeCategories)
+    .groupBy(recipeCategories.categoryId);
+}
+
+/**
+ * 過濾出仍然存在的分類 ID；舊版本快照中的分類可能已被刪除或合併
+ */
+export async function getExistingCategoryIds(categoryIds: number[]): Promise<number[]> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (categoryIds.length === 0) return [];
+
+  const rows = await db.select({ id: categories.id }).from(categories).where(inArray(categories.id, categoryIds));
+  const existing = new Set(rows.map(row => row.id));
+  return categoryIds.filter(id => existing.has(id));
+}
+
+export async function updateCategory(id: number, data: Partial<InsertCategory>) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(categories).set(data).where(eq(categories.id, id));
+}
+
+export async function deleteCategory(id: number) {
+  await withTransaction(async (tx) => {
+    await tx.delete(recipeCategories).where(eq(recipeCategories.categoryId, id));
+    await tx.delete(categories).where(eq(categories.id, id));
+  });
+}
+
+/**
+ * 合併分類：把 source 的食譜關聯轉到 target(已有 target 的食譜不重複關聯)，然後刪除 source；全部在同一個事務中完成
+ */
+export async function mergeCategories(sourceId: number, targetId: number) {
+  await withTransaction(async (tx) => {
+    const targetLinks = await tx
+      .select({ recipeId: recipeCategories.recipeId })
+      .from(recipeCategories)
+      .where(eq(recipeCategories.categoryId, targetId));
+    const targetRecipeIds = targetLinks.map(link => link.recipeId);
+
+    if (targetRecipeIds.length > 0) {
+      await tx
+        .delete(recipeCategories)
+        .where(and(eq(recipeCategories.categoryId, sourceId), inArray(recipeCategories.recipeId, targetRecipeIds)));
+    }
+    await tx.update(recipeCategories).set({ categoryId: targetId }).where(eq(recipeCategories.categoryId, sourceId));
+    await tx.delete(categories).where(eq(categories.id, sourceId));
+  });
+}
+
+// 審核隊列：已發佈的食譜(最近更新的在前)
+export async function getPublishedRecipesForModeration(limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      id: recipes.id,
+      title: recipes.title,
+      description: recipes.description,
+      imageUrl: recipes.imageUrl,
+      userId: recipes.userId,
+      userName: users.name,
+      createdAt: recipes.createdAt,
+      updatedAt: recipes.updatedAt,
+    })
+    .from(recipes)
+    .leftJoin(users, eq(recipes.userId, users.id))
+    .where(eq(recipes.isPublished, true))
+    .orderBy(desc(recipes.updatedAt))
+    .limit(limit);
+}
+
+// 審核隊列：最新評論(包括已隱藏的)
+export async function getReviewsForModeration(limit: number) {
+  const db = await getDb();
+  if (!db) return [];
+
+  return await db
+    .select({
+      id: recipeReviews.id,
+      recipeId: recipeReviews.recipeId,
+      recipeTitle: recipes.title,
+      userId: recipeReviews.userId,
+      userName: users.name,
+      rating: recipeReviews.rating,
+      comment: recipeReviews.comment,
+      isHidden: recipeReviews.isHidden,
+      createdAt: recipeReviews.createdAt,
+    })
+    .from(recipeReviews)
+    .leftJoin(recipes, eq(recipeReviews.recipeId, recipes.id))
+    .leftJoin(users, eq(recipeReviews.userId, users.id))
+    .orderBy(desc(recipeReviews.createdAt))
+    .limit(limit);
+}
+
+export async function setReviewHidden(id: number, isHidden: boolean) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  await db.update(recipeReviews).set({ isHidden }).where(eq(recipeReviews.id, id));
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { buildDishImagePrompt, buildStepImagePrompt } from "./dishImage";
+
+describe("buildDishImagePrompt", () => {
+  it("should include the title and the first ingredients", () => {
+    const prompt = buildDishImagePrompt(
+      { title: "番茄炒蛋", description: "家常小菜" },
+      [{ name: "番茄" }, { name: "雞蛋" }, { name: " " }]
+    );
+
+    expect(prompt).toContain('"番茄炒蛋"');
+    expect(prompt).toContain("Main ingredients: 番茄, 雞蛋.");
+    expect(prompt).toContain("Dish description: 家常小菜.");
+    expect(prompt).toContain("No text");
+  });
+
+  it("should cap the number of ingredients and skip an empty description", () => {
+    const ingredients = Array.from({ length: 12 }, (_, i) => ({ name: `食材${i + 1}` }));
+    const prompt = buildDishImagePrompt({ title: "雜菜煲", description: null }, ingredients);
+
+    expect(prompt).toContain("食材8");
+    expect(prompt).not.toContain("食材9");
+    expect(prompt).not.toContain("Dish description");
+  });
+});
+
+describe("buildStepImagePrompt", () => {
+  it("should describe the step and its heat", () => {
+    const prompt = buildStepImagePrompt(
+      { title: "番茄炒蛋" },
+      { stepNumber: 2, instruction: " 倒入蛋液，炒至半熟 ", temperature: "中火" }
+    );
+
+    expect(prompt).toContain('step 2 of the recipe "番茄炒蛋"');
+    expect(prompt).toContain("The step: 倒入蛋液，炒至半熟.");
+    expect(prompt).toContain("Heat: 中火.");
+  });
+
+  it("should truncate long instructions and skip a missing temperature", () => {
+    const prompt = buildStepImagePrompt(
+      { title: "燉湯" },
+      { stepNumber: 1, instruction: "煮".repeat(400), temperature: null }
+    );
+
+    expect(prompt).toContain("煮".repeat(300) + ".");
+    expect(prompt).not.toContain("煮".repeat(301));
+    expect(prompt).not.toContain("Heat:");
+  });
+});
@@ -0,0 +1,138 @@
+import type { CookingStep, Ingredient, Recipe } from "../drizzle/schema";
+import { generateImage, isImageGenerationConfigured } from "./_core/imageGeneration";
+import * as db from "./db";
+
+/**
+ * AI 菜式圖片
+ * 按食譜標題和主要食材生成菜式照片(generateImage 會經 storagePut 保存)，再寫入 recipes.imageUrl；
+ * 步驟圖片按步驟說明生成，寫入 cookingSteps.imageUrl
+ */
+
+const MAX_PROMPT_INGREDIENTS = 8;
+const MAX_PROMPT_DESCRIPTION_LENGTH = 200;
+const MAX_PROMPT_INSTRUCTION_LENGTH = 300;
+
+/**
+ * 構建圖片生成提示詞
+ * 圖片模型對英文描述效果較好，食譜名稱和食材保留原文
+ */
+export function buildDishImagePrompt(
+  recipe: Pick<Recipe, "title" | "description">,
+  ingredients: Array<Pick<Ingredient, "name">>
+): string {
+  const ingredientNames = ingredients
+    .map(ing => ing.name.trim())
+    .filter(Boolean)
+    .slice(0, MAX_PROMPT_INGREDIENTS);
+
+  const parts = [`Professional food photography of the finished dish "${recipe.title.trim()}".`];
+  if (ingredientNames.length > 0) {
+    parts.push(`Main ingredients: ${ingredientNames.join(", ")}.`);
+  }
+  const description = recipe.description?.trim();
+  if (description) {
+    parts.push(`Dish description: ${description.slice(0, MAX_PROMPT_DESCRIPTION_LENGTH)}.`);
+  }
+  parts.push(
+    "Appetizing home-style plating on a simple plate, natural soft light, 45-degree angle, shallow depth of field, realistic. No text, no watermark, no people."
+  );
+  return parts.join(" ");
+}
+
+/**
+ * 構建步驟圖片提示詞：拍攝該步驟進行中的畫面，讓新手廚師看到應有的狀態
+ */
+export function buildStepImagePrompt(
+  recipe: Pick<Recipe, "title">,
+  step: Pick<CookingStep, "stepNumber" | "instruction" | "temperature">
+): string {
+  const parts = [
+    `Instructional cooking photo for step ${step.stepNumber} of the recipe "${recipe.title.trim()}".`,
+    `The step: ${step.instruction.trim().slice(0, MAX_PROMPT_INSTRUCTION_LENGTH)}.`,
+  ];
+  if (step.temperature) {
+    parts.push(`Heat: ${step.temperature}.`);
+  }
+  parts.push(
+    "Show the food in the pan, pot or on the board at this exact stage, clear view of texture and color, bright kitchen light, realistic. No text, no watermark, no faces."
+  );
+  return parts.join(" ");
+}
+
+/**
+ * 為食譜生成菜式圖片並設為封面，返回圖片網址
+ */
+export async function generateRecipeImage(recipeId: number): Promise<string> {
+  if (!isImageGenerationConfigured()) {
+    throw new Error("未配置圖片生成服務");
+  }
+
+  const recipe = await db.getRecipeById(recipeId);
+  if (!recipe) {
+    throw new Error("找不到食譜");
+  }
+  const ingredients = await db.getIngredientsByRecipeId(recipeId);
+
+  console.log(`[dishImage] 🎨 Generating image for recipe ${recipeId}: ${recipe.title}`);
+  const { url } = await generateImage({ prompt: buildDishImagePrompt(recipe, ingredients) });
+  if (!url) {
+    throw new Error("圖片生成失敗，沒有返回圖片");
+  }
+
+  await db.updateRecipe(recipeId, { imageUrl: url });
+  console.log(`[dishImage] ✅ Saved generated image for recipe ${recipeId}`);
+  return url;
+}
+
+/**
+ * 為單個烹飪步驟生成示意圖片，返回圖片網址
+ */
+export async function generateStepImage(stepId: number): Promise<string> {
+  if (!isImageGenerationConfigured()) {
+    throw new Error("未配置圖片生成服務");
+  }
+
+  const step = await db.getCookingStepById(stepId);
+  if (!step) {
+    throw new Error("找不到步驟");
+  }
+  const recipe = await db.getRecipeById(step.recipeId);
+  if (!recipe) {
+    throw new Error("找不到食譜");
+  }
+
+  console.log(`[dishImage] 🎨 Generating image for step ${step.stepNumber} of recipe ${recipe.id}`);
+  const { url } = await generateImage({ prompt: buildStepImagePrompt(recipe, step) });
+  if (!url) {
+    throw new Error("圖片生成失敗，沒有返回圖片");
+  }
+
+  await db.updateCookingStep(stepId, { imageUrl: url });
+  return url;
+}
+
+/**
+ * 批量為沒有圖片的食譜生成圖片(逐個生成，單個失敗不影響其他食譜)
+ */
+export async function generateMissingRecipeImages(limit: number) {
+  if (!isImageGenerationConfigured()) {
+    throw new Error("未配置圖片生成服務");
+  }
+
+  const recipeIds = await db.getRecipeIdsWithoutImage(limit);
+  let generated = 0;
+  const failed: Array<{ recipeId: number; error: string }> = [];
+
+  for (const recipeId of recipeIds) {
+    try {
+      await generateRecipeImage(recipeId);
+      generated++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[dishImage] ❌ Failed to generate image for recipe ${recipeId}:`, message);
+      failed.push({ recipeId, error: message });
+    }
+  }
+
+  return { total: recipeIds.length, generated, failed };
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { PgDialect } from "drizzle-orm/pg-core";
+import {
+  DEFAULT_HEALTH_PROFILES,
+  getHealthMetric,
+  healthScoreSql,
+  mergeHealthProfiles,
+  parseHealthRules,
+  scoreRecipe,
+} from "./healthScore";
+
+// 總營養(2人份)：每份 250 kcal、蛋白質 25g、碳水 8g、脂肪 9g、纖維 6g
+const steamedFish = {
+  title: "清蒸魚",
+  searchText: "清蒸魚 鱸魚 薑 葱 豉油 魚洗淨後蒸 8 分鐘",
+  servings: 2,
+  totalCalories: 500,
+  caloriesPerServing: 250,
+  protein: 50,
+  carbs: 16,
+  fat: 18,
+  fiber: 12,
+};
+
+const friedRice = {
+  title: "揚州炒飯",
+  searchText: "揚州炒飯 白飯 雞蛋 叉燒 蝦仁 糖 大火炒勻",
+  servings: 1,
+  totalCalories: 750,
+  caloriesPerServing: 750,
+  protein: 18,
+  carbs: 95,
+  fat: 28,
+  fiber: 2,
+};
+
+describe("getHealthMetric", () => {
+  it("should use per-serving values", () => {
+    expect(getHealthMetric(steamedFish, "calories")).toBe(250);
+    expect(getHealthMetric(steamedFish, "protein")).toBe(25);
+    expect(getHealthMetric({ ...steamedFish, caloriesPerServing: null }, "calories")).toBe(250);
+  });
+
+  it("should treat recipes without calories as not analysed", () => {
+    expect(getHealthMetric({ ...steamedFish, totalCalories: 0 }, "carbs")).toBeNull();
+  });
+});
+
+describe("scoreRecipe", () => {
+  it("should score the balanced profile like the previous fixed thresholds", () => {
+    const result = scoreRecipe(steamedFish, DEFAULT_HEALTH_PROFILES.balanced.rules);
+    expect(result.matches.map(match => match.label)).toEqual(["高蛋白質", "高纖維", "低卡路里", "低脂肪", "低碳水化合物"]);
+    expect(result.score).toBe(10);
+
+    expect(scoreRecipe(friedRice, DEFAULT_HEALTH_PROFILES.balanced.rules).score).toBe(2);
+  });
+
+  it("should rank recipes differently per profile", () => {
+    const lowCarb = DEFAULT_HEALTH_PROFILES.lowCarb.rules;
+    expect(scoreRecipe(steamedFish, lowCarb).score).toBe(10);
+    expect(scoreRecipe(friedRice, lowCarb).score).toBe(1);
+
+    const elderly = scoreRecipe(steamedFish, DEFAULT_HEALTH_PROFILES.elderlySoft.rules);
+    expect(elderly.matches.map(match => match.label)).toEqual(["軟腍烹調", "軟身食材", "蛋白質充足"]);
+    expect(elderly.score).toBe(9);
+  });
+
+  it("should only apply keyword rules when nutrition is missing", () => {
+    const result = scoreRecipe({ ...friedRice, totalCalories: null }, DEFAULT_HEALTH_PROFILES.diabetic.rules);
+    expect(result.matches).toEqual([{ label: "含添加糖", points: -2 }]);
+    expect(result.score).toBe(3);
+  });
+});
+
+describe("health profile storage", () => {
+  it("should fall back to default rules when stored rules are invalid", () => {
+    expect(parseHealthRules("not json")).toBeNull();
+    expect(parseHealthRules(JSON.stringify([{ type: "nutrient", label: "x", metric: "sugar", operator: "lt", value: 1, points: 1 }]))).toBeNull();
+
+    const profiles = mergeHealthProfiles([
+      { key: "lowCarb", name: "生酮", description: null, rules: JSON.stringify([{ type: "nutrient", label: "極低碳水", metric: "carbs", operator: "lt", value: 5, points: 5 }]) },
+      { key: "diabetic", name: "壞數據", description: null, rules: "[]" },
+    ]);
+    expect(profiles.map(profile => [profile.key, profile.isCustomized])).toEqual([
+      ["balanced", false],
+      ["lowCarb", true],
+      ["diabetic", false],
+      ["highProtein", false],
+      ["heartHealthy", false],
+      ["elderlySoft", false],
+    ]);
+    expect(profiles[1].name).toBe("生酮");
+    expect(profiles[2].rules).toEqual(DEFAULT_HEALTH_PROFILES.diabetic.rules);
+  });
+});
+
+describe("healthScoreSql", () => {
+  it("should build one CASE per rule with keywords as parameters", () => {
+    const query = new PgDialect().sqlToQuery(healthScoreSql(DEFAULT_HEALTH_PROFILES.heartHealthy.rules));
+    expect(query.sql.startsWith("GREATEST(1, LEAST(10, 5 + CASE WHEN")).toBe(true);
+    expect(query.sql.match(/CASE WHEN/g)).toHaveLength(DEFAULT_HEALTH_PROFILES.heartHealthy.rules.length);
+    expect(query.sql).toContain("\"fat\"::real / GREATEST(COALESCE(\"recipes\".\"servings\", 1), 1) < 10");
+    expect(query.params).toContain("%牛油%");
+  });
+});
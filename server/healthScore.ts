@@ -0,0 +1,242 @@
+import { z } from "zod";
+import { sql, type SQL } from "drizzle-orm";
+import { recipes, type HealthProfileRecord } from "../drizzle/schema";
+import {
+  HEALTH_METRICS,
+  HEALTH_PROFILE_KEYS,
+  HEALTH_SCORE_BASE,
+  HEALTH_SCORE_MAX,
+  HEALTH_SCORE_MIN,
+  type HealthMetric,
+  type HealthProfileKey,
+  type HealthRule,
+  type HealthScoreResult,
+} from "@shared/healthScore";
+import { escapeLikePattern } from "./recipeSearch";
+
+/**
+ * 健康評分服務
+ *
+ * 每個飲食配置是一組規則，由基本分 5 分開始加減，結果限制在 1-10 分；
+ * 管理員修改過的配置存於 healthProfiles 表，沒有記錄的使用這裡的默認規則。
+ * scoreRecipe 用於顯示評分和符合的規則，healthScoreSql 是同一套規則的 SQL 版本，用於瀏覽頁排序
+ */
+
+export const healthRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("nutrient"),
+    label: z.string().trim().min(1).max(50),
+    metric: z.enum(HEALTH_METRICS),
+    operator: z.enum(["lt", "gt"]),
+    value: z.number().min(0).max(10000),
+    points: z.number().int().min(-5).max(5),
+  }),
+  z.object({
+    type: z.literal("keyword"),
+    label: z.string().trim().min(1).max(50),
+    keywords: z.array(z.string().trim().min(1).max(20)).min(1).max(30),
+    points: z.number().int().min(-5).max(5),
+  }),
+]);
+
+export const healthRulesSchema = z.array(healthRuleSchema).min(1).max(30);
+
+export interface HealthProfile {
+  key: HealthProfileKey;
+  name: string;
+  description: string | null;
+  rules: HealthRule[];
+  isCustomized: boolean;
+}
+
+const nutrient = (label: string, metric: HealthMetric, operator: "lt" | "gt", value: number, points: number): HealthRule =>
+  ({ type: "nutrient", label, metric, operator, value, points });
+
+const keyword = (label: string, keywords: string[], points: number): HealthRule =>
+  ({ type: "keyword", label, keywords, points });
+
+export const DEFAULT_HEALTH_PROFILES: Record<HealthProfileKey, Omit<HealthProfile, "key" | "isCustomized">> = {
+  balanced: {
+    name: "均衡飲食",
+    description: "一般成年人的均衡飲食：高蛋白、高纖維，控制熱量、脂肪和碳水化合物",
+    rules: [
+      nutrient("高蛋白質", "protein", "gt", 20, 1),
+      nutrient("高纖維", "fiber", "gt", 5, 1),
+      nutrient("低卡路里", "calories", "lt", 300, 1),
+      nutrient("低脂肪", "fat", "lt", 10, 1),
+      nutrient("低碳水化合物", "carbs", "lt", 30, 1),
+      nutrient("高卡路里", "calories", "gt", 500, -1),
+      nutrient("高脂肪", "fat", "gt", 20, -1),
+      nutrient("高碳水化合物", "carbs", "gt", 60, -1),
+    ],
+  },
+  lowCarb: {
+    name: "低碳水",
+    description: "每份碳水化合物越少越好，並有足夠蛋白質",
+    rules: [
+      nutrient("極低碳水", "carbs", "lt", 10, 3),
+      nutrient("低碳水", "carbs", "lt", 20, 2),
+      nutrient("碳水偏高", "carbs", "gt", 40, -2),
+      nutrient("高碳水", "carbs", "gt", 60, -2),
+      nutrient("蛋白質充足", "protein", "gt", 20, 1),
+      keyword("含澱粉質主食或糖", ["白飯", "米飯", "麵", "粉絲", "米粉", "麵包", "薯仔", "馬鈴薯", "糖"], -1),
+    ],
+  },
+  diabetic: {
+    name: "糖尿病友善",
+    description: "控制每份碳水化合物，避免添加糖，多纖維和全穀物",
+    rules: [
+      nutrient("碳水適中", "carbs", "lt", 45, 2),
+      nutrient("碳水過高", "carbs", "gt", 60, -3),
+      nutrient("高纖維", "fiber", "gt", 5, 2),
+      nutrient("蛋白質充足", "protein", "gt", 15, 1),
+      keyword("含添加糖", ["糖", "蜜", "糖漿", "煉奶", "果汁"], -2),
+      keyword("含全穀物", ["糙米", "燕麥", "全麥", "藜麥"], 1),
+    ],
+  },
+  highProtein: {
+    name: "高蛋白（運動員）",
+    description: "訓練後增肌：每份蛋白質越多越好，熱量足夠但脂肪不過高",
+    rules: [
+      nutrient("極高蛋白質", "protein", "gt", 30, 3),
+      nutrient("高蛋白質", "protein", "gt", 20, 1),
+      nutrient("蛋白質不足", "protein", "lt", 10, -2),
+      nutrient("熱量足夠", "calories", "gt", 400, 1),
+      nutrient("高脂肪", "fat", "gt", 30, -1),
+    ],
+  },
+  heartHealthy: {
+    name: "護心飲食",
+    description: "少飽和脂肪和加工肉，多纖維和有益脂肪",
+    rules: [
+      nutrient("低脂肪", "fat", "lt", 10, 2),
+      nutrient("高脂肪", "fat", "gt", 20, -2),
+      nutrient("高纖維", "fiber", "gt", 5, 2),
+      nutrient("高卡路里", "calories", "gt", 600, -1),
+      keyword("含飽和脂肪或加工肉", ["牛油", "豬油", "肥肉", "五花腩", "煙肉", "香腸", "火腿", "炸"], -2),
+      keyword("含有益脂肪", ["三文魚", "鯖魚", "沙甸魚", "橄欖油", "牛油果", "燕麥"], 1),
+    ],
+  },
+  elderlySoft: {
+    name: "長者軟餐",
+    description: "容易咀嚼和吞嚥：蒸、燉、煮等軟腍做法，避免炸、烤和硬脆食材",
+    rules: [
+      keyword("軟腍烹調", ["蒸", "燉", "煲", "燜", "粥", "湯", "蓉", "泥"], 2),
+      keyword("軟身食材", ["豆腐", "蛋", "魚"], 1),
+      keyword("難以咀嚼", ["炸", "烤", "脆", "堅果", "花生", "牛扒", "煙韌", "骨"], -2),
+      nutrient("蛋白質充足", "protein", "gt", 15, 1),
+      nutrient("份量過大", "calories", "gt", 700, -1),
+    ],
+  },
+};
+
+/**
+ * 解析保存的規則；格式不正確時返回 null(使用默認規則)
+ */
+export function parseHealthRules(value: string | null | undefined): HealthRule[] | null {
+  if (!value) return null;
+  try {
+    const result = healthRulesSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 合併默認配置和管理員修改過的記錄，按 HEALTH_PROFILE_KEYS 的順序返回
+ */
+export function mergeHealthProfiles(records: Pick<HealthProfileRecord, "key" | "name" | "description" | "rules">[]): HealthProfile[] {
+  const byKey = new Map(records.map(record => [record.key, record]));
+  return HEALTH_PROFILE_KEYS.map(key => {
+    const defaults = DEFAULT_HEALTH_PROFILES[key];
+    const record = byKey.get(key);
+    const rules = parseHealthRules(record?.rules);
+    if (!record || !rules) {
+      return { key, ...defaults, isCustomized: false };
+    }
+    return { key, name: record.name, description: record.description, rules, isCustomized: true };
+  });
+}
+
+export interface HealthScoreInput {
+  title?: string | null;
+  description?: string | null;
+  searchText?: string | null;
+  servings?: number | null;
+  totalCalories?: number | null;
+  caloriesPerServing?: number | null;
+  protein?: number | null;
+  carbs?: number | null;
+  fat?: number | null;
+  fiber?: number | null;
+}
+
+/**
+ * 每份營養數值；食譜沒有卡路里數據時視為未分析，返回 null(不套用營養規則)
+ */
+export function getHealthMetric(recipe: HealthScoreInput, metric: HealthMetric): number | null {
+  if (!recipe.totalCalories || recipe.totalCalories <= 0) return null;
+  const servings = Math.max(recipe.servings ?? 1, 1);
+  if (metric === "calories") {
+    return recipe.caloriesPerServing && recipe.caloriesPerServing > 0
+      ? recipe.caloriesPerServing
+      : recipe.totalCalories / servings;
+  }
+  const total = recipe[metric];
+  return total === null || total === undefined ? null : total / servings;
+}
+
+function ruleMatches(rule: HealthRule, recipe: HealthScoreInput, text: string) {
+  if (rule.type === "keyword") {
+    return rule.keywords.some(word => text.includes(word.toLowerCase()));
+  }
+  const value = getHealthMetric(recipe, rule.metric);
+  if (value === null) return false;
+  return rule.operator === "lt" ? value < rule.value : value > rule.value;
+}
+
+function clampScore(score: number) {
+  return Math.max(HEALTH_SCORE_MIN, Math.min(HEALTH_SCORE_MAX, score));
+}
+
+/**
+ * 按配置規則計算食譜的健康評分，並列出符合的規則
+ * 關鍵字在 searchText(標題、描述、食材、步驟)中查找，沒有 searchText 時只查標題和描述
+ */
+export function scoreRecipe(recipe: HealthScoreInput, rules: HealthRule[]): HealthScoreResult {
+  const text = (recipe.searchText ?? [recipe.title, recipe.description].filter(Boolean).join(" ")).toLowerCase();
+  const matches = rules
+    .filter(rule => ruleMatches(rule, recipe, text))
+    .map(rule => ({ label: rule.label, points: rule.points }));
+  const score = clampScore(HEALTH_SCORE_BASE + matches.reduce((sum, match) => sum + match.points, 0));
+  return { score, matches };
+}
+
+function metricSql(metric: HealthMetric): SQL {
+  const servings = sql`GREATEST(COALESCE(${recipes.servings}, 1), 1)`;
+  if (metric === "calories") {
+    return sql`COALESCE(NULLIF(${recipes.caloriesPerServing}, 0), ${recipes.totalCalories}::real / ${servings})`;
+  }
+  const column = { protein: recipes.protein, carbs: recipes.carbs, fat: recipes.fat, fiber: recipes.fiber }[metric];
+  return sql`${column}::real / ${servings}`;
+}
+
+function ruleConditionSql(rule: HealthRule): SQL {
+  if (rule.type === "keyword") {
+    const text = sql`COALESCE(${recipes.searchText}, concat_ws(' ', ${recipes.title}, ${recipes.description}))`;
+    return sql.join(rule.keywords.map(word => sql`${text} ILIKE ${`%${escapeLikePattern(word)}%`}`), sql` OR `);
+  }
+  // 數值來自已驗證的規則，直接寫入 SQL 避免參數類型推斷問題
+  const operator = rule.operator === "lt" ? "<" : ">";
+  return sql`${recipes.totalCalories} > 0 AND ${metricSql(rule.metric)} ${sql.raw(operator)} ${sql.raw(String(Number(rule.value)))}`;
+}
+
+/**
+ * scoreRecipe 的 SQL 版本(用於按健康評分排序)
+ */
+export function healthScoreSql(rules: HealthRule[]): SQL<number> {
+  const terms = rules.map(rule => sql`CASE WHEN (${ruleConditionSql(rule)}) THEN ${sql.raw(String(Math.trunc(rule.points)))} ELSE 0 END`);
+  const total = sql`${sql.raw(String(HEALTH_SCORE_BASE))} + ${sql.join(terms, sql` + `)}`;
+  return sql<number>`GREATEST(${sql.raw(String(HEALTH_SCORE_MIN))}, LEAST(${sql.raw(String(HEALTH_SCORE_MAX))}, ${total}))`.mapWith(Number);
+}
@@ -0,0 +1,101 @@
+import { safeInvokeLLM } from "./llmHelpers";
+import type { ScrapedContent } from "./webScraper";
+import { analyzeAndSaveRecipes, reportProgress, type ImportOptions, type ImportResult } from "./weblinkImport";
+
+const UNRECOGNIZED_IMAGE_ERROR = '無法從圖片中識別食譜內容。\n\n建議替代方案：\n1. 拍攝更清晰、光線充足的照片，確保文字完整入鏡\n2. 使用「手動輸入」功能直接輸入食譜內容';
+
+type ImageTranscription = {
+  isRecipe: boolean;
+  title: string;
+  content: string;
+};
+
+/**
+ * 從圖片創建食譜(手寫食譜卡、食譜書頁面或菜式照片)
+ * 先用視覺模型把圖片轉成食譜文字，再交給與網址導入相同的分析流程
+ */
+export async function importRecipesFromImage(imageUrl: string, options: ImportOptions): Promise<ImportResult> {
+  console.log('[imageImport] ========================================');
+  console.log('[imageImport] 🚀 Starting recipe creation from image');
+  console.log('[imageImport] 🖼️  Image URL:', imageUrl);
+  await reportProgress(options, { stage: "scrape", message: "辨識圖片內容" });
+
+  const transcription = await transcribeRecipeImage(imageUrl);
+  console.log('[imageImport] 📊 Vision result:', {
+    isRecipe: transcription.isRecipe,
+    title: transcription.title,
+    contentLength: transcription.content.length,
+  });
+
+  if (!transcription.isRecipe || transcription.content.length < 50) {
+    throw new Error(UNRECOGNIZED_IMAGE_ERROR);
+  }
+
+  const scrapedContent: ScrapedContent = {
+    title: transcription.title,
+    content: transcription.content,
+    images: [imageUrl],
+    success: true,
+  };
+
+  return analyzeAndSaveRecipes(scrapedContent, {
+    ...options,
+    imageUrl,
+    inputMethod: "image",
+    // 圖片可能是私人的手寫食譜卡，預設不公開
+    isPublished: false,
+  });
+}
+
+async function transcribeRecipeImage(imageUrl: string): Promise<ImageTranscription> {
+  console.log('[imageImport] ⏳ Calling vision LLM...');
+  const startTime = Date.now();
+
+  const result = await safeInvokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: `你是一位專業的食譜辨識專家。用戶會上傳一張圖片，可能是：
+1. 手寫食譜卡
+2. 食譜書或雜誌的頁面
+3. 一道已完成菜式的照片
+
+**你的任務**：
+- 如果圖片包含食譜文字（手寫或印刷），請完整、準確地轉錄所有內容，包括食譜名稱、份量、食材和用量、步驟、溫度、時間和提示。不要遺漏或自行刪減任何內容。
+- 如果圖片是一道菜式的照片，請辨認這道菜，並根據常見做法寫出一份完整的食譜（食材和用量、步驟）。
+- 如果圖片與食物或烹飪無關，isRecipe 設為 false。
+- 所有輸出必須是繁體中文，非繁體中文的內容請翻譯成繁體中文。
+
+只返回純JSON，不要任何markdown或額外文字，格式如下：
+{"isRecipe": true, "title": "食譜名稱", "content": "完整的食譜文字，包含食材和步驟"}`
+      },
+      {
+        role: "user",
+        content: [
+          { type: "text", text: "請辨識這張圖片中的食譜：" },
+          { type: "image_url", image_url: { url: imageUrl, detail: "high" } },
+        ],
+      },
+    ],
+  });
+
+  console.log(`[imageImport] ⏱️  Vision LLM call completed in ${Date.now() - startTime}ms`);
+
+  // Clean JSON response
+  let jsonResponse = result.choices[0].message.content as string;
+  jsonResponse = jsonResponse.replace(/```json/gi, '').replace(/```/g, '');
+
+  const firstBrace = jsonResponse.indexOf('{');
+  const lastBrace = jsonResponse.lastIndexOf('}');
+  if (firstBrace === -1 || lastBrace === -1) {
+    console.error('[imageImport] ❌ Vision response is not JSON:', jsonResponse.substring(0, 200));
+    throw new Error(UNRECOGNIZED_IMAGE_ERROR);
+  }
+
+  const parsed = JSON.parse(jsonResponse.substring(firstBrace, lastBrace + 1));
+  return {
+    isRecipe: parsed.isRecipe !== false,
+    title: typeof parsed.title === 'string' ? parsed.title : '',
+    content: typeof parsed.content === 'string' ? parsed.content : '',
+  };
+}
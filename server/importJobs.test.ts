@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(): { ctx: TrpcContext } {
+  const user: AuthenticatedUser = {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+
+  const ctx: TrpcContext = {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as TrpcContext["res"],
+  };
+
+  return { ctx };
+}
+
+describe("importJobs API", () => {
+  it("should list active import jobs", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const result = await caller.importJobs.listActive();
+
+    expect(Array.isArray(result)).toBe(true);
+  });
+
+  it("should return null for a job that does not exist", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    const result = await caller.importJobs.getById({ id: 999999999 });
+
+    expect(result).toBeNull();
+  });
+
+  it("should reject invalid urls before queueing", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(caller.recipes.createFromWeblink({ url: "not-a-url" })).rejects.toThrow();
+  });
+
+  it("should reject unsupported image types before uploading", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.recipes.createFromImage({
+        imageBase64: Buffer.from("not an image").toString("base64"),
+        mimeType: "application/pdf" as "image/png",
+      })
+    ).rejects.toThrow();
+  });
+
+  it("should reject unsupported audio types before uploading", async () => {
+    const { ctx } = createAuthContext();
+    const caller = appRouter.createCaller(ctx);
+
+    await expect(
+      caller.recipes.createFromVoice({
+        audioBase64: Buffer.from("not audio").toString("base64"),
+        mimeType: "video/mp4" as "audio/mp4",
+      })
+    ).rejects.toThrow();
+  });
+});
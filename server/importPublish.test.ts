@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { ScrapedContent } from "./webScraper";
+
+vi.mock("./db", () => ({
+  createRecipeWithContent: vi.fn(async () => 42),
+}));
+vi.mock("./llmHelpers", () => ({
+  safeInvokeLLM: vi.fn(),
+}));
+vi.mock("./audioTranscription", async importOriginal => ({
+  ...(await importOriginal<typeof import("./audioTranscription")>()),
+  whisperTranscriber: vi.fn(async () => "先把雞胸肉切片，用少許鹽和胡椒醃十分鐘，然後用中火煎至兩面金黃，最後加入西蘭花炒勻即可上碟。"),
+}));
+vi.mock("./allergens", () => ({
+  refreshRecipeAllergens: vi.fn(async () => []),
+}));
+vi.mock("./nutritionEngine", () => ({
+  calculateNutrition: vi.fn(async () => {
+    throw new Error("no nutrient table in tests");
+  }),
+}));
+vi.mock("./_core/imageGeneration", () => ({
+  isImageGenerationConfigured: () => false,
+}));
+vi.mock("./weblinkImport", async importOriginal => {
+  const actual = await importOriginal<typeof import("./weblinkImport")>();
+  return { ...actual, analyzeAndSaveRecipes: vi.fn(actual.analyzeAndSaveRecipes) };
+});
+
+const db = await import("./db");
+const { safeInvokeLLM } = await import("./llmHelpers");
+const weblinkImport = await import("./weblinkImport");
+const { importRecipesFromImage } = await import("./imageImport");
+const { importRecipesFromVoice } = await import("./voiceImport");
+const { isVideoSiteUrl } = weblinkImport;
+
+const structuredContent: ScrapedContent = {
+  title: "香煎雞胸",
+  content: "",
+  images: [],
+  success: true,
+  structuredRecipes: [
+    {
+      source: "json-ld",
+      title: "香煎雞胸",
+      description: null,
+      imageUrl: null,
+      servings: 2,
+      prepTime: null,
+      cookTime: null,
+      totalTime: null,
+      ingredients: ["雞胸肉 300克", "西蘭花 200克"],
+      steps: [{ instruction: "雞胸肉切片煎熟，加入西蘭花炒勻", duration: 10 }],
+      nutrition: null,
+    },
+  ],
+};
+
+function savedRecipe() {
+  return vi.mocked(db.createRecipeWithContent).mock.calls[0][0];
+}
+
+describe("imported recipe visibility", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    // 改良建議失敗不影響保存
+    vi.mocked(safeInvokeLLM).mockRejectedValue(new Error("AI服務未配置"));
+  });
+
+  it("should save recipes unpublished unless the caller asks to publish them", async () => {
+    await weblinkImport.analyzeAndSaveRecipes(structuredContent, { userId: 1, inputMethod: "image" });
+    expect(savedRecipe().isPublished).toBe(false);
+
+    vi.mocked(db.createRecipeWithContent).mockClear();
+    await weblinkImport.analyzeAndSaveRecipes(structuredContent, { userId: 1, inputMethod: "weblink", isPublished: true });
+    expect(savedRecipe().isPublished).toBe(true);
+  });
+
+  it("should create unpublished recipes from image import jobs", async () => {
+    vi.mocked(safeInvokeLLM).mockResolvedValueOnce({
+      choices: [{ message: { content: JSON.stringify({ isRecipe: true, title: "香煎雞胸", content: "x".repeat(60) }) } }],
+    } as Awaited<ReturnType<typeof safeInvokeLLM>>);
+    vi.mocked(weblinkImport.analyzeAndSaveRecipes).mockImplementationOnce((_content, options) =>
+      weblinkImport.analyzeAndSaveRecipes(structuredContent, options)
+    );
+
+    await importRecipesFromImage("https://storage.example.com/card.jpg", { userId: 1 });
+
+    expect(weblinkImport.analyzeAndSaveRecipes).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ inputMethod: "image", isPublished: false })
+    );
+    expect(savedRecipe()).toMatchObject({ inputMethod: "image", isPublished: false });
+  });
+
+  it("should create unpublished recipes from voice import jobs", async () => {
+    vi.mocked(weblinkImport.analyzeAndSaveRecipes).mockImplementationOnce((_content, options) =>
+      weblinkImport.analyzeAndSaveRecipes(structuredContent, options)
+    );
+
+    await importRecipesFromVoice("https://storage.example.com/memo.webm", { userId: 1 });
+
+    expect(weblinkImport.analyzeAndSaveRecipes).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({ inputMethod: "voice", isPublished: false })
+    );
+    expect(savedRecipe()).toMatchObject({ inputMethod: "voice", isPublished: false });
+  });
+});
+
+describe("isVideoSiteUrl", () => {
+  it("should match video hosts and their subdomains only", () => {
+    expect(isVideoSiteUrl("https://www.youtube.com/watch?v=abc")).toBe(true);
+    expect(isVideoSiteUrl("https://youtu.be/abc")).toBe(true);
+    expect(isVideoSiteUrl("https://m.bilibili.com/video/BV1")).toBe(true);
+    expect(isVideoSiteUrl("https://example.com/?ref=youtube.com")).toBe(false);
+    expect(isVideoSiteUrl("https://notyoutube.com/watch")).toBe(false);
+    expect(isVideoSiteUrl("not a url")).toBe(false);
+  });
+});
@@ -0,0 +1,157 @@
+import type { ImportJob } from "../drizzle/schema";
+import * as db from "./db";
+import { importRecipesFromImage } from "./imageImport";
+import { importRecipesFromVoice } from "./voiceImport";
+import { importRecipesFromWeblink, type ImportOptions, type ImportProgress } from "./weblinkImport";
+
+const POLL_INTERVAL_MS = 3000;
+const MAX_CONCURRENT_JOBS = 2;
+// 伺服器重啟時會重新排隊中斷的任務，超過此次數則標記為失敗
+const MAX_ATTEMPTS = 3;
+// 執行中的任務定期更新心跳；超過 STALE_AFTER_MS 沒有更新才視為中斷(其他實例可能仍在執行)
+const HEARTBEAT_INTERVAL_MS = 30_000;
+const STALE_AFTER_MS = 2 * 60_000;
+
+let pollTimer: NodeJS.Timeout | null = null;
+let activeJobs = 0;
+let polling = false;
+let lastRequeueAt = Date.now();
+
+/**
+ * 啟動背景導入 worker
+ * 先把中斷的任務重新排隊，然後定期輪詢 importJobs 表
+ */
+export async function startImportWorker() {
+  if (pollTimer) return;
+
+  await requeueStaleJobs();
+
+  pollTimer = setInterval(() => {
+    void pollQueue();
+  }, POLL_INTERVAL_MS);
+  console.log(`[ImportWorker] ✅ Started (poll every ${POLL_INTERVAL_MS}ms, max ${MAX_CONCURRENT_JOBS} concurrent jobs)`);
+
+  void pollQueue();
+}
+
+export function stopImportWorker() {
+  if (pollTimer) {
+    clearInterval(pollTimer);
+    pollTimer = null;
+  }
+}
+
+/**
+ * 有新任務時立即輪詢一次，不必等待下一個週期
+ */
+export function kickImportWorker() {
+  if (!pollTimer) return;
+  void pollQueue();
+}
+
+/**
+ * 把心跳已過期的任務重新排隊(包括其他已停止實例留下的任務)
+ */
+async function requeueStaleJobs() {
+  try {
+    const { requeued, failed } = await db.requeueInterruptedImportJobs(MAX_ATTEMPTS, new Date(Date.now() - STALE_AFTER_MS));
+    if (requeued > 0 || failed > 0) {
+      console.log(`[ImportWorker] 🔄 Requeued ${requeued} interrupted job(s), failed ${failed} job(s) that hit the retry limit`);
+    }
+  } catch (error) {
+    console.error("[ImportWorker] ⚠️ Failed to requeue interrupted jobs:", error instanceof Error ? error.message : String(error));
+  }
+}
+
+async function pollQueue() {
+  if (polling) return;
+  polling = true;
+
+  try {
+    if (Date.now() - lastRequeueAt >= STALE_AFTER_MS) {
+      lastRequeueAt = Date.now();
+      await requeueStaleJobs();
+    }
+
+    while (activeJobs < MAX_CONCURRENT_JOBS) {
+      const job = await db.claimNextImportJob();
+      if (!job) break;
+
+      activeJobs++;
+      void runJob(job).finally(() => {
+        activeJobs--;
+      });
+    }
+  } catch (error) {
+    console.error("[ImportWorker] ❌ Failed to poll queue:", error instanceof Error ? error.message : String(error));
+  } finally {
+    polling = false;
+  }
+}
+
+/**
+ * 上次嘗試中斷前已保存的食譜會在重新導入時再創建一次，先刪除避免重複
+ */
+async function discardPartialResults(job: ImportJob) {
+  if (!job.createdRecipeIds) return;
+
+  const recipeIds: number[] = JSON.parse(job.createdRecipeIds);
+  for (const recipeId of recipeIds) {
+    await db.deleteRecipe(recipeId);
+  }
+  await db.updateImportJob(job.id, { createdRecipeIds: null });
+  console.log(`[ImportWorker] 🧹 Job ${job.id}: removed ${recipeIds.length} recipe(s) saved by the interrupted attempt`);
+}
+
+async function runJob(job: ImportJob) {
+  console.log(`[ImportWorker] 🚀 Job ${job.id} started (attempt ${job.attempts}): ${job.sourceUrl}`);
+
+  const heartbeat = setInterval(() => {
+    db.touchImportJob(job.id).catch(error => {
+      console.warn(`[ImportWorker] ⚠️ Failed to update heartbeat for job ${job.id}:`, error instanceof Error ? error.message : String(error));
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const options: ImportOptions = {
+    userId: job.userId,
+    onProgress: (progress: ImportProgress) =>
+      db.updateImportJob(job.id, {
+        stage: progress.stage,
+        progressCurrent: progress.current ?? 0,
+        progressTotal: progress.total ?? 0,
+        progressMessage: progress.message ?? null,
+      }),
+    onRecipeSaved: recipeId => db.addImportJobRecipe(job.id, recipeId),
+  };
+
+  try {
+    await discardPartialResults(job);
+
+    const result = job.inputMethod === "image"
+      ? await importRecipesFromImage(job.sourceUrl, options)
+      : job.inputMethod === "voice"
+      ? await importRecipesFromVoice(job.sourceUrl, options)
+      : await importRecipesFromWeblink(job.sourceUrl, options);
+
+    await db.updateImportJob(job.id, {
+      status: "completed",
+      stage: "done",
+      resultData: JSON.stringify(result),
+      completedAt: new Date(),
+    });
+    console.log(`[ImportWorker] ✅ Job ${job.id} completed: ${result.recipeCount} recipe(s)`);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error(`[ImportWorker] ❌ Job ${job.id} failed:`, errorMessage);
+
+    await db.updateImportJob(job.id, {
+      status: "failed",
+      errorMessage,
+      completedAt: new Date(),
+    }).catch(updateError => {
+      console.error(`[ImportWorker] ❌ Failed to record failure for job ${job.id}:`, updateError);
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import {
+  applySubstitutionStepEdits,
+  assertStepEditsCurrent,
+  buildSubstitutionStepPrompt,
+  parseSubstitutionStepEdits,
+} from "./ingredientSubstitution";
+
+const step = (stepNumber: number, instruction: string, extra: { duration?: number; temperature?: string; dependsOn?: number[] } = {}) => ({
+  stepNumber,
+  instruction,
+  duration: extra.duration ?? null,
+  temperature: extra.temperature ?? null,
+  tips: null,
+  imageUrl: null,
+  isPassive: false,
+  dependsOn: extra.dependsOn ? JSON.stringify(extra.dependsOn) : null,
+});
+
+const steps = [
+  step(1, "五花腩切片，用醬油醃 10 分鐘", { duration: 10 }),
+  step(2, "中火煎五花腩至出油", { duration: 8, dependsOn: [1] }),
+  step(3, "加入青菜炒勻", { dependsOn: [2] }),
+];
+
+describe("buildSubstitutionStepPrompt", () => {
+  it("should list the substitution and every step with time and temperature", () => {
+    const prompt = buildSubstitutionStepPrompt(
+      "香煎五花腩",
+      { name: "五花腩", amount: "300", unit: "g" },
+      { name: "雞胸肉", amount: "300", unit: "g" },
+      steps
+    );
+    expect(prompt).toContain("原食材: 五花腩 300 g");
+    expect(prompt).toContain("替換為: 雞胸肉 300 g");
+    expect(prompt).toContain("2. 中火煎五花腩至出油(8 分鐘)");
+    expect(prompt).toContain("3. 加入青菜炒勻\n");
+  });
+});
+
+describe("parseSubstitutionStepEdits", () => {
+  it("should keep only changed edits for existing steps", () => {
+    const edits = parseSubstitutionStepEdits([
+      { stepNumber: 2, instruction: "中火煎雞胸肉至兩面金黃", duration: 5, temperature: null, reason: "雞胸肉較易熟" },
+      { stepNumber: 2, instruction: "重複的修改", duration: null, temperature: null, reason: "" },
+      { stepNumber: 3, instruction: "加入青菜炒勻", duration: null, temperature: null, reason: "沒有變化" },
+      { stepNumber: 9, instruction: "不存在的步驟", duration: null, temperature: null, reason: "" },
+      { instruction: "沒有步驟編號" },
+    ], steps);
+
+    expect(edits).toEqual([
+      { stepNumber: 2, instruction: "中火煎雞胸肉至兩面金黃", duration: 5, temperature: null, tips: null, reason: "雞胸肉較易熟" },
+    ]);
+  });
+
+  it("should ignore responses that are not arrays", () => {
+    expect(parseSubstitutionStepEdits(null, steps)).toEqual([]);
+    expect(parseSubstitutionStepEdits({ stepNumber: 1 }, steps)).toEqual([]);
+  });
+});
+
+describe("applySubstitutionStepEdits", () => {
+  it("should rewrite selected steps and keep numbering and dependencies", () => {
+    const updated = applySubstitutionStepEdits(steps, [
+      { stepNumber: 1, instruction: "雞胸肉切片，用醬油醃 10 分鐘", duration: null, temperature: null, tips: null, reason: null },
+      { stepNumber: 2, instruction: "中火煎雞胸肉至兩面金黃", duration: 5, temperature: "180°C", tips: null, reason: null },
+    ]);
+
+    expect(updated.map(s => [s.stepNumber, s.instruction, s.duration, s.temperature])).toEqual([
+      [1, "雞胸肉切片，用醬油醃 10 分鐘", 10, null],
+      [2, "中火煎雞胸肉至兩面金黃", 5, "180°C"],
+      [3, "加入青菜炒勻", null, null],
+    ]);
+    expect(updated.map(s => s.dependsOn)).toEqual([null, "[1]", "[2]"]);
+  });
+});
+
+describe("assertStepEditsCurrent", () => {
+  const edit = { stepNumber: 2, instruction: "中火煎雞胸肉至兩面金黃", duration: 5, temperature: null, tips: null, reason: null };
+
+  it("should accept edits made from the current steps", () => {
+    expect(() => assertStepEditsCurrent(steps, [{ ...edit, before: { instruction: steps[1].instruction, duration: steps[1].duration, temperature: null } }])).not.toThrow();
+  });
+
+  it("should reject edits when the step changed after the proposal", () => {
+    expect(() => assertStepEditsCurrent(steps, [{ ...edit, before: { instruction: "大火煎五花腩", duration: steps[1].duration, temperature: null } }]))
+      .toThrow("步驟 2 已被修改");
+    expect(() => assertStepEditsCurrent(steps, [{ ...edit, stepNumber: 9, before: { instruction: "已刪除的步驟", duration: null, temperature: null } }]))
+      .toThrow("步驟 9 已被修改");
+  });
+});
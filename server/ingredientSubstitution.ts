@@ -0,0 +1,262 @@
+import type { CookingStep, Ingredient } from "../drizzle/schema";
+import { refreshRecipeAllergens } from "./allergens";
+import * as db from "./db";
+import { safeInvokeLLM } from "./llmHelpers";
+import { recalculateRecipeNutrition } from "./nutritionEngine";
+import { toIngredientQuantityFields } from "./quantityParser";
+import { applySuggestionChanges, parseSuggestionChanges } from "./suggestionApply";
+
+/**
+ * 食材替換
+ * 替換食材時由 AI 建議需要一併修改的步驟(用詞、時間、溫度)；用戶確認後和食材修改在同一個事務中寫入，並記錄版本
+ */
+
+export type SubstitutionTarget = {
+  name: string;
+  amount?: string | null;
+  unit?: string | null;
+};
+
+// AI 推薦的替換食材(每份營養為估算值)
+export type SubstitutionOption = {
+  name: string;
+  amount: string;
+  unit: string;
+  reason: string;
+  nutrition: { calories: number; protein: number; carbs: number; fat: number };
+  healthBenefits: string[];
+};
+
+export type SubstitutionStepEdit = {
+  stepNumber: number;
+  instruction: string;
+  duration: number | null;
+  temperature: string | null;
+  tips: string | null;
+  reason: string | null;
+};
+
+export type SubstitutionStepProposal = SubstitutionStepEdit & {
+  before: Pick<CookingStep, "instruction" | "duration" | "temperature">;
+};
+
+type StepInput = Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature" | "tips" | "imageUrl" | "isPassive" | "dependsOn">;
+
+function formatAmount(target: { amount?: string | null; unit?: string | null }) {
+  return [target.amount, target.unit].filter(Boolean).join(" ");
+}
+
+export function buildSubstitutionStepPrompt(
+  recipeTitle: string,
+  ingredient: Pick<Ingredient, "name" | "amount" | "unit">,
+  replacement: SubstitutionTarget,
+  steps: Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature">[]
+) {
+  let prompt = `食譜名稱: ${recipeTitle}\n`;
+  prompt += `原食材: ${ingredient.name} ${formatAmount(ingredient)}\n`;
+  prompt += `替換為: ${replacement.name} ${formatAmount(replacement)}\n\n`;
+  prompt += `烹飪步驟:\n`;
+  for (const step of steps) {
+    const extras = [
+      step.duration ? `${step.duration} 分鐘` : null,
+      step.temperature ? `溫度 ${step.temperature}` : null,
+    ].filter(Boolean);
+    prompt += `${step.stepNumber}. ${step.instruction}${extras.length > 0 ? `(${extras.join("，")})` : ""}\n`;
+  }
+  prompt += `\n請找出因為替換食材而需要修改的步驟：改用新食材名稱，並按新食材調整烹調方法、時間和溫度(例如雞胸肉比五花腩需要更短的煎煮時間)。`;
+  prompt += `只返回需要修改的步驟，instruction 為修改後的完整步驟內容；不需要修改時 steps 返回空陣列。`;
+  return prompt;
+}
+
+/**
+ * 整理 AI 返回的步驟修改：只保留對應現有步驟而且內容有變化的修改，同一步驟只取第一個
+ */
+export function parseSubstitutionStepEdits(value: unknown, steps: Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature" | "tips">[]): SubstitutionStepEdit[] {
+  const items = Array.isArray(value) ? value : [];
+  const { stepChanges } = parseSuggestionChanges({
+    stepChanges: items.map(item => (item && typeof item === "object" ? { ...item, action: "modify" } : item)),
+  });
+
+  const stepsByNumber = new Map(steps.map(step => [step.stepNumber, step]));
+  const seen = new Set<number>();
+  const edits: SubstitutionStepEdit[] = [];
+  for (const change of stepChanges) {
+    const original = stepsByNumber.get(change.stepNumber!);
+    if (!original || seen.has(original.stepNumber)) continue;
+    const edit: SubstitutionStepEdit = {
+      stepNumber: original.stepNumber,
+      instruction: change.instruction,
+      duration: change.duration ?? original.duration,
+      temperature: change.temperature ?? original.temperature,
+      tips: change.tips ?? original.tips,
+      reason: change.reason,
+    };
+    const changed = edit.instruction !== original.instruction ||
+      edit.duration !== original.duration ||
+      edit.temperature !== original.temperature;
+    if (!changed) continue;
+    seen.add(original.stepNumber);
+    edits.push(edit);
+  }
+  return edits;
+}
+
+/**
+ * 確認步驟修改是按目前的步驟內容產生的；步驟在建議產生後被修改或刪除時拋出錯誤，避免覆蓋新的內容
+ */
+export function assertStepEditsCurrent(
+  steps: Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature">[],
+  edits: SubstitutionStepProposal[]
+) {
+  const stepsByNumber = new Map(steps.map(step => [step.stepNumber, step]));
+  const stale = edits.filter(edit => {
+    const current = stepsByNumber.get(edit.stepNumber);
+    return !current ||
+      current.instruction !== edit.before.instruction ||
+      current.duration !== edit.before.duration ||
+      current.temperature !== edit.before.temperature;
+  });
+  if (stale.length > 0) {
+    throw new Error(`步驟 ${stale.map(edit => edit.stepNumber).join("、")} 已被修改，請重新檢查步驟修改`);
+  }
+}
+
+/**
+ * 把確認後的步驟修改套用到原步驟上，返回新的完整步驟列表
+ */
+export function applySubstitutionStepEdits(steps: StepInput[], edits: SubstitutionStepEdit[]) {
+  const { steps: updated } = applySuggestionChanges([], steps, {
+    ingredientChanges: [],
+    stepChanges: edits.map(edit => ({ ...edit, action: "modify" as const, afterStep: null })),
+  });
+  return updated;
+}
+
+/**
+ * 由 AI 建議替換食材後需要修改的步驟
+ */
+export async function proposeSubstitutionStepEdits(
+  recipeTitle: string,
+  ingredient: Pick<Ingredient, "name" | "amount" | "unit">,
+  replacement: SubstitutionTarget,
+  steps: Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature" | "tips">[]
+): Promise<SubstitutionStepProposal[]> {
+  if (steps.length === 0) return [];
+
+  const aiResult = await safeInvokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: "你是一位專業廚師，負責在食譜替換食材後修改烹飪步驟。你必須返回 JSON 格式的回應。"
+      },
+      {
+        role: "user",
+        content: buildSubstitutionStepPrompt(recipeTitle, ingredient, replacement, steps)
+      }
+    ],
+    response_format: {
+      type: "json_schema",
+      json_schema: {
+        name: "substitution_step_edits",
+        strict: true,
+        schema: {
+          type: "object",
+          properties: {
+            steps: {
+              type: "array",
+              items: {
+                type: "object",
+                properties: {
+                  stepNumber: { type: "integer", description: "原步驟編號" },
+                  instruction: { type: "string", description: "修改後的步驟內容" },
+                  duration: { type: ["integer", "null"], description: "修改後的時間(分鐘)" },
+                  temperature: { type: ["string", "null"], description: "修改後的溫度" },
+                  reason: { type: "string", description: "修改原因" }
+                },
+                required: ["stepNumber", "instruction", "duration", "temperature", "reason"],
+                additionalProperties: false
+              }
+            }
+          },
+          required: ["steps"],
+          additionalProperties: false
+        }
+      }
+    }
+  });
+
+  const aiContent = aiResult.choices[0]?.message?.content;
+  let parsedResponse: any;
+  try {
+    parsedResponse = typeof aiContent === "string" ? JSON.parse(aiContent) : null;
+    if (!parsedResponse) {
+      throw new Error("無法解析 AI 回應");
+    }
+  } catch (error) {
+    console.error("[ingredientSubstitution] ❌ Failed to parse AI response:", error);
+    throw new Error("無法生成步驟修改建議");
+  }
+
+  const stepsByNumber = new Map(steps.map(step => [step.stepNumber, step]));
+  return parseSubstitutionStepEdits(parsedResponse.steps, steps).map(edit => {
+    const original = stepsByNumber.get(edit.stepNumber)!;
+    return {
+      ...edit,
+      before: { instruction: original.instruction, duration: original.duration, temperature: original.temperature },
+    };
+  });
+}
+
+/**
+ * 替換食材並套用步驟修改：版本快照、食材和步驟在同一個事務中寫入，最後重新計算過敏原和營養成分
+ */
+export async function substituteIngredient(params: {
+  userId: number;
+  recipeId: number;
+  ingredient: Ingredient;
+  replacement: SubstitutionTarget;
+  stepEdits: SubstitutionStepProposal[];
+}) {
+  const { userId, recipeId, ingredient, replacement, stepEdits } = params;
+
+  const snapshot = await db.getRecipeSnapshotData(recipeId);
+
+  await db.replaceIngredientAndSteps(
+    recipeId,
+    ingredient.id,
+    {
+      name: replacement.name,
+      amount: replacement.amount,
+      unit: replacement.unit,
+      ...toIngredientQuantityFields(replacement.amount, replacement.unit),
+    },
+    // 在寫入的事務中重新讀取並比對步驟，確認後到寫入之間被修改也會拒絕
+    stepEdits.length > 0
+      ? currentSteps => {
+          assertStepEditsCurrent(currentSteps, stepEdits);
+          return applySubstitutionStepEdits(currentSteps, stepEdits.map(({ before, ...edit }) => edit));
+        }
+      : null,
+    snapshot ? {
+      userId,
+      snapshotData: snapshot,
+      changeDescription: `替換食材：${ingredient.name} → ${replacement.name}`,
+      changedFields: stepEdits.length > 0 ? ["ingredients", "steps"] : ["ingredients"],
+    } : undefined
+  );
+  await refreshRecipeAllergens(recipeId);
+
+  // 重新計算營養成分(使用本地營養成分表)
+  const recipe = await db.getRecipeById(recipeId);
+  if (!recipe) {
+    return { success: true, nutritionUpdated: false, stepsUpdated: stepEdits.length };
+  }
+  try {
+    const nutrition = await recalculateRecipeNutrition(recipeId, recipe.servings || 1);
+    return { success: true, nutritionUpdated: true, newNutrition: nutrition, stepsUpdated: stepEdits.length };
+  } catch (error) {
+    console.error("[ingredientSubstitution] ⚠️  Failed to recalculate nutrition:", error);
+    // 如果計算失敗，不更新營養成分
+    return { success: true, nutritionUpdated: false, stepsUpdated: stepEdits.length };
+  }
+}
@@ -0,0 +1,17 @@
+import { invokeLLM } from "./_core/llm";
+
+// Helper function to wrap AI calls with error handling
+export async function safeInvokeLLM(params: Parameters<typeof invokeLLM>[0]): Promise<ReturnType<typeof invokeLLM>> {
+  try {
+    return await invokeLLM(params);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    if (errorMessage.includes('not configured') || errorMessage.includes('missing')) {
+      throw new Error(`AI服務未配置: ${errorMessage}。請設置 BUILT_IN_FORGE_API_KEY 和 BUILT_IN_FORGE_API_URL 環境變量。`);
+    }
+    if (errorMessage.includes('地區不可用') || errorMessage.includes('unsupported_country')) {
+      throw new Error(errorMessage); // Already translated, pass through
+    }
+    throw error;
+  }
+}
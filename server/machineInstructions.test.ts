@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { generateMachineProgram, parseMachineProgram, parseTemperatureC, validateMachineProgram } from "./machineInstructions";
+
+const recipe = { id: 1, title: "番茄炒蛋", servings: 2 };
+
+const ingredients = [
+  { name: "番茄", amount: "2", unit: "個" },
+  { name: "雞蛋", amount: "3", unit: "隻" },
+  { name: "鹽", amount: "1", unit: "茶匙" },
+];
+
+describe("parseTemperatureC", () => {
+  it("should parse celsius and fahrenheit values", () => {
+    expect(parseTemperatureC("180°C")).toBe(180);
+    expect(parseTemperatureC("350°F")).toBe(177);
+    expect(parseTemperatureC("200度")).toBe(200);
+  });
+
+  it("should map heat levels described in words", () => {
+    expect(parseTemperatureC("中大火")).toBe(200);
+    expect(parseTemperatureC(null, "轉小火煮10分鐘")).toBe(110);
+    expect(parseTemperatureC("medium-high heat")).toBe(200);
+  });
+
+  it("should return null when no temperature can be found", () => {
+    expect(parseTemperatureC(null, "把番茄切塊")).toBeNull();
+  });
+});
+
+describe("generateMachineProgram", () => {
+  it("should convert steps into ordered machine actions", () => {
+    const program = generateMachineProgram(recipe, ingredients, [
+      { stepNumber: 2, instruction: "中火翻炒番茄和雞蛋", duration: 3, temperature: null },
+      { stepNumber: 1, instruction: "打散雞蛋，靜置", duration: 1, temperature: null },
+      { stepNumber: 3, instruction: "加鹽拌勻", duration: null, temperature: null },
+    ]);
+
+    expect(program.format).toBe("co-dine.machine-program");
+    expect(program.actions.map(a => a.type)).toEqual([
+      "add_ingredient", // 雞蛋
+      "wait",
+      "add_ingredient", // 番茄
+      "heat",
+      "stir",
+      "add_ingredient", // 鹽
+      "stir",
+    ]);
+    expect(program.actions[3]).toMatchObject({ type: "heat", targetTempC: 170, durationSec: 0 });
+    expect(program.actions[4]).toMatchObject({ type: "stir", speed: "medium", durationSec: 180 });
+    expect(program.totalDurationSec).toBe(60 + 180 + 30);
+  });
+
+  it("should throw when the recipe has no steps", () => {
+    expect(() => generateMachineProgram(recipe, ingredients, [])).toThrow("食譜沒有烹飪步驟");
+  });
+});
+
+describe("validateMachineProgram", () => {
+  it("should reject programs with out-of-range temperatures", () => {
+    expect(() =>
+      validateMachineProgram({
+        format: "co-dine.machine-program",
+        version: 1,
+        recipeId: 1,
+        recipeTitle: "測試",
+        servings: 1,
+        generatedAt: new Date().toISOString(),
+        totalDurationSec: 60,
+        actions: [{ type: "heat", stepNumber: 1, targetTempC: 999, durationSec: 60 }],
+      })
+    ).toThrow("機械指令格式無效");
+  });
+});
+
+describe("parseMachineProgram", () => {
+  it("should return null for corrupt or outdated saved programs", () => {
+    expect(parseMachineProgram("{not json")).toBeNull();
+    expect(parseMachineProgram(JSON.stringify({ format: "co-dine.machine-program", version: 0 }))).toBeNull();
+  });
+
+  it("should round-trip a generated program", () => {
+    const program = generateMachineProgram(recipe, ingredients, [
+      { stepNumber: 1, instruction: "中火翻炒番茄和雞蛋", duration: 3, temperature: null },
+    ]);
+    expect(parseMachineProgram(JSON.stringify(program))).toEqual(program);
+  });
+});
@@ -0,0 +1,239 @@
+import { z } from "zod";
+import type { CookingStep, Ingredient } from "../drizzle/schema";
+
+/**
+ * 煮食機械程式格式
+ * 由烹飪步驟轉換而成，廚房機械人按 actions 順序逐個執行
+ */
+export const MACHINE_PROGRAM_FORMAT = "co-dine.machine-program";
+export const MACHINE_PROGRAM_VERSION = 1;
+
+// 機械可接受的溫度範圍(攝氏)
+const MIN_TEMPERATURE_C = 30;
+const MAX_TEMPERATURE_C = 300;
+
+// 沒有註明時間的翻炒/攪拌步驟使用的預設時間(秒)
+const DEFAULT_STIR_SECONDS = 30;
+
+const stepNumberSchema = z.number().int().positive();
+const durationSecSchema = z.number().int().min(0).max(24 * 60 * 60);
+
+// 加熱到目標溫度並保持 durationSec 秒；durationSec 為 0 時只設定溫度，立即進入下一個動作
+const heatActionSchema = z.object({
+  type: z.literal("heat"),
+  stepNumber: stepNumberSchema,
+  targetTempC: z.number().int().min(MIN_TEMPERATURE_C).max(MAX_TEMPERATURE_C),
+  durationSec: durationSecSchema,
+});
+
+const stirActionSchema = z.object({
+  type: z.literal("stir"),
+  stepNumber: stepNumberSchema,
+  speed: z.enum(["low", "medium", "high"]),
+  durationSec: durationSecSchema.min(1),
+});
+
+const addIngredientActionSchema = z.object({
+  type: z.literal("add_ingredient"),
+  stepNumber: stepNumberSchema,
+  ingredient: z.string().min(1),
+  amount: z.string().nullable(),
+  unit: z.string().nullable(),
+});
+
+const waitActionSchema = z.object({
+  type: z.literal("wait"),
+  stepNumber: stepNumberSchema,
+  durationSec: durationSecSchema.min(1),
+});
+
+export const machineActionSchema = z.discriminatedUnion("type", [
+  heatActionSchema,
+  stirActionSchema,
+  addIngredientActionSchema,
+  waitActionSchema,
+]);
+
+export const machineProgramSchema = z.object({
+  format: z.literal(MACHINE_PROGRAM_FORMAT),
+  version: z.literal(MACHINE_PROGRAM_VERSION),
+  recipeId: z.number().int().positive(),
+  recipeTitle: z.string(),
+  servings: z.number().int().positive(),
+  generatedAt: z.string(),
+  totalDurationSec: z.number().int().min(0),
+  actions: z.array(machineActionSchema).min(1),
+});
+
+export type MachineAction = z.infer<typeof machineActionSchema>;
+export type MachineProgram = z.infer<typeof machineProgramSchema>;
+
+// 火候對應的溫度(攝氏)，較長的詞要放前面，避免「中大火」被「大火」先匹配
+const HEAT_LEVELS: Array<{ keyword: string; tempC: number }> = [
+  { keyword: "中大火", tempC: 200 },
+  { keyword: "中小火", tempC: 140 },
+  { keyword: "大火", tempC: 220 },
+  { keyword: "猛火", tempC: 220 },
+  { keyword: "中火", tempC: 170 },
+  { keyword: "小火", tempC: 110 },
+  { keyword: "慢火", tempC: 110 },
+  { keyword: "微火", tempC: 90 },
+  { keyword: "medium-high heat", tempC: 200 },
+  { keyword: "medium-low heat", tempC: 140 },
+  { keyword: "high heat", tempC: 220 },
+  { keyword: "medium heat", tempC: 170 },
+  { keyword: "low heat", tempC: 110 },
+];
+
+const STIR_KEYWORDS: Array<{ keyword: string; speed: "low" | "medium" | "high" }> = [
+  { keyword: "快炒", speed: "high" },
+  { keyword: "爆炒", speed: "high" },
+  { keyword: "翻炒", speed: "medium" },
+  { keyword: "炒", speed: "medium" },
+  { keyword: "攪拌", speed: "medium" },
+  { keyword: "拌勻", speed: "low" },
+  { keyword: "拌", speed: "low" },
+  { keyword: "翻面", speed: "low" },
+  { keyword: "stir", speed: "medium" },
+  { keyword: "toss", speed: "medium" },
+  { keyword: "mix", speed: "low" },
+];
+
+/**
+ * 解析溫度設定，支援「180°C」、「350°F」、「180度」和火候描述(大火、中火等)
+ * 無法解析時返回 null
+ */
+export function parseTemperatureC(temperature: string | null | undefined, instruction = ""): number | null {
+  const text = `${temperature ?? ""} ${instruction}`;
+
+  const numeric = (temperature ?? "").match(/(\d+(?:\.\d+)?)\s*(°|度)?\s*([CF])?/i);
+  if (numeric) {
+    let value = parseFloat(numeric[1]);
+    if (numeric[3]?.toUpperCase() === "F") {
+      value = (value - 32) * 5 / 9;
+    }
+    const rounded = Math.round(value);
+    if (rounded >= MIN_TEMPERATURE_C && rounded <= MAX_TEMPERATURE_C) {
+      return rounded;
+    }
+  }
+
+  const lowerText = text.toLowerCase();
+  const level = HEAT_LEVELS.find(l => lowerText.includes(l.keyword));
+  return level ? level.tempC : null;
+}
+
+function detectStirSpeed(instruction: string): "low" | "medium" | "high" | null {
+  const lowerInstruction = instruction.toLowerCase();
+  const match = STIR_KEYWORDS.find(k => lowerInstruction.includes(k.keyword));
+  return match ? match.speed : null;
+}
+
+/**
+ * 把食譜的烹飪步驟轉換成煮食機械程式
+ * 每個步驟依次產生：加入步驟中提到的食材 → 加熱 → 翻炒/攪拌 → 等待
+ */
+export function generateMachineProgram(
+  recipe: { id: number; title: string; servings: number | null },
+  ingredientList: Pick<Ingredient, "name" | "amount" | "unit">[],
+  steps: Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature">[]
+): MachineProgram {
+  if (steps.length === 0) {
+    throw new Error("食譜沒有烹飪步驟，無法生成機械指令");
+  }
+
+  const actions: MachineAction[] = [];
+  const addedIngredients = new Set<string>();
+  const sortedSteps = [...steps].sort((a, b) => a.stepNumber - b.stepNumber);
+
+  for (const step of sortedSteps) {
+    const instruction = step.instruction || "";
+    const durationSec = step.duration && step.duration > 0 ? step.duration * 60 : 0;
+
+    // 加入步驟中提到而尚未加入的食材
+    for (const ing of ingredientList) {
+      const name = ing.name.trim();
+      if (!name || addedIngredients.has(name) || !instruction.includes(name)) continue;
+      addedIngredients.add(name);
+      actions.push({
+        type: "add_ingredient",
+        stepNumber: step.stepNumber,
+        ingredient: name,
+        amount: ing.amount || null,
+        unit: ing.unit || null,
+      });
+    }
+
+    const targetTempC = parseTemperatureC(step.temperature, instruction);
+    const stirSpeed = detectStirSpeed(instruction);
+
+    if (targetTempC !== null) {
+      // 需要同時翻炒時，加熱只設定溫度，時間由翻炒動作計算
+      actions.push({
+        type: "heat",
+        stepNumber: step.stepNumber,
+        targetTempC,
+        durationSec: stirSpeed ? 0 : durationSec,
+      });
+    }
+
+    if (stirSpeed) {
+      actions.push({
+        type: "stir",
+        stepNumber: step.stepNumber,
+        speed: stirSpeed,
+        durationSec: durationSec || DEFAULT_STIR_SECONDS,
+      });
+    } else if (targetTempC === null && durationSec > 0) {
+      actions.push({
+        type: "wait",
+        stepNumber: step.stepNumber,
+        durationSec,
+      });
+    }
+  }
+
+  if (actions.length === 0) {
+    throw new Error("無法從烹飪步驟中識別任何機械動作，請補充步驟的時間、溫度或食材");
+  }
+
+  const totalDurationSec = actions.reduce(
+    (sum, action) => sum + ("durationSec" in action ? action.durationSec : 0),
+    0
+  );
+
+  return validateMachineProgram({
+    format: MACHINE_PROGRAM_FORMAT,
+    version: MACHINE_PROGRAM_VERSION,
+    recipeId: recipe.id,
+    recipeTitle: recipe.title,
+    servings: recipe.servings && recipe.servings > 0 ? recipe.servings : 1,
+    generatedAt: new Date().toISOString(),
+    totalDurationSec,
+    actions,
+  });
+}
+
+/**
+ * 驗證機械程式格式，不合法時拋出中文錯誤訊息
+ */
+export function validateMachineProgram(program: unknown): MachineProgram {
+  const result = machineProgramSchema.safeParse(program);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`機械指令格式無效: ${issue.path.join(".")} ${issue.message}`);
+  }
+  return result.data;
+}
+
+/**
+ * 解析已保存的機械指令；JSON 損壞或格式不合法時返回 null
+ */
+export function parseMachineProgram(json: string): MachineProgram | null {
+  try {
+    const result = machineProgramSchema.safeParse(JSON.parse(json));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,101 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import type { FoodNutrient } from "../drizzle/schema";
+import { calculateNutrition, estimateGrams, matchFoodNutrient, parseFoodNutrientCsv } from "./nutritionEngine";
+
+// 使用隨倉庫提供的種子 CSV 作為測試用營養成分表
+const table: FoodNutrient[] = parseFoodNutrientCsv(
+  readFileSync(path.resolve(__dirname, "../scripts/food-nutrients.csv"), "utf-8")
+).map((row, index) => ({
+  ...row,
+  id: index + 1,
+  aliases: row.aliases ?? null,
+  proteinPer100g: row.proteinPer100g ?? 0,
+  carbsPer100g: row.carbsPer100g ?? 0,
+  fatPer100g: row.fatPer100g ?? 0,
+  fiberPer100g: row.fiberPer100g ?? 0,
+  gramsPerPiece: row.gramsPerPiece ?? null,
+  densityGPerMl: row.densityGPerMl ?? null,
+  source: row.source ?? null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}));
+
+const food = (name: string) => table.find(f => f.name === name)!;
+
+describe("parseFoodNutrientCsv", () => {
+  it("should parse the seed csv with aliases", () => {
+    const egg = food("雞蛋");
+    expect(egg.caloriesPer100g).toBe(143);
+    expect(JSON.parse(egg.aliases!)).toContain("egg");
+  });
+
+  it("should reject rows without calories", () => {
+    expect(() => parseFoodNutrientCsv("name,caloriesPer100g\n雞蛋,abc")).toThrow("第 2 行");
+  });
+});
+
+describe("matchFoodNutrient", () => {
+  it("should match names, aliases and the longest contained term", () => {
+    expect(matchFoodNutrient("雞蛋", table)?.name).toBe("雞蛋");
+    expect(matchFoodNutrient("西紅柿", table)?.name).toBe("番茄");
+    expect(matchFoodNutrient("去皮雞胸肉", table)?.name).toBe("雞胸肉");
+    expect(matchFoodNutrient("蠔油", table)?.name).toBe("蠔油");
+    expect(matchFoodNutrient("Olive Oil (extra virgin)", table)?.name).toBe("橄欖油");
+  });
+
+  it("should not match english aliases inside other words", () => {
+    expect(matchFoodNutrient("eggplant", table)).toBeNull();
+  });
+
+  it("should not let single-character terms match unrelated ingredients", () => {
+    expect(matchFoodNutrient("玉米", table)?.name).toBe("粟米");
+    expect(matchFoodNutrient("米粉", table)?.name).not.toBe("白米");
+    expect(matchFoodNutrient("皮蛋", table)).toBeNull();
+    expect(matchFoodNutrient("鹹蛋", table)).toBeNull();
+    expect(matchFoodNutrient("鹽", table)?.name).toBe("鹽");
+  });
+});
+
+describe("estimateGrams", () => {
+  it("should convert weights, volumes and pieces", () => {
+    expect(estimateGrams("200克", "", food("雞胸肉"))).toBe(200);
+    expect(estimateGrams("0.5", "kg", food("牛肉"))).toBe(500);
+    expect(estimateGrams("2", "湯匙", food("橄欖油"))).toBeCloseTo(27.3);
+    expect(estimateGrams("3", "個", food("雞蛋"))).toBe(150);
+    expect(estimateGrams("1/2", "杯", food("牛奶"))).toBeCloseTo(123.6);
+  });
+
+  it("should treat vague amounts as zero and unknown units as unparseable", () => {
+    expect(estimateGrams("少許", "", food("鹽"))).toBe(0);
+    expect(estimateGrams("1", "把", food("菠菜"))).toBeNull();
+  });
+});
+
+describe("calculateNutrition", () => {
+  it("should return the same totals on every run", async () => {
+    const ingredients = [
+      { name: "雞胸肉", amount: "200", unit: "克" },
+      { name: "雞蛋", amount: "2", unit: "個" },
+      { name: "橄欖油", amount: "1", unit: "湯匙" },
+    ];
+
+    const first = await calculateNutrition(ingredients, { table, useLLMFallback: false });
+    const second = await calculateNutrition(ingredients, { table, useLLMFallback: false });
+
+    expect(first.totals).toEqual(second.totals);
+    expect(first.totals.calories).toBe(Math.round(240 + 143 + 884 * 0.1365));
+    expect(first.ingredients.every(i => i.source === "database")).toBe(true);
+  });
+
+  it("should count unmatched ingredients as zero without the LLM fallback", async () => {
+    const result = await calculateNutrition(
+      [{ name: "神秘醬料", amount: "1", unit: "湯匙" }],
+      { table, useLLMFallback: false }
+    );
+
+    expect(result.ingredients[0].source).toBe("none");
+    expect(result.totals.calories).toBe(0);
+  });
+});
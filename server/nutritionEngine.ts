@@ -0,0 +1,303 @@
+import type { FoodNutrient, InsertFoodNutrient } from "../drizzle/schema";
+import { safeInvokeLLM } from "./llmHelpers";
+import * as db from "./db";
+import { parseQuantity, representativeQuantity } from "./quantityParser";
+
+/**
+ * 確定性營養計算引擎
+ * 先用本地營養成分表(foodNutrients)匹配食材名稱並換算重量，
+ * 只有無法匹配或無法換算的食材才交給 AI 估算
+ */
+
+export type NutritionValues = {
+  calories: number;
+  protein: number;
+  carbs: number;
+  fat: number;
+  fiber: number;
+};
+
+export type IngredientInput = {
+  name: string;
+  amount?: string | null;
+  unit?: string | null;
+};
+
+export type IngredientNutrition = NutritionValues & {
+  name: string;
+  grams: number | null;
+  matchedFood: string | null;
+  source: "database" | "llm" | "none"; // none: 無法計算，以0計
+};
+
+export type NutritionResult = {
+  totals: NutritionValues; // 已取整
+  ingredients: IngredientNutrition[];
+};
+
+const EMPTY_NUTRITION: NutritionValues = { calories: 0, protein: 0, carbs: 0, fat: 0, fiber: 0 };
+
+function parseAliases(food: FoodNutrient): string[] {
+  if (!food.aliases) return [];
+  try {
+    const parsed = JSON.parse(food.aliases);
+    return Array.isArray(parsed) ? parsed.filter((a): a is string => typeof a === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function normalizeName(name: string) {
+  // 移除括號內的補充說明，例如「雞蛋(室溫)」
+  return name.replace(/[(（][^)）]*[)）]/g, "").trim().toLowerCase();
+}
+
+const MIN_CONTAINED_TERM_LENGTH = 2;
+
+function containsTerm(name: string, term: string) {
+  // 英文名稱要完整單詞匹配，避免 egg 匹配到 eggplant
+  if (/^[a-z\s-]+$/.test(term)) {
+    return new RegExp(`(^|[^a-z])${term}([^a-z]|$)`).test(name);
+  }
+  return name.includes(term);
+}
+
+/**
+ * 根據食材名稱匹配營養成分表
+ * 先完全匹配名稱或別名，再以最長的包含匹配為準(例如「去皮雞胸肉」匹配「雞胸肉」)
+ * 單字名稱只作完全匹配，避免「蛋」「米」把皮蛋、玉米等不相關食材錯配
+ */
+export function matchFoodNutrient(name: string, table: FoodNutrient[]): FoodNutrient | null {
+  const normalized = normalizeName(name);
+  if (!normalized) return null;
+
+  let best: { food: FoodNutrient; length: number } | null = null;
+  for (const food of table) {
+    const terms = [food.name, ...parseAliases(food)].map(t => t.toLowerCase());
+    if (terms.includes(normalized)) return food;
+
+    for (const term of terms) {
+      if (Array.from(term).length < MIN_CONTAINED_TERM_LENGTH) continue;
+      if (containsTerm(normalized, term) && (!best || term.length > best.length)) {
+        best = { food, length: term.length };
+      }
+    }
+  }
+  return best?.food ?? null;
+}
+
+/**
+ * 把份量換算成克
+ * 重量直接使用；容量按密度換算；件數按每件重量換算
+ * 模糊份量(少許、適量)返回0；無法換算時返回 null
+ */
+export function estimateGrams(amount: string | null | undefined, unit: string | null | undefined, food?: FoodNutrient | null): number | null {
+  const parsed = parseQuantity(amount, unit);
+  if (!parsed) return null;
+  if (parsed.unit === "to_taste") return 0;
+
+  // 範圍份量(例如「2-3個」)取中間值
+  const quantity = representativeQuantity(parsed);
+  if (quantity === null) return null;
+
+  switch (parsed.unit) {
+    case "g":
+      return quantity;
+    case "ml":
+      return quantity * (food?.densityGPerMl ?? 1);
+    case "piece":
+      return food?.gramsPerPiece ? quantity * food.gramsPerPiece : null;
+  }
+}
+
+function nutritionForGrams(food: FoodNutrient, grams: number): NutritionValues {
+  const ratio = grams / 100;
+  return {
+    calories: food.caloriesPer100g * ratio,
+    protein: food.proteinPer100g * ratio,
+    carbs: food.carbsPer100g * ratio,
+    fat: food.fatPer100g * ratio,
+    fiber: food.fiberPer100g * ratio,
+  };
+}
+
+/**
+ * AI 估算無法在營養成分表中計算的食材(只作為後備)
+ * 失敗時返回 null，由調用方以0計
+ */
+async function estimateWithLLM(items: IngredientInput[]): Promise<Array<NutritionValues | null>> {
+  try {
+    const result = await safeInvokeLLM({
+      messages: [
+        {
+          role: "system",
+          content: "你是營養分析AI。只返回純JSON，不要任何markdown或額外文字。"
+        },
+        {
+          role: "user",
+          content: `請估算以下每項食材(按列出的份量)的營養成分：
+${items.map((item, index) => `${index}. ${item.name} ${item.amount || ""} ${item.unit || ""}`).join("\n")}
+
+只返回JSON格式:
+{"items": [{"index": 整數, "calories": 數字, "protein": 數字, "carbs": 數字, "fat": 數字, "fiber": 數字}]}`
+        }
+      ]
+    });
+
+    // Clean JSON response
+    let jsonResponse = result.choices[0].message.content as string;
+    jsonResponse = jsonResponse.replace(/```json/gi, '').replace(/```/g, '');
+    const firstBrace = jsonResponse.indexOf('{');
+    const lastBrace = jsonResponse.lastIndexOf('}');
+    if (firstBrace === -1 || lastBrace === -1) {
+      throw new Error('No valid JSON object found in response');
+    }
+
+    const parsed = JSON.parse(jsonResponse.substring(firstBrace, lastBrace + 1));
+    const estimates: Array<NutritionValues | null> = items.map(() => null);
+    for (const entry of Array.isArray(parsed.items) ? parsed.items : []) {
+      if (typeof entry?.index !== "number" || entry.index < 0 || entry.index >= items.length) continue;
+      estimates[entry.index] = {
+        calories: Number(entry.calories) || 0,
+        protein: Number(entry.protein) || 0,
+        carbs: Number(entry.carbs) || 0,
+        fat: Number(entry.fat) || 0,
+        fiber: Number(entry.fiber) || 0,
+      };
+    }
+    return estimates;
+  } catch (error) {
+    console.error('[nutritionEngine] ⚠️  LLM fallback failed:', error instanceof Error ? error.message : String(error));
+    return items.map(() => null);
+  }
+}
+
+/**
+ * 計算一組食材的營養成分
+ * table 不提供時從數據庫讀取營養成分表
+ */
+export async function calculateNutrition(
+  ingredientList: IngredientInput[],
+  options: { table?: FoodNutrient[]; useLLMFallback?: boolean } = {}
+): Promise<NutritionResult> {
+  const table = options.table ?? await db.getAllFoodNutrients();
+  const useLLMFallback = options.useLLMFallback ?? true;
+
+  const results: IngredientNutrition[] = ingredientList.map(ing => {
+    const food = matchFoodNutrient(ing.name, table);
+    const grams = food ? estimateGrams(ing.amount, ing.unit, food) : null;
+    if (food && grams !== null) {
+      return { name: ing.name, grams, matchedFood: food.name, source: "database", ...nutritionForGrams(food, grams) };
+    }
+    return { name: ing.name, grams, matchedFood: food?.name ?? null, source: "none", ...EMPTY_NUTRITION };
+  });
+
+  const unmatchedIndexes = results
+    .map((r, index) => (r.source === "none" ? index : -1))
+    .filter(index => index !== -1);
+
+  if (useLLMFallback && unmatchedIndexes.length > 0) {
+    console.log(`[nutritionEngine] 🤖 ${unmatchedIndexes.length}/${results.length} ingredient(s) not in nutrient table, using LLM fallback`);
+    const estimates = await estimateWithLLM(unmatchedIndexes.map(index => ingredientList[index]));
+    unmatchedIndexes.forEach((resultIndex, i) => {
+      const estimate = estimates[i];
+      if (estimate) {
+        results[resultIndex] = { ...results[resultIndex], ...estimate, source: "llm" };
+      }
+    });
+  }
+
+  const totals = results.reduce<NutritionValues>(
+    (sum, r) => ({
+      calories: sum.calories + r.calories,
+      protein: sum.protein + r.protein,
+      carbs: sum.carbs + r.carbs,
+      fat: sum.fat + r.fat,
+      fiber: sum.fiber + r.fiber,
+    }),
+    { ...EMPTY_NUTRITION }
+  );
+
+  return {
+    totals: {
+      calories: Math.round(totals.calories),
+      protein: Math.round(totals.protein),
+      carbs: Math.round(totals.carbs),
+      fat: Math.round(totals.fat),
+      fiber: Math.round(totals.fiber),
+    },
+    ingredients: results,
+  };
+}
+
+/**
+ * 重新計算食譜的營養成分，並更新每個食材的卡路里和食譜的總營養
+ */
+export async function recalculateRecipeNutrition(recipeId: number, servings: number) {
+  const ingredientList = await db.getIngredientsByRecipeId(recipeId);
+  if (ingredientList.length === 0) {
+    throw new Error("沒有食材無法計算營養成分");
+  }
+
+  const result = await calculateNutrition(ingredientList);
+
+  const nutrition = {
+    totalCalories: result.totals.calories,
+    caloriesPerServing: servings > 0 ? Math.round(result.totals.calories / servings) : 0,
+    protein: result.totals.protein,
+    carbs: result.totals.carbs,
+    fat: result.totals.fat,
+    fiber: result.totals.fiber,
+  };
+  await db.updateRecipeNutrition(
+    recipeId,
+    nutrition,
+    ingredientList.map((ingredient, i) => ({ id: ingredient.id, calories: Math.round(result.ingredients[i].calories) }))
+  );
+
+  return {
+    ...nutrition,
+    matchedCount: result.ingredients.filter(r => r.source === "database").length,
+    fallbackCount: result.ingredients.filter(r => r.source === "llm").length,
+  };
+}
+
+/**
+ * 解析營養成分 CSV
+ * 欄位：name,aliases,caloriesPer100g,proteinPer100g,carbsPer100g,fatPer100g,fiberPer100g,gramsPerPiece,densityGPerMl,source
+ * aliases 以「|」分隔
+ */
+export function parseFoodNutrientCsv(csv: string): InsertFoodNutrient[] {
+  const lines = csv.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) return [];
+
+  const headers = lines[0].split(",").map(h => h.trim());
+  const column = (cells: string[], header: string) => {
+    const index = headers.indexOf(header);
+    return index === -1 ? "" : (cells[index] ?? "").trim();
+  };
+  const optionalNumber = (value: string) => (value === "" ? null : Number(value));
+
+  return lines.slice(1).map((line, lineIndex) => {
+    const cells = line.split(",");
+    const name = column(cells, "name");
+    const calories = Number(column(cells, "caloriesPer100g"));
+    if (!name || Number.isNaN(calories)) {
+      throw new Error(`營養成分 CSV 第 ${lineIndex + 2} 行格式無效`);
+    }
+
+    const aliases = column(cells, "aliases").split("|").map(a => a.trim()).filter(Boolean);
+    return {
+      name,
+      aliases: aliases.length > 0 ? JSON.stringify(aliases) : null,
+      caloriesPer100g: calories,
+      proteinPer100g: Number(column(cells, "proteinPer100g")) || 0,
+      carbsPer100g: Number(column(cells, "carbsPer100g")) || 0,
+      fatPer100g: Number(column(cells, "fatPer100g")) || 0,
+      fiberPer100g: Number(column(cells, "fiberPer100g")) || 0,
+      gramsPerPiece: optionalNumber(column(cells, "gramsPerPiece")),
+      densityGPerMl: optionalNumber(column(cells, "densityGPerMl")),
+      source: column(cells, "source") || null,
+    };
+  });
+}
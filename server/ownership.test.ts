@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { hashPassword, verifyPassword } from "./_core/password";
+import { canEditRecipe, canPublishRecipe, canViewRecipe } from "./ownership";
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createContext(user: AuthenticatedUser | null): { ctx: TrpcContext } {
+  const ctx: TrpcContext = {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: () => {},
+    } as TrpcContext["res"],
+  };
+
+  return { ctx };
+}
+
+function createUser(id: number, role: "user" | "admin" = "user"): AuthenticatedUser {
+  return {
+    id,
+    openId: `local:user${id}`,
+    email: null,
+    name: `User ${id}`,
+    loginMethod: "local",
+    role,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  };
+}
+
+describe("recipe ownership", () => {
+  const recipe = { userId: 1, isPublished: false };
+
+  it("should allow only the owner or an admin to edit", () => {
+    expect(canEditRecipe(createUser(1), recipe)).toBe(true);
+    expect(canEditRecipe(createUser(2), recipe)).toBe(false);
+    expect(canEditRecipe(createUser(2, "admin"), recipe)).toBe(true);
+    expect(canEditRecipe(null, recipe)).toBe(false);
+  });
+
+  it("should hide unpublished recipes from other users", () => {
+    expect(canViewRecipe(createUser(2), recipe)).toBe(false);
+    expect(canViewRecipe(null, { ...recipe, isPublished: true })).toBe(true);
+  });
+
+  it("should only let admins republish a recipe hidden by moderation", () => {
+    expect(canPublishRecipe(createUser(1), { moderationHidden: false })).toBe(true);
+    expect(canPublishRecipe(createUser(1), { moderationHidden: true })).toBe(false);
+    expect(canPublishRecipe(createUser(2, "admin"), { moderationHidden: true })).toBe(true);
+  });
+
+  it("should report missing recipes as NOT_FOUND when scaling", async () => {
+    const caller = appRouter.createCaller(createContext(null).ctx);
+
+    await expect(caller.recipes.scale({ id: 999999, servings: 2 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("should not expose suggestions or accept reviews for recipes the user cannot view", async () => {
+    const caller = appRouter.createCaller(createContext(createUser(2)).ctx);
+
+    await expect(caller.suggestions.getByRecipe({ recipeId: 999999 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.suggestions.getById({ id: 999999 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.reviews.addOrUpdate({ recipeId: 999999, rating: 5 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(await caller.reviews.getByRecipe({ recipeId: 999999 })).toEqual([]);
+    expect(await caller.reviews.getAverageRating({ recipeId: 999999 })).toEqual({ average: 0, count: 0 });
+  });
+});
+
+describe("auth", () => {
+  it("should return the current user from auth.me", async () => {
+    const user = createUser(3);
+    const caller = appRouter.createCaller(createContext(user).ctx);
+
+    expect(await caller.auth.me()).toEqual(user);
+  });
+
+  it("should reject protected procedures without a session", async () => {
+    const caller = appRouter.createCaller(createContext(null).ctx);
+
+    await expect(caller.recipes.list()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(caller.reviews.delete({ id: 1 })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(caller.recipes.export({ id: 1, format: "pdf" })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+
+  it("should only let admins create categories", async () => {
+    const caller = appRouter.createCaller(createContext(createUser(2)).ctx);
+
+    await expect(caller.categories.create({ name: "測試", type: "cuisine" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("should hash and verify local passwords", async () => {
+    const hash = await hashPassword("correct horse");
+
+    expect(hash.startsWith("scrypt$")).toBe(true);
+    expect(await verifyPassword("correct horse", hash)).toBe(true);
+    expect(await verifyPassword("wrong horse", hash)).toBe(false);
+    expect(await verifyPassword("correct horse", "not-a-hash")).toBe(false);
+  });
+});
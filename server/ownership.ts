@@ -0,0 +1,49 @@
+import { TRPCError } from "@trpc/server";
+import type { Recipe, User } from "../drizzle/schema";
+import * as db from "./db";
+
+/**
+ * 食譜權限檢查
+ * 只有食譜作者和管理員可以修改、刪除、發佈食譜；已發佈的食譜所有人可見
+ * 被管理員下架的食譜只有管理員可以重新發佈
+ */
+
+export function isAdmin(user: Pick<User, "role"> | null | undefined) {
+  return user?.role === "admin";
+}
+
+export function canEditRecipe(user: Pick<User, "id" | "role"> | null | undefined, recipe: Pick<Recipe, "userId">) {
+  if (!user) return false;
+  return isAdmin(user) || recipe.userId === user.id;
+}
+
+export function canViewRecipe(user: Pick<User, "id" | "role"> | null | undefined, recipe: Pick<Recipe, "userId" | "isPublished">) {
+  return Boolean(recipe.isPublished) || canEditRecipe(user, recipe);
+}
+
+export function canPublishRecipe(user: Pick<User, "role"> | null | undefined, recipe: Pick<Recipe, "moderationHidden">) {
+  return isAdmin(user) || !recipe.moderationHidden;
+}
+
+/**
+ * 確認當前用戶可以發佈食譜；被管理員下架時拋出錯誤
+ */
+export function requirePublishAllowed(user: Pick<User, "role">, recipe: Pick<Recipe, "moderationHidden">) {
+  if (!canPublishRecipe(user, recipe)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "此食譜已被管理員下架，只有管理員可以重新發佈" });
+  }
+}
+
+/**
+ * 確認當前用戶可以修改食譜，返回食譜；不存在或沒有權限時拋出錯誤
+ */
+export async function requireRecipeOwner(user: Pick<User, "id" | "role">, recipeId: number) {
+  const recipe = await db.getRecipeById(recipeId);
+  if (!recipe) {
+    throw new TRPCError({ code: "NOT_FOUND", message: "食譜不存在" });
+  }
+  if (!canEditRecipe(user, recipe)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "只有食譜作者或管理員可以修改此食譜" });
+  }
+  return recipe;
+}
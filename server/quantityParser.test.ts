@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest";
+import {
+  parseChineseNumber,
+  parseIngredientLine,
+  parseQuantity,
+  representativeQuantity,
+  scaleAmount,
+  toIngredientQuantityFields,
+} from "./quantityParser";
+
+describe("parseQuantity", () => {
+  it("should parse metric weights with the unit in the amount", () => {
+    expect(parseQuantity("200克")).toEqual({ quantity: 200, quantityMax: null, unit: "g", originalUnit: "克" });
+    expect(parseQuantity("1.5kg")).toMatchObject({ quantity: 1500, unit: "g" });
+  });
+
+  it("should use the separate unit field", () => {
+    expect(parseQuantity("200", "克")).toMatchObject({ quantity: 200, unit: "g" });
+    expect(parseQuantity("2", "湯匙")).toMatchObject({ quantity: 30, unit: "ml", originalUnit: "湯匙" });
+  });
+
+  it("should convert Chinese market weights", () => {
+    expect(parseQuantity("4両")).toMatchObject({ quantity: 151.2, unit: "g" });
+    expect(parseQuantity("半斤")).toMatchObject({ quantity: 302.4, unit: "g" });
+    expect(parseQuantity("一斤")).toMatchObject({ quantity: 604.79, unit: "g" });
+  });
+
+  it("should parse English fractions and volumes", () => {
+    expect(parseQuantity("1 1/2 cups")).toMatchObject({ quantity: 360, unit: "ml" });
+    expect(parseQuantity("½ tsp")).toMatchObject({ quantity: 2.5, unit: "ml" });
+    expect(parseQuantity("3/4", "cup")).toMatchObject({ quantity: 180, unit: "ml" });
+  });
+
+  it("should parse ranges", () => {
+    expect(parseQuantity("2-3個")).toEqual({ quantity: 2, quantityMax: 3, unit: "piece", originalUnit: "個" });
+    expect(parseQuantity("兩三瓣")).toMatchObject({ quantity: 2, quantityMax: 3, unit: "piece" });
+    expect(parseQuantity("1至2湯匙")).toMatchObject({ quantity: 15, quantityMax: 30, unit: "ml" });
+  });
+
+  it("should handle a trailing half and approximate prefix", () => {
+    expect(parseQuantity("一個半")).toMatchObject({ quantity: 1.5, unit: "piece" });
+    expect(parseQuantity("約200克")).toMatchObject({ quantity: 200, unit: "g" });
+  });
+
+  it("should treat vague amounts as to_taste", () => {
+    expect(parseQuantity("少許")).toEqual({ quantity: null, quantityMax: null, unit: "to_taste", originalUnit: null });
+    expect(parseQuantity("", "適量")).toMatchObject({ unit: "to_taste" });
+    expect(parseQuantity("一些")).toMatchObject({ unit: "to_taste" });
+  });
+
+  it("should keep unknown units as pieces and reject unparseable text", () => {
+    expect(parseQuantity("1碗")).toEqual({ quantity: 1, quantityMax: null, unit: "piece", originalUnit: "碗" });
+    expect(parseQuantity("")).toBeNull();
+    expect(parseQuantity("a few")).toBeNull();
+  });
+});
+
+describe("helpers", () => {
+  it("should parse Chinese numbers", () => {
+    expect(parseChineseNumber("十二")).toBe(12);
+    expect(parseChineseNumber("兩百")).toBe(200);
+    expect(parseChineseNumber("半")).toBe(0.5);
+  });
+
+  it("should use the midpoint of a range", () => {
+    expect(representativeQuantity(parseQuantity("2-3個")!)).toBe(2.5);
+    expect(representativeQuantity(parseQuantity("少許")!)).toBeNull();
+  });
+
+  it("should map to ingredient columns", () => {
+    expect(toIngredientQuantityFields("2", "茶匙")).toEqual({ quantity: 10, quantityMax: null, canonicalUnit: "ml" });
+    expect(toIngredientQuantityFields(null, null)).toEqual({ quantity: null, quantityMax: null, canonicalUnit: null });
+  });
+});
+
+describe("scaleAmount", () => {
+  it("should keep the original unit when scaling", () => {
+    expect(scaleAmount("2湯匙", "", 1.5)).toEqual({ amount: "3湯匙", unit: "", scaled: true });
+    expect(scaleAmount("200", "克", 2)).toEqual({ amount: "400", unit: "克", scaled: true });
+    expect(scaleAmount("半斤", null, 2)).toMatchObject({ amount: "1斤" });
+    expect(scaleAmount("1 1/2 cups", null, 0.5)).toMatchObject({ amount: "0.75 cups" });
+  });
+
+  it("should scale ranges and round pieces to halves", () => {
+    expect(scaleAmount("2-3個", null, 2)).toMatchObject({ amount: "4-6個" });
+    expect(scaleAmount("3", "隻", 1 / 3 * 2)).toMatchObject({ amount: "2" });
+    expect(scaleAmount("1", "個", 0.25)).toMatchObject({ amount: "0.5" });
+  });
+
+  it("should leave vague amounts unchanged", () => {
+    expect(scaleAmount("少許", null, 3)).toEqual({ amount: "少許", unit: null, scaled: false });
+  });
+});
+
+describe("parseIngredientLine", () => {
+  it("should split lines with the quantity first", () => {
+    expect(parseIngredientLine("2 cups all-purpose flour")).toEqual({ name: "all-purpose flour", amount: "2", unit: "cups" });
+    expect(parseIngredientLine("1 1/2 tsp baking soda")).toEqual({ name: "baking soda", amount: "1 1/2", unit: "tsp" });
+    expect(parseIngredientLine("2 large eggs")).toEqual({ name: "large eggs", amount: "2", unit: "" });
+    expect(parseIngredientLine("兩個雞蛋")).toEqual({ name: "雞蛋", amount: "兩", unit: "個" });
+  });
+
+  it("should split lines with the quantity last", () => {
+    expect(parseIngredientLine("豬肉 200克")).toEqual({ name: "豬肉", amount: "200", unit: "克" });
+    expect(parseIngredientLine("三文魚 200g")).toEqual({ name: "三文魚", amount: "200", unit: "g" });
+    expect(parseIngredientLine("豆腐1磚")).toEqual({ name: "豆腐", amount: "1", unit: "磚" });
+  });
+
+  it("should handle vague amounts and lines without a quantity", () => {
+    expect(parseIngredientLine("salt and pepper, to taste")).toEqual({ name: "salt and pepper", amount: "to taste", unit: "" });
+    expect(parseIngredientLine("少許鹽")).toEqual({ name: "鹽", amount: "少許", unit: "" });
+    expect(parseIngredientLine("十三香")).toEqual({ name: "十三香", amount: "", unit: "" });
+  });
+});
@@ -0,0 +1,306 @@
+/**
+ * 食材份量解析器
+ * 把「200克」、「2湯匙」、「1 1/2 cups」、「4両」、「2-3個」、「少許」這類自由文字
+ * 轉換成結構化的數量和標準單位：
+ * - 重量統一為 g(斤、両、磅、安士都換算成克)
+ * - 容量統一為 ml(湯匙、茶匙、杯都換算成毫升)
+ * - 件數為 piece(個、隻、片、瓣等)
+ * - 模糊份量(少許、適量)為 to_taste，沒有數量
+ */
+
+export type CanonicalUnit = "g" | "ml" | "piece" | "to_taste";
+
+export type ParsedQuantity = {
+  quantity: number | null; // 換算後的數量(範圍時為下限)
+  quantityMax: number | null; // 範圍上限，例如「2-3個」的 3；非範圍時為 null
+  unit: CanonicalUnit;
+  originalUnit: string | null; // 原文中的單位，例如「湯匙」、「斤」
+};
+
+const VAGUE_TERMS = ["少許", "些許", "一些", "少量", "適量", "適當", "隨意", "一點", "一撮", "一小撮", "pinch", "to taste", "dash", "as needed"];
+
+// 份量前的約數詞，例如「約200克」、「about 2 cups」
+const APPROXIMATE_PREFIX = /^(?:大約|約|about|approx\.?|approximately|~)\s*/i;
+
+// 單位換算表：多字單位要放前面，避免「公斤」被「斤」先匹配
+const UNIT_DEFINITIONS: Array<{ names: string[]; unit: CanonicalUnit; factor: number }> = [
+  { names: ["公斤", "千克", "kg", "kilogram", "kilograms"], unit: "g", factor: 1000 },
+  { names: ["公克", "克", "g", "gram", "grams", "gm"], unit: "g", factor: 1 },
+  { names: ["斤", "catty", "catties"], unit: "g", factor: 604.79 }, // 香港司馬斤
+  { names: ["両", "兩", "tael", "taels"], unit: "g", factor: 37.8 },
+  { names: ["磅", "lb", "lbs", "pound", "pounds"], unit: "g", factor: 453.59 },
+  { names: ["安士", "盎司", "oz", "ounce", "ounces"], unit: "g", factor: 28.35 },
+  { names: ["毫升", "ml", "milliliter", "milliliters"], unit: "ml", factor: 1 },
+  { names: ["公升", "升", "l", "liter", "liters", "litre", "litres"], unit: "ml", factor: 1000 },
+  { names: ["湯匙", "湯羹", "大匙", "湯勺", "tbsp", "tbs", "tablespoon", "tablespoons"], unit: "ml", factor: 15 },
+  { names: ["茶匙", "小匙", "tsp", "teaspoon", "teaspoons"], unit: "ml", factor: 5 },
+  { names: ["量杯", "杯", "cup", "cups"], unit: "ml", factor: 240 },
+  {
+    names: ["個", "隻", "只", "顆", "粒", "件", "條", "塊", "片", "根", "瓣", "棵", "把", "束", "罐", "包", "盒",
+      "piece", "pieces", "pcs", "pc", "clove", "cloves", "slice", "slices", "can", "cans", "whole"],
+    unit: "piece",
+    factor: 1,
+  },
+];
+
+const CHINESE_DIGITS: Record<string, number> = {
+  "零": 0, "一": 1, "二": 2, "兩": 2, "两": 2, "三": 3, "四": 4, "五": 5,
+  "六": 6, "七": 7, "八": 8, "九": 9,
+};
+
+const UNICODE_FRACTIONS: Record<string, number> = {
+  "½": 0.5, "⅓": 1 / 3, "⅔": 2 / 3, "¼": 0.25, "¾": 0.75, "⅛": 0.125,
+};
+
+const NUMBER_PATTERN = String.raw`\d+(?:\.\d+)?(?:\s+\d+\s*\/\s*\d+|\s*\/\s*\d+)?|[½⅓⅔¼¾⅛]`;
+const CHINESE_NUMBER_PATTERN = "[零一二兩两三四五六七八九十百]+半?|半";
+const RANGE_SEPARATOR = String.raw`\s*(?:-|–|~|～|至|到|to)\s*`;
+
+/**
+ * 解析阿拉伯數字(含小數、分數、帶分數和 unicode 分數)
+ */
+function parseArabicNumber(text: string): number {
+  const trimmed = text.trim();
+  if (UNICODE_FRACTIONS[trimmed] !== undefined) return UNICODE_FRACTIONS[trimmed];
+
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)$/);
+  if (mixed) return parseInt(mixed[1]) + parseInt(mixed[2]) / parseInt(mixed[3]);
+
+  const fraction = trimmed.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+)$/);
+  if (fraction) return parseFloat(fraction[1]) / parseFloat(fraction[2]);
+
+  return parseFloat(trimmed);
+}
+
+/**
+ * 解析中文數字，支援「十二」、「兩百」、「一個半」中的「一…半」和單獨的「半」
+ */
+export function parseChineseNumber(text: string): number | null {
+  let value = text;
+  let half = 0;
+  if (value === "半") return 0.5;
+  if (value.endsWith("半")) {
+    half = 0.5;
+    value = value.slice(0, -1);
+  }
+
+  let total = 0;
+  let current = 0;
+  for (const char of value) {
+    if (char === "百") {
+      total += (current || 1) * 100;
+      current = 0;
+    } else if (char === "十") {
+      total += (current || 1) * 10;
+      current = 0;
+    } else if (CHINESE_DIGITS[char] !== undefined) {
+      current = CHINESE_DIGITS[char];
+    } else {
+      return null;
+    }
+  }
+  return total + current + half;
+}
+
+function findUnit(text: string): { definition: (typeof UNIT_DEFINITIONS)[number]; name: string } | null {
+  const lower = text.trim().toLowerCase();
+  if (!lower) return null;
+
+  for (const definition of UNIT_DEFINITIONS) {
+    for (const name of definition.names) {
+      // 英文單位要完整匹配開頭的單詞，避免「g」匹配到「garlic」
+      const matched = /^[a-z]+$/.test(name)
+        ? new RegExp(`^${name}(?![a-z])`).test(lower)
+        : lower.startsWith(name);
+      if (matched) return { definition, name };
+    }
+  }
+  return null;
+}
+
+function round(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * 解析份量文字
+ * amount 可以已包含單位(「200克」)，此時忽略重複的 unit 欄位；無法解析時返回 null
+ */
+export function parseQuantity(amount: string | null | undefined, unit?: string | null): ParsedQuantity | null {
+  const amountText = (amount ?? "").trim().replace(APPROXIMATE_PREFIX, "");
+  const unitText = (unit ?? "").trim();
+  const fullText = `${amountText} ${unitText}`.trim().toLowerCase();
+  if (!fullText) return null;
+
+  if (VAGUE_TERMS.some(term => fullText.includes(term)) && !/\d/.test(fullText)) {
+    return { quantity: null, quantityMax: null, unit: "to_taste", originalUnit: null };
+  }
+
+  // 中文數字範圍，例如「兩三個」、「三四片」
+  const adjacentChinese = amountText.match(/^([一二兩两三四五六七八九])([一二兩两三四五六七八九])(?![十百])/);
+
+  const rangePattern = new RegExp(`^(${NUMBER_PATTERN}|${CHINESE_NUMBER_PATTERN})(?:${RANGE_SEPARATOR}(${NUMBER_PATTERN}|${CHINESE_NUMBER_PATTERN}))?`, "i");
+  let min: number | null = null;
+  let max: number | null = null;
+  let rest = amountText;
+
+  if (adjacentChinese && CHINESE_DIGITS[adjacentChinese[2]] === CHINESE_DIGITS[adjacentChinese[1]] + 1) {
+    min = CHINESE_DIGITS[adjacentChinese[1]];
+    max = CHINESE_DIGITS[adjacentChinese[2]];
+    rest = amountText.slice(adjacentChinese[0].length);
+  } else {
+    const match = amountText.match(rangePattern);
+    if (!match) return null;
+    const toNumber = (text: string) => (/^[\d½⅓⅔¼¾⅛]/.test(text) ? parseArabicNumber(text) : parseChineseNumber(text));
+    min = toNumber(match[1]);
+    max = match[2] ? toNumber(match[2]) : null;
+    rest = amountText.slice(match[0].length);
+  }
+  if (min === null || Number.isNaN(min)) return null;
+
+  // 「1個半」、「2杯半」：單位後面的「半」
+  let trailingHalf = 0;
+  const found = findUnit(rest) ?? findUnit(unitText);
+  if (found && rest.trim().toLowerCase().startsWith(found.name) && rest.trim().slice(found.name.length).startsWith("半")) {
+    trailingHalf = 0.5;
+  }
+
+  if (!found) {
+    // 沒有單位或單位不在換算表中(例如「2」雞蛋、「1碗」)，當作以原單位計的件數
+    return {
+      quantity: round(min),
+      quantityMax: max !== null ? round(max) : null,
+      unit: "piece",
+      originalUnit: rest.trim() || unitText || null,
+    };
+  }
+
+  const factor = found.definition.factor;
+  return {
+    quantity: round((min + trailingHalf) * factor),
+    quantityMax: max !== null ? round(max * factor) : null,
+    unit: found.definition.unit,
+    originalUnit: found.name,
+  };
+}
+
+/**
+ * 取範圍中間值，用於營養計算等需要單一數值的場合
+ */
+export function representativeQuantity(parsed: ParsedQuantity): number | null {
+  if (parsed.quantity === null) return null;
+  return parsed.quantityMax !== null ? (parsed.quantity + parsed.quantityMax) / 2 : parsed.quantity;
+}
+
+/**
+ * 轉換成 ingredients 表的結構化欄位
+ */
+export function toIngredientQuantityFields(amount: string | null | undefined, unit?: string | null) {
+  const parsed = parseQuantity(amount, unit);
+  return {
+    quantity: parsed?.quantity ?? null,
+    quantityMax: parsed?.quantityMax ?? null,
+    canonicalUnit: parsed?.unit ?? null,
+  };
+}
+
+/**
+ * 格式化縮放後的數量：件數取到半個，其他大於10時取整數，否則保留最多兩位小數
+ */
+function formatScaledNumber(value: number, unit: CanonicalUnit) {
+  if (unit === "piece") {
+    return String(Math.max(0.5, Math.round(value * 2) / 2));
+  }
+  return String(value >= 10 ? Math.round(value) : round(value));
+}
+
+/**
+ * 按倍數縮放份量文字，保留原來的單位寫法(「2湯匙」×1.5 →「3湯匙」，「半斤」×2 →「1斤」)
+ * 模糊份量或無法解析時原樣返回，scaled 為 false
+ */
+export function scaleAmount(
+  amount: string | null | undefined,
+  unit: string | null | undefined,
+  factor: number
+): { amount: string | null; unit: string | null; scaled: boolean } {
+  const original = { amount: amount ?? null, unit: unit ?? null, scaled: false };
+  const parsed = parseQuantity(amount, unit);
+  if (!parsed || parsed.quantity === null) return original;
+
+  // 換算回原單位的數量
+  const unitFactor = parsed.originalUnit ? findUnit(parsed.originalUnit)?.definition.factor ?? 1 : 1;
+  const format = (value: number) => formatScaledNumber((value / unitFactor) * factor, parsed.unit);
+  const numberText = parsed.quantityMax !== null
+    ? `${format(parsed.quantity)}-${format(parsed.quantityMax)}`
+    : format(parsed.quantity);
+
+  // 單位寫在 amount 裡(「200克」)時，縮放後也放回 amount；否則保留 unit 欄位
+  const amountUnit = parseQuantity(amount)?.originalUnit;
+  if (amountUnit) {
+    const separator = /^[a-z]/i.test(amountUnit) ? " " : "";
+    return { amount: `${numberText}${separator}${amountUnit}`, unit: unit ?? null, scaled: true };
+  }
+  return { amount: numberText, unit: unit ?? null, scaled: true };
+}
+
+export type ParsedIngredientLine = {
+  name: string;
+  amount: string;
+  unit: string;
+};
+
+// 數字後可接受的單位：換算表中的單位，或者以阿拉伯數字計的一至兩字中文量詞(例如「1碗」、「2磚」)
+function matchLineUnit(text: string, allowMeasureWord: boolean): string | null {
+  if (!text) return "";
+  const found = findUnit(text);
+  if (found && found.name.length === text.length) return text;
+  if (allowMeasureWord && /^[一-鿿]{1,2}$/.test(text)) return text;
+  return null;
+}
+
+/**
+ * 把整行食材文字拆成名稱、數量和單位
+ * 用於結構化食譜(JSON-LD)的「2 cups flour」、「豬肉 200克」、「鹽 少許」這類寫法；找不到份量時整行作為名稱
+ */
+export function parseIngredientLine(line: string): ParsedIngredientLine {
+  const text = line.replace(/\s+/g, " ").trim().replace(APPROXIMATE_PREFIX, "");
+  const lower = text.toLowerCase();
+  const quantityPattern = `(?:${NUMBER_PATTERN})(?:${RANGE_SEPARATOR}(?:${NUMBER_PATTERN}))?`;
+  const isArabic = (value: string) => /^[\d½⅓⅔¼¾⅛]/.test(value);
+
+  // 份量在前：「2 cups flour」、「200g 豬肉」、「兩個雞蛋」
+  const leading = text.match(new RegExp(`^(${quantityPattern}|${CHINESE_NUMBER_PATTERN})\\s*`, "i"));
+  if (leading) {
+    const rest = text.slice(leading[0].length);
+    const found = findUnit(rest);
+    // 中文數字後面必須緊接單位，避免「三文魚」被當成 3 份「文魚」
+    if (isArabic(leading[1]) || found) {
+      const unit = found ? rest.slice(0, found.name.length) : "";
+      const name = rest.slice(unit.length).replace(/^\s*(?:of\s+)?/i, "").replace(/^[,，、]\s*/, "").trim();
+      if (name) return { name, amount: leading[1].trim(), unit };
+    }
+  }
+
+  // 份量在後：「豬肉 200克」、「雞蛋兩個」
+  const trailing = text.match(new RegExp(`^(.+?)[\\s:：,，]*(${quantityPattern}|${CHINESE_NUMBER_PATTERN})\\s*([^\\s\\d]*)$`, "i"));
+  if (trailing) {
+    const unit = matchLineUnit(trailing[3], isArabic(trailing[2]));
+    if (unit !== null && !/[\d½⅓⅔¼¾⅛]$/.test(trailing[1])) {
+      return { name: trailing[1].trim(), amount: trailing[2].trim(), unit };
+    }
+  }
+
+  // 模糊份量：「鹽 少許」、「salt, to taste」、「少許鹽」
+  for (const term of VAGUE_TERMS) {
+    if (lower.endsWith(term) && text.length > term.length) {
+      const name = text.slice(0, -term.length).replace(/[\s,，、:：]+$/, "");
+      if (name) return { name, amount: text.slice(-term.length), unit: "" };
+    }
+    if (lower.startsWith(term) && text.length > term.length) {
+      const name = text.slice(term.length).replace(/^\s*(?:of\s+)?/i, "").trim();
+      if (name) return { name, amount: text.slice(0, term.length), unit: "" };
+    }
+  }
+
+  return { name: text, amount: "", unit: "" };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildExportFileName,
+  buildRecipeHtml,
+  buildRecipeMarkdown,
+  exportRecipe,
+  isPrivateAddress,
+  parseImprovementSuggestions,
+  type RecipeExportData,
+} from "./recipeExport";
+
+const recipe: RecipeExportData = {
+  id: 1,
+  title: "番茄炒蛋",
+  description: "家常<快手>菜",
+  imageUrl: "https://example.com/dish.jpg",
+  sourceUrl: null,
+  servings: 2,
+  difficulty: "簡單",
+  prepTime: 5,
+  cookTime: 10,
+  totalTime: 15,
+  totalCalories: 400,
+  caloriesPerServing: 200,
+  protein: 18,
+  carbs: 12,
+  fat: 20,
+  fiber: 2,
+  improvementSuggestions: JSON.stringify({ improvementText: "少油快炒", healthBenefits: "減少脂肪" }),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+  ingredients: [
+    { name: "番茄", amount: "2個", notes: null },
+    { name: "雞蛋", amount: "3隻", notes: "室溫" },
+  ],
+  steps: [
+    { stepNumber: 1, instruction: "打散雞蛋", duration: 1, temperature: null, tips: null, imageUrl: "https://example.com/step1.jpg" },
+    { stepNumber: 2, instruction: "中火炒番茄和雞蛋", duration: 3, temperature: "中火", tips: "不要炒太老", imageUrl: null },
+  ],
+};
+
+describe("parseImprovementSuggestions", () => {
+  it("should read JSON and plain text suggestions", () => {
+    expect(parseImprovementSuggestions(recipe.improvementSuggestions)).toEqual({
+      improvementText: "少油快炒",
+      healthBenefits: "減少脂肪",
+    });
+    expect(parseImprovementSuggestions("改用橄欖油")).toEqual({ improvementText: "改用橄欖油", healthBenefits: "" });
+    expect(parseImprovementSuggestions("  ")).toBeNull();
+  });
+});
+
+describe("buildExportFileName", () => {
+  it("should strip characters that are not allowed in file names", () => {
+    expect(buildExportFileName("番茄/炒蛋?", "pdf")).toBe("番茄 炒蛋.pdf");
+    expect(buildExportFileName("番茄炒蛋", "markdown")).toBe("番茄炒蛋.md");
+    expect(buildExportFileName("番茄炒蛋", "card")).toBe("番茄炒蛋-廚房卡片.pdf");
+    expect(buildExportFileName("///", "pdf")).toBe("recipe.pdf");
+  });
+});
+
+describe("buildRecipeMarkdown", () => {
+  it("should include ingredients, steps, nutrition and suggestions", () => {
+    const markdown = buildRecipeMarkdown(recipe);
+
+    expect(markdown).toContain("# 番茄炒蛋");
+    expect(markdown).toContain("- 雞蛋 3隻（室溫）");
+    expect(markdown).toContain("1. 打散雞蛋（1 分鐘）");
+    expect(markdown).toContain("2. 中火炒番茄和雞蛋（3 分鐘・中火）");
+    expect(markdown).toContain("   - 提示：不要炒太老");
+    expect(markdown).toContain("![步驟 1](https://example.com/step1.jpg)");
+    expect(markdown).toContain("- 每份卡路里：200 kcal");
+    expect(markdown).toContain("少油快炒");
+    expect(markdown).toContain("過敏原：蛋");
+  });
+});
+
+describe("buildRecipeHtml", () => {
+  it("should escape recipe text and include step images in the full layout", () => {
+    const html = buildRecipeHtml(recipe, "full");
+
+    expect(html).toContain("家常&lt;快手&gt;菜");
+    expect(html).not.toContain("<快手>");
+    expect(html).toContain('src="https://example.com/step1.jpg"');
+    expect(html).toContain("改良建議");
+  });
+
+  it("should keep the kitchen card compact", () => {
+    const html = buildRecipeHtml(recipe, "card");
+
+    expect(html).toContain("打散雞蛋");
+    expect(html).toContain("每份 200 kcal");
+    expect(html).not.toContain("step1.jpg");
+    expect(html).not.toContain("改良建議");
+  });
+});
+
+describe("exportRecipe", () => {
+  it("should return markdown without launching a browser", async () => {
+    const file = await exportRecipe(recipe, "markdown");
+
+    expect(file.fileName).toBe("番茄炒蛋.md");
+    expect(file.mimeType).toBe("text/markdown");
+    expect(file.content.toString("utf-8")).toContain("## 步驟");
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("should block loopback, private, link-local and metadata addresses", () => {
+    for (const address of ["127.0.0.1", "10.0.0.5", "172.16.3.4", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0", "::1", "fd00::1", "fe80::1", "::ffff:127.0.0.1"]) {
+      expect(isPrivateAddress(address), address).toBe(true);
+    }
+  });
+
+  it("should allow public addresses", () => {
+    for (const address of ["8.8.8.8", "172.32.0.1", "2606:4700:4700::1111", "::ffff:1.1.1.1"]) {
+      expect(isPrivateAddress(address), address).toBe(false);
+    }
+  });
+});
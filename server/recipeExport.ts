@@ -0,0 +1,374 @@
+import { lookup } from "node:dns/promises";
+import { isIP } from "node:net";
+import { chromium, type Browser, type Route } from "playwright";
+import type { CookingStep, Ingredient, Recipe } from "../drizzle/schema";
+import { summarizeRecipeAllergens } from "./allergens";
+
+/**
+ * 食譜匯出
+ * markdown：純文字；pdf：A4 完整版(含步驟圖片和改良建議)；card：A5 廚房卡片，只保留煮食時需要看的內容
+ * PDF 共用同一個瀏覽器並逐個渲染，結果按食譜更新時間暫存，避免同時啟動多個 Chromium
+ */
+export const RECIPE_EXPORT_FORMATS = ["pdf", "markdown", "card"] as const;
+export type RecipeExportFormat = (typeof RECIPE_EXPORT_FORMATS)[number];
+
+type ExportIngredient = Pick<Ingredient, "name" | "amount" | "notes">;
+type ExportStep = Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature" | "tips" | "imageUrl">;
+
+export type RecipeExportData = Pick<
+  Recipe,
+  | "id" | "title" | "description" | "imageUrl" | "sourceUrl" | "servings" | "difficulty"
+  | "prepTime" | "cookTime" | "totalTime" | "totalCalories" | "caloriesPerServing"
+  | "protein" | "carbs" | "fat" | "fiber" | "improvementSuggestions" | "updatedAt"
+> & {
+  ingredients: ExportIngredient[];
+  steps: ExportStep[];
+};
+
+export type RecipeExportFile = {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+};
+
+// 等待圖片載入和生成 PDF 的時間上限
+const PDF_RENDER_TIMEOUT_MS = 30_000;
+
+// 暫存最近匯出的 PDF 數量
+const PDF_CACHE_SIZE = 20;
+
+type ImprovementText = {
+  improvementText: string;
+  healthBenefits: string;
+};
+
+/**
+ * 解析改良建議(新格式為 JSON，舊資料為純文字)
+ */
+export function parseImprovementSuggestions(value: string | null): ImprovementText | null {
+  if (!value?.trim()) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed && typeof parsed.improvementText === "string") {
+      return {
+        improvementText: parsed.improvementText,
+        healthBenefits: typeof parsed.healthBenefits === "string" ? parsed.healthBenefits : "",
+      };
+    }
+  } catch {
+    // 不是 JSON，直接使用原始文本
+  }
+  return { improvementText: value, healthBenefits: "" };
+}
+
+/**
+ * 把標題轉成可用的檔案名稱(保留中文，移除檔案系統不接受的字元)
+ */
+export function buildExportFileName(title: string, format: RecipeExportFormat): string {
+  const base = title.replace(/[\\/:*?"<>|\r\n]+/g, " ").replace(/\s+/g, " ").trim().slice(0, 80) || "recipe";
+  if (format === "markdown") return `${base}.md`;
+  if (format === "card") return `${base}-廚房卡片.pdf`;
+  return `${base}.pdf`;
+}
+
+function formatIngredient(ingredient: ExportIngredient) {
+  const parts = [ingredient.name];
+  if (ingredient.amount) parts.push(ingredient.amount);
+  const text = parts.join(" ");
+  return ingredient.notes ? `${text}（${ingredient.notes}）` : text;
+}
+
+function formatStepMeta(step: ExportStep) {
+  const meta: string[] = [];
+  if (step.duration) meta.push(`${step.duration} 分鐘`);
+  if (step.temperature) meta.push(step.temperature);
+  return meta.join("・");
+}
+
+function getCookingInfo(recipe: RecipeExportData): string[] {
+  const info: string[] = [];
+  if (recipe.servings) info.push(`份量：${recipe.servings} 人份`);
+  if (recipe.difficulty) info.push(`難度：${recipe.difficulty}`);
+  if (recipe.prepTime) info.push(`準備時間：${recipe.prepTime} 分鐘`);
+  if (recipe.cookTime) info.push(`烹飪時間：${recipe.cookTime} 分鐘`);
+  if (recipe.totalTime) info.push(`總時間：${recipe.totalTime} 分鐘`);
+  return info;
+}
+
+function getNutritionInfo(recipe: RecipeExportData): string[] {
+  const info: string[] = [];
+  if (recipe.totalCalories) info.push(`總卡路里：${recipe.totalCalories} kcal`);
+  if (recipe.caloriesPerServing) info.push(`每份卡路里：${recipe.caloriesPerServing} kcal`);
+  if (recipe.protein) info.push(`蛋白質：${recipe.protein} g`);
+  if (recipe.carbs) info.push(`碳水化合物：${recipe.carbs} g`);
+  if (recipe.fat) info.push(`脂肪：${recipe.fat} g`);
+  if (recipe.fiber) info.push(`纖維：${recipe.fiber} g`);
+  return info;
+}
+
+function getAllergenText(recipe: RecipeExportData) {
+  const allergens = summarizeRecipeAllergens(recipe.ingredients);
+  return allergens.length > 0 ? `過敏原：${allergens.map(allergen => allergen.label).join("、")}` : null;
+}
+
+/**
+ * 生成 Markdown(食材、步驟、營養和改良建議)
+ */
+export function buildRecipeMarkdown(recipe: RecipeExportData): string {
+  const lines: string[] = [`# ${recipe.title}`, ""];
+
+  if (recipe.imageUrl) lines.push(`![${recipe.title}](${recipe.imageUrl})`, "");
+  if (recipe.description) lines.push(recipe.description, "");
+
+  const cookingInfo = getCookingInfo(recipe);
+  if (cookingInfo.length > 0) lines.push(...cookingInfo.map(item => `- ${item}`), "");
+
+  if (recipe.ingredients.length > 0) {
+    lines.push("## 食材", "", ...recipe.ingredients.map(ingredient => `- ${formatIngredient(ingredient)}`), "");
+    const allergenText = getAllergenText(recipe);
+    if (allergenText) lines.push(`> ${allergenText}`, "");
+  }
+
+  if (recipe.steps.length > 0) {
+    lines.push("## 步驟", "");
+    for (const step of recipe.steps) {
+      const meta = formatStepMeta(step);
+      lines.push(`${step.stepNumber}. ${step.instruction}${meta ? `（${meta}）` : ""}`);
+      if (step.tips) lines.push(`   - 提示：${step.tips}`);
+      if (step.imageUrl) lines.push(`   ![步驟 ${step.stepNumber}](${step.imageUrl})`);
+    }
+    lines.push("");
+  }
+
+  const nutrition = getNutritionInfo(recipe);
+  if (nutrition.length > 0) lines.push("## 營養資訊", "", ...nutrition.map(item => `- ${item}`), "");
+
+  const improvements = parseImprovementSuggestions(recipe.improvementSuggestions);
+  if (improvements) {
+    lines.push("## 改良建議", "", improvements.improvementText.trim(), "");
+    if (improvements.healthBenefits.trim()) lines.push("### 健康益處", "", improvements.healthBenefits.trim(), "");
+  }
+
+  if (recipe.sourceUrl) lines.push(`來源：${recipe.sourceUrl}`, "");
+
+  return lines.join("\n");
+}
+
+export function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+const BASE_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: "Noto Sans CJK TC", "Noto Sans TC", "PingFang TC", "Microsoft JhengHei", sans-serif; color: #1f2937; margin: 0; line-height: 1.6; }
+  h1 { margin: 0 0 8px; }
+  h2 { border-bottom: 2px solid #16a34a; padding-bottom: 4px; margin: 24px 0 12px; }
+  .muted { color: #6b7280; }
+  .info { display: flex; flex-wrap: wrap; gap: 4px 16px; }
+  .allergens { background: #fef2f2; color: #b91c1c; padding: 6px 10px; border-radius: 6px; }
+  ol.steps { padding-left: 1.4em; }
+  ol.steps li { margin-bottom: 10px; break-inside: avoid; }
+  .meta { color: #b45309; font-weight: 600; }
+  .tips { color: #6b7280; }
+  .pre { white-space: pre-wrap; }
+`;
+
+const FULL_STYLES = `
+  body { font-size: 12pt; }
+  .hero { width: 100%; max-height: 320px; object-fit: cover; border-radius: 8px; margin: 12px 0; }
+  .step-image { display: block; max-width: 60%; max-height: 200px; margin-top: 6px; border-radius: 6px; }
+  ul.ingredients { columns: 2; }
+`;
+
+// 廚房卡片：A5 左右兩欄(食材／步驟)，不放圖片和改良建議
+const CARD_STYLES = `
+  body { font-size: 11pt; }
+  h1 { font-size: 18pt; }
+  h2 { font-size: 12pt; margin: 12px 0 6px; }
+  .layout { display: grid; grid-template-columns: 38% 1fr; gap: 16px; }
+  ul.ingredients { padding-left: 1.1em; margin: 0; }
+  ol.steps li { margin-bottom: 6px; }
+`;
+
+/**
+ * 生成用於轉換 PDF 的 HTML
+ */
+export function buildRecipeHtml(recipe: RecipeExportData, layout: "full" | "card"): string {
+  const cookingInfo = getCookingInfo(recipe);
+  const nutrition = getNutritionInfo(recipe);
+  const allergenText = getAllergenText(recipe);
+  const isCard = layout === "card";
+
+  const ingredientsHtml = recipe.ingredients.length > 0
+    ? `<h2>食材</h2><ul class="ingredients">${recipe.ingredients.map(ingredient => `<li>${escapeHtml(formatIngredient(ingredient))}</li>`).join("")}</ul>`
+      + (allergenText ? `<p class="allergens">${escapeHtml(allergenText)}</p>` : "")
+    : "";
+
+  const stepsHtml = recipe.steps.length > 0
+    ? `<h2>步驟</h2><ol class="steps">${recipe.steps.map(step => {
+        const meta = formatStepMeta(step);
+        return `<li>${escapeHtml(step.instruction)}`
+          + (meta ? ` <span class="meta">${escapeHtml(meta)}</span>` : "")
+          + (step.tips ? `<div class="tips">💡 ${escapeHtml(step.tips)}</div>` : "")
+          + (!isCard && step.imageUrl ? `<img class="step-image" src="${escapeHtml(step.imageUrl)}" alt="步驟 ${step.stepNumber}" />` : "")
+          + "</li>";
+      }).join("")}</ol>`
+    : "";
+
+  const infoHtml = cookingInfo.length > 0
+    ? `<div class="info muted">${cookingInfo.map(item => `<span>${escapeHtml(item)}</span>`).join("")}</div>`
+    : "";
+
+  let body: string;
+  if (isCard) {
+    body = `<h1>${escapeHtml(recipe.title)}</h1>${infoHtml}`
+      + `<div class="layout"><div>${ingredientsHtml}</div><div>${stepsHtml}</div></div>`
+      + (recipe.caloriesPerServing ? `<p class="muted">每份 ${recipe.caloriesPerServing} kcal</p>` : "");
+  } else {
+    const improvements = parseImprovementSuggestions(recipe.improvementSuggestions);
+    body = `<h1>${escapeHtml(recipe.title)}</h1>`
+      + (recipe.description ? `<p class="muted">${escapeHtml(recipe.description)}</p>` : "")
+      + infoHtml
+      + (recipe.imageUrl ? `<img class="hero" src="${escapeHtml(recipe.imageUrl)}" alt="${escapeHtml(recipe.title)}" />` : "")
+      + ingredientsHtml
+      + stepsHtml
+      + (nutrition.length > 0 ? `<h2>營養資訊</h2><div class="info">${nutrition.map(item => `<span>${escapeHtml(item)}</span>`).join("")}</div>` : "")
+      + (improvements
+        ? `<h2>改良建議</h2><div class="pre">${escapeHtml(improvements.improvementText.trim())}</div>`
+          + (improvements.healthBenefits.trim() ? `<h3>健康益處</h3><div class="pre">${escapeHtml(improvements.healthBenefits.trim())}</div>` : "")
+        : "")
+      + (recipe.sourceUrl ? `<p class="muted">來源：${escapeHtml(recipe.sourceUrl)}</p>` : "");
+  }
+
+  return `<!DOCTYPE html><html lang="zh-Hant"><head><meta charset="utf-8" /><title>${escapeHtml(recipe.title)}</title>`
+    + `<style>${BASE_STYLES}${isCard ? CARD_STYLES : FULL_STYLES}</style></head><body>${body}</body></html>`;
+}
+
+let sharedBrowser: Promise<Browser> | null = null;
+let renderQueue: Promise<unknown> = Promise.resolve();
+const pdfCache = new Map<string, Buffer>();
+
+/**
+ * 取得共用的瀏覽器；瀏覽器已關閉或啟動失敗時重新啟動
+ */
+async function getBrowser(): Promise<Browser> {
+  if (sharedBrowser) {
+    const browser = await sharedBrowser.catch(() => null);
+    if (browser?.isConnected()) return browser;
+  }
+  sharedBrowser = chromium.launch({
+    headless: true,
+    args: ['--no-sandbox', '--disable-setuid-sandbox']
+  });
+  return sharedBrowser;
+}
+
+/**
+ * 是否為內網、本機或保留地址(PDF 渲染不能用圖片網址探測內部服務)
+ */
+export function isPrivateAddress(address: string): boolean {
+  const lower = address.toLowerCase();
+  if (isIP(lower) === 6) {
+    const mapped = lower.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped) return isPrivateAddress(mapped[1]);
+    return lower === "::" || lower === "::1" || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower) || lower.startsWith("ff");
+  }
+  if (isIP(lower) !== 4) return true;
+
+  const [a, b] = lower.split(".").map(Number);
+  return a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128)
+    || (a === 169 && b === 254)
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 192 && b === 0)
+    || (a === 198 && (b === 18 || b === 19));
+}
+
+/**
+ * PDF 頁面只載入 data: 和公開網址的圖片，其他請求一律中止
+ */
+async function guardPdfRequest(route: Route) {
+  const request = route.request();
+  const url = new URL(request.url());
+  if (url.protocol === "data:") return route.continue();
+
+  const allowed = (url.protocol === "https:" || url.protocol === "http:")
+    && request.resourceType() === "image"
+    && await lookup(url.hostname.replace(/^\[|\]$/g, ""), { all: true })
+      .then(addresses => addresses.length > 0 && addresses.every(({ address }) => !isPrivateAddress(address)))
+      .catch(() => false);
+  if (allowed) return route.continue();
+
+  console.warn('[recipeExport] 🚫 Blocked PDF resource request:', url.href.slice(0, 200));
+  return route.abort("blockedbyclient");
+}
+
+/**
+ * 用 Playwright 把 HTML 轉成 PDF；同一時間只渲染一個
+ */
+function renderPdf(html: string, paperFormat: "A4" | "A5"): Promise<Buffer> {
+  const render = renderQueue.then(() => renderPdfNow(html, paperFormat));
+  renderQueue = render.catch(() => undefined);
+  return render;
+}
+
+async function renderPdfNow(html: string, paperFormat: "A4" | "A5"): Promise<Buffer> {
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+  try {
+    await page.route("**/*", guardPdfRequest);
+    // 圖片載入失敗不影響匯出
+    await page.setContent(html, { waitUntil: "networkidle", timeout: PDF_RENDER_TIMEOUT_MS }).catch(error => {
+      console.warn('[recipeExport] ⚠️  Page did not settle before timeout, continuing:', error.message);
+    });
+    return await page.pdf({
+      format: paperFormat,
+      printBackground: true,
+      margin: paperFormat === "A5"
+        ? { top: "10mm", bottom: "10mm", left: "10mm", right: "10mm" }
+        : { top: "15mm", bottom: "15mm", left: "15mm", right: "15mm" },
+    });
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * 按格式匯出食譜
+ */
+export async function exportRecipe(recipe: RecipeExportData, format: RecipeExportFormat): Promise<RecipeExportFile> {
+  const fileName = buildExportFileName(recipe.title, format);
+  console.log(`[recipeExport] 📄 Exporting recipe ${recipe.id} as ${format}`);
+
+  if (format === "markdown") {
+    return {
+      fileName,
+      mimeType: "text/markdown",
+      content: Buffer.from(buildRecipeMarkdown(recipe), "utf-8"),
+    };
+  }
+
+  const cacheKey = `${recipe.id}:${new Date(recipe.updatedAt).getTime()}:${format}`;
+  const cached = pdfCache.get(cacheKey);
+  if (cached) {
+    return { fileName, mimeType: "application/pdf", content: cached };
+  }
+
+  const startTime = Date.now();
+  const content = format === "card"
+    ? await renderPdf(buildRecipeHtml(recipe, "card"), "A5")
+    : await renderPdf(buildRecipeHtml(recipe, "full"), "A4");
+  console.log(`[recipeExport] ✅ PDF rendered in ${Date.now() - startTime}ms (${content.length} bytes)`);
+
+  pdfCache.set(cacheKey, content);
+  if (pdfCache.size > PDF_CACHE_SIZE) {
+    pdfCache.delete(pdfCache.keys().next().value!);
+  }
+  return { fileName, mimeType: "application/pdf", content };
+}
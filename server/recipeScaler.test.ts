@@ -0,0 +1,21 @@
+import { describe, expect, it } from "vitest";
+import { scaleIngredients } from "./recipeScaler";
+
+describe("scaleIngredients", () => {
+  const ingredientList = [
+    { id: 1, name: "雞胸肉", amount: "300克", unit: null, calories: 360, notes: null },
+    { id: 2, name: "生抽", amount: "1", unit: "湯匙", calories: 8, notes: "調味" },
+    { id: 3, name: "鹽", amount: "適量", unit: null, calories: null, notes: null },
+  ];
+
+  it("should scale amounts and calories by the servings factor", () => {
+    const scaled = scaleIngredients(ingredientList, 2);
+    expect(scaled[0]).toMatchObject({ amount: "600克", originalAmount: "300克", calories: 720, scaled: true });
+    expect(scaled[1]).toMatchObject({ amount: "2", unit: "湯匙", calories: 16, notes: "調味", scaled: true });
+  });
+
+  it("should keep vague amounts as written", () => {
+    const scaled = scaleIngredients(ingredientList, 0.5);
+    expect(scaled[2]).toMatchObject({ amount: "適量", calories: null, scaled: false });
+  });
+});
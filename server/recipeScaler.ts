@@ -0,0 +1,130 @@
+import type { Ingredient } from "../drizzle/schema";
+import { scaleAmount, toIngredientQuantityFields } from "./quantityParser";
+import * as db from "./db";
+
+/**
+ * 食譜份量縮放
+ * 按新舊份數的比例改寫每個食材的份量；營養總量按比例縮放，每份卡路里不變
+ */
+
+export type ScaledIngredient = {
+  id: number;
+  name: string;
+  amount: string | null;
+  unit: string | null;
+  originalAmount: string | null;
+  originalUnit: string | null;
+  calories: number | null;
+  notes: string | null;
+  scaled: boolean; // false: 模糊份量(少許、適量)或無法解析，保持原樣
+};
+
+export function scaleIngredients(
+  ingredientList: Pick<Ingredient, "id" | "name" | "amount" | "unit" | "calories" | "notes">[],
+  factor: number
+): ScaledIngredient[] {
+  return ingredientList.map(ing => {
+    const scaled = scaleAmount(ing.amount, ing.unit, factor);
+    return {
+      id: ing.id,
+      name: ing.name,
+      amount: scaled.amount,
+      unit: scaled.unit,
+      originalAmount: ing.amount,
+      originalUnit: ing.unit,
+      calories: ing.calories !== null ? Math.round(ing.calories * factor) : null,
+      notes: ing.notes,
+      scaled: scaled.scaled,
+    };
+  });
+}
+
+/**
+ * 計算食譜縮放到指定份數後的食材和營養
+ */
+export async function scaleRecipe(recipeId: number, servings: number) {
+  const recipe = await db.getRecipeById(recipeId);
+  if (!recipe) {
+    throw new Error("食譜不存在");
+  }
+  if (servings <= 0) {
+    throw new Error("份數必須大於0");
+  }
+
+  const originalServings = recipe.servings && recipe.servings > 0 ? recipe.servings : 1;
+  const factor = servings / originalServings;
+  const scale = (value: number | null) => (value !== null ? Math.round(value * factor) : null);
+  const ingredientList = await db.getIngredientsByRecipeId(recipeId);
+
+  return {
+    recipe,
+    originalServings,
+    servings,
+    factor,
+    ingredients: scaleIngredients(ingredientList, factor),
+    nutrition: {
+      totalCalories: scale(recipe.totalCalories),
+      caloriesPerServing: recipe.caloriesPerServing,
+      protein: scale(recipe.protein),
+      carbs: scale(recipe.carbs),
+      fat: scale(recipe.fat),
+      fiber: scale(recipe.fiber),
+    },
+  };
+}
+
+/**
+ * 把縮放後的食譜另存為新食譜(複製步驟和分類)，返回新食譜 ID
+ */
+export async function saveScaledRecipe(recipeId: number, servings: number, userId: number) {
+  const scaled = await scaleRecipe(recipeId, servings);
+  const { recipe } = scaled;
+
+  const steps = await db.getCookingStepsByRecipeId(recipeId);
+  const categories = await db.getCategoriesByRecipeId(recipeId);
+
+  const newRecipeId = await db.createRecipeWithContent({
+    userId,
+    title: `${recipe.title}（${servings}人份）`,
+    description: recipe.description,
+    inputMethod: recipe.inputMethod,
+    sourceUrl: recipe.sourceUrl,
+    imageUrl: recipe.imageUrl,
+    videoUrl: recipe.videoUrl,
+    servings,
+    ...scaled.nutrition,
+    difficulty: recipe.difficulty,
+    prepTime: recipe.prepTime,
+    cookTime: recipe.cookTime,
+    totalTime: recipe.totalTime,
+    requiredEquipment: recipe.requiredEquipment,
+    aiAnalysis: recipe.aiAnalysis,
+    improvementSuggestions: recipe.improvementSuggestions,
+    allergens: recipe.allergens, // 食材名稱不變，過敏原相同
+    isPublished: false,
+  }, {
+    ingredients: scaled.ingredients.map((ing, i) => ({
+      name: ing.name,
+      amount: ing.amount,
+      unit: ing.unit,
+      ...toIngredientQuantityFields(ing.amount, ing.unit),
+      calories: ing.calories,
+      notes: ing.notes,
+      order: i + 1,
+    })),
+    steps: steps.map(step => ({
+      stepNumber: step.stepNumber,
+      instruction: step.instruction,
+      duration: step.duration,
+      temperature: step.temperature,
+      imageUrl: step.imageUrl,
+      tips: step.tips,
+      isPassive: step.isPassive,
+      dependsOn: step.dependsOn,
+    })),
+    categoryIds: categories.map(category => category.id),
+  });
+
+  console.log(`[recipeScaler] ✅ Saved recipe ${recipeId} scaled to ${servings} servings as recipe ${newRecipeId}`);
+  return newRecipeId;
+}
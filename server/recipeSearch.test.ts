@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { extractSearchTerms, splitHighlightSegments } from "@shared/search";
+import { buildSearchSnippet, buildTsQuery, escapeLikePattern } from "./recipeSearch";
+
+describe("extractSearchTerms", () => {
+  it("should split on spaces and punctuation, lowercase and dedupe", () => {
+    expect(extractSearchTerms("  Tomato,  番茄炒蛋！tomato ")).toEqual(["tomato", "番茄炒蛋"]);
+    expect(extractSearchTerms("&|!:*")).toEqual([]);
+  });
+});
+
+describe("buildTsQuery", () => {
+  it("should use prefix matching for latin words", () => {
+    expect(buildTsQuery("Chicken soup")).toBe("chicken:* & soup:*");
+  });
+
+  it("should turn CJK words into phrases of adjacent characters", () => {
+    expect(buildTsQuery("番茄 蛋")).toBe("(番 <-> 茄) & 蛋");
+    expect(buildTsQuery("3杯雞")).toBe("(3 <-> 杯 <-> 雞)");
+  });
+
+  it("should drop tsquery operators from user input", () => {
+    expect(buildTsQuery("egg & !tofu")).toBe("egg:* & tofu:*");
+    expect(buildTsQuery("  ")).toBeNull();
+  });
+});
+
+describe("escapeLikePattern", () => {
+  it("should escape LIKE wildcards", () => {
+    expect(escapeLikePattern("50%_off\\")).toBe("50\\%\\_off\\\\");
+  });
+});
+
+describe("buildSearchSnippet", () => {
+  const recipe = {
+    title: "家常小炒",
+    description: "簡單快手",
+    searchText: "家常小炒 簡單快手 豬肉 蒜頭 豉油 熱鑊下油，先爆香蒜頭再加入豬肉炒至熟透",
+  };
+
+  it("should return null when the title or description matches", () => {
+    expect(buildSearchSnippet(recipe, "小炒")).toBeNull();
+  });
+
+  it("should return the ingredient or step text that matched", () => {
+    expect(buildSearchSnippet(recipe, "豉油")).toContain("豉油");
+    expect(buildSearchSnippet(recipe, "牛肉")).toBeNull();
+  });
+});
+
+describe("splitHighlightSegments", () => {
+  it("should mark matched terms case-insensitively, longest first", () => {
+    expect(splitHighlightSegments("Tomato 番茄炒蛋", ["tomato", "番茄", "番茄炒蛋"])).toEqual([
+      { text: "Tomato", match: true },
+      { text: " ", match: false },
+      { text: "番茄炒蛋", match: true },
+    ]);
+  });
+
+  it("should return the whole text when there are no terms", () => {
+    expect(splitHighlightSegments("番茄", [])).toEqual([{ text: "番茄", match: false }]);
+  });
+});
@@ -0,0 +1,74 @@
+import { extractSearchTerms, isCjkChar } from "@shared/search";
+
+/**
+ * 食譜搜索查詢構建
+ *
+ * 資料庫端(scripts/recipe-search.sql，建庫後執行 pnpm db:setup-search)：
+ * - recipes.searchText 由觸發器維護，包含標題、描述、食材名稱和步驟文字
+ * - recipe_search_vector() 把中日韓文字逐字拆開再建立 tsvector，所以中文詞語用相鄰字的短語查詢(番 <-> 茄)匹配
+ * - pg_trgm 索引提供錯字容忍(word_similarity)和子字串匹配
+ */
+
+const SNIPPET_RADIUS = 30;
+
+/**
+ * 把搜索字串轉成 to_tsquery('simple', ...) 可用的查詢
+ * 英文/數字詞語使用前綴匹配，中文詞語使用逐字短語匹配；沒有有效關鍵詞時返回 null
+ */
+export function buildTsQuery(query: string): string | null {
+  const terms = extractSearchTerms(query);
+  if (terms.length === 0) return null;
+
+  return terms
+    .map(term => {
+      const chars = Array.from(term);
+      if (!chars.some(isCjkChar)) return `${term}:*`;
+
+      // 中文和英文混合的詞(例如「3杯雞」)拆成中文逐字、英文數字連續的片段
+      const tokens: string[] = [];
+      let buffer = "";
+      for (const char of chars) {
+        if (isCjkChar(char)) {
+          if (buffer) tokens.push(buffer);
+          buffer = "";
+          tokens.push(char);
+        } else {
+          buffer += char;
+        }
+      }
+      if (buffer) tokens.push(buffer);
+      return tokens.length > 1 ? `(${tokens.join(" <-> ")})` : tokens[0];
+    })
+    .join(" & ");
+}
+
+/**
+ * 轉義 LIKE 模式中的特殊字元
+ */
+export function escapeLikePattern(value: string) {
+  return value.replace(/[\\%_]/g, char => `\\${char}`);
+}
+
+/**
+ * 關鍵詞不在標題或描述時，從搜索文本(食材、步驟)截取包含關鍵詞的片段，讓用戶知道為甚麼會匹配
+ */
+export function buildSearchSnippet(
+  recipe: { title: string; description: string | null; searchText: string | null },
+  query: string
+): string | null {
+  const terms = extractSearchTerms(query);
+  if (terms.length === 0 || !recipe.searchText) return null;
+
+  const visibleText = `${recipe.title} ${recipe.description ?? ""}`.toLowerCase();
+  if (terms.some(term => visibleText.includes(term))) return null;
+
+  const lowerText = recipe.searchText.toLowerCase();
+  const positions = terms.map(term => lowerText.indexOf(term)).filter(index => index >= 0);
+  if (positions.length === 0) return null;
+
+  const position = Math.min(...positions);
+  const start = Math.max(0, position - SNIPPET_RADIUS);
+  const end = Math.min(recipe.searchText.length, position + SNIPPET_RADIUS);
+  const snippet = recipe.searchText.slice(start, end).trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < recipe.searchText.length ? "…" : ""}`;
+}
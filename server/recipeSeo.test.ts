@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildRecipeJsonLd,
+  buildSitemapXml,
+  formatIsoDuration,
+  getSeoRecipeId,
+  injectRecipeHeadTags,
+  type RecipeSeoData,
+} from "./recipeSeo";
+
+const BASE_URL = "https://co-dine.example.com";
+
+const recipe: RecipeSeoData = {
+  id: 42,
+  title: "番茄炒蛋 </script>",
+  description: "家常\n快手菜",
+  imageUrl: "/uploads/dish.jpg",
+  servings: 2,
+  prepTime: 5,
+  cookTime: 10,
+  totalTime: 90,
+  totalCalories: 400,
+  caloriesPerServing: null,
+  protein: 18,
+  carbs: 12,
+  fat: null,
+  fiber: null,
+  createdAt: new Date("2026-01-02T03:04:05.000Z"),
+  updatedAt: new Date("2026-02-03T04:05:06.000Z"),
+  ingredients: [
+    { name: "番茄", amount: "2個" },
+    { name: "鹽", amount: null },
+  ],
+  steps: [
+    { stepNumber: 2, instruction: "中火炒番茄和雞蛋", imageUrl: null },
+    { stepNumber: 1, instruction: "打散雞蛋", imageUrl: "https://cdn.example.com/step1.jpg" },
+  ],
+  categories: [
+    { name: "中式", type: "cuisine" },
+    { name: "高蛋白", type: "health" },
+  ],
+};
+
+describe("getSeoRecipeId", () => {
+  it("should only match public recipe pages", () => {
+    expect(getSeoRecipeId("/browse/42")).toBe(42);
+    expect(getSeoRecipeId("/browse/42/?ref=share")).toBe(42);
+    expect(getSeoRecipeId("/browse")).toBeNull();
+    expect(getSeoRecipeId("/recipes/42")).toBeNull();
+    expect(getSeoRecipeId("/browse/abc")).toBeNull();
+    expect(getSeoRecipeId("/browse/0")).toBeNull();
+  });
+});
+
+describe("formatIsoDuration", () => {
+  it("should convert minutes to ISO 8601 durations", () => {
+    expect(formatIsoDuration(15)).toBe("PT15M");
+    expect(formatIsoDuration(90)).toBe("PT1H30M");
+    expect(formatIsoDuration(120)).toBe("PT2H");
+    expect(formatIsoDuration(0)).toBeUndefined();
+    expect(formatIsoDuration(null)).toBeUndefined();
+  });
+});
+
+describe("buildRecipeJsonLd", () => {
+  it("should build a schema.org Recipe with per-serving nutrition", () => {
+    const jsonLd = buildRecipeJsonLd(recipe, BASE_URL);
+
+    expect(jsonLd["@type"]).toBe("Recipe");
+    expect(jsonLd.url).toBe(`${BASE_URL}/browse/42`);
+    expect(jsonLd.image).toEqual([`${BASE_URL}/uploads/dish.jpg`]);
+    expect(jsonLd.description).toBe("家常 快手菜");
+    expect(jsonLd.recipeYield).toBe("2 份");
+    expect(jsonLd.totalTime).toBe("PT1H30M");
+    expect(jsonLd.recipeCuisine).toBe("中式");
+    expect(jsonLd.keywords).toBe("高蛋白");
+    expect(jsonLd.recipeIngredient).toEqual(["2個 番茄", "鹽"]);
+    expect(jsonLd.recipeInstructions.map(step => step.text)).toEqual(["打散雞蛋", "中火炒番茄和雞蛋"]);
+    expect(jsonLd.recipeInstructions[0].image).toBe("https://cdn.example.com/step1.jpg");
+    expect(jsonLd.nutrition).toMatchObject({
+      calories: "200 kcal",
+      proteinContent: "9 g",
+      carbohydrateContent: "6 g",
+    });
+    expect(jsonLd.nutrition?.fatContent).toBeUndefined();
+  });
+
+  it("should omit nutrition when no values are known", () => {
+    const jsonLd = buildRecipeJsonLd({ ...recipe, totalCalories: null, protein: null, carbs: null }, BASE_URL);
+    expect(jsonLd.nutrition).toBeUndefined();
+  });
+});
+
+describe("injectRecipeHeadTags", () => {
+  const html = "<html>\n  <head>\n    <title>Co-Dine &amp; Friends</title>\n  </head>\n  <body></body>\n</html>";
+
+  it("should add OpenGraph tags and escaped JSON-LD to the head", () => {
+    const page = injectRecipeHeadTags(html, recipe, BASE_URL);
+
+    expect(page).toContain("<title>番茄炒蛋 &lt;/script&gt; | Co-Dine &amp; Friends</title>");
+    expect(page).toContain(`<meta property="og:url" content="${BASE_URL}/browse/42" />`);
+    expect(page).toContain('<meta property="og:site_name" content="Co-Dine &amp; Friends" />');
+    expect(page).toContain(`<link rel="canonical" href="${BASE_URL}/browse/42" />`);
+    expect(page).toContain('<meta name="twitter:card" content="summary_large_image" />');
+
+    // 標題中的 </script> 不能提前結束 JSON-LD
+    const jsonLd = page.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/)![1];
+    expect(jsonLd).not.toContain("<");
+    expect(JSON.parse(jsonLd).name).toBe("番茄炒蛋 </script>");
+    expect(page.indexOf("application/ld+json")).toBeLessThan(page.indexOf("</head>"));
+  });
+});
+
+describe("buildSitemapXml", () => {
+  it("should list the browse page and every published recipe", () => {
+    const xml = buildSitemapXml([{ id: 42, updatedAt: recipe.updatedAt }], BASE_URL);
+
+    expect(xml).toContain(`<loc>${BASE_URL}/browse</loc>`);
+    expect(xml).toContain(`<loc>${BASE_URL}/browse/42</loc>`);
+    expect(xml).toContain("<lastmod>2026-02-03T04:05:06.000Z</lastmod>");
+    expect(xml.startsWith('<?xml version="1.0" encoding="UTF-8"?>')).toBe(true);
+  });
+});
@@ -0,0 +1,266 @@
+import type { Express, Request } from "express";
+import type { Category, CookingStep, Ingredient, Recipe } from "../drizzle/schema";
+import { isSecureRequest } from "./_core/cookies";
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import { escapeHtml } from "./recipeExport";
+
+/**
+ * 已發佈食譜的 SEO
+ * 公開頁面 /browse/:id 由前端渲染，分享到社交平台或被搜尋引擎抓取時看不到內容，
+ * 所以由伺服器在 index.html 中加入 schema.org Recipe JSON-LD 和 OpenGraph 標籤，並提供 sitemap.xml
+ */
+
+type SeoIngredient = Pick<Ingredient, "name" | "amount">;
+type SeoStep = Pick<CookingStep, "stepNumber" | "instruction" | "imageUrl">;
+type SeoCategory = Pick<Category, "name" | "type">;
+
+export type RecipeSeoData = Pick<
+  Recipe,
+  | "id" | "title" | "description" | "imageUrl" | "servings" | "prepTime" | "cookTime" | "totalTime"
+  | "totalCalories" | "caloriesPerServing" | "protein" | "carbs" | "fat" | "fiber" | "createdAt" | "updatedAt"
+> & {
+  ingredients: SeoIngredient[];
+  steps: SeoStep[];
+  categories: SeoCategory[];
+};
+
+export type SitemapEntry = {
+  id: number;
+  updatedAt: Date;
+};
+
+// og:description 的長度上限(社交平台一般只顯示約 200 字)
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const RECIPE_PATH_PATTERN = /^\/browse\/(\d+)\/?(?:[?#].*)?$/;
+
+/**
+ * 從網址路徑取出公開食譜 id，不是 /browse/:id 時返回 null
+ */
+export function getSeoRecipeId(url: string): number | null {
+  const match = url.match(RECIPE_PATH_PATTERN);
+  if (!match) return null;
+  const id = Number(match[1]);
+  return Number.isSafeInteger(id) && id > 0 ? id : null;
+}
+
+/**
+ * 網站的公開網址：優先使用 PUBLIC_BASE_URL，否則按請求的協議和主機推算
+ */
+export function getPublicBaseUrl(req: Request): string {
+  if (ENV.publicBaseUrl) return ENV.publicBaseUrl.replace(/\/+$/, "");
+  return `${isSecureRequest(req) ? "https" : "http"}://${req.get("host")}`;
+}
+
+/**
+ * 分鐘轉成 ISO 8601 時長(例如 90 → PT1H30M)
+ */
+export function formatIsoDuration(minutes: number | null): string | undefined {
+  if (!minutes || minutes <= 0) return undefined;
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return `PT${hours > 0 ? `${hours}H` : ""}${rest > 0 || hours === 0 ? `${rest}M` : ""}`;
+}
+
+function toAbsoluteUrl(url: string | null, baseUrl: string): string | undefined {
+  if (!url) return undefined;
+  try {
+    return new URL(url, `${baseUrl}/`).toString();
+  } catch {
+    return undefined;
+  }
+}
+
+function buildDescription(recipe: RecipeSeoData): string {
+  const text = recipe.description?.trim()
+    || `${recipe.title}：${recipe.ingredients.map(ingredient => ingredient.name).join("、")}`;
+  const normalized = text.replace(/\s+/g, " ");
+  return normalized.length > MAX_DESCRIPTION_LENGTH
+    ? `${normalized.slice(0, MAX_DESCRIPTION_LENGTH - 1)}…`
+    : normalized;
+}
+
+// 資料庫中的營養素是整個食譜的總量，schema.org 的 NutritionInformation 以每份計
+function buildNutrition(recipe: RecipeSeoData) {
+  const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : 1;
+  const perServing = (value: number | null) => (value === null ? null : Math.round(value / servings));
+  const calories = recipe.caloriesPerServing ?? perServing(recipe.totalCalories);
+  const grams = (value: number | null) => {
+    const amount = perServing(value);
+    return amount === null ? undefined : `${amount} g`;
+  };
+
+  const nutrition = {
+    "@type": "NutritionInformation",
+    servingSize: "1 份",
+    calories: calories === null ? undefined : `${calories} kcal`,
+    proteinContent: grams(recipe.protein),
+    carbohydrateContent: grams(recipe.carbs),
+    fatContent: grams(recipe.fat),
+    fiberContent: grams(recipe.fiber),
+  };
+  const hasValues = [nutrition.calories, nutrition.proteinContent, nutrition.carbohydrateContent, nutrition.fatContent, nutrition.fiberContent]
+    .some(value => value !== undefined);
+  return hasValues ? nutrition : undefined;
+}
+
+/**
+ * 生成 schema.org Recipe 結構化資料
+ */
+export function buildRecipeJsonLd(recipe: RecipeSeoData, baseUrl: string) {
+  const url = `${baseUrl}/browse/${recipe.id}`;
+  const cuisines = recipe.categories.filter(category => category.type === "cuisine").map(category => category.name);
+  const keywords = recipe.categories.filter(category => category.type !== "cuisine").map(category => category.name);
+  const image = toAbsoluteUrl(recipe.imageUrl, baseUrl);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "Recipe",
+    "@id": url,
+    url,
+    name: recipe.title,
+    description: buildDescription(recipe),
+    image: image ? [image] : undefined,
+    datePublished: recipe.createdAt.toISOString(),
+    dateModified: recipe.updatedAt.toISOString(),
+    recipeYield: recipe.servings ? `${recipe.servings} 份` : undefined,
+    prepTime: formatIsoDuration(recipe.prepTime),
+    cookTime: formatIsoDuration(recipe.cookTime),
+    totalTime: formatIsoDuration(recipe.totalTime),
+    recipeCuisine: cuisines.length > 0 ? cuisines.join(", ") : undefined,
+    keywords: keywords.length > 0 ? keywords.join(", ") : undefined,
+    recipeIngredient: recipe.ingredients.map(ingredient =>
+      ingredient.amount ? `${ingredient.amount} ${ingredient.name}` : ingredient.name
+    ),
+    recipeInstructions: [...recipe.steps]
+      .sort((a, b) => a.stepNumber - b.stepNumber)
+      .map(step => ({
+        "@type": "HowToStep",
+        position: step.stepNumber,
+        text: step.instruction,
+        url: `${url}#step-${step.stepNumber}`,
+        image: toAbsoluteUrl(step.imageUrl, baseUrl),
+      })),
+    nutrition: buildNutrition(recipe),
+  };
+}
+
+// JSON 放在 <script> 內，要轉義 < 避免內容中的 </script> 提前結束標籤
+function serializeJsonLd(data: unknown): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
+
+/**
+ * 生成放進 <head> 的 OpenGraph、Twitter Card、canonical 和 JSON-LD 標籤
+ */
+export function buildRecipeHeadTags(recipe: RecipeSeoData, baseUrl: string, siteName: string): string {
+  const url = `${baseUrl}/browse/${recipe.id}`;
+  const description = buildDescription(recipe);
+  const image = toAbsoluteUrl(recipe.imageUrl, baseUrl);
+
+  const meta: Array<[attribute: "property" | "name", key: string, value: string | undefined]> = [
+    ["name", "description", description],
+    ["property", "og:type", "article"],
+    ["property", "og:site_name", siteName],
+    ["property", "og:title", recipe.title],
+    ["property", "og:description", description],
+    ["property", "og:url", url],
+    ["property", "og:image", image],
+    ["property", "article:published_time", recipe.createdAt.toISOString()],
+    ["property", "article:modified_time", recipe.updatedAt.toISOString()],
+    ["name", "twitter:card", image ? "summary_large_image" : "summary"],
+    ["name", "twitter:title", recipe.title],
+    ["name", "twitter:description", description],
+    ["name", "twitter:image", image],
+  ];
+
+  return [
+    `<link rel="canonical" href="${escapeHtml(url)}" />`,
+    ...meta
+      .filter(([, , value]) => value)
+      .map(([attribute, key, value]) => `<meta ${attribute}="${key}" content="${escapeHtml(value!)}" />`),
+    `<script type="application/ld+json">${serializeJsonLd(buildRecipeJsonLd(recipe, baseUrl))}</script>`,
+  ].join("\n    ");
+}
+
+/**
+ * 把食譜標籤加進 index.html：標題改為「食譜名稱 | 網站名稱」，其他標籤放在 </head> 前
+ */
+export function injectRecipeHeadTags(html: string, recipe: RecipeSeoData, baseUrl: string): string {
+  // 網站名稱取自原本的 <title>(已經是 HTML 轉義過的內容)
+  const siteNameHtml = html.match(/<title>([\s\S]*?)<\/title>/)?.[1].trim() ?? "";
+  const siteName = siteNameHtml
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, "&");
+  const title = siteNameHtml ? `${escapeHtml(recipe.title)} | ${siteNameHtml}` : escapeHtml(recipe.title);
+  const tags = buildRecipeHeadTags(recipe, baseUrl, siteName);
+
+  // 用函數作替換值，避免食譜內容中的 $ 被當成替換模式
+  return html
+    .replace(/<title>[\s\S]*?<\/title>/, () => `<title>${title}</title>`)
+    .replace("</head>", () => `  ${tags}\n  </head>`);
+}
+
+/**
+ * 生成 sitemap.xml：公開食譜列表頁和所有已發佈食譜
+ */
+export function buildSitemapXml(entries: SitemapEntry[], baseUrl: string): string {
+  const urls = [
+    `  <url>\n    <loc>${escapeHtml(`${baseUrl}/browse`)}</loc>\n    <changefreq>daily</changefreq>\n  </url>`,
+    ...entries.map(entry =>
+      `  <url>\n    <loc>${escapeHtml(`${baseUrl}/browse/${entry.id}`)}</loc>\n    <lastmod>${entry.updatedAt.toISOString()}</lastmod>\n  </url>`
+    ),
+  ];
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...urls,
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+/**
+ * 如果請求的是已發佈食譜的公開頁面，在 index.html 中加入 SEO 標籤；其他頁面原樣返回
+ * 讀取資料庫失敗時只記錄錯誤，不影響頁面本身
+ */
+export async function renderRecipeSeoHtml(req: Request, html: string): Promise<string> {
+  const recipeId = getSeoRecipeId(req.originalUrl);
+  if (recipeId === null) return html;
+
+  try {
+    const recipe = await db.getRecipeById(recipeId);
+    if (!recipe || !recipe.isPublished) return html;
+    return injectRecipeHeadTags(html, recipe, getPublicBaseUrl(req));
+  } catch (error) {
+    console.error(`[RecipeSeo] ❌ 生成食譜 ${recipeId} 的 SEO 標籤失敗:`, error);
+    return html;
+  }
+}
+
+export function registerSeoRoutes(app: Express) {
+  app.get("/sitemap.xml", async (req, res) => {
+    try {
+      const entries = await db.getPublishedRecipesForSitemap();
+      res
+        .status(200)
+        .set({ "Content-Type": "application/xml; charset=utf-8", "Cache-Control": "public, max-age=3600" })
+        .end(buildSitemapXml(entries, getPublicBaseUrl(req)));
+    } catch (error) {
+      console.error("[RecipeSeo] ❌ 生成 sitemap.xml 失敗:", error);
+      res.status(500).end();
+    }
+  });
+
+  app.get("/robots.txt", (req, res) => {
+    res
+      .status(200)
+      .set({ "Content-Type": "text/plain; charset=utf-8" })
+      .end(`User-agent: *\nAllow: /\n\nSitemap: ${getPublicBaseUrl(req)}/sitemap.xml\n`);
+  });
+}
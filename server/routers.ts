@@ -1,48 +1,101 @@
-import { COOKIE_NAME } from "@shared/const";
+import { COOKIE_NAME, ONE_YEAR_MS, UNAUTHED_ERR_MSG } from "@shared/const";
 import { getSessionCookieOptions } from "./_core/cookies";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, router } from "./_core/trpc";
+import { adminProcedure, protectedProcedure, publicProcedure, router } from "./_core/trpc";
 import { z } from "zod";
-import { invokeLLM } from "./_core/llm";
-import { scrapeWebpage, simpleFetch } from "./webScraper";
+import { safeInvokeLLM } from "./llmHelpers";
+import { generateMachineProgram, parseMachineProgram } from "./machineInstructions";
+import { exportRecipe, RECIPE_EXPORT_FORMATS } from "./recipeExport";
+import {
+  commitBulkImport,
+  getDefaultImportIndexes,
+  MAX_BULK_IMPORT_BYTES,
+  previewBulkImport,
+  toBulkImportPreview,
+} from "./bulkImport";
+import { calculateNutrition, recalculateRecipeNutrition } from "./nutritionEngine";
+import { toIngredientQuantityFields } from "./quantityParser";
+import { detectIngredientAllergens, refreshRecipeAllergens, summarizeRecipeAllergens } from "./allergens";
+import { ALLERGEN_CODES, ALLERGEN_LABELS } from "@shared/allergens";
+import { guessPassiveStep } from "@shared/timeline";
+import { saveScaledRecipe, scaleRecipe } from "./recipeScaler";
+import { applySuggestion, parseSuggestionChanges, previewSuggestion } from "./suggestionApply";
+import { proposeSubstitutionStepEdits, substituteIngredient, type SubstitutionOption } from "./ingredientSubstitution";
+import {
+  diffSnapshots,
+  normalizeSnapshot,
+  RECIPE_DIFF_FIELD_KEYS,
+  restoreVersionParts,
+  snapshotIngredientRows,
+  snapshotRecipeFields,
+} from "./versionDiff";
+import { healthRulesSchema, scoreRecipe } from "./healthScore";
+import { HEALTH_PROFILE_KEYS } from "@shared/healthScore";
+import { generateRecipeImage, generateStepImage } from "./dishImage";
+import { kickImportWorker } from "./importWorker";
+import type { ImportResult } from "./weblinkImport";
 import { storagePut } from "./storage";
+import { canEditRecipe, canPublishRecipe, canViewRecipe, requirePublishAllowed, requireRecipeOwner } from "./ownership";
+import { LOCAL_OPEN_ID_PREFIX, sdk } from "./_core/sdk";
+import { hashPassword, verifyPassword } from "./_core/password";
 import { ENV } from "./_core/env";
 import * as db from "./db";
-import { eq } from "drizzle-orm";
-import { ingredients, cookingSteps, recipeCategories, InsertRecipe } from "../drizzle/schema";
-
-// Helper function to wrap AI calls with error handling
-async function safeInvokeLLM(params: Parameters<typeof invokeLLM>[0]): Promise<ReturnType<typeof invokeLLM>> {
-  try {
-    return await invokeLLM(params);
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    if (errorMessage.includes('not configured') || errorMessage.includes('missing')) {
-      throw new Error(`AI服務未配置: ${errorMessage}。請設置 BUILT_IN_FORGE_API_KEY 和 BUILT_IN_FORGE_API_URL 環境變量。`);
-    }
-    if (errorMessage.includes('地區不可用') || errorMessage.includes('unsupported_country')) {
-      throw new Error(errorMessage); // Already translated, pass through
-    }
-    throw error;
-  }
-}
+import { TRPCError } from "@trpc/server";
+import { InsertRecipe, type User } from "../drizzle/schema";
+import type { TrpcContext } from "./_core/context";
 
 // ========== 輸入驗證 Schemas ==========
 
 const createRecipeSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional(),
-  inputMethod: z.enum(["manual", "image", "weblink"]),
+  inputMethod: z.enum(["manual", "image", "weblink", "voice"]),
   sourceUrl: z.string().optional(),
   imageUrl: z.string().optional(),
   videoUrl: z.string().optional(),
   servings: z.number().default(1),
 });
 
+const localCredentialsSchema = z.object({
+  username: z.string().trim().min(3).max(32).regex(/^[a-zA-Z0-9_.-]+$/, "用戶名只可包含英文字母、數字、底線、點和連字號").transform(v => v.toLowerCase()),
+  password: z.string().min(8).max(128),
+});
+
 const analyzeWeblinkSchema = z.object({
   url: z.string().url(),
 });
 
+// 上傳圖片大小上限(解碼後)
+const MAX_IMPORT_IMAGE_BYTES = 10 * 1024 * 1024;
+
+const analyzeImageSchema = z.object({
+  imageBase64: z.string().min(1), // 不含 data: 前綴的 base64 內容
+  mimeType: z.enum(["image/jpeg", "image/png", "image/webp", "image/heic"]),
+});
+
+// 語音轉錄服務的檔案大小上限
+const MAX_IMPORT_AUDIO_BYTES = 16 * 1024 * 1024;
+
+const analyzeVoiceSchema = z.object({
+  audioBase64: z.string().min(1), // 不含 data: 前綴的 base64 內容
+  mimeType: z.enum(["audio/webm", "audio/ogg", "audio/mp4", "audio/mpeg", "audio/wav"]),
+});
+
+const bulkImportSchema = z.object({
+  fileName: z.string().min(1),
+  contentBase64: z.string().min(1), // 不含 data: 前綴的 base64 內容
+  dryRun: z.boolean().default(true), // 只預覽，不寫入資料庫
+  rowIndexes: z.array(z.number().int()).optional(), // 要匯入的食譜；未提供時匯入所有沒有錯誤而且不重複的食譜
+});
+
+const AUDIO_EXTENSIONS: Record<z.infer<typeof analyzeVoiceSchema>["mimeType"], string> = {
+  "audio/webm": "webm",
+  "audio/ogg": "ogg",
+  "audio/mp4": "m4a",
+  "audio/mpeg": "mp3",
+  "audio/wav": "wav",
+};
+
 const manualRecipeSchema = z.object({
   title: z.string().min(1),
   description: z.string().optional(),
@@ -63,6 +116,8 @@ const manualRecipeSchema = z.object({
     duration: z.number().optional(),
     temperature: z.string().optional(),
     tips: z.string().optional(),
+    isPassive: z.boolean().optional(),
+    dependsOn: z.array(z.number().int()).nullable().optional(),
   })),
   categoryIds: z.array(z.number()).optional(),
 });
@@ -81,6 +136,34 @@ const processSuggestionSchema = z.object({
   suggestionId: z.number(),
 });
 
+const substitutionTargetSchema = z.object({
+  ingredientId: z.number(),
+  recipeId: z.number(),
+  newName: z.string(),
+  newAmount: z.string().optional(),
+  newUnit: z.string().optional(),
+});
+
+const substitutionStepEditSchema = z.object({
+  stepNumber: z.number().int(),
+  instruction: z.string().min(1),
+  duration: z.number().int().nullable(),
+  temperature: z.string().nullable(),
+  tips: z.string().nullable(),
+  reason: z.string().nullable(),
+  // 產生建議時的步驟內容，用於檢查步驟之後有沒有被修改
+  before: z.object({
+    instruction: z.string(),
+    duration: z.number().int().nullable(),
+    temperature: z.string().nullable(),
+  }),
+});
+
+const applySuggestionSchema = z.object({
+  suggestionId: z.number(),
+  mode: z.enum(["update", "fork"]), // update: 更新原食譜；fork: 另存為新食譜
+});
+
 const updateRecipeSchema = z.object({
   id: z.number(),
   title: z.string().optional(),
@@ -119,6 +202,8 @@ const updateCookingStepSchema = z.object({
   temperature: z.string().optional(),
   tips: z.string().optional(),
   order: z.number().optional(),
+  isPassive: z.boolean().optional(),
+  dependsOn: z.array(z.number().int()).nullable().optional(), // null 表示接上一步，[] 表示一開始就可進行
 });
 
 const updateRecipeCategoriesSchema = z.object({
@@ -133,16 +218,45 @@ const browseRecipesSchema = z.object({
   maxCalories: z.number().optional(),
   minProtein: z.number().optional(),
   maxProtein: z.number().optional(),
+  excludeAllergens: z.array(z.enum(ALLERGEN_CODES)).optional(),
+  healthProfile: z.enum(HEALTH_PROFILE_KEYS).optional(),
+  sort: z.enum(["newest", "healthScore"]).optional(),
   limit: z.number().default(20),
   offset: z.number().default(0),
 });
 
+// 登入成功後寫入 session cookie(與 OAuth 回調使用相同的 session 格式)
+async function setSessionCookie(ctx: TrpcContext, user: User) {
+  const sessionToken = await sdk.createSessionToken(user.openId, {
+    name: user.name || user.openId,
+    expiresInMs: ONE_YEAR_MS,
+  });
+  const cookieOptions = getSessionCookieOptions(ctx.req);
+  ctx.res.cookie(COOKIE_NAME, sessionToken, { ...cookieOptions, maxAge: ONE_YEAR_MS });
+}
+
+// 檢查並保存用戶上傳的圖片(食譜封面、步驟圖片)，返回圖片網址
+async function storeUploadedImage(keyPrefix: string, input: z.infer<typeof analyzeImageSchema>) {
+  const buffer = Buffer.from(input.imageBase64, "base64");
+  if (buffer.length === 0) {
+    throw new Error("圖片內容無效，請重新選擇圖片");
+  }
+  if (buffer.length > MAX_IMPORT_IMAGE_BYTES) {
+    throw new Error("圖片太大，請上傳 10MB 以內的圖片");
+  }
+
+  const extension = input.mimeType.split("/")[1];
+  const { url } = await storagePut(`${keyPrefix}-${Date.now()}.${extension}`, buffer, input.mimeType);
+  return url;
+}
+
 // 版本歷史 Router
 const versionsRouter = router({
   // 獲取食譜的所有版本歷史
-  list: publicProcedure
+  list: protectedProcedure
     .input(z.object({ recipeId: z.number() }))
     .query(async ({ input, ctx }) => {
+      await requireRecipeOwner(ctx.user, input.recipeId);
       const versions = await db.getRecipeVersions(input.recipeId);
       return versions.map(v => ({
         ...v,
@@ -152,11 +266,12 @@ const versionsRouter = router({
     }),
 
   // 獲取特定版本的詳細資訊
-  getById: publicProcedure
+  getById: protectedProcedure
     .input(z.object({ versionId: z.number() }))
-    .query(async ({ input }) => {
+    .query(async ({ input, ctx }) => {
       const version = await db.getRecipeVersion(input.versionId);
       if (!version) return null;
+      await requireRecipeOwner(ctx.user, version.recipeId);
       return {
         ...version,
         snapshotData: JSON.parse(version.snapshotData),
@@ -165,100 +280,318 @@ const versionsRouter = router({
     }),
 
   // 還原到指定版本
-  restore: publicProcedure
+  restore: protectedProcedure
     .input(z.object({ versionId: z.number() }))
     .mutation(async ({ input, ctx }) => {
       const version = await db.getRecipeVersion(input.versionId);
       if (!version) throw new Error("版本不存在");
+      const recipe = await requireRecipeOwner(ctx.user, version.recipeId);
 
-      const snapshotData = JSON.parse(version.snapshotData);
+      const snapshot = normalizeSnapshot(JSON.parse(version.snapshotData));
       const recipeId = version.recipeId;
 
-      // 在還原之前，先創建當前狀態的快照
+      // 還原前的快照、還原內容(食譜基本資訊、食材、步驟和分類關聯)和還原後的版本記錄在同一事務中寫入
       const currentSnapshot = await db.getRecipeSnapshotData(recipeId);
-      if (currentSnapshot) {
-        await db.createRecipeVersion(
-          recipeId,
-          1, // Default user ID since auth is disabled
-          currentSnapshot,
-          `還原前的快照 (即將還原到版本 ${version.versionNumber})`,
-          []
-        );
-      }
-
-      // 還原食譜基本資訊
-      await db.updateRecipe(recipeId, {
-        title: snapshotData.recipe.title,
-        description: snapshotData.recipe.description,
-        servings: snapshotData.recipe.servings,
-        totalCalories: snapshotData.recipe.totalCalories,
-        caloriesPerServing: snapshotData.recipe.caloriesPerServing,
-        protein: snapshotData.recipe.protein,
-        carbs: snapshotData.recipe.carbs,
-        fat: snapshotData.recipe.fat,
-        fiber: snapshotData.recipe.fiber,
-        isPublished: snapshotData.recipe.isPublished,
+      await db.restoreRecipeParts(recipeId, {
+        recipe: {
+          ...snapshotRecipeFields(snapshot, ["title", "description", "servings", "totalCalories", "caloriesPerServing", "protein", "carbs", "fat", "fiber"]),
+          // 被管理員下架的食譜還原後仍保持未發佈
+          isPublished: Boolean(snapshot.recipe.isPublished) && canPublishRecipe(ctx.user, recipe),
+        },
+        ingredients: snapshotIngredientRows(snapshot.ingredients),
+        steps: snapshot.steps,
+        // 版本之後被刪除的分類不再關聯
+        categoryIds: await db.getExistingCategoryIds(snapshot.categories.map(category => category.id)),
+      }, currentSnapshot ? {
+        userId: ctx.user.id,
+        snapshotData: currentSnapshot,
+        changeDescription: `還原前的快照 (即將還原到版本 ${version.versionNumber})`,
+        changedFields: [],
+      } : undefined, {
+        userId: ctx.user.id,
+        changeDescription: `已還原到版本 ${version.versionNumber}`,
+        changedFields: ["restored"],
       });
+      await refreshRecipeAllergens(recipeId);
 
-      // 刪除現有食材和步驟，然後重新創建
-      // 注意：這是簡化的實現，實際應用中可能需要更精細的處理
-      const dbInstance = await db.getDb();
-      if (dbInstance) {
-        // 刪除舊食材
-        await dbInstance.delete(ingredients).where(eq(ingredients.recipeId, recipeId));
-        // 刪除舊步驟
-        await dbInstance.delete(cookingSteps).where(eq(cookingSteps.recipeId, recipeId));
-        // 刪除舊分類關聯
-        await dbInstance.delete(recipeCategories).where(eq(recipeCategories.recipeId, recipeId));
-
-        // 重新創建食材
-        for (const ing of snapshotData.ingredients) {
-          await db.createIngredient({
-            recipeId,
-            name: ing.name,
-            amount: ing.amount,
-            unit: ing.unit,
-            calories: ing.calories,
-            notes: ing.notes,
-            order: ing.order,
-          });
-        }
+      return { success: true, versionNumber: version.versionNumber };
+    }),
 
-        // 重新創建步驟
-        for (const step of snapshotData.steps) {
-          await db.createCookingStep({
-            recipeId,
-            stepNumber: step.stepNumber,
-            instruction: step.instruction,
-            duration: step.duration,
-            temperature: step.temperature,
-            tips: step.tips,
-          });
-        }
+  // 比較兩個版本；versionId 為 null 時表示目前的食譜
+  compare: protectedProcedure
+    .input(z.object({
+      recipeId: z.number(),
+      fromVersionId: z.number().nullable(),
+      toVersionId: z.number().nullable(),
+    }))
+    .query(async ({ input, ctx }) => {
+      await requireRecipeOwner(ctx.user, input.recipeId);
 
-        // 重新創建分類關聯
-        for (const cat of snapshotData.categories) {
-          await db.addRecipeCategory(recipeId, cat.id);
+      const loadSnapshot = async (versionId: number | null) => {
+        if (versionId === null) {
+          return normalizeSnapshot(await db.getRecipeSnapshotData(input.recipeId));
+        }
+        const version = await db.getRecipeVersion(versionId);
+        if (!version || version.recipeId !== input.recipeId) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "版本不存在" });
         }
+        return normalizeSnapshot(JSON.parse(version.snapshotData));
+      };
+
+      return diffSnapshots(await loadSnapshot(input.fromVersionId), await loadSnapshot(input.toVersionId));
+    }),
+
+  // 只還原版本中選中的部分(食譜欄位、食材、分類或個別步驟)
+  restoreParts: protectedProcedure
+    .input(z.object({
+      versionId: z.number(),
+      fields: z.array(z.enum(RECIPE_DIFF_FIELD_KEYS)).optional(),
+      ingredients: z.boolean().optional(),
+      categories: z.boolean().optional(),
+      stepKeys: z.array(z.string()).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const version = await db.getRecipeVersion(input.versionId);
+      if (!version) throw new Error("版本不存在");
+      const recipe = await requireRecipeOwner(ctx.user, version.recipeId);
+      if (input.fields?.includes("isPublished")) {
+        requirePublishAllowed(ctx.user, recipe);
       }
 
-      // 創建還原操作的版本記錄
-      await db.createRecipeVersion(
-        recipeId,
-        1, // Default user ID since auth is disabled
-        snapshotData,
-        `已還原到版本 ${version.versionNumber}`,
-        ["restored"]
-      );
+      const { versionId, ...parts } = input;
+      const result = await restoreVersionParts(version, parts, ctx.user.id);
+      return { success: true, versionNumber: version.versionNumber, restored: result.restored };
+    }),
+});
 
-      return { success: true, versionNumber: version.versionNumber };
+// 背景導入任務 Router
+const importJobsRouter = router({
+  // 查詢導入任務的進度與結果
+  getById: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .query(async ({ input, ctx }) => {
+      const job = await db.getImportJobById(input.id);
+      if (!job || job.userId !== ctx.user.id) return null;
+      return {
+        ...job,
+        resultData: job.resultData ? (JSON.parse(job.resultData) as ImportResult) : null,
+      };
+    }),
+
+  // 列出當前用戶尚未完成的導入任務
+  listActive: protectedProcedure.query(async ({ ctx }) => {
+    return await db.getActiveImportJobsByUserId(ctx.user.id);
+  }),
+});
+
+const categoryTypeSchema = z.enum(["ingredient", "cuisine", "method", "health"]);
+
+// 管理後台 Router(只限管理員)
+const adminRouter = router({
+  // 用戶列表(包括每個用戶的食譜數量)
+  listUsers: adminProcedure.query(async () => {
+    return await db.getAllUsers();
+  }),
+
+  // 設定用戶角色
+  setUserRole: adminProcedure
+    .input(z.object({ userId: z.number(), role: z.enum(["user", "admin"]) }))
+    .mutation(async ({ input, ctx }) => {
+      // 避免管理員取消自己的權限後無法再進入後台
+      if (input.userId === ctx.user.id && input.role !== "admin") {
+        throw new Error("不能取消自己的管理員權限");
+      }
+      await db.updateUserRole(input.userId, input.role);
+      return { success: true };
+    }),
+
+  // 分類列表(包括使用中的食譜數量)
+  listCategories: adminProcedure.query(async () => {
+    const [allCategories, usage] = await Promise.all([db.getAllCategories(), db.getCategoryUsageCounts()]);
+    const usageMap = new Map(usage.map(u => [u.categoryId, u.recipeCount]));
+    return allCategories.map(category => ({
+      ...category,
+      recipeCount: usageMap.get(category.id) ?? 0,
+    }));
+  }),
+
+  createCategory: adminProcedure
+    .input(z.object({
+      name: z.string().trim().min(1).max(100),
+      type: categoryTypeSchema,
+      description: z.string().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const categoryId = await db.createCategory(input);
+      return { categoryId };
+    }),
+
+  // 重新命名分類
+  updateCategory: adminProcedure
+    .input(z.object({
+      id: z.number(),
+      name: z.string().trim().min(1).max(100),
+      description: z.string().nullable().optional(),
+    }))
+    .mutation(async ({ input }) => {
+      const { id, ...data } = input;
+      await db.updateCategory(id, data);
+      return { success: true };
+    }),
+
+  // 合併分類：source 的食譜轉到 target，然後刪除 source
+  mergeCategories: adminProcedure
+    .input(z.object({ sourceId: z.number(), targetId: z.number() }))
+    .mutation(async ({ input }) => {
+      if (input.sourceId === input.targetId) {
+        throw new Error("不能把分類合併到自己");
+      }
+      const [source, target] = await Promise.all([
+        db.getCategoryById(input.sourceId),
+        db.getCategoryById(input.targetId),
+      ]);
+      if (!source || !target) {
+        throw new Error("找不到分類");
+      }
+      if (source.type !== target.type) {
+        throw new Error("只能合併相同類型的分類");
+      }
+      await db.mergeCategories(input.sourceId, input.targetId);
+      return { success: true };
+    }),
+
+  deleteCategory: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      await db.deleteCategory(input.id);
+      return { success: true };
+    }),
+
+  // 審核隊列：已發佈的食譜
+  listPublishedRecipes: adminProcedure
+    .input(z.object({ limit: z.number().min(1).max(200).default(50) }))
+    .query(async ({ input }) => {
+      return await db.getPublishedRecipesForModeration(input.limit);
+    }),
+
+  // 下架食譜(取消發佈，作者仍可在控制台看到)
+  // 下架食譜：作者不能自行重新發佈，管理員重新發佈時解除
+  unpublishRecipe: adminProcedure
+    .input(z.object({ id: z.number() }))
+    .mutation(async ({ input }) => {
+      await db.updateRecipe(input.id, { isPublished: false, moderationHidden: true });
+      return { success: true };
+    }),
+
+  // 審核隊列：最新評論
+  listReviews: adminProcedure
+    .input(z.object({ limit: z.number().min(1).max(200).default(50) }))
+    .query(async ({ input }) => {
+      return await db.getReviewsForModeration(input.limit);
+    }),
+
+  // 隱藏或恢復評論
+  setReviewHidden: adminProcedure
+    .input(z.object({ id: z.number(), isHidden: z.boolean() }))
+    .mutation(async ({ input }) => {
+      await db.setReviewHidden(input.id, input.isHidden);
+      return { success: true };
+    }),
+  // 修改健康評分配置的名稱、說明和規則
+  updateHealthProfile: adminProcedure
+    .input(z.object({
+      key: z.enum(HEALTH_PROFILE_KEYS),
+      name: z.string().trim().min(1).max(100),
+      description: z.string().trim().max(500).nullable(),
+      rules: healthRulesSchema,
+    }))
+    .mutation(async ({ input }) => {
+      await db.upsertHealthProfile({ ...input, rules: JSON.stringify(input.rules) });
+      return { success: true };
+    }),
+
+  // 恢復默認規則
+  resetHealthProfile: adminProcedure
+    .input(z.object({ key: z.enum(HEALTH_PROFILE_KEYS) }))
+    .mutation(async ({ input }) => {
+      await db.deleteHealthProfile(input.key);
+      return { success: true };
+    }),
+});
+
+// 健康評分 Router
+const healthProfilesRouter = router({
+  // 所有飲食配置及其規則
+  list: publicProcedure.query(async () => {
+    return await db.getHealthProfiles();
+  }),
+
+  // 按指定配置計算食譜評分(食譜詳情和對比頁使用)
+  score: publicProcedure
+    .input(z.object({
+      recipeIds: z.array(z.number()).min(1).max(10),
+      profile: z.enum(HEALTH_PROFILE_KEYS).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const profile = await db.getHealthProfile(input.profile);
+      const scores = await Promise.all(
+        input.recipeIds.map(async (recipeId) => {
+          const recipe = await db.getRecipeById(recipeId);
+          if (!recipe || !canViewRecipe(ctx.user, recipe)) return null;
+          return { recipeId, ...scoreRecipe(recipe, profile.rules) };
+        })
+      );
+      return { profile: profile.key, scores: scores.filter((score) => score !== null) };
     }),
 });
 
 export const appRouter = router({
   system: systemRouter,
   auth: router({
-    me: publicProcedure.query(() => null), // Auth disabled - return null
+    me: publicProcedure.query(({ ctx }) => ctx.user),
+
+    // 本地帳號註冊(用戶名/密碼)，成功後直接登入
+    register: publicProcedure
+      .input(localCredentialsSchema.extend({ name: z.string().trim().max(100).optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const existing = await db.getUserCredentialByUsername(input.username);
+        if (existing) {
+          throw new TRPCError({ code: "CONFLICT", message: "用戶名已被使用" });
+        }
+
+        const user = await db.createLocalUser(
+          {
+            openId: `${LOCAL_OPEN_ID_PREFIX}${input.username}`,
+            name: input.name || input.username,
+            loginMethod: "local",
+            lastSignedIn: new Date(),
+          },
+          { username: input.username, passwordHash: await hashPassword(input.password) }
+        );
+        // 同時註冊同一用戶名時，後提交的一方撞到唯一索引
+        if (!user) {
+          throw new TRPCError({ code: "CONFLICT", message: "用戶名已被使用" });
+        }
+
+        await setSessionCookie(ctx, user);
+        return user;
+      }),
+
+    // 本地帳號登入
+    login: publicProcedure
+      .input(localCredentialsSchema)
+      .mutation(async ({ ctx, input }) => {
+        const credential = await db.getUserCredentialByUsername(input.username);
+        const valid = credential ? await verifyPassword(input.password, credential.passwordHash) : false;
+        const user = credential && valid ? await db.getUserById(credential.userId) : undefined;
+        if (!user) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "用戶名或密碼錯誤" });
+        }
+
+        await db.upsertUser({ openId: user.openId, lastSignedIn: new Date() });
+        await setSessionCookie(ctx, user);
+        return user;
+      }),
     logout: publicProcedure.mutation(({ ctx }) => {
       const cookieOptions = getSessionCookieOptions(ctx.req);
       ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
@@ -270,17 +603,17 @@ export const appRouter = router({
 
   // ========== Recipe Management ==========
   recipes: router({
-    // 獲取所有食譜
-    list: publicProcedure.query(async () => {
-      return await db.getAllRecipes();
+    // 獲取當前用戶的食譜
+    list: protectedProcedure.query(async ({ ctx }) => {
+      return await db.getRecipesByUserId(ctx.user.id);
     }),
 
-    // 獲取單個食譜詳情(包含食材和步驟)
+    // 獲取單個食譜詳情(包含食材和步驟)，未發佈的食譜只有作者和管理員可見
     getById: publicProcedure
       .input(z.object({ id: z.number() }))
-      .query(async ({ input }) => {
+      .query(async ({ input, ctx }) => {
         const recipe = await db.getRecipeById(input.id);
-        if (!recipe) return null;
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) return null;
 
         const ingredients = await db.getIngredientsByRecipeId(input.id);
         const steps = await db.getCookingStepsByRecipeId(input.id);
@@ -288,6 +621,7 @@ export const appRouter = router({
 
         return {
           ...recipe,
+          allergens: summarizeRecipeAllergens(ingredients),
           ingredients,
           steps,
           categories,
@@ -297,11 +631,11 @@ export const appRouter = router({
     // 批量獲取多個食譜詳情(用於對比)
     getByIds: publicProcedure
       .input(z.object({ ids: z.array(z.number()) }))
-      .query(async ({ input }) => {
+      .query(async ({ input, ctx }) => {
         const recipes = await Promise.all(
           input.ids.map(async (id) => {
             const recipe = await db.getRecipeById(id);
-            if (!recipe) return null;
+            if (!recipe || !canViewRecipe(ctx.user, recipe)) return null;
 
             const ingredients = await db.getIngredientsByRecipeId(id);
             const cookingSteps = await db.getCookingStepsByRecipeId(id);
@@ -309,6 +643,7 @@ export const appRouter = router({
 
             return {
               ...recipe,
+              allergens: summarizeRecipeAllergens(ingredients),
               ingredients,
               cookingSteps,
               categories,
@@ -319,734 +654,116 @@ export const appRouter = router({
         return recipes.filter((recipe) => recipe !== null);
       }),
 
-    // 通過網址分析創建食譜
-    createFromWeblink: publicProcedure
+    // 通過網址分析創建食譜(排入背景導入任務，用 importJobs.getById 查詢進度)
+    createFromWeblink: protectedProcedure
       .input(analyzeWeblinkSchema)
-      .mutation(async ({ input }) => {
-        console.log('[createFromWeblink] ========================================');
-        console.log('[createFromWeblink] 🚀 Starting recipe creation from URL');
-        console.log('[createFromWeblink] 🔗 URL:', input.url);
-        console.log('[createFromWeblink] 📍 Step 1: Attempting web scraping...');
-        
-        // 先嘗試抓取網頁內容
-        let scrapedContent = await scrapeWebpage(input.url);
-        console.log('[createFromWeblink] 📊 Playwright scraping result:', scrapedContent.success ? '✅ Success' : '❌ Failed');
-        
-        // 如果Playwright失敗,嘗試簡單fetch
-        if (!scrapedContent.success) {
-          console.log('[createFromWeblink] 🔄 Step 2: Playwright failed, trying simpleFetch()...');
-          scrapedContent = await simpleFetch(input.url);
-          console.log('[createFromWeblink] 📊 simpleFetch result:', scrapedContent.success ? '✅ Success' : '❌ Failed');
-        }
-        
-        // 如果仍然失敗,返回錯誤
-        if (!scrapedContent.success) {
-          // 檢查是否是小紅書或其他受限網站
-          const restrictedSites = ['xiaohongshu.com', 'xhslink.com', 'douyin.com', 'tiktok.com'];
-          const isRestrictedSite = restrictedSites.some(site => input.url.includes(site));
-          
-          if (isRestrictedSite) {
-            throw new Error(`無法讀取此網站內容。小紅書、抖音等平台的內容主要以影片形式呈現，系統無法直接處理影片。\n\n建議替代方案：\n1. 根據影片內容手動輸入食材和步驟\n2. 使用「手動輸入」功能創建食譜`);
-          }
-          
-          throw new Error(`無法訪問網址: ${scrapedContent.error || '未知錯誤'}。某些網站需要登入或有訪問限制。\n\n建議替代方案：\n1. 使用「手動輸入」功能直接輸入食譜內容\n2. 嘗試其他公開的食譜網站連結`);
-        }
-        
-        // 檢查是否有足夠的內容或影片字幕
-        console.log('[createFromWeblink] 📍 Step 3: Validating scraped content...');
-        const hasVideoTranscript = scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > 50;
-        const hasContent = scrapedContent.content && scrapedContent.content.length >= 50;
-        
-        console.log('[createFromWeblink] 📊 Content validation:');
-        console.log('[createFromWeblink]   - Has video transcript:', hasVideoTranscript, `(${scrapedContent.videoTranscript?.length || 0} chars)`);
-        console.log('[createFromWeblink]   - Has content:', hasContent, `(${scrapedContent.content?.length || 0} chars)`);
-        
-        if (!hasContent && !hasVideoTranscript) {
-          console.log('[createFromWeblink] ❌ No sufficient content found');
-          // 檢查是否是影片內容網站
-          const videoSites = ['xiaohongshu.com', 'xhslink.com', 'youtube.com', 'youtu.be', 'bilibili.com', 'douyin.com', 'tiktok.com'];
-          const isVideoSite = videoSites.some(site => input.url.includes(site));
-          
-          if (isVideoSite) {
-            throw new Error(`此網頁主要包含影片內容，文字資訊不足。影片中的食譜步驟無法直接讀取。\n\n建議替代方案：\n1. 觀看影片後手動記錄食材和步驟，使用「手動輸入」功能\n2. 嘗試其他包含文字食譜的網站連結`);
-          }
-          
-          throw new Error('網頁內容不足或需要登入。\n\n建議替代方案：\n1. 使用「手動輸入」功能直接輸入食譜內容\n2. 嘗試其他公開的食譜網站連結');
-        }
+      .mutation(async ({ input, ctx }) => {
+        const jobId = await db.createImportJob({
+          userId: ctx.user.id,
+          sourceUrl: input.url,
+          status: "queued",
+        });
 
-        // ===== TWO-STAGE AI ANALYSIS FLOW =====
-        console.log('[createFromWeblink] 📍 Step 4: Starting AI analysis flow...');
-        console.log('[createFromWeblink] ========================================');
-        
-        // Pre-filter Stage: Extract ONLY food/cooking related content from transcript
-        let filteredTranscript = scrapedContent.videoTranscript || '';
-        if (hasVideoTranscript) {
-          console.log('[createFromWeblink] 📍 Step 4a: PRE-FILTER STAGE');
-          console.log('[createFromWeblink] 🔍 Pre-filter: Extracting food-related content only...');
-          console.log('[createFromWeblink] 📊 Original transcript length:', scrapedContent.videoTranscript?.length || 0, 'characters');
-          console.log('[createFromWeblink] 📊 Transcript preview (first 200 chars):', scrapedContent.videoTranscript?.substring(0, 200));
-          console.log('[createFromWeblink] ⏳ Calling LLM for pre-filter...');
-          const preFilterStartTime = Date.now();
-          
-          try {
-            const preFilterResult = await invokeLLM({
-            messages: [
-              {
-                role: "system",
-                content: `你是一位專業的食譜內容過濾器和翻譯專家。你的任務是從提供的影片字幕中，提取與食物、烹飪、食材、食譜步驟、烹飪技巧、營養相關的內容，並將所有內容翻譯成繁體中文。
-
-**必須保留的內容**：
-- 所有食材和用量
-- 所有烹飪步驟和技巧
-- 烹飪方法比較（例如：「用這種方法比那種方法好」）
-- 食材選擇建議和比較（例如：「挪威的比澳洲的軟」）
-- 烹飪時間、溫度、火候等技術細節
-- 口感描述和特色（例如：「脆皮」、「爆汁」、「完美口感」）
-- 烹飪提示和注意事項
-- 任何與烹飪、食材、食譜相關的描述
-
-**可以移除的內容**：
-- 影片開頭或結尾的問候語、感謝語（如「大家好」、「謝謝觀看」）
-- 純廣告、推廣內容（如「記得訂閱」、「成為會員」）
-- 與烹飪完全無關的閒聊
-- 影片製作相關的評論（如「記得訂閱」、「按讚」）
-- 重複的內容
-- 表情符號和特殊符號
-- 網址連結（但保留網址中的關鍵字如「職人吹水」）
-
-**翻譯要求**：
-- **必須將所有非繁體中文的內容翻譯成繁體中文**
-- 如果原始字幕是英文、簡體中文或其他語言，請完整翻譯成繁體中文
-- 保留所有專業術語和烹飪用語的準確性
-- 確保翻譯後的內容自然流暢，符合繁體中文的表達習慣
-- 如果原始內容已經是繁體中文，則保持不變
-
-**重要原則**：
-1. **如果內容已經很短（少於500字），請盡量保留所有內容，只移除明顯的廣告和問候語**
-2. 保留所有烹飪技巧、比較說明和重要細節
-3. 確保所有內容都是繁體中文
-4. 翻譯要準確且自然
-5. **寧可多保留內容，也不要過度過濾**
-
-只返回純文本，不包含任何額外說明或Markdown格式。所有輸出必須是繁體中文。`
-              },
-              {
-                role: "user",
-                content: `請過濾以下影片字幕，只保留食譜相關內容（保留所有烹飪技巧和比較說明），並將所有內容翻譯成繁體中文：\n\n${scrapedContent.videoTranscript}`
-              }
-            ]
-          });
-          
-          const preFilterElapsedTime = Date.now() - preFilterStartTime;
-          console.log(`[createFromWeblink] ⏱️  Pre-filter LLM call completed in ${preFilterElapsedTime}ms`);
-          console.log('[createFromWeblink] 📥 Pre-filter response received');
-          console.log('[createFromWeblink] 📊 Response structure:', {
-            hasChoices: !!preFilterResult.choices,
-            choicesLength: preFilterResult.choices?.length || 0,
-            hasMessage: !!preFilterResult.choices?.[0]?.message,
-            hasContent: !!preFilterResult.choices?.[0]?.message?.content
-          });
-          
-          filteredTranscript = preFilterResult.choices[0].message.content as string;
-          console.log('[createFromWeblink] ✅ Pre-filter complete:');
-          const originalLength = scrapedContent.videoTranscript?.length || 0;
-          const filteredLength = filteredTranscript.length;
-          const reductionPercent = originalLength > 0 ? ((1 - filteredLength / originalLength) * 100).toFixed(1) : '0';
-          const reductionPercentNum = parseFloat(reductionPercent);
-          console.log(`  Original: ${originalLength} chars`);
-          console.log(`  Filtered: ${filteredLength} chars (${reductionPercent}% reduction)`);
-          console.log(`  Preview: ${filteredTranscript.substring(0, 200)}...`);
-          
-          // If filtered content is too short (< 100 chars) or reduction is too aggressive (> 90%), use original
-          if (filteredLength < 100 || (originalLength > 0 && reductionPercentNum > 90)) {
-            console.log('[createFromWeblink] ⚠️  Pre-filter too aggressive (filtered content too short or reduction > 90%)');
-            console.log('[createFromWeblink] 🔄 Using original transcript instead to preserve content');
-            filteredTranscript = scrapedContent.videoTranscript || '';
-          }
-          
-          } catch (preFilterError) {
-            console.error('[createFromWeblink] ❌ Pre-filter LLM call failed:');
-            console.error('[createFromWeblink]   Error type:', preFilterError instanceof Error ? preFilterError.constructor.name : typeof preFilterError);
-            console.error('[createFromWeblink]   Error message:', preFilterError instanceof Error ? preFilterError.message : String(preFilterError));
-            if (preFilterError instanceof Error && preFilterError.stack) {
-              console.error('[createFromWeblink]   Stack trace:', preFilterError.stack.substring(0, 500));
-            }
-            // Fallback: use original transcript if pre-filter fails
-            console.log('[createFromWeblink] ⚠️  Using original transcript as fallback');
-            filteredTranscript = scrapedContent.videoTranscript || '';
-          }
-        }
+        // 立即喚醒背景 worker，不必等待下一次輪詢
+        kickImportWorker();
 
-        // Stage 1: Detect and extract ALL recipes from the filtered transcript
-        console.log('[createFromWeblink] ========================================');
-        console.log('[createFromWeblink] 📍 Step 4b: STAGE 1 - RECIPE DETECTION');
-        console.log('[createFromWeblink] 🔍 Stage 1: Detecting and extracting ALL recipes from transcript...');
-        
-        // Use original transcript if filtered is too short
-        let transcriptForStage1 = filteredTranscript;
-        if (hasVideoTranscript && filteredTranscript.length < 100 && scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > filteredTranscript.length) {
-          console.log('[createFromWeblink] ⚠️  Filtered transcript too short for Stage 1, using original transcript');
-          transcriptForStage1 = scrapedContent.videoTranscript;
-        }
-        
-        console.log('[createFromWeblink] 📊 Input transcript length:', hasVideoTranscript ? transcriptForStage1.length : scrapedContent.content.substring(0, 10000).length, 'characters');
-        console.log('[createFromWeblink] 📝 Video title:', scrapedContent.title);
-        console.log('[createFromWeblink] ⏳ Calling LLM for Stage 1 (recipe detection)...');
-        const stage1StartTime = Date.now();
-        
-        let extractionResult;
-        let extractedRecipes: Array<{title: string; ingredients?: string[]; steps?: string[]; tips?: string}> = [];
-        
-        // Build context with video title
-        const videoTitleContext = scrapedContent.title ? `\n\n**影片標題**: ${scrapedContent.title}\n\n` : '';
-        const stage1Prompt = `請從以下影片字幕中識別並提取**所有食譜**。${videoTitleContext}**影片字幕內容**:\n\n${hasVideoTranscript ? transcriptForStage1 : scrapedContent.content.substring(0, 10000)}`;
-        
-        try {
-          extractionResult = await invokeLLM({
-          messages: [
-            {
-              role: "system",
-              content: `你是一位專業的食譜分析師。你的任務是從影片字幕中識別並提取**所有**食譜。
-
-如果影片包含多個食譜，你必須將它們分別提取出來。每個食譜應該有：
-- title（食譜名稱）- **重要**：請保留影片標題中的關鍵描述詞，例如「米芝連」、「脆皮爆汁」、「完美口感」等特色描述
-- ingredients（食材列表，數組格式）
-- steps（步驟列表，數組格式）
-- tips（可選，烹飪提示）
-
-**重要規則**：
-1. 如果影片標題包含特殊描述（如「米芝連」、「脆皮爆汁」等），請在食譜名稱中保留這些特色
-2. 如果影片只有一個食譜，返回包含一個元素的數組。如果有多個食譜，返回包含多個元素的數組。
-3. 保留所有烹飪技巧和重要細節
-4. **即使內容較短，也要盡力從中提取食譜信息**。如果內容不足，可以根據影片標題和現有信息推斷基本的食譜結構
-5. 如果影片標題明確提到食譜名稱（如「揚州炒飯」），即使內容較短，也要創建一個基本的食譜結構
-
-只返回JSON數組格式，不要markdown代碼塊。`
-            },
-            {
-              role: "user",
-              content: stage1Prompt
-            }
-          ]
-        });
-        
-        const stage1ElapsedTime = Date.now() - stage1StartTime;
-        console.log(`[createFromWeblink] ⏱️  Stage 1 LLM call completed in ${stage1ElapsedTime}ms`);
-        console.log('[createFromWeblink] 📥 Stage 1 response received');
-        console.log('[createFromWeblink] 📊 Response structure:', {
-          hasChoices: !!extractionResult.choices,
-          choicesLength: extractionResult.choices?.length || 0,
-          hasMessage: !!extractionResult.choices?.[0]?.message,
-          hasContent: !!extractionResult.choices?.[0]?.message?.content
-        });
+        return { jobId };
+      }),
 
-        let extractionJson = extractionResult.choices[0].message.content as string;
-        console.log('[createFromWeblink] ✅ Stage 1 raw response (first 500 chars):', extractionJson.substring(0, 500));
-        
-        // Clean JSON
-        extractionJson = extractionJson.replace(/```json/gi, '').replace(/```/g, '');
-        const firstBracket = extractionJson.indexOf('[');
-        const lastBracket = extractionJson.lastIndexOf(']');
-        
-        if (firstBracket === -1 || lastBracket === -1) {
-          console.error('[createFromWeblink] ❌ Stage 1: No valid JSON array found');
-          throw new Error('AI返回的分析結果格式錯誤，找不到有效的食譜數組。請重試。');
-        }
-        
-        extractionJson = extractionJson.substring(firstBracket, lastBracket + 1);
-        
-        try {
-          extractedRecipes = JSON.parse(extractionJson);
-          if (!Array.isArray(extractedRecipes)) {
-            extractedRecipes = [extractedRecipes];
-          }
-        } catch (parseError) {
-          console.error('[createFromWeblink] ❌ Stage 1 JSON parse error:', parseError);
-          throw new Error('AI返回的JSON格式無效，請重試。');
+    // 通過圖片創建食譜(手寫食譜卡、食譜書頁面或菜式照片)，同樣排入背景導入任務
+    createFromImage: protectedProcedure
+      .input(analyzeImageSchema)
+      .mutation(async ({ input, ctx }) => {
+        const userId = ctx.user.id;
+        const buffer = Buffer.from(input.imageBase64, "base64");
+        if (buffer.length === 0) {
+          throw new Error("圖片內容無效，請重新選擇圖片");
         }
-        
-        console.log(`[createFromWeblink] ✅ Stage 1 detected ${extractedRecipes.length} recipe(s)`);
-        extractedRecipes.forEach((recipe, idx) => {
-          console.log(`[createFromWeblink]   Recipe ${idx + 1}: ${recipe.title}`);
-        });
-        
-        } catch (stage1Error) {
-          console.error('[createFromWeblink] ❌ Stage 1 LLM call failed:');
-          console.error('[createFromWeblink]   Error type:', stage1Error instanceof Error ? stage1Error.constructor.name : typeof stage1Error);
-          console.error('[createFromWeblink]   Error message:', stage1Error instanceof Error ? stage1Error.message : String(stage1Error));
-          if (stage1Error instanceof Error && stage1Error.stack) {
-            console.error('[createFromWeblink]   Stack trace:', stage1Error.stack.substring(0, 500));
-          }
-          throw stage1Error; // Re-throw to stop processing
+        if (buffer.length > MAX_IMPORT_IMAGE_BYTES) {
+          throw new Error("圖片太大，請上傳 10MB 以內的圖片");
         }
 
-        // Process each detected recipe IN PARALLEL for faster processing
-        console.log('[createFromWeblink] ========================================');
-        console.log('[createFromWeblink] 📍 Step 5: Processing detected recipes (PARALLEL)...');
-        const createdRecipeIds: string[] = [];
-        const createdRecipeTitles: string[] = [];
-        
-        console.log(`[createFromWeblink] 🔄 Processing ${extractedRecipes.length} recipe(s) in parallel...`);
-        
-        // Process all recipes in parallel
-        const recipeProcessingPromises = extractedRecipes.map(async (recipe, i) => {
-          console.log('[createFromWeblink] ========================================');
-          console.log(`[createFromWeblink] 📝 Processing recipe ${i + 1}/${extractedRecipes.length}: ${recipe.title}`);
-          
-          try {
-            // Stage 2: Create structured JSON for each recipe
-            console.log(`[createFromWeblink] 📍 Step 5.${i + 1}a: STAGE 2 - RECIPE STRUCTURING`);
-            console.log(`[createFromWeblink] 🔍 Stage 2: Creating structured recipe for: ${recipe.title}`);
-            
-            // Include video title and original transcript for context
-            const videoTitleInfo = scrapedContent.title ? `\n**影片標題**: ${scrapedContent.title}\n` : '';
-            const originalTranscriptContext = hasVideoTranscript && scrapedContent.videoTranscript 
-              ? `\n**原始影片字幕（供參考）**:\n${scrapedContent.videoTranscript.substring(0, 1000)}...\n` 
-              : '';
-            
-            const recipeAnalysis = await invokeLLM({
-              messages: [
-                {
-                  role: "system",
-                  content: `你是一位米芝蓮級大廚和營養師。你的任務是從提供的食譜細節中，生成一個完整的、結構化的JSON食譜。
-
-**強制要求（必須包含，不能為空）：**
-1. **標題（title）**：**重要** - 如果影片標題包含特殊描述（如「米芝連」、「脆皮爆汁」、「完美口感」等），請在食譜標題中保留這些特色描述。例如：「米芝連脆皮爆汁三文魚」而不是簡單的「煎三文魚」。
-
-2. **描述（description）**：根據影片標題和內容，寫一個吸引人的描述，突出食譜的特色（如「米芝連級別」、「脆皮爆汁」、「完美口感」等）。
-
-3. **食材清單（ingredients）**：必須識別並包含所有食材，至少3個以上。每種食材必須有：
-   - name（食材名稱）
-   - amount（數量，如「3」、「500」）
-   - unit（單位，如「個」、「g」、「ml」）
-   - calories（卡路里，必須是整數）
-
-4. **烹飪步驟（steps）**：必須按順序詳細描述每一步，至少3個步驟以上。每個步驟必須有：
-   - instruction（詳細的烹飪說明）
-   - duration（可選，分鐘數）
-   - temperature（可選，溫度）
-   - tips（可選，烹飪提示）
-   **重要**：保留所有烹飪技巧、比較說明和重要細節。
-
-5. **營養分析（nutrition）**：必須根據所有食材精準計算總營養成分，包括：
-   - totalCalories（總卡路里，必須是整數）
-   - protein（蛋白質，單位：克，必須是整數）
-   - carbs（碳水化合物，單位：克，必須是整數）
-   - fat（脂肪，單位：克，必須是整數）
-   - fiber（纖維，單位：克，必須是整數）
-
-6. **份量（servings）**：識別食譜的份量（幾人份），必須是正整數
-
-**重要**：根據提供的食譜細節和影片標題，使用專業知識補充完整的食材清單、烹飪步驟和營養分析。保留所有特色描述和烹飪技巧。`
-                },
-                {
-                  role: "user",
-                  content: `將以下食譜轉換為JSON格式：${videoTitleInfo}
-食譜名稱：${recipe.title}
-食材：${recipe.ingredients?.join(', ') || '無'}
-步驟：${recipe.steps?.join(' → ') || '無'}
-提示：${recipe.tips || '無'}${originalTranscriptContext}
-
-**只返回JSON格式（不要markdown代碼塊）：**
-{
-  "title": "食譜名稱",
-  "description": "簡短描述",
-  "servings": 份量數字,
-  "ingredients": [{"name": "食材名", "amount": "數量", "unit": "單位", "calories": 卡路里數字}],
-  "steps": [{"instruction": "步驟說明", "duration": 分鐘數字或null, "temperature": "溫度或null", "tips": "提示或null"}],
-  "nutrition": {"totalCalories": 數字, "protein": 數字, "carbs": 數字, "fat": 數字, "fiber": 數字}
-}`
-                }
-              ]
-            });
-
-            // Clean the JSON response
-            let analysisJson = recipeAnalysis.choices[0].message.content as string;
-            console.log(`[createFromWeblink] 🔍 Stage 2 raw response for recipe ${i + 1} (first 500 chars):`, analysisJson.substring(0, 500));
-            
-            // Clean JSON
-            analysisJson = analysisJson.replace(/```json/gi, '').replace(/```/g, '');
-            const firstBrace = analysisJson.indexOf('{');
-            const lastBrace = analysisJson.lastIndexOf('}');
-            
-            if (firstBrace === -1 || lastBrace === -1) {
-              console.error(`[createFromWeblink] ❌ Recipe ${i + 1}: No valid JSON found`);
-              throw new Error(`AI返回的分析結果格式錯誤，找不到有效的JSON結構。請重試。`);
-            }
-            
-            analysisJson = analysisJson.substring(firstBrace, lastBrace + 1);
-            
-            let analysis;
-            try {
-              analysis = JSON.parse(analysisJson);
-            } catch (parseError) {
-              console.error(`[createFromWeblink] ❌ Recipe ${i + 1} JSON parse error:`, parseError);
-              throw new Error('AI返回的JSON格式無效，請重試。');
-            }
-            console.log(`[createFromWeblink] 📋 Recipe ${i + 1} parsed:`, {
-              title: analysis.title,
-              ingredientsCount: analysis.ingredients?.length || 0,
-              stepsCount: analysis.steps?.length || 0,
-            });
-
-            // Validate and normalize
-            if (!analysis.title || typeof analysis.title !== 'string' || analysis.title.trim().length === 0) {
-              analysis.title = recipe.title || `食譜 ${i + 1}`;
-            }
-            if (!analysis.description || typeof analysis.description !== 'string') {
-              analysis.description = analysis.title;
-            }
-            if (!analysis.ingredients || !Array.isArray(analysis.ingredients) || analysis.ingredients.length === 0) {
-              throw new Error(`食譜 ${i + 1} 缺少食材清單。`);
-            }
-            if (!analysis.steps || !Array.isArray(analysis.steps) || analysis.steps.length === 0) {
-              throw new Error(`食譜 ${i + 1} 缺少烹飪步驟。`);
-            }
-            if (!analysis.nutrition || typeof analysis.nutrition !== 'object') {
-              throw new Error(`食譜 ${i + 1} 缺少營養分析。`);
-            }
-            
-            // Normalize nutrition values
-            analysis.nutrition.totalCalories = Math.round(analysis.nutrition.totalCalories || 0);
-            analysis.nutrition.protein = Math.round(analysis.nutrition.protein || 0);
-            analysis.nutrition.carbs = Math.round(analysis.nutrition.carbs || 0);
-            analysis.nutrition.fat = Math.round(analysis.nutrition.fat || 0);
-            analysis.nutrition.fiber = Math.round(analysis.nutrition.fiber || 0);
-            if (!analysis.servings || analysis.servings < 1) {
-              analysis.servings = 2;
-            }
-            analysis.servings = Math.round(analysis.servings);
-
-            // Create recipe in database
-            console.log(`[createFromWeblink] 📍 Step 5.${i + 1}b: DATABASE SAVE`);
-            console.log(`[createFromWeblink] 💾 Saving recipe to database: ${analysis.title}`);
-            console.log(`[createFromWeblink] 📊 Recipe details:`);
-            console.log(`[createFromWeblink]   - Ingredients: ${analysis.ingredients.length}`);
-            console.log(`[createFromWeblink]   - Steps: ${analysis.steps.length}`);
-            console.log(`[createFromWeblink]   - Servings: ${analysis.servings}`);
-            
-            // Generate improvement suggestions and nutritional comparison IN PARALLEL
-            console.log(`[createFromWeblink] 📍 Step 5.${i + 1}c: GENERATING IMPROVEMENT SUGGESTIONS & NUTRITION (PARALLEL)`);
-            console.log(`[createFromWeblink] 🔍 Generating AI improvement suggestions and nutrition for: ${analysis.title}`);
-            
-            let improvements = '';
-            let improvedNutrition: any = null;
-            
-            try {
-              // Build ingredients and steps summary for improvement suggestions
-              const ingredientsSummary = analysis.ingredients?.map((ing: any) => 
-                `${ing.name} ${ing.amount}${ing.unit}`
-              ).join('\n') || '';
-              
-              const stepsSummary = analysis.steps?.map((step: any, idx: number) => 
-                `${idx + 1}. ${step.instruction}`
-              ).join('\n') || '';
-              
-              // Generate improvement suggestions
-              const improvementResult = await safeInvokeLLM({
-                messages: [
-                  {
-                    role: "system",
-                    content: `你是擁有30年經驗的米芝蓮三星大廚和註冊營養師。你精通中西料理，擅長將傳統食譜改造成既健康又美味的現代版本。目的健康革命，均衡飲食的重要性，讓人享受美食之餘能有效了解成分、卡路裡、營養素，及提醒潛在不同的好處及風險。
-
-🌟 **核心健康原則（必須遵守）**：
-1. ✅ **用蜜糖或生果代替白砂糖** - 所有精製糖必須替換
-2. ✅ **用香菇粉代替部分鹽** - 減少鈉攝入，增加鮮味
-3. ✅ **精製產品 → 天然食材** - 優先使用全穀物、天然調味料
-4. ✅ **增加生果和蔬菜** - 提升纖維和維生素攝入
-5. ✅ **減少油脂和鹽分** - 使用健康烹飪方法
-
-**當前食譜營養成分**：
-- 總卡路里: ${analysis.nutrition?.totalCalories || 0} kcal
-- 蛋白質: ${analysis.nutrition?.protein || 0} g
-- 碳水化合物: ${analysis.nutrition?.carbs || 0} g
-- 脂肪: ${analysis.nutrition?.fat || 0} g
-- 纖維: ${analysis.nutrition?.fiber || 0} g
-
-**當前食譜內容**：
-標題: ${analysis.title}
-描述: ${analysis.description || ''}
-份量: ${analysis.servings} 人份
-
-食材:
-${ingredientsSummary}
-
-步驟:
-${stepsSummary}
-
----
-
-請以米芝蓮級大廚的專業角度，提供**全面且詳細**的改良建議，包括：
-
-## 📝 請按以下結構回覆：
-
-### 🍎 健康升級方案（必須嚴格執行）
-1. **食材替代建議**：
-   - 列出3-5項具體的食材替代方案
-   - 說明每項替代的健康益處（如減糖、減鹽、增加纖維等）
-   - 提供替代食材的用量建議
-   - 例：白砂糖50g → 蜜糖40g（減少20%精製糖，天然果糖更健康）
-
-2. **營養強化技巧**：
-   - 如何在不改變風味的前提下增加營養價值
-   - 可以添加哪些超級食材（如奇亞籽、亞麻籽、堅果等）
-   - 如何增加蔬菜攝入量
-
-3. **健康烹飪方法**：
-   - 改良烹飪技巧以減少油脂和鹽分
-   - **🔥 重要：如果食譜涉及油炸（炸），必須建議改用氣炸鍋（氣炸）**
-     * 說明氣炸的溫度和時間設置（如：200°C氣炸15分鐘）
-     * 解釋如何達到酥脆效果但減少80%以上的油脂
-     * 提供噴油技巧（用噴霧器噴少量橄欖油）
-     * 氣炸的具體操作步驟和注意事項
-   - 推薦的烹飪溫度和時間調整
-   - 如何保留更多營養素
-
-### 👨‍🍳 烹飪技巧提升
-1. **專業技巧**：
-   - 分享3-5個米芝蓮級的烹飪秘訣
-   - 如何提升口感和風味層次
-   - 食材處理的專業手法
-
-2. **常見錯誤與解決**：
-   - 指出這道菜可能出現的問題
-   - 提供避免失敗的關鍵提示
-
-3. **擺盤與呈現**：
-   - 專業的擺盤建議
-   - 如何讓這道菜更有視覺吸引力
-
-### 🌟 風味升級建議
-1. **香料與調味**：
-   - 推薦額外的香料或調味料
-   - 如何用天然食材取代人工調味料
-   - 香料的使用時機和份量
-
-2. **質感與口感**：
-   - 如何改善食材的質感
-   - 創造多層次的口感體驗
-
-3. **創意變化**：
-   - 提供2-3種創意變化版本
-   - 適合不同場合的調整建議
-
-### 💡 實用貼士
-1. **食材採購**：
-   - 如何挑選最優質的食材
-   - 什麼季節最適合製作這道菜
-
-2. **提前準備**：
-   - 哪些步驟可以提前完成
-   - 如何節省烹飪時間
-
-3. **儲存與再加熱**：
-   - 最佳儲存方法
-   - 如何保持最佳風味
-
-4. **搭配建議**：
-   - 推薦的配菜或主食
-   - 適合的飲品搭配
-
-### 📊 營養優化總結
-- 列出改良後的主要健康益處
-- 預估營養成分的改善幅度（如減少XX%的鈉、增加XX%的纖維）
-- 適合的人群（如健身人士、糖尿病患者、兒童等）
-
----
-
-**請提供詳細、具體、可操作的建議。用專業但易懂的語言，讓家庭廚師能輕鬆實踐。每個部分提供2-3個要點即可，總長度約800-1000字。**`
-                  },
-                  {
-                    role: "user",
-                    content: `請為以下食譜提供米芝蓮級的健康改良建議：\n\n${analysis.title}\n\n${ingredientsSummary}\n\n${stepsSummary}`
-                  }
-                ]
-              });
-
-              const improvementContent = improvementResult.choices[0].message.content;
-              improvements = typeof improvementContent === 'string' ? improvementContent : String(improvementContent || "");
-              console.log(`[createFromWeblink] ✅ Improvement suggestions generated (${improvements.length} chars)`);
-
-              // Calculate improved nutrition (runs after improvements, but recipes are processed in parallel)
-              const improvementsText = typeof improvements === 'string' ? improvements : String(improvements);
-              if (improvementsText && improvementsText.trim().length > 0) {
-                console.log(`[createFromWeblink] 📊 Calculating improved nutrition...`);
-                const comparisonResult = await safeInvokeLLM({
-                  messages: [
-                    {
-                      role: "system",
-                      content: "你是營養分析AI。只返回純JSON，不要任何markdown或額外文字。"
-                    },
-                    {
-                      role: "user",
-                      content: `原始營養: 卡路里${analysis.nutrition?.totalCalories || 0}kcal, 蛋白質${analysis.nutrition?.protein || 0}g, 碳水化合物${analysis.nutrition?.carbs || 0}g, 脂肪${analysis.nutrition?.fat || 0}g, 纖維${analysis.nutrition?.fiber || 0}g
-
-改良建議:
-${improvementsText.substring(0, 1500)}
-
-計算改良後營養成分，只返回JSON格式:
-{"calories": 整數, "protein": 整數, "carbs": 整數, "fat": 整數, "fiber": 整數}`
-                    }
-                  ]
-                });
-
-                // Clean JSON response
-                let jsonResponse = comparisonResult.choices[0].message.content as string;
-                jsonResponse = jsonResponse.replace(/```json/gi, '').replace(/```/g, '');
-                jsonResponse = jsonResponse.replace(/\n/g, ' ').replace(/\s+/g, ' ');
-                
-                const firstBrace = jsonResponse.indexOf('{');
-                const lastBrace = jsonResponse.lastIndexOf('}');
-                
-                if (firstBrace !== -1 && lastBrace !== -1) {
-                  jsonResponse = jsonResponse.substring(firstBrace, lastBrace + 1).trim();
-                  const parsedNutrition = JSON.parse(jsonResponse);
-                  improvedNutrition = parsedNutrition;
-                  console.log(`[createFromWeblink] ✅ Improved nutrition calculated:`, improvedNutrition);
-                }
-              }
-            } catch (improvementError) {
-              console.error(`[createFromWeblink] ⚠️  Failed to generate improvement suggestions:`, improvementError);
-              // Continue without improvements - recipe is still valid
-            }
-
-            // Prepare aiAnalysis data with improved nutrition
-            const aiAnalysisData = {
-              ...analysis,
-              ...(improvedNutrition && { improvedNutrition: improvedNutrition }),
-              improvementSuggestionsFullText: improvements
-            };
-
-            // No images - always set to null
-            const finalImageUrl = null;
-
-            const recipeId = await db.createRecipe({
-              userId: 1,
-              title: analysis.title || recipe.title,
-              description: analysis.description || `來自影片的食譜 ${i + 1}`,
-              inputMethod: "weblink",
-              sourceUrl: input.url,
-              imageUrl: finalImageUrl,
-              servings: analysis.servings || 2,
-              totalCalories: analysis.nutrition?.totalCalories || 0,
-              caloriesPerServing: analysis.servings > 0 ? Math.round(analysis.nutrition.totalCalories / analysis.servings) : 0,
-              protein: analysis.nutrition?.protein || 0,
-              carbs: analysis.nutrition?.carbs || 0,
-              fat: analysis.nutrition?.fat || 0,
-              fiber: analysis.nutrition?.fiber || 0,
-              aiAnalysis: JSON.stringify(aiAnalysisData),
-              improvementSuggestions: improvements, // Save improvement suggestions
-              isPublished: true,
-            });
-
-            // Add ingredients
-            if (analysis.ingredients && Array.isArray(analysis.ingredients)) {
-              for (let ingIndex = 0; ingIndex < analysis.ingredients.length; ingIndex++) {
-                const ing = analysis.ingredients[ingIndex];
-                await db.createIngredient({
-                  recipeId: recipeId,
-                  name: ing.name || '',
-                  amount: ing.amount || '',
-                  unit: ing.unit || '',
-                  calories: ing.calories || 0,
-                  order: ingIndex + 1,
-                });
-              }
-            }
-
-            // Add cooking steps
-            if (analysis.steps && Array.isArray(analysis.steps)) {
-              for (let stepIndex = 0; stepIndex < analysis.steps.length; stepIndex++) {
-                const step = analysis.steps[stepIndex];
-                
-                // Convert duration to integer (round to nearest minute, minimum 1 if > 0)
-                let durationInt: number | null = null;
-                if (step.duration != null && step.duration !== undefined) {
-                  if (step.duration > 0) {
-                    durationInt = Math.max(1, Math.round(step.duration));
-                  } else {
-                    durationInt = null;
-                  }
-                }
-                
-                await db.createCookingStep({
-                  recipeId: recipeId,
-                  stepNumber: stepIndex + 1,
-                  instruction: step.instruction || '',
-                  duration: durationInt,
-                  temperature: step.temperature || null,
-                  tips: step.tips || null,
-                });
-              }
-            }
+        const extension = input.mimeType.split("/")[1];
+        const { url } = await storagePut(
+          `recipe-imports/${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${extension}`,
+          buffer,
+          input.mimeType
+        );
 
-            const recipeTitle = analysis.title || recipe.title || `食譜 ${i + 1}`;
-            console.log(`[createFromWeblink] ✅ Recipe ${i + 1}/${extractedRecipes.length} created successfully!`);
-            console.log(`[createFromWeblink]   - Recipe ID: ${recipeId}`);
-            console.log(`[createFromWeblink]   - Title: ${recipeTitle}`);
-            
-            return {
-              recipeId: String(recipeId),
-              title: recipeTitle
-            };
-            
-          } catch (e) {
-            console.error(`[createFromWeblink] ❌ Failed to create recipe ${i + 1}/${extractedRecipes.length}:`, e);
-            console.error(`[createFromWeblink]   Error type:`, e instanceof Error ? e.constructor.name : typeof e);
-            console.error(`[createFromWeblink]   Error message:`, e instanceof Error ? e.message : String(e));
-            return null; // Return null for failed recipes
-          }
+        const jobId = await db.createImportJob({
+          userId,
+          inputMethod: "image",
+          sourceUrl: url,
+          status: "queued",
         });
-        
-        // Wait for all recipes to be processed in parallel
-        console.log('[createFromWeblink] ⏳ Waiting for all recipes to complete (processing in parallel)...');
-        const recipeResults = await Promise.all(recipeProcessingPromises);
-        
-        // Collect successful recipe IDs and titles
-        recipeResults.forEach((result) => {
-          if (result) {
-            createdRecipeIds.push(result.recipeId);
-            createdRecipeTitles.push(result.title);
-          }
-        });
-        
-        console.log(`[createFromWeblink] ✅ Parallel processing complete! ${createdRecipeIds.length}/${extractedRecipes.length} recipes succeeded`);
 
-        // Return result
-        console.log('[createFromWeblink] ========================================');
-        console.log('[createFromWeblink] 📍 Step 6: Finalizing results...');
-        
-        if (createdRecipeIds.length === 0) {
-          console.error('[createFromWeblink] ❌ No recipes were created successfully');
-          throw new Error('未能創建任何食譜，請重試。');
+        // 立即喚醒背景 worker，不必等待下一次輪詢
+        kickImportWorker();
+
+        return { jobId };
+      }),
+
+    // 通過口述錄音創建食譜(先轉錄成文字，再按影片字幕的流程分析)，同樣排入背景導入任務
+    createFromVoice: protectedProcedure
+      .input(analyzeVoiceSchema)
+      .mutation(async ({ input, ctx }) => {
+        const userId = ctx.user.id;
+        const buffer = Buffer.from(input.audioBase64, "base64");
+        if (buffer.length === 0) {
+          throw new Error("錄音內容無效，請重新錄音");
+        }
+        if (buffer.length > MAX_IMPORT_AUDIO_BYTES) {
+          throw new Error("錄音太長，請錄製 16MB 以內的錄音");
         }
 
-        const allRecipes = createdRecipeIds.map((id, idx) => ({
-          id,
-          title: createdRecipeTitles[idx] || `食譜 ${idx + 1}`
-        }));
+        const { url } = await storagePut(
+          `recipe-imports/${userId}/${Date.now()}-${Math.random().toString(36).slice(2, 8)}.${AUDIO_EXTENSIONS[input.mimeType]}`,
+          buffer,
+          input.mimeType
+        );
 
-        console.log(`[createFromWeblink] 🎉 SUCCESS! Created ${createdRecipeIds.length} recipe(s) successfully!`);
-        console.log('[createFromWeblink] 📊 Final results:');
-        allRecipes.forEach((r, idx) => {
-          console.log(`[createFromWeblink]   Recipe ${idx + 1}: ${r.title} (ID: ${r.id})`);
+        const jobId = await db.createImportJob({
+          userId,
+          inputMethod: "voice",
+          sourceUrl: url,
+          status: "queued",
         });
-        console.log('[createFromWeblink] ========================================');
-        
-        return {
-          recipeId: createdRecipeIds[0], // For backward compatibility
-          recipeCount: createdRecipeIds.length,
-          allRecipeIds: createdRecipeIds,
-          allRecipes: allRecipes,
-        };
+
+        // 立即喚醒背景 worker，不必等待下一次輪詢
+        kickImportWorker();
+
+        return { jobId };
+      }),
+
+    // 批量匯入(CSV、JSON、Paprika、Mealie、Tandoor)：先以 dryRun 預覽驗證錯誤和重複食譜，確認後再匯入
+    bulkImport: protectedProcedure
+      .input(bulkImportSchema)
+      .mutation(async ({ input, ctx }) => {
+        const buffer = Buffer.from(input.contentBase64, "base64");
+        if (buffer.length === 0) {
+          throw new Error("檔案內容無效，請重新選擇檔案");
+        }
+        if (buffer.length > MAX_BULK_IMPORT_BYTES) {
+          throw new Error("檔案太大，請上傳 20MB 以內的檔案");
+        }
+
+        const rows = await previewBulkImport(ctx.user.id, input.fileName, buffer);
+        const preview = rows.map(toBulkImportPreview);
+        if (input.dryRun) {
+          return { rows: preview, result: null };
+        }
+
+        const result = await commitBulkImport(ctx.user.id, rows, input.rowIndexes ?? getDefaultImportIndexes(rows));
+        return { rows: preview, result };
       }),
 
     // 手動創建食譜
-    createManual: publicProcedure
+    createManual: protectedProcedure
       .input(manualRecipeSchema)
       .mutation(async ({ ctx, input }) => {
-        // 計算營養成分
-        const totalCalories = input.ingredients.reduce((sum, ing) => sum + (ing as any).calories || 0, 0);
+        // 計算營養成分(使用本地營養成分表，無法匹配的食材才由 AI 估算)
+        const nutritionResult = await calculateNutrition(input.ingredients);
+        const { calories: totalCalories, protein, carbs, fat, fiber } = nutritionResult.totals;
 
         // 生成改良建議（詳細版本）
         const improvementResult = await safeInvokeLLM({
@@ -1177,7 +894,7 @@ ${input.steps.map((step: any, idx: number) => `${idx + 1}. ${step.instruction}`)
                 },
                 {
                   role: "user",
-                  content: `原始營養: 卡路里${totalCalories}kcal
+                  content: `原始營養: 卡路里${totalCalories}kcal, 蛋白質${protein}g, 碳水化合物${carbs}g, 脂肪${fat}g, 纖維${fiber}g
 
 改良建議:
 ${improvementsText.substring(0, 1500)}
@@ -1231,253 +948,354 @@ ${improvementsText.substring(0, 1500)}
           steps: input.steps,
           nutrition: {
             totalCalories: totalCalories,
-            protein: 0,
-            carbs: 0,
-            fat: 0,
-            fiber: 0
+            protein,
+            carbs,
+            fat,
+            fiber
           },
           ...(improvedNutrition && { improvedNutrition: improvedNutrition }),
           // 將完整的改良建議存儲在 aiAnalysis 中，避免 text 欄位長度限制
           improvementSuggestionsFullText: improvementsText
         };
 
-        const recipeId = await db.createRecipe({
-          userId: 1, // Default user ID since auth is disabled
+        // 食譜、食材、步驟和分類在同一事務中寫入，中途失敗不會留下半成品食譜
+        const recipeId = await db.createRecipeWithContent({
+          userId: ctx.user.id,
           title: input.title,
           description: input.description,
           inputMethod: "manual",
           servings: input.servings,
           totalCalories,
           caloriesPerServing: input.servings > 0 ? Math.round(totalCalories / input.servings) : 0,
+          protein,
+          carbs,
+          fat,
+          fiber,
           aiAnalysis: JSON.stringify(aiAnalysisData),
           improvementSuggestions: improvementsText, // Save FULL text - PostgreSQL text type has NO limit
           isPublished: false,
-        });
-
-        // 添加食材
-        for (let i = 0; i < input.ingredients.length; i++) {
-          const ing = input.ingredients[i];
-          await db.createIngredient({
-            recipeId: recipeId as number,
+        }, {
+          ingredients: input.ingredients.map((ing, i) => ({
             name: ing.name,
             amount: ing.amount,
             unit: ing.unit,
+            ...toIngredientQuantityFields(ing.amount, ing.unit),
+            calories: Math.round(nutritionResult.ingredients[i].calories),
             notes: ing.notes,
             order: i + 1,
-          });
-        }
-
-        // 添加步驟
-        for (let i = 0; i < input.steps.length; i++) {
-          const step = input.steps[i];
-          
-          // Convert duration to integer (round to nearest minute, minimum 1 if > 0)
-          let durationInt: number | null = null;
-          if (step.duration != null && step.duration !== undefined) {
-            if (step.duration > 0) {
-              durationInt = Math.max(1, Math.round(step.duration));
-            } else {
-              durationInt = null;
+          })),
+          steps: input.steps.map((step, i) => {
+            // Convert duration to integer (round to nearest minute, minimum 1 if > 0)
+            let durationInt: number | null = null;
+            if (step.duration != null && step.duration !== undefined) {
+              if (step.duration > 0) {
+                durationInt = Math.max(1, Math.round(step.duration));
+              } else {
+                durationInt = null;
+              }
             }
-          }
-          
-          await db.createCookingStep({
-            recipeId: recipeId as number,
-            stepNumber: i + 1,
-            instruction: step.instruction,
-            duration: durationInt,
-            temperature: step.temperature,
-            tips: step.tips,
-          });
-        }
 
-        // 添加分類
-        if (input.categoryIds && input.categoryIds.length > 0) {
-          for (const categoryId of input.categoryIds) {
-            await db.addRecipeCategory(recipeId as number, categoryId);
-          }
-        }
+            return {
+              stepNumber: i + 1,
+              instruction: step.instruction,
+              duration: durationInt,
+              temperature: step.temperature,
+              tips: step.tips,
+              isPassive: step.isPassive ?? guessPassiveStep(step.instruction),
+              dependsOn: step.dependsOn ? JSON.stringify(step.dependsOn) : null,
+            };
+          }),
+          categoryIds: input.categoryIds,
+        });
+        await refreshRecipeAllergens(recipeId);
 
         return { recipeId, improvements };
       }),
 
     // 更新食譜
-    update: publicProcedure
+    update: protectedProcedure
       .input(updateRecipeSchema)
       .mutation(async ({ ctx, input }) => {
         const { id, requiredEquipment, ...data } = input;
+        const recipe = await requireRecipeOwner(ctx.user, id);
+        if (data.isPublished) {
+          requirePublishAllowed(ctx.user, recipe);
+        }
         
         // 將 requiredEquipment 數組轉換為 JSON 字符串
         const updateData: Partial<InsertRecipe> = {
           ...data,
           ...(requiredEquipment !== undefined && { requiredEquipment: JSON.stringify(requiredEquipment) }),
+          // 管理員重新發佈時解除下架
+          ...(data.isPublished && recipe.moderationHidden && { moderationHidden: false }),
         };
         
-        // 在更新之前，創建當前狀態的快照
+        // 更新前的快照和更新在同一事務中寫入
         const snapshot = await db.getRecipeSnapshotData(id);
-        if (snapshot) {
-          await db.createRecipeVersion(
-            id,
-            1, // Default user ID since auth is disabled
-            snapshot,
-            "編輯食譜",
-            Object.keys(updateData)
-          );
-        }
-        
-        await db.updateRecipe(id, updateData);
+        await db.replaceRecipeParts(id, { recipe: updateData }, snapshot ? {
+          userId: ctx.user.id,
+          snapshotData: snapshot,
+          changeDescription: "編輯食譜",
+          changedFields: Object.keys(updateData),
+        } : undefined);
         return { success: true };
       }),
 
     // 刪除食譜
-    delete: publicProcedure
+    delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
+        await requireRecipeOwner(ctx.user, input.id);
+        await db.deleteRecipe(input.id);
+        return { success: true };
+      }),
+
+    // 根據烹飪步驟生成煮食機械指令並保存
+    generateMachineInstructions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        await requireRecipeOwner(ctx.user, input.id);
         const recipe = await db.getRecipeById(input.id);
         if (!recipe) {
           throw new Error("食譜不存在");
         }
-        // Auth disabled - allow deletion of any recipe
-        await db.deleteRecipe(input.id);
-        return { success: true };
+
+        const program = generateMachineProgram(recipe, recipe.ingredients, recipe.steps);
+        await db.updateRecipe(input.id, { machineInstructions: JSON.stringify(program) });
+        return program;
+      }),
+
+    // 獲取已保存的煮食機械指令(用於下載 JSON 檔案)
+    getMachineInstructions: publicProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input, ctx }) => {
+        const recipe = await db.getRecipeById(input.id);
+        if (!recipe?.machineInstructions || !canViewRecipe(ctx.user, recipe)) return null;
+        // 舊格式或損壞的指令當作未生成，讓用戶重新生成
+        return parseMachineProgram(recipe.machineInstructions);
+      }),
+
+    // 匯出食譜為 PDF、Markdown 或 A5 廚房卡片(檔案內容以 base64 返回，由前端下載)
+    export: publicProcedure
+      .input(z.object({ id: z.number(), format: z.enum(RECIPE_EXPORT_FORMATS) }))
+      .mutation(async ({ input, ctx }) => {
+        // PDF 需要啟動瀏覽器渲染，只限登入用戶；Markdown 公開
+        if (input.format !== "markdown" && !ctx.user) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+        }
+        const recipe = await db.getRecipeById(input.id);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "食譜不存在" });
+        }
+
+        const file = await exportRecipe(recipe, input.format);
+        return {
+          fileName: file.fileName,
+          mimeType: file.mimeType,
+          content: file.content.toString("base64"),
+        };
       }),
 
     // 更新食材
-    updateIngredient: publicProcedure
+    updateIngredient: protectedProcedure
       .input(updateIngredientSchema)
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         const { id, ...data } = input;
-        await db.updateIngredient(id, data);
+        const existing = await db.getIngredientById(id);
+        if (!existing) {
+          throw new Error("找不到食材");
+        }
+        await requireRecipeOwner(ctx.user, existing.recipeId);
+
+        // 份量或單位改變時，以合併後的值重新解析結構化份量
+        if (data.amount !== undefined || data.unit !== undefined) {
+          const amount = data.amount !== undefined ? data.amount : existing.amount;
+          const unit = data.unit !== undefined ? data.unit : existing.unit;
+          await db.updateIngredient(id, { ...data, ...toIngredientQuantityFields(amount, unit) });
+        } else {
+          await db.updateIngredient(id, data);
+        }
+
+        // 食材名稱改變時重新檢測過敏原
+        if (data.name !== undefined) {
+          await refreshRecipeAllergens(existing.recipeId);
+        }
         return { success: true };
       }),
 
     // 刪除食材
-    deleteIngredient: publicProcedure
+    deleteIngredient: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
+        const ingredient = await db.getIngredientById(input.id);
+        if (!ingredient) {
+          throw new Error("找不到食材");
+        }
+        await requireRecipeOwner(ctx.user, ingredient.recipeId);
         await db.deleteIngredient(input.id);
+        await refreshRecipeAllergens(ingredient.recipeId);
         return { success: true };
       }),
 
     // 更新步驟
-    updateCookingStep: publicProcedure
+    updateCookingStep: protectedProcedure
       .input(updateCookingStepSchema)
-      .mutation(async ({ input }) => {
-        const { id, ...data } = input;
-        await db.updateCookingStep(id, data);
+      .mutation(async ({ input, ctx }) => {
+        const { id, dependsOn, ...data } = input;
+        const step = await db.getCookingStepById(id);
+        if (!step) {
+          throw new Error("找不到步驟");
+        }
+        await requireRecipeOwner(ctx.user, step.recipeId);
+        await db.updateCookingStep(id, {
+          ...data,
+          ...(dependsOn !== undefined && { dependsOn: dependsOn === null ? null : JSON.stringify(dependsOn) }),
+        });
+        // 已保存的機械指令按舊步驟生成，需要重新生成
+        await db.updateRecipe(step.recipeId, { machineInstructions: null });
+        return { success: true };
+      }),
+
+    // 上傳步驟圖片
+    uploadStepImage: protectedProcedure
+      .input(analyzeImageSchema.extend({ stepId: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        const step = await db.getCookingStepById(input.stepId);
+        if (!step) {
+          throw new Error("找不到步驟");
+        }
+        await requireRecipeOwner(ctx.user, step.recipeId);
+        const url = await storeUploadedImage(`recipe-images/${step.recipeId}/step-${step.id}`, input);
+        await db.updateCookingStep(step.id, { imageUrl: url });
+        return { imageUrl: url };
+      }),
+
+    // AI 生成步驟示意圖片(會覆蓋現有圖片)
+    generateStepImage: protectedProcedure
+      .input(z.object({ stepId: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        const step = await db.getCookingStepById(input.stepId);
+        if (!step) {
+          throw new Error("找不到步驟");
+        }
+        await requireRecipeOwner(ctx.user, step.recipeId);
+        const imageUrl = await generateStepImage(step.id);
+        return { imageUrl };
+      }),
+
+    // 移除步驟圖片
+    removeStepImage: protectedProcedure
+      .input(z.object({ stepId: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        const step = await db.getCookingStepById(input.stepId);
+        if (!step) {
+          throw new Error("找不到步驟");
+        }
+        await requireRecipeOwner(ctx.user, step.recipeId);
+        await db.updateCookingStep(step.id, { imageUrl: null });
         return { success: true };
       }),
 
     // 刪除步驟
-    deleteCookingStep: publicProcedure
+    deleteCookingStep: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
+        const step = await db.getCookingStepById(input.id);
+        if (!step) {
+          throw new Error("找不到步驟");
+        }
+        await requireRecipeOwner(ctx.user, step.recipeId);
         await db.deleteCookingStep(input.id);
+        await db.updateRecipe(step.recipeId, { machineInstructions: null });
         return { success: true };
       }),
 
     // 更新食譜分類
-    updateCategories: publicProcedure
+    updateCategories: protectedProcedure
       .input(updateRecipeCategoriesSchema)
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
+        await requireRecipeOwner(ctx.user, input.recipeId);
         await db.updateRecipeCategories(input.recipeId, input.categoryIds);
         return { success: true };
       }),
 
     // 根據食材列表重新計算營養成分
-    recalculateNutrition: publicProcedure
+    recalculateNutrition: protectedProcedure
       .input(z.object({
         recipeId: z.number(),
         servings: z.number(),
       }))
       .mutation(async ({ ctx, input }) => {
-        // 獲取當前食材列表
-        const ingredients = await db.getIngredientsByRecipeId(input.recipeId);
-        
-        if (ingredients.length === 0) {
-          throw new Error("沒有食材無法計算營養成分");
-        }
-
-        // 構建食材清單字串
-        const ingredientsList = ingredients.map(ing => 
-          `${ing.name} ${ing.amount || ""} ${ing.unit || ""}`
-        ).join(", ");
-
-        // 調用 AI 分析營養成分
-        const analysisResult = await safeInvokeLLM({
-          messages: [
-            {
-              role: "system",
-              content: "你是一位營養師。根據食材列表計算總營養成分。請返回 JSON 格式。"
-            },
-            {
-              role: "user",
-              content: `請計算以下食材的總營養成分（${input.servings} 人份）：\n${ingredientsList}`
-            }
-          ],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "nutrition_analysis",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  totalCalories: { type: "integer", description: "總卡路里" },
-                  protein: { type: "integer", description: "蛋白質（克）" },
-                  carbs: { type: "integer", description: "碳水化合物（克）" },
-                  fat: { type: "integer", description: "脂肪（克）" },
-                  fiber: { type: "integer", description: "纖維（克）" }
-                },
-                required: ["totalCalories", "protein", "carbs", "fat", "fiber"],
-                additionalProperties: false
-              }
-            }
-          }
-        });
-
-        // Clean the JSON response - DeepSeek wraps JSON in markdown code blocks
-        let nutritionJson = analysisResult.choices[0].message.content as string;
-        nutritionJson = nutritionJson.replace(/```json/gi, '').replace(/```/g, '');
-        nutritionJson = nutritionJson.replace(/\n/g, ' ').replace(/\s+/g, ' ');
-        
-        const firstBrace = nutritionJson.indexOf('{');
-        const lastBrace = nutritionJson.lastIndexOf('}');
-        
-        if (firstBrace !== -1 && lastBrace !== -1) {
-          nutritionJson = nutritionJson.substring(firstBrace, lastBrace + 1).trim();
-        }
-        
-        const nutrition = JSON.parse(nutritionJson);
-
-        // 更新食譜的營養成分
-        await db.updateRecipe(input.recipeId, {
-          totalCalories: nutrition.totalCalories,
-          caloriesPerServing: input.servings > 0 ? Math.round(nutrition.totalCalories / input.servings) : 0,
-          protein: nutrition.protein,
-          carbs: nutrition.carbs,
-          fat: nutrition.fat,
-          fiber: nutrition.fiber,
-        });
+        await requireRecipeOwner(ctx.user, input.recipeId);
+        // 使用本地營養成分表計算，同一份食材每次結果相同
+        const nutrition = await recalculateRecipeNutrition(input.recipeId, input.servings);
 
         return { 
           success: true,
           nutrition: {
             totalCalories: nutrition.totalCalories,
-            caloriesPerServing: input.servings > 0 ? Math.round(nutrition.totalCalories / input.servings) : 0,
+            caloriesPerServing: nutrition.caloriesPerServing,
             protein: nutrition.protein,
             carbs: nutrition.carbs,
             fat: nutrition.fat,
             fiber: nutrition.fiber,
-          }
+          },
+          matchedCount: nutrition.matchedCount,
+          fallbackCount: nutrition.fallbackCount,
         };
       }),
 
+    // 按份數縮放食材份量；saveAsNew 為 true 時另存為新食譜，否則只返回縮放結果
+    scale: publicProcedure
+      .input(z.object({
+        id: z.number(),
+        servings: z.number().int().min(1).max(100),
+        saveAsNew: z.boolean().default(false),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        // 先檢查食譜是否存在和可見，scaleRecipe 對不存在的食譜只會拋出普通錯誤
+        const existing = await db.getRecipeById(input.id);
+        if (!existing || !canViewRecipe(ctx.user, existing)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "食譜不存在" });
+        }
+        const { recipe, ...scaled } = await scaleRecipe(input.id, input.servings);
+        if (input.saveAsNew && !ctx.user) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
+        }
+        // 另存的新食譜屬於當前用戶
+        const newRecipeId = input.saveAsNew && ctx.user
+          ? await saveScaledRecipe(input.id, input.servings, ctx.user.id)
+          : null;
+
+        return { ...scaled, recipeId: recipe.id, newRecipeId };
+      }),
+
+    // AI 生成菜式圖片並設為封面(會覆蓋現有圖片)
+    generateImage: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        await requireRecipeOwner(ctx.user, input.id);
+        const imageUrl = await generateRecipeImage(input.id);
+        return { imageUrl };
+      }),
+
+    // 上傳圖片替換封面
+    uploadImage: protectedProcedure
+      .input(analyzeImageSchema.extend({ id: z.number() }))
+      .mutation(async ({ input, ctx }) => {
+        await requireRecipeOwner(ctx.user, input.id);
+        const url = await storeUploadedImage(`recipe-images/${input.id}/cover`, input);
+        await db.updateRecipe(input.id, { imageUrl: url });
+        return { imageUrl: url };
+      }),
+
     // 公開瀏覽食譜(支援篩選)
     browse: publicProcedure
       .input(browseRecipesSchema)
       .query(async ({ input }) => {
-        return await db.browsePublishedRecipes(input);
+        const { healthProfile, ...filters } = input;
+        const profile = await db.getHealthProfile(healthProfile);
+        return await db.browsePublishedRecipes({ ...filters, healthRules: profile.rules });
       }),
 
     // 公開查看食譜詳情
@@ -1493,6 +1311,7 @@ ${improvementsText.substring(0, 1500)}
 
         return {
           ...recipe,
+          allergens: summarizeRecipeAllergens(ingredients),
           ingredients,
           steps,
           categories,
@@ -1514,8 +1333,8 @@ ${improvementsText.substring(0, 1500)}
         return await db.getCategoriesByType(input.type);
       }),
 
-    // 創建分類
-    create: publicProcedure
+    // 創建分類(只限管理員)
+    create: adminProcedure
       .input(z.object({
         name: z.string(),
         type: z.enum(["ingredient", "cuisine", "method", "health"]),
@@ -1537,19 +1356,23 @@ ${improvementsText.substring(0, 1500)}
   // ========== User Suggestions Management ==========
   suggestions: router({
     // 提交改良建議
-    create: publicProcedure
+    create: protectedProcedure
       .input(createSuggestionSchema)
       .mutation(async ({ ctx, input }) => {
+        const recipe = await db.getRecipeById(input.recipeId);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) {
+          throw new Error("找不到食譜");
+        }
         const suggestionId = await db.createUserSuggestion({
           ...input,
-          userId: 1, // Default user ID since auth is disabled
+          userId: ctx.user.id,
           status: "pending",
         });
         return { suggestionId };
       }),
 
     // 處理建議(使用AI生成改良方案)
-    process: publicProcedure
+    process: protectedProcedure
       .input(processSuggestionSchema)
       .mutation(async ({ ctx, input }) => {
         const suggestion = await db.getUserSuggestionById(input.suggestionId);
@@ -1563,19 +1386,28 @@ ${improvementsText.substring(0, 1500)}
           throw new Error("找不到食譜");
         }
 
+        // 建議的提交者，或食譜作者/管理員可以處理建議
+        if (suggestion.userId !== ctx.user.id && !canEditRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "只有建議提交者或食譜作者可以處理此建議" });
+        }
+
         const ingredients = await db.getIngredientsByRecipeId(recipe.id);
         const steps = await db.getCookingStepsByRecipeId(recipe.id);
 
+        // 當前營養成分由營養成分表計算，讓 AI 以確定的數值為基準
+        const currentNutrition = (await calculateNutrition(ingredients)).totals;
+
         // 構建提示詞
         let prompt = `你是一位米芝蓮級大廚。以下是一個食譜的資訊：\n\n`;
         prompt += `食譜名稱: ${recipe.title}\n`;
         prompt += `描述: ${recipe.description || "無"}\n`;
         prompt += `份量: ${recipe.servings}\n`;
         prompt += `當前營養成分:\n`;
-        prompt += `- 總卡路里: ${recipe.totalCalories || "未計算"} kcal\n`;
-        prompt += `- 蛋白質: ${recipe.protein || "未計算"} g\n`;
-        prompt += `- 碳水化合物: ${recipe.carbs || "未計算"} g\n`;
-        prompt += `- 脂肪: ${recipe.fat || "未計算"} g\n\n`;
+        prompt += `- 總卡路里: ${currentNutrition.calories} kcal\n`;
+        prompt += `- 蛋白質: ${currentNutrition.protein} g\n`;
+        prompt += `- 碳水化合物: ${currentNutrition.carbs} g\n`;
+        prompt += `- 脂肪: ${currentNutrition.fat} g\n`;
+        prompt += `- 纖維: ${currentNutrition.fiber} g\n\n`;
         
         prompt += `食材清單:\n`;
         ingredients.forEach(ing => {
@@ -1616,8 +1448,16 @@ ${improvementsText.substring(0, 1500)}
     "fiber": 整數
   },
   "healthTips": "健康益處說明",
-  "additionalAdvice": "其他建議"
-}`;
+  "additionalAdvice": "其他建議",
+  "ingredientChanges": [
+    { "action": "add | remove | modify", "original": "原食材名稱(remove/modify 時必填)", "name": "新食材名稱", "amount": "數量", "unit": "單位", "notes": "備註", "reason": "原因" }
+  ],
+  "stepChanges": [
+    { "action": "add | remove | modify", "stepNumber": 原步驟編號(remove/modify 時必填), "afterStep": 新步驟插在原來第幾步之後(add 時使用，0 表示最前), "instruction": "步驟內容", "duration": 分鐘(可選), "temperature": "溫度(可選)", "tips": "提示(可選)", "reason": "原因" }
+  ]
+}
+
+ingredientChanges 和 stepChanges 只列出需要改動的食材和步驟，original 和 stepNumber 必須對應上面的食材清單和步驟編號。`;
 
         // 調用AI生成改良方案（簡化版，不使用 response_format）
         const aiResult = await safeInvokeLLM({
@@ -1682,10 +1522,15 @@ ${improvementsText.substring(0, 1500)}
           parsedResponse = null;
         }
 
+        // 結構化的修改用於預覽和套用
+        const proposedChanges = parsedResponse ? parseSuggestionChanges(parsedResponse) : null;
+        const hasChanges = !!proposedChanges && (proposedChanges.ingredientChanges.length > 0 || proposedChanges.stepChanges.length > 0);
+
         // 更新建議狀態，包括優化後營養數據
         await db.updateUserSuggestion(input.suggestionId, {
           aiResponse,
           status: "processed",
+          proposedChanges: hasChanges ? JSON.stringify(proposedChanges) : null,
           ...(parsedResponse && {
             improvedCalories: parsedResponse.improvedNutrition.calories,
             improvedProtein: parsedResponse.improvedNutrition.protein,
@@ -1700,50 +1545,124 @@ ${improvementsText.substring(0, 1500)}
           suggestionId: input.suggestionId,
           aiResponse,
           improvedNutrition: parsedResponse?.improvedNutrition,
-          healthTips: parsedResponse?.healthTips
+          healthTips: parsedResponse?.healthTips,
+          hasChanges,
         };
       }),
 
-    // 獲取某個食譜的所有建議
+    // 預覽套用建議後食材和步驟的變化
+    previewChanges: protectedProcedure
+      .input(processSuggestionSchema)
+      .query(async ({ ctx, input }) => {
+        const suggestion = await db.getUserSuggestionById(input.suggestionId);
+        if (!suggestion) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "找不到建議" });
+        }
+        const recipe = await db.getRecipeById(suggestion.recipeId);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "找不到食譜" });
+        }
+        return await previewSuggestion(suggestion);
+      }),
+
+    // 套用建議：更新原食譜(建立版本快照)或另存為新食譜
+    applyChanges: protectedProcedure
+      .input(applySuggestionSchema)
+      .mutation(async ({ ctx, input }) => {
+        const suggestion = await db.getUserSuggestionById(input.suggestionId);
+        if (!suggestion) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "找不到建議" });
+        }
+        const recipe = await db.getRecipeById(suggestion.recipeId);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "找不到食譜" });
+        }
+        // 更新原食譜需要編輯權限；建議作者也可以另存為自己的新食譜，其他用戶不能套用別人的建議
+        if (input.mode === "update" && !canEditRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "只有食譜作者可以直接更新食譜，請改為另存為新食譜" });
+        }
+        if (suggestion.userId !== ctx.user.id && !canEditRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "FORBIDDEN", message: "只有建議作者或食譜作者可以套用此建議" });
+        }
+        if (suggestion.status === "applied") {
+          throw new Error("此建議已經套用");
+        }
+        if (suggestion.status !== "processed") {
+          throw new Error("建議尚未處理");
+        }
+
+        const recipeId = await applySuggestion(suggestion, input.mode, ctx.user.id);
+        return { recipeId, mode: input.mode };
+      }),
+
+    // 獲取某個食譜的所有建議(只限能查看該食譜的用戶)
     getByRecipe: publicProcedure
       .input(z.object({ recipeId: z.number() }))
-      .query(async ({ input }) => {
+      .query(async ({ input, ctx }) => {
+        const recipe = await db.getRecipeById(input.recipeId);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "找不到食譜" });
+        }
         return await db.getSuggestionsByRecipeId(input.recipeId);
       }),
 
     // 獲取當前用戶的所有建議
-    getMy: publicProcedure
+    getMy: protectedProcedure
       .query(async ({ ctx }) => {
-        return await db.getSuggestionsByUserId(1); // Default user ID since auth is disabled
+        return await db.getSuggestionsByUserId(ctx.user.id);
       }),
 
-    // 獲取單個建議詳情
+    // 獲取單個建議詳情(建議作者或能查看該食譜的用戶)
     getById: publicProcedure
       .input(z.object({ id: z.number() }))
-      .query(async ({ input }) => {
-        return await db.getUserSuggestionById(input.id);
+      .query(async ({ input, ctx }) => {
+        const suggestion = await db.getUserSuggestionById(input.id);
+        if (!suggestion) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "找不到建議" });
+        }
+        if (ctx.user?.id !== suggestion.userId) {
+          const recipe = await db.getRecipeById(suggestion.recipeId);
+          if (!recipe || !canViewRecipe(ctx.user, recipe)) {
+            throw new TRPCError({ code: "NOT_FOUND", message: "找不到建議" });
+          }
+        }
+        return suggestion;
       }),
   }),
 
   // ========== 版本歷史管理 ==========
   versions: versionsRouter,
 
+  // ========== 背景導入任務 ==========
+  importJobs: importJobsRouter,
+
+  // ========== 管理後台 ==========
+  admin: adminRouter,
+
+  // ========== 健康評分 ==========
+  healthProfiles: healthProfilesRouter,
+
   // ========== 評分和評論管理 ==========
   reviews: router({
     // 添加或更新評分和評論
-    addOrUpdate: publicProcedure
+    addOrUpdate: protectedProcedure
       .input(z.object({
         recipeId: z.number(),
         rating: z.number().min(1).max(5),
         comment: z.string().optional(),
       }))
       .mutation(async ({ input, ctx }) => {
+        const recipe = await db.getRecipeById(input.recipeId);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "食譜不存在" });
+        }
+
         // 檢查是否已經評論過
-        const existing = await db.getReviewByUserAndRecipe(1, input.recipeId); // Default user ID since auth is disabled
+        const existing = await db.getReviewByUserAndRecipe(ctx.user.id, input.recipeId);
         
         if (existing) {
           // 更新現有評論
-          await db.updateReview(existing.id, 1, { // Default user ID since auth is disabled
+          await db.updateReview(existing.id, ctx.user.id, {
             rating: input.rating,
             comment: input.comment,
           });
@@ -1752,27 +1671,31 @@ ${improvementsText.substring(0, 1500)}
           // 創建新評論
           await db.createReview({
             recipeId: input.recipeId,
-            userId: 1, // Default user ID since auth is disabled
+            userId: ctx.user.id,
             rating: input.rating,
             comment: input.comment,
           });
           // 獲取剛創建的評論
-          const newReview = await db.getReviewByUserAndRecipe(1, input.recipeId); // Default user ID since auth is disabled
+          const newReview = await db.getReviewByUserAndRecipe(ctx.user.id, input.recipeId);
           return { id: newReview?.id || 0, updated: false };
         }
       }),
 
-    // 獲取某個食譜的所有評論
+    // 獲取某個食譜的所有評論(不能查看該食譜時返回空列表)
     getByRecipe: publicProcedure
       .input(z.object({ recipeId: z.number() }))
-      .query(async ({ input }) => {
+      .query(async ({ input, ctx }) => {
+        const recipe = await db.getRecipeById(input.recipeId);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) return [];
         return await db.getReviewsByRecipeId(input.recipeId);
       }),
 
-    // 獲取某個食譜的平均評分
+    // 獲取某個食譜的平均評分(不能查看該食譜時當作沒有評分)
     getAverageRating: publicProcedure
       .input(z.object({ recipeId: z.number() }))
-      .query(async ({ input }) => {
+      .query(async ({ input, ctx }) => {
+        const recipe = await db.getRecipeById(input.recipeId);
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) return { average: 0, count: 0 };
         return await db.getRecipeAverageRating(input.recipeId);
       }),
 
@@ -1780,14 +1703,15 @@ ${improvementsText.substring(0, 1500)}
     getMyReview: publicProcedure
       .input(z.object({ recipeId: z.number() }))
       .query(async ({ input, ctx }) => {
-        return await db.getReviewByUserAndRecipe(1, input.recipeId); // Default user ID since auth is disabled
+        if (!ctx.user) return null;
+        return await db.getReviewByUserAndRecipe(ctx.user.id, input.recipeId);
       }),
 
     // 刪除評論
-    delete: publicProcedure
+    delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ input, ctx }) => {
-        await db.deleteReview(input.id, 1); // Default user ID since auth is disabled
+        await db.deleteReview(input.id, ctx.user.id);
         return { success: true };
       }),
   }),
@@ -1795,21 +1719,21 @@ ${improvementsText.substring(0, 1500)}
   // ========== 食材替換建議 ==========
   ingredients: router({
     // 獲取食材替換建議
-    getSuggestions: publicProcedure
+    getSuggestions: protectedProcedure
       .input(z.object({
         ingredientId: z.number(),
         recipeId: z.number(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ input, ctx }) => {
         // 獲取原食材信息
         const ingredient = await db.getIngredientById(input.ingredientId);
-        if (!ingredient) {
+        if (!ingredient || ingredient.recipeId !== input.recipeId) {
           throw new Error('找不到食材');
         }
 
         // 獲取食譜信息（用於上下文）
         const recipe = await db.getRecipeById(input.recipeId);
-        if (!recipe) {
+        if (!recipe || !canViewRecipe(ctx.user, recipe)) {
           throw new Error('找不到食譜');
         }
 
@@ -1817,7 +1741,12 @@ ${improvementsText.substring(0, 1500)}
         let prompt = `你是一位營養師和大廿。以下是一個食譜中的食材資訊：\n\n`;
         prompt += `食譜名稱: ${recipe.title}\n`;
         prompt += `食材名稱: ${ingredient.name}\n`;
-        prompt += `數量: ${ingredient.amount || ''} ${ingredient.unit || ''}\n\n`;
+        prompt += `數量: ${ingredient.amount || ''} ${ingredient.unit || ''}\n`;
+        const ingredientAllergens = detectIngredientAllergens(ingredient.name).map(code => ALLERGEN_LABELS[code]);
+        if (ingredientAllergens.length > 0) {
+          prompt += `已檢測到的過敏原: ${ingredientAllergens.join('、')}(替換選項請盡量避開這些過敏原)\n`;
+        }
+        prompt += `\n`;
         
         prompt += `請推薦3-5個可以替換這個食材的選項，考慮以下因素：\n`;
         prompt += `1. 營養成分相似度\n`;
@@ -1920,102 +1849,48 @@ ${improvementsText.substring(0, 1500)}
             amount: ingredient.amount,
             unit: ingredient.unit,
           },
-          substitutions: parsedResponse.substitutions
+          substitutions: parsedResponse.substitutions as SubstitutionOption[]
         };
       }),
 
-    // 替換食材
-    replace: publicProcedure
-      .input(z.object({
-        ingredientId: z.number(),
-        recipeId: z.number(),
-        newName: z.string(),
-        newAmount: z.string().optional(),
-        newUnit: z.string().optional(),
-      }))
+    // 替換食材前，由 AI 建議需要一併修改的步驟
+    proposeStepEdits: protectedProcedure
+      .input(substitutionTargetSchema)
       .mutation(async ({ input, ctx }) => {
-        // 更新食材
-        await db.updateIngredient(input.ingredientId, {
-          name: input.newName,
-          amount: input.newAmount,
-          unit: input.newUnit,
-        });
-
-        // 獲取更新後的所有食材
-        const ingredients = await db.getIngredientsByRecipeId(input.recipeId);
-        
-        // 重新計算營養成分（使用 AI）
-        let prompt = `以下是更新後的食材清單：\n\n`;
-        ingredients.forEach(ing => {
-          prompt += `- ${ing.name} ${ing.amount || ''} ${ing.unit || ''}\n`;
-        });
-        prompt += `\n請精準計算這些食材的總營養成分。`;
-
-        const nutritionResult = await safeInvokeLLM({
-          messages: [
-            {
-              role: "system",
-              content: "你是一位營養師，擅長計算食材的營養成分。你必須返回 JSON 格式的回應。"
-            },
-            {
-              role: "user",
-              content: prompt
-            }
-          ],
-          response_format: {
-            type: "json_schema",
-            json_schema: {
-              name: "nutrition_calculation",
-              strict: true,
-              schema: {
-                type: "object",
-                properties: {
-                  totalCalories: { type: "integer", description: "總卡路里 (kcal)" },
-                  protein: { type: "integer", description: "蛋白質 (g)" },
-                  carbs: { type: "integer", description: "碳水化合物 (g)" },
-                  fat: { type: "integer", description: "脂肪 (g)" },
-                  fiber: { type: "integer", description: "纖維 (g)" }
-                },
-                required: ["totalCalories", "protein", "carbs", "fat", "fiber"],
-                additionalProperties: false
-              }
-            }
-          }
-        });
-
-        const nutritionContent = nutritionResult.choices[0]?.message?.content;
-        let nutrition: any;
-        
-        try {
-          nutrition = typeof nutritionContent === 'string' ? JSON.parse(nutritionContent) : null;
-          if (!nutrition) {
-            throw new Error('無法解析營養成分');
-          }
-        } catch (error) {
-          console.error('Failed to parse nutrition response:', error);
-          // 如果 AI 計算失敗，不更新營養成分
-          return { success: true, nutritionUpdated: false };
+        const recipe = await requireRecipeOwner(ctx.user, input.recipeId);
+        const ingredient = await db.getIngredientById(input.ingredientId);
+        if (!ingredient || ingredient.recipeId !== input.recipeId) {
+          throw new Error("找不到食材");
         }
 
-        // 更新食譜營養成分
-        const recipe = await db.getRecipeById(input.recipeId);
-        if (recipe) {
-          const servings = recipe.servings || 1;
-          await db.updateRecipe(input.recipeId, {
-            totalCalories: nutrition.totalCalories,
-            protein: nutrition.protein,
-            carbs: nutrition.carbs,
-            fat: nutrition.fat,
-            fiber: nutrition.fiber,
-            caloriesPerServing: servings > 0 ? Math.round(nutrition.totalCalories / servings) : 0,
-          });
+        const stepEdits = await proposeSubstitutionStepEdits(
+          recipe.title,
+          ingredient,
+          { name: input.newName, amount: input.newAmount, unit: input.newUnit },
+          recipe.steps
+        );
+        return { stepEdits };
+      }),
+
+    // 替換食材，並套用確認過的步驟修改(同一個事務，記錄版本)
+    replace: protectedProcedure
+      .input(substitutionTargetSchema.extend({
+        stepEdits: z.array(substitutionStepEditSchema).optional(),
+      }))
+      .mutation(async ({ input, ctx }) => {
+        await requireRecipeOwner(ctx.user, input.recipeId);
+        const ingredient = await db.getIngredientById(input.ingredientId);
+        if (!ingredient || ingredient.recipeId !== input.recipeId) {
+          throw new Error("找不到食材");
         }
 
-        return { 
-          success: true, 
-          nutritionUpdated: true,
-          newNutrition: nutrition
-        };
+        return await substituteIngredient({
+          userId: ctx.user.id,
+          recipeId: input.recipeId,
+          ingredient,
+          replacement: { name: input.newName, amount: input.newAmount, unit: input.newUnit },
+          stepEdits: input.stepEdits ?? [],
+        });
       }),
   }),
 });
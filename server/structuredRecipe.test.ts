@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  extractStructuredRecipes,
+  isCompleteStructuredRecipe,
+  parseIsoDuration,
+  parseRecipeYield,
+  structuredRecipeToAnalysis,
+} from "./structuredRecipe";
+
+const jsonLdPage = `
+<html><head>
+<script type="application/ld+json">
+{
+  "@context": "https://schema.org",
+  "@graph": [
+    { "@type": "WebSite", "name": "Example" },
+    {
+      "@type": ["Recipe"],
+      "name": "Chocolate Chip Cookies",
+      "description": "Crispy &amp; chewy",
+      "image": [{ "@type": "ImageObject", "url": "https://example.com/cookies.jpg" }],
+      "recipeYield": ["24", "24 cookies"],
+      "prepTime": "PT15M",
+      "cookTime": "PT10M",
+      "totalTime": "PT1H25M",
+      "recipeIngredient": ["2 cups all-purpose flour", "1 tsp baking soda", "salt, to taste"],
+      "recipeInstructions": [
+        { "@type": "HowToSection", "name": "Dough", "itemListElement": [
+          { "@type": "HowToStep", "text": "Mix the <b>flour</b> and soda." },
+          { "@type": "HowToStep", "text": "Chill the dough.", "totalTime": "PT1H" }
+        ]},
+        "Bake until golden."
+      ],
+      "nutrition": { "@type": "NutritionInformation", "calories": "150 kcal", "proteinContent": "2 g", "fatContent": "7.4 g" }
+    }
+  ]
+}
+</script>
+</head><body></body></html>`;
+
+const microdataPage = `
+<div itemscope itemtype="http://schema.org/Recipe">
+  <h1 itemprop="name">番茄炒蛋</h1>
+  <meta itemprop="recipeYield" content="2人份">
+  <meta itemprop="cookTime" content="PT10M">
+  <ul>
+    <li itemprop="recipeIngredient">番茄 2個</li>
+    <li itemprop="recipeIngredient">雞蛋 3隻</li>
+  </ul>
+  <ol itemprop="recipeInstructions">
+    <li>打散雞蛋</li>
+    <li>炒番茄，加入雞蛋</li>
+  </ol>
+</div>`;
+
+describe("parseIsoDuration", () => {
+  it("should convert ISO 8601 durations to minutes", () => {
+    expect(parseIsoDuration("PT15M")).toBe(15);
+    expect(parseIsoDuration("PT1H30M")).toBe(90);
+    expect(parseIsoDuration("P0DT2H")).toBe(120);
+    expect(parseIsoDuration("PT0S")).toBeNull();
+    expect(parseIsoDuration("15 minutes")).toBeNull();
+  });
+});
+
+describe("parseRecipeYield", () => {
+  it("should take the first number from the yield", () => {
+    expect(parseRecipeYield("4 servings")).toBe(4);
+    expect(parseRecipeYield(["6", "6 人份"])).toBe(6);
+    expect(parseRecipeYield(8)).toBe(8);
+    expect(parseRecipeYield("a batch")).toBeNull();
+  });
+});
+
+describe("extractStructuredRecipes", () => {
+  it("should read a Recipe from JSON-LD @graph", () => {
+    const [recipe] = extractStructuredRecipes(jsonLdPage);
+
+    expect(recipe).toMatchObject({
+      source: "json-ld",
+      title: "Chocolate Chip Cookies",
+      description: "Crispy & chewy",
+      imageUrl: "https://example.com/cookies.jpg",
+      servings: 24,
+      prepTime: 15,
+      cookTime: 10,
+      totalTime: 85,
+      ingredients: ["2 cups all-purpose flour", "1 tsp baking soda", "salt, to taste"],
+      nutrition: { calories: 150, protein: 2, carbs: null, fat: 7, fiber: null },
+    });
+    expect(recipe.steps).toEqual([
+      { instruction: "Mix the flour and soda.", duration: null },
+      { instruction: "Chill the dough.", duration: 60 },
+      { instruction: "Bake until golden.", duration: null },
+    ]);
+    expect(isCompleteStructuredRecipe(recipe)).toBe(true);
+  });
+
+  it("should fall back to microdata", () => {
+    const [recipe] = extractStructuredRecipes(microdataPage);
+
+    expect(recipe).toMatchObject({
+      source: "microdata",
+      title: "番茄炒蛋",
+      servings: 2,
+      cookTime: 10,
+      ingredients: ["番茄 2個", "雞蛋 3隻"],
+    });
+    expect(recipe.steps.map(step => step.instruction)).toEqual(["打散雞蛋", "炒番茄，加入雞蛋"]);
+  });
+
+  it("should ignore pages without recipe data or with broken JSON", () => {
+    expect(extractStructuredRecipes('<script type="application/ld+json">{"@type":"VideoObject","name":"x"}</script>')).toEqual([]);
+    expect(extractStructuredRecipes('<script type="application/ld+json">{not json</script>')).toEqual([]);
+    expect(extractStructuredRecipes("<p>no recipe here</p>")).toEqual([]);
+  });
+});
+
+describe("structuredRecipeToAnalysis", () => {
+  it("should split ingredient lines and convert per-serving nutrition to totals", () => {
+    const [recipe] = extractStructuredRecipes(jsonLdPage);
+    const analysis = structuredRecipeToAnalysis({ ...recipe, servings: 2 });
+
+    expect(analysis.ingredients[0]).toEqual({ name: "all-purpose flour", amount: "2", unit: "cups", calories: 0 });
+    expect(analysis.ingredients[2]).toMatchObject({ name: "salt", amount: "to taste" });
+    expect(analysis.steps).toHaveLength(3);
+    expect(analysis.nutrition).toEqual({ totalCalories: 300, protein: 4, carbs: 0, fat: 14, fiber: 0 });
+  });
+});
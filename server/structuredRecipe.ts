@@ -0,0 +1,348 @@
+import { parseIngredientLine } from "./quantityParser";
+
+/**
+ * schema.org Recipe 結構化數據解析
+ * 大部分食譜網站會在頁面內嵌 JSON-LD(<script type="application/ld+json">)或 microdata(itemprop)，
+ * 直接讀取這些數據比把整頁文字交給 AI 分析更快、更便宜，結果也固定
+ */
+
+export type StructuredNutrition = {
+  calories: number | null;
+  protein: number | null;
+  carbs: number | null;
+  fat: number | null;
+  fiber: number | null;
+};
+
+export type StructuredRecipeStep = {
+  instruction: string;
+  duration: number | null; // 分鐘(HowToStep 有註明時間時)
+};
+
+export type StructuredRecipe = {
+  source: "json-ld" | "microdata";
+  title: string;
+  description: string | null;
+  imageUrl: string | null;
+  servings: number | null;
+  prepTime: number | null; // 分鐘
+  cookTime: number | null;
+  totalTime: number | null;
+  ingredients: string[]; // 原始食材文字，例如「2 cups flour」
+  steps: StructuredRecipeStep[];
+  nutrition: StructuredNutrition | null; // 每份營養(schema.org NutritionInformation 以每份計)
+};
+
+type JsonObject = Record<string, unknown>;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " ", "#39": "'",
+};
+
+function decodeHtmlEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+|#39);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (HTML_ENTITIES[lower]) return HTML_ENTITIES[lower];
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return match;
+  });
+}
+
+// 移除 HTML 標籤並合併空白(部分網站在 JSON-LD 的文字中也放 HTML)
+function cleanText(value: string) {
+  return decodeHtmlEntities(value.replace(/<br\s*\/?>/gi, " ").replace(/<[^>]+>/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function asText(value: unknown): string | null {
+  if (typeof value === "string") return cleanText(value) || null;
+  if (typeof value === "number") return String(value);
+  if (Array.isArray(value)) return asText(value[0]);
+  return null;
+}
+
+/**
+ * 解析 ISO 8601 時長(例如 PT1H30M、P0DT45M)，返回分鐘數
+ */
+export function parseIsoDuration(value: unknown): number | null {
+  const text = asText(value);
+  if (!text) return null;
+  const match = text.match(/^P(?:(\d+(?:\.\d+)?)D)?(?:T(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (!match) return null;
+  const [, days, hours, minutes, seconds] = match.map(part => (part ? parseFloat(part) : 0));
+  const total = Math.round(days * 24 * 60 + hours * 60 + minutes + seconds / 60);
+  return total > 0 ? total : null;
+}
+
+/**
+ * 從 recipeYield(「4」、「4 servings」、["4", "4 人份"])取出份量
+ */
+export function parseRecipeYield(value: unknown): number | null {
+  const values = Array.isArray(value) ? value : [value];
+  for (const item of values) {
+    const match = asText(item)?.match(/\d+/);
+    if (match) {
+      const servings = parseInt(match[0]);
+      if (servings > 0 && servings <= 100) return servings;
+    }
+  }
+  return null;
+}
+
+// 「250 kcal」、「12 g」、「12.5」→ 數字
+function parseNutritionValue(value: unknown): number | null {
+  const match = asText(value)?.replace(/,/g, "").match(/\d+(?:\.\d+)?/);
+  return match ? Math.round(parseFloat(match[0])) : null;
+}
+
+function parseNutrition(value: unknown): StructuredNutrition | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const nutrition = value as JsonObject;
+  const result: StructuredNutrition = {
+    calories: parseNutritionValue(nutrition.calories),
+    protein: parseNutritionValue(nutrition.proteinContent),
+    carbs: parseNutritionValue(nutrition.carbohydrateContent),
+    fat: parseNutritionValue(nutrition.fatContent),
+    fiber: parseNutritionValue(nutrition.fiberContent),
+  };
+  return Object.values(result).some(v => v !== null) ? result : null;
+}
+
+function parseImage(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const url = parseImage(item);
+      if (url) return url;
+    }
+    return null;
+  }
+  if (value && typeof value === "object") {
+    const image = value as JsonObject;
+    return parseImage(image.url ?? image.contentUrl);
+  }
+  return null;
+}
+
+/**
+ * 展開 recipeInstructions：可以是字串、字串數組、HowToStep 或包含多個步驟的 HowToSection
+ */
+function parseInstructions(value: unknown): StructuredRecipeStep[] {
+  if (typeof value === "string") {
+    // 整段文字時按換行或 HTML 段落拆分
+    return value
+      .split(/\n+|<\/p>|<\/li>|<br\s*\/?>/i)
+      .map(cleanText)
+      .filter(Boolean)
+      .map(instruction => ({ instruction, duration: null }));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(parseInstructions);
+  }
+  if (value && typeof value === "object") {
+    const node = value as JsonObject;
+    if (node.itemListElement) return parseInstructions(node.itemListElement);
+    const instruction = asText(node.text) ?? asText(node.name);
+    if (!instruction) return [];
+    return [{ instruction, duration: parseIsoDuration(node.totalTime ?? node.performTime) }];
+  }
+  return [];
+}
+
+function hasType(node: JsonObject, type: string) {
+  const types = Array.isArray(node["@type"]) ? node["@type"] : [node["@type"]];
+  return types.some(t => typeof t === "string" && t.replace(/^(?:https?:\/\/)?schema\.org\//, "") === type);
+}
+
+// 從 JSON-LD 中找出所有 Recipe 節點(頂層、數組、@graph 或 WebPage.mainEntity)
+function collectRecipeNodes(value: unknown, found: JsonObject[] = []): JsonObject[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectRecipeNodes(item, found));
+  } else if (value && typeof value === "object") {
+    const node = value as JsonObject;
+    if (hasType(node, "Recipe")) {
+      found.push(node);
+    } else {
+      if (node["@graph"]) collectRecipeNodes(node["@graph"], found);
+      if (node.mainEntity) collectRecipeNodes(node.mainEntity, found);
+    }
+  }
+  return found;
+}
+
+function parseJsonLdBlock(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // 部分網站的 JSON-LD 字串中有未轉義的換行
+    try {
+      return JSON.parse(text.replace(/[\u0000-\u001f]+/g, " "));
+    } catch {
+      return null;
+    }
+  }
+}
+
+function toStructuredRecipe(node: JsonObject): StructuredRecipe | null {
+  const title = asText(node.name) ?? asText(node.headline);
+  if (!title) return null;
+
+  const ingredientValue = node.recipeIngredient ?? node.ingredients;
+  const ingredients = (Array.isArray(ingredientValue) ? ingredientValue : [ingredientValue])
+    .map(asText)
+    .filter((ingredient): ingredient is string => !!ingredient);
+
+  return {
+    source: "json-ld",
+    title,
+    description: asText(node.description),
+    imageUrl: parseImage(node.image),
+    servings: parseRecipeYield(node.recipeYield),
+    prepTime: parseIsoDuration(node.prepTime),
+    cookTime: parseIsoDuration(node.cookTime),
+    totalTime: parseIsoDuration(node.totalTime),
+    ingredients,
+    steps: parseInstructions(node.recipeInstructions),
+    nutrition: parseNutrition(node.nutrition),
+  };
+}
+
+/**
+ * 解析頁面中的 JSON-LD Recipe
+ */
+export function extractJsonLdRecipes(html: string): StructuredRecipe[] {
+  const recipes: StructuredRecipe[] = [];
+  const blocks = Array.from(html.matchAll(/<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi));
+  for (const block of blocks) {
+    const data = parseJsonLdBlock(block[1].trim());
+    for (const node of collectRecipeNodes(data)) {
+      const recipe = toStructuredRecipe(node);
+      if (recipe) recipes.push(recipe);
+    }
+  }
+  return recipes;
+}
+
+// 讀取 microdata 屬性的值：content / datetime / src 屬性優先，否則取元素內的文字
+function getItempropValues(html: string, prop: string): string[] {
+  const values: string[] = [];
+  const pattern = new RegExp(`<(\\w+)([^>]*\\sitemprop=["'][^"']*\\b${prop}\\b[^"']*["'][^>]*)>`, "gi");
+  for (const match of Array.from(html.matchAll(pattern))) {
+    const [, tag, attributes] = match;
+    const attribute = attributes.match(/\s(?:content|datetime|src)=["']([^"']*)["']/i);
+    if (attribute) {
+      values.push(decodeHtmlEntities(attribute[1]).trim());
+      continue;
+    }
+    const start = match.index! + match[0].length;
+    const end = html.toLowerCase().indexOf(`</${tag.toLowerCase()}>`, start);
+    if (end !== -1) values.push(html.slice(start, end));
+  }
+  return values;
+}
+
+/**
+ * 解析頁面中的 microdata Recipe(沒有 JSON-LD 的舊網站)
+ */
+export function extractMicrodataRecipe(html: string): StructuredRecipe | null {
+  const typeMatch = html.match(/itemtype=["']https?:\/\/schema\.org\/Recipe["']/i);
+  if (!typeMatch) return null;
+  const scope = html.slice(typeMatch.index);
+
+  const title = getItempropValues(scope, "name").map(cleanText).find(Boolean);
+  if (!title) return null;
+
+  const ingredients = [...getItempropValues(scope, "recipeIngredient"), ...getItempropValues(scope, "ingredients")]
+    .map(cleanText)
+    .filter(Boolean);
+
+  // 步驟可能是多個 itemprop 元素，也可能是一個包含 <li> 的列表
+  const steps = getItempropValues(scope, "recipeInstructions").flatMap(value =>
+    /<li[\s>]/i.test(value)
+      ? value.split(/<li[^>]*>/i).slice(1).map(item => ({ instruction: cleanText(item), duration: null }))
+      : parseInstructions(value)
+  ).filter(step => step.instruction);
+
+  const first = (prop: string) => getItempropValues(scope, prop)[0];
+  const nutritionValue = (prop: string) => parseNutritionValue(first(prop) ? cleanText(first(prop)) : null);
+  const nutrition: StructuredNutrition = {
+    calories: nutritionValue("calories"),
+    protein: nutritionValue("proteinContent"),
+    carbs: nutritionValue("carbohydrateContent"),
+    fat: nutritionValue("fatContent"),
+    fiber: nutritionValue("fiberContent"),
+  };
+
+  return {
+    source: "microdata",
+    title,
+    description: first("description") ? cleanText(first("description")) || null : null,
+    imageUrl: first("image") || null,
+    servings: parseRecipeYield(first("recipeYield") ? cleanText(first("recipeYield")) : null),
+    prepTime: parseIsoDuration(first("prepTime")),
+    cookTime: parseIsoDuration(first("cookTime")),
+    totalTime: parseIsoDuration(first("totalTime")),
+    ingredients,
+    steps,
+    nutrition: Object.values(nutrition).some(v => v !== null) ? nutrition : null,
+  };
+}
+
+/**
+ * 解析頁面中的結構化食譜：優先使用 JSON-LD，沒有時再找 microdata
+ */
+export function extractStructuredRecipes(html: string): StructuredRecipe[] {
+  const jsonLdRecipes = extractJsonLdRecipes(html);
+  if (jsonLdRecipes.length > 0) return jsonLdRecipes;
+  const microdataRecipe = extractMicrodataRecipe(html);
+  return microdataRecipe ? [microdataRecipe] : [];
+}
+
+/**
+ * 是否有足夠資料直接創建食譜(不需要 AI 分析食材和步驟)
+ */
+export function isCompleteStructuredRecipe(recipe: StructuredRecipe): boolean {
+  return recipe.ingredients.length > 0 && recipe.steps.length > 0;
+}
+
+/**
+ * 把結構化食譜轉成文字，資料不完整時附加在網頁內容前面，幫助 AI 分析
+ */
+export function formatStructuredRecipe(recipe: StructuredRecipe): string {
+  const lines = [`食譜名稱：${recipe.title}`];
+  if (recipe.description) lines.push(`描述：${recipe.description}`);
+  if (recipe.servings) lines.push(`份量：${recipe.servings} 人份`);
+  if (recipe.ingredients.length > 0) lines.push(`食材：\n${recipe.ingredients.map(i => `- ${i}`).join("\n")}`);
+  if (recipe.steps.length > 0) lines.push(`步驟：\n${recipe.steps.map((s, i) => `${i + 1}. ${s.instruction}`).join("\n")}`);
+  return lines.join("\n");
+}
+
+/**
+ * 轉換成與 AI 結構化分析(Stage 2)相同格式的結果，食材文字拆成名稱、數量和單位
+ * 網站提供的營養以每份計，換算成總量；沒有提供的項目為 0，稍後由營養成分表計算
+ */
+export function structuredRecipeToAnalysis(recipe: StructuredRecipe) {
+  const servings = recipe.servings ?? 2;
+  const total = (value: number | null | undefined) => (value ?? 0) * servings;
+  return {
+    title: recipe.title,
+    description: recipe.description ?? recipe.title,
+    servings,
+    ingredients: recipe.ingredients.map(line => ({ ...parseIngredientLine(line), calories: 0 })),
+    steps: recipe.steps.map(step => ({
+      instruction: step.instruction,
+      duration: step.duration,
+      temperature: null,
+      tips: null,
+    })),
+    nutrition: {
+      totalCalories: total(recipe.nutrition?.calories),
+      protein: total(recipe.nutrition?.protein),
+      carbs: total(recipe.nutrition?.carbs),
+      fat: total(recipe.nutrition?.fat),
+      fiber: total(recipe.nutrition?.fiber),
+    },
+  };
+}
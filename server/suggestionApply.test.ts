@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+import { applySuggestionChanges, parseStoredSuggestionChanges, parseSuggestionChanges } from "./suggestionApply";
+
+const ingredients = [
+  { name: "白砂糖", amount: "50", unit: "g", notes: null },
+  { name: "牛油", amount: "100", unit: "g", notes: "室溫軟化" },
+  { name: "麵粉", amount: "200", unit: "g", notes: null },
+];
+
+const step = (stepNumber: number, instruction: string, dependsOn: number[] | null = null) => ({
+  stepNumber,
+  instruction,
+  duration: null,
+  temperature: null,
+  tips: null,
+  imageUrl: null,
+  isPassive: false,
+  dependsOn: dependsOn ? JSON.stringify(dependsOn) : null,
+});
+
+const steps = [
+  step(1, "牛油和糖打發"),
+  step(2, "加入麵粉拌勻", [1]),
+  step(3, "放入焗爐焗 20 分鐘", [1, 2]),
+];
+
+describe("parseSuggestionChanges", () => {
+  it("should drop malformed changes and normalize values", () => {
+    const changes = parseSuggestionChanges({
+      ingredientChanges: [
+        { action: "modify", original: "白砂糖", name: "代糖", amount: 30, unit: "g", reason: "減糖" },
+        { action: "remove", name: "牛油" },
+        { action: "replace", original: "麵粉", name: "全麥麵粉" },
+        "not an object",
+      ],
+      stepChanges: [
+        { action: "add", afterStep: 0, instruction: " 預熱焗爐 ", duration: 10.4 },
+        { action: "modify", instruction: "沒有步驟編號" },
+        { action: "remove", stepNumber: 2 },
+      ],
+    });
+
+    expect(changes.ingredientChanges).toEqual([
+      { action: "modify", original: "白砂糖", name: "代糖", amount: "30", unit: "g", notes: null, reason: "減糖" },
+    ]);
+    expect(changes.stepChanges).toEqual([
+      { action: "add", stepNumber: null, afterStep: 0, instruction: "預熱焗爐", duration: 10, temperature: null, tips: null, reason: null },
+      { action: "remove", stepNumber: 2, afterStep: null, instruction: "", duration: null, temperature: null, tips: null, reason: null },
+    ]);
+  });
+
+  it("should return null for stored values without changes", () => {
+    expect(parseStoredSuggestionChanges(null)).toBeNull();
+    expect(parseStoredSuggestionChanges("{broken")).toBeNull();
+    expect(parseStoredSuggestionChanges(JSON.stringify({ ingredientChanges: [], stepChanges: [] }))).toBeNull();
+  });
+});
+
+describe("applySuggestionChanges", () => {
+  it("should modify, remove and add ingredients", () => {
+    const result = applySuggestionChanges(ingredients, steps, parseSuggestionChanges({
+      ingredientChanges: [
+        { action: "modify", original: "砂糖", name: "代糖", amount: "30", unit: "g", reason: "減糖" },
+        { action: "remove", original: "牛油", reason: "減脂" },
+        { action: "add", name: "希臘乳酪", amount: "80", unit: "g" },
+        { action: "remove", original: "雞蛋" },
+      ],
+    }));
+
+    expect(result.ingredients).toEqual([
+      { name: "代糖", amount: "30", unit: "g", notes: null },
+      { name: "麵粉", amount: "200", unit: "g", notes: null },
+      { name: "希臘乳酪", amount: "80", unit: "g", notes: null },
+    ]);
+    expect(result.ingredientDiff.map(entry => entry.type)).toEqual(["modified", "removed", "unchanged", "added"]);
+    expect(result.ingredientDiff[0].reason).toBe("減糖");
+    expect(result.skipped).toEqual(["找不到食材「雞蛋」"]);
+  });
+
+  it("should insert, modify and remove steps and renumber dependencies", () => {
+    const result = applySuggestionChanges(ingredients, steps, parseSuggestionChanges({
+      stepChanges: [
+        { action: "add", afterStep: 0, instruction: "預熱焗爐至 180°C" },
+        { action: "remove", stepNumber: 1 },
+        { action: "modify", stepNumber: 3, instruction: "放入焗爐焗 15 分鐘", duration: 15 },
+        { action: "add", afterStep: 99, instruction: "放涼後享用" },
+        { action: "modify", stepNumber: 7, instruction: "不存在" },
+      ],
+    }));
+
+    expect(result.steps.map(s => [s.stepNumber, s.instruction])).toEqual([
+      [1, "預熱焗爐至 180°C"],
+      [2, "加入麵粉拌勻"],
+      [3, "放入焗爐焗 15 分鐘"],
+      [4, "放涼後享用"],
+    ]);
+    // 已刪除的第 1 步不再是前置步驟，原第 2 步改為第 2 步
+    expect(result.steps[1].dependsOn).toBe("[]");
+    expect(result.steps[2].dependsOn).toBe("[2]");
+    expect(result.steps[2].duration).toBe(15);
+    expect(result.steps[2].isPassive).toBe(true);
+    expect(result.stepDiff.map(entry => entry.type)).toEqual(["added", "removed", "unchanged", "modified", "added"]);
+    expect(result.skipped).toEqual(["找不到步驟 7"]);
+  });
+
+  it("should not copy row ids into the new steps", () => {
+    const rows = steps.map((s, index) => ({ ...s, id: index + 10, recipeId: 5 }));
+    const result = applySuggestionChanges(ingredients, rows, { ingredientChanges: [], stepChanges: [] });
+    expect(result.steps[0]).not.toHaveProperty("id");
+    expect(result.steps[0]).not.toHaveProperty("recipeId");
+  });
+});
@@ -0,0 +1,453 @@
+import { z } from "zod";
+import type { CookingStep, Ingredient, UserSuggestion } from "../drizzle/schema";
+import { refreshRecipeAllergens } from "./allergens";
+import * as db from "./db";
+import { calculateNutrition } from "./nutritionEngine";
+import { toIngredientQuantityFields } from "./quantityParser";
+import { guessPassiveStep, parseStepDependencies } from "@shared/timeline";
+
+/**
+ * 套用用戶改良建議
+ * AI 處理建議時除了文字方案，還會返回結構化的食材/步驟修改(proposedChanges)；
+ * 套用時可以直接更新原食譜(先建立版本快照)，或另存為新食譜(以 improvedRecipeId 關聯)
+ */
+
+const changeActionSchema = z.enum(["add", "remove", "modify"]);
+
+const ingredientChangeSchema = z.object({
+  action: changeActionSchema,
+  original: z.string().nullish(), // 原食材名稱(remove / modify)
+  name: z.string().nullish(),
+  amount: z.union([z.string(), z.number()]).nullish(),
+  unit: z.string().nullish(),
+  notes: z.string().nullish(),
+  reason: z.string().nullish(),
+});
+
+const stepChangeSchema = z.object({
+  action: changeActionSchema,
+  stepNumber: z.number().int().nullish(), // 原步驟編號(remove / modify)
+  afterStep: z.number().int().nullish(), // 新步驟插在原來第幾步之後(add)，0 表示放在最前
+  instruction: z.string().nullish(),
+  duration: z.number().nullish(),
+  temperature: z.string().nullish(),
+  tips: z.string().nullish(),
+  reason: z.string().nullish(),
+});
+
+export type IngredientChange = {
+  action: z.infer<typeof changeActionSchema>;
+  original: string | null;
+  name: string;
+  amount: string;
+  unit: string;
+  notes: string | null;
+  reason: string | null;
+};
+
+export type StepChange = {
+  action: z.infer<typeof changeActionSchema>;
+  stepNumber: number | null;
+  afterStep: number | null;
+  instruction: string;
+  duration: number | null;
+  temperature: string | null;
+  tips: string | null;
+  reason: string | null;
+};
+
+export type SuggestionChanges = {
+  ingredientChanges: IngredientChange[];
+  stepChanges: StepChange[];
+};
+
+export type ApplyMode = "update" | "fork";
+
+type IngredientDraft = Pick<Ingredient, "name" | "amount" | "unit" | "notes">;
+type StepDraft = Pick<CookingStep, "stepNumber" | "instruction" | "duration" | "temperature" | "tips" | "imageUrl" | "isPassive" | "dependsOn">;
+
+export type DiffType = "added" | "removed" | "modified" | "unchanged";
+
+export type IngredientDiffEntry = {
+  type: DiffType;
+  before: IngredientDraft | null;
+  after: IngredientDraft | null;
+  reason: string | null;
+};
+
+export type StepDiffEntry = {
+  type: DiffType;
+  before: Pick<StepDraft, "stepNumber" | "instruction"> | null;
+  after: Pick<StepDraft, "stepNumber" | "instruction"> | null;
+  reason: string | null;
+};
+
+export type AppliedSuggestion = {
+  ingredients: IngredientDraft[];
+  steps: StepDraft[];
+  ingredientDiff: IngredientDiffEntry[];
+  stepDiff: StepDiffEntry[];
+  skipped: string[]; // 找不到對應食材或步驟而略過的修改
+};
+
+const trimmed = (value: string | number | null | undefined) => (value === null || value === undefined ? "" : String(value).trim());
+const optionalText = (value: string | null | undefined) => trimmed(value) || null;
+
+/**
+ * 整理 AI 返回的修改：格式不正確或缺少必要欄位的項目直接略過
+ */
+export function parseSuggestionChanges(value: unknown): SuggestionChanges {
+  const data = value && typeof value === "object" ? value as Record<string, unknown> : {};
+  const list = (items: unknown) => (Array.isArray(items) ? items : []);
+
+  const ingredientChanges = list(data.ingredientChanges).flatMap((item): IngredientChange[] => {
+    const parsed = ingredientChangeSchema.safeParse(item);
+    if (!parsed.success) return [];
+    const change: IngredientChange = {
+      action: parsed.data.action,
+      original: optionalText(parsed.data.original),
+      name: trimmed(parsed.data.name),
+      amount: trimmed(parsed.data.amount),
+      unit: trimmed(parsed.data.unit),
+      notes: optionalText(parsed.data.notes),
+      reason: optionalText(parsed.data.reason),
+    };
+    if (change.action !== "add" && !change.original) return [];
+    if (change.action !== "remove" && !change.name) return [];
+    return [change];
+  });
+
+  const stepChanges = list(data.stepChanges).flatMap((item): StepChange[] => {
+    const parsed = stepChangeSchema.safeParse(item);
+    if (!parsed.success) return [];
+    const duration = parsed.data.duration;
+    const change: StepChange = {
+      action: parsed.data.action,
+      stepNumber: parsed.data.stepNumber ?? null,
+      afterStep: parsed.data.afterStep ?? null,
+      instruction: trimmed(parsed.data.instruction),
+      duration: duration && duration > 0 ? Math.max(1, Math.round(duration)) : null,
+      temperature: optionalText(parsed.data.temperature),
+      tips: optionalText(parsed.data.tips),
+      reason: optionalText(parsed.data.reason),
+    };
+    if (change.action !== "add" && change.stepNumber === null) return [];
+    if (change.action !== "remove" && !change.instruction) return [];
+    return [change];
+  });
+
+  return { ingredientChanges, stepChanges };
+}
+
+export function parseStoredSuggestionChanges(value: string | null): SuggestionChanges | null {
+  if (!value) return null;
+  try {
+    const changes = parseSuggestionChanges(JSON.parse(value));
+    return changes.ingredientChanges.length > 0 || changes.stepChanges.length > 0 ? changes : null;
+  } catch {
+    return null;
+  }
+}
+
+function normalizeName(name: string) {
+  return name.replace(/\s+/g, "").toLowerCase();
+}
+
+// 先找名稱完全相同的食材，再找互相包含的(例如「白砂糖」對應「砂糖」)
+function findIngredientIndex(ingredients: IngredientDraft[], used: Set<number>, original: string) {
+  const target = normalizeName(original);
+  const candidates = ingredients.map((ingredient, index) => ({ name: normalizeName(ingredient.name), index })).filter(c => !used.has(c.index));
+  return (
+    candidates.find(c => c.name === target) ??
+    candidates.find(c => c.name.includes(target) || target.includes(c.name))
+  )?.index ?? -1;
+}
+
+function sameIngredient(a: IngredientDraft, b: IngredientDraft) {
+  return a.name === b.name && (a.amount ?? "") === (b.amount ?? "") && (a.unit ?? "") === (b.unit ?? "") && (a.notes ?? "") === (b.notes ?? "");
+}
+
+/**
+ * 把修改套用到食材和步驟上，返回修改後的內容和預覽用的差異
+ * 步驟修改以原來的步驟編號為準，套用後重新編號，並相應更新步驟之間的依賴
+ */
+export function applySuggestionChanges(
+  ingredients: IngredientDraft[],
+  steps: StepDraft[],
+  changes: SuggestionChanges
+): AppliedSuggestion {
+  const skipped: string[] = [];
+
+  // ---------- 食材 ----------
+  const ingredientResults: Array<{ after: IngredientDraft | null; reason: string | null; changed: boolean }> = ingredients.map(ingredient => ({
+    after: ingredient,
+    reason: null,
+    changed: false,
+  }));
+  const addedIngredients: IngredientDiffEntry[] = [];
+  const usedIngredients = new Set<number>();
+
+  for (const change of changes.ingredientChanges) {
+    const toDraft = (notes: string | null): IngredientDraft => ({
+      name: change.name,
+      amount: change.amount || null,
+      unit: change.unit || null,
+      notes,
+    });
+
+    if (change.action === "add") {
+      addedIngredients.push({ type: "added", before: null, after: toDraft(change.notes), reason: change.reason });
+      continue;
+    }
+
+    const index = findIngredientIndex(ingredients, usedIngredients, change.original!);
+    if (index === -1) {
+      skipped.push(`找不到食材「${change.original}」`);
+      continue;
+    }
+    usedIngredients.add(index);
+    ingredientResults[index] = {
+      after: change.action === "remove" ? null : toDraft(change.notes ?? ingredients[index].notes),
+      reason: change.reason,
+      changed: true,
+    };
+  }
+
+  const ingredientDiff: IngredientDiffEntry[] = ingredients.map((before, index) => {
+    const { after, reason, changed } = ingredientResults[index];
+    if (!after) return { type: "removed", before, after: null, reason };
+    if (!changed || sameIngredient(before, after)) return { type: "unchanged", before, after, reason: null };
+    return { type: "modified", before, after, reason };
+  });
+  ingredientDiff.push(...addedIngredients);
+
+  // ---------- 步驟 ----------
+  // 只保留步驟內容，不帶原來的 id 和 recipeId
+  const sortedSteps: StepDraft[] = [...steps]
+    .sort((a, b) => a.stepNumber - b.stepNumber)
+    .map(({ stepNumber, instruction, duration, temperature, tips, imageUrl, isPassive, dependsOn }) => ({
+      stepNumber,
+      instruction,
+      duration,
+      temperature,
+      tips,
+      imageUrl,
+      isPassive,
+      dependsOn,
+    }));
+  const stepNumbers = new Set(sortedSteps.map(step => step.stepNumber));
+  const modifiedSteps = new Map<number, StepChange>();
+  const removedSteps = new Map<number, StepChange>();
+  const insertions = new Map<number, StepChange[]>(); // 原步驟編號 → 插在它之後的新步驟(0 表示最前)
+  const lastStepNumber = sortedSteps.length > 0 ? sortedSteps[sortedSteps.length - 1].stepNumber : 0;
+
+  for (const change of changes.stepChanges) {
+    if (change.action === "add") {
+      // 未指定或超出範圍時加在最後
+      const after = change.afterStep !== null && (change.afterStep === 0 || stepNumbers.has(change.afterStep))
+        ? change.afterStep
+        : lastStepNumber;
+      insertions.set(after, [...(insertions.get(after) ?? []), change]);
+      continue;
+    }
+    if (!stepNumbers.has(change.stepNumber!) || modifiedSteps.has(change.stepNumber!) || removedSteps.has(change.stepNumber!)) {
+      skipped.push(`找不到步驟 ${change.stepNumber}`);
+      continue;
+    }
+    (change.action === "remove" ? removedSteps : modifiedSteps).set(change.stepNumber!, change);
+  }
+
+  const newSteps: StepDraft[] = [];
+  const stepDiff: StepDiffEntry[] = [];
+  const renumbered = new Map<number, number>(); // 原步驟編號 → 新步驟編號
+
+  const pushInsertions = (after: number) => {
+    for (const change of insertions.get(after) ?? []) {
+      const step: StepDraft = {
+        stepNumber: newSteps.length + 1,
+        instruction: change.instruction,
+        duration: change.duration,
+        temperature: change.temperature,
+        tips: change.tips,
+        imageUrl: null,
+        isPassive: guessPassiveStep(change.instruction),
+        dependsOn: null,
+      };
+      newSteps.push(step);
+      stepDiff.push({ type: "added", before: null, after: { stepNumber: step.stepNumber, instruction: step.instruction }, reason: change.reason });
+    }
+  };
+
+  pushInsertions(0);
+  for (const original of sortedSteps) {
+    const before = { stepNumber: original.stepNumber, instruction: original.instruction };
+    const removal = removedSteps.get(original.stepNumber);
+    if (removal) {
+      stepDiff.push({ type: "removed", before, after: null, reason: removal.reason });
+    } else {
+      const modification = modifiedSteps.get(original.stepNumber);
+      const step: StepDraft = modification
+        ? {
+            ...original,
+            stepNumber: newSteps.length + 1,
+            instruction: modification.instruction,
+            duration: modification.duration ?? original.duration,
+            temperature: modification.temperature ?? original.temperature,
+            tips: modification.tips ?? original.tips,
+            isPassive: original.isPassive || guessPassiveStep(modification.instruction),
+          }
+        : { ...original, stepNumber: newSteps.length + 1 };
+      renumbered.set(original.stepNumber, step.stepNumber);
+      newSteps.push(step);
+
+      const after = { stepNumber: step.stepNumber, instruction: step.instruction };
+      stepDiff.push(
+        modification && modification.instruction !== original.instruction
+          ? { type: "modified", before, after, reason: modification.reason }
+          : { type: "unchanged", before, after, reason: null }
+      );
+    }
+    pushInsertions(original.stepNumber);
+  }
+
+  // 依賴改用新編號，已刪除的步驟不再是前置步驟
+  for (const step of newSteps) {
+    const dependencies = parseStepDependencies(step.dependsOn);
+    if (dependencies === null) continue;
+    const mapped = dependencies.map(n => renumbered.get(n)).filter((n): n is number => n !== undefined && n < step.stepNumber);
+    step.dependsOn = JSON.stringify(mapped);
+  }
+
+  return {
+    ingredients: ingredientDiff.flatMap(entry => (entry.after ? [entry.after] : [])),
+    steps: newSteps,
+    ingredientDiff,
+    stepDiff,
+    skipped,
+  };
+}
+
+/**
+ * 預覽建議套用後的食譜(不寫入資料庫)；營養只用本地營養成分表估算
+ */
+export async function previewSuggestion(suggestion: UserSuggestion) {
+  const changes = parseStoredSuggestionChanges(suggestion.proposedChanges);
+  if (!changes) {
+    throw new Error("此建議沒有可套用的修改");
+  }
+  const recipe = await db.getRecipeById(suggestion.recipeId);
+  if (!recipe) {
+    throw new Error("找不到食譜");
+  }
+
+  const applied = applySuggestionChanges(recipe.ingredients, recipe.steps, changes);
+  const nutrition = await calculateNutrition(applied.ingredients, { useLLMFallback: false });
+  return {
+    ingredientDiff: applied.ingredientDiff,
+    stepDiff: applied.stepDiff,
+    skipped: applied.skipped,
+    nutrition: {
+      before: {
+        calories: recipe.totalCalories,
+        protein: recipe.protein,
+        carbs: recipe.carbs,
+        fat: recipe.fat,
+        fiber: recipe.fiber,
+      },
+      after: nutrition.totals,
+    },
+  };
+}
+
+function toIngredientRows(ingredients: IngredientDraft[], ingredientCalories: number[]): db.RecipeIngredientRow[] {
+  return ingredients.map((ingredient, i) => ({
+    name: ingredient.name,
+    amount: ingredient.amount,
+    unit: ingredient.unit,
+    ...toIngredientQuantityFields(ingredient.amount, ingredient.unit),
+    calories: Math.round(ingredientCalories[i]),
+    notes: ingredient.notes,
+    order: i + 1,
+  }));
+}
+
+/**
+ * 套用建議：update 更新原食譜(先建立版本快照)，fork 另存為新食譜
+ * 食譜寫入和建議狀態改為 applied 在同一個事務中完成，同時套用同一建議時只有一方成功
+ */
+export async function applySuggestion(suggestion: UserSuggestion, mode: ApplyMode, userId: number): Promise<number> {
+  const changes = parseStoredSuggestionChanges(suggestion.proposedChanges);
+  if (!changes) {
+    throw new Error("此建議沒有可套用的修改");
+  }
+  const recipe = await db.getRecipeById(suggestion.recipeId);
+  if (!recipe) {
+    throw new Error("找不到食譜");
+  }
+
+  const applied = applySuggestionChanges(recipe.ingredients, recipe.steps, changes);
+  const nutritionResult = await calculateNutrition(applied.ingredients);
+  const { calories: totalCalories, protein, carbs, fat, fiber } = nutritionResult.totals;
+  const servings = recipe.servings && recipe.servings > 0 ? recipe.servings : 1;
+  const nutrition = {
+    totalCalories,
+    caloriesPerServing: Math.round(totalCalories / servings),
+    protein,
+    carbs,
+    fat,
+    fiber,
+  };
+  const ingredientCalories = nutritionResult.ingredients.map(ingredient => ingredient.calories);
+
+  const snapshot = mode === "update" ? await db.getRecipeSnapshotData(recipe.id) : null;
+  const targetRecipeId = await db.withTransaction(async (tx) => {
+    let recipeId: number;
+    if (mode === "update") {
+      if (snapshot) {
+        await db.insertRecipeVersion(tx, recipe.id, {
+          userId,
+          snapshotData: snapshot,
+          changeDescription: `套用改良建議前的快照：${suggestion.suggestionText.slice(0, 50)}`,
+          changedFields: ["ingredients", "steps", "nutrition"],
+        });
+      }
+      await db.writeRecipeParts(tx, recipe.id, {
+        recipe: nutrition,
+        ingredients: toIngredientRows(applied.ingredients, ingredientCalories),
+        steps: applied.steps,
+      });
+      recipeId = recipe.id;
+    } else {
+      recipeId = await db.insertRecipeWithContent(tx, {
+        userId,
+        title: `${recipe.title}（改良版）`,
+        description: recipe.description,
+        inputMethod: recipe.inputMethod,
+        sourceUrl: recipe.sourceUrl,
+        imageUrl: recipe.imageUrl,
+        videoUrl: recipe.videoUrl,
+        servings: recipe.servings,
+        ...nutrition,
+        difficulty: recipe.difficulty,
+        prepTime: recipe.prepTime,
+        cookTime: recipe.cookTime,
+        totalTime: recipe.totalTime,
+        requiredEquipment: recipe.requiredEquipment,
+        isPublished: false,
+      }, {
+        ingredients: toIngredientRows(applied.ingredients, ingredientCalories),
+        steps: applied.steps,
+        categoryIds: recipe.categories.map(category => category.id),
+      });
+    }
+
+    if (!await db.markSuggestionApplied(tx, suggestion.id, recipeId)) {
+      throw new Error("此建議已經套用");
+    }
+    return recipeId;
+  });
+  await refreshRecipeAllergens(targetRecipeId);
+
+  console.log(`[suggestionApply] ✅ Applied suggestion ${suggestion.id} to recipe ${targetRecipeId} (${mode})`);
+  return targetRecipeId;
+}
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { buildRecipeTimeline, guessPassiveStep, parseStepDependencies, type TimelineStepInput } from "@shared/timeline";
+
+const step = (stepNumber: number, duration: number | null, isPassive = false, dependsOn: number[] | null = null): TimelineStepInput => ({
+  stepNumber,
+  duration,
+  isPassive,
+  dependsOn,
+});
+
+describe("buildRecipeTimeline", () => {
+  it("should run steps one after another by default", () => {
+    const timeline = buildRecipeTimeline([step(1, 5), step(2, 10), step(3, 3)]);
+
+    expect(timeline.entries.map(e => [e.start, e.end])).toEqual([[0, 5], [5, 15], [15, 18]]);
+    expect(timeline.totalTime).toBe(18);
+    expect(timeline.sequentialTime).toBe(18);
+    expect(timeline.entries.every(e => e.isCritical)).toBe(true);
+  });
+
+  it("should let active steps run while a passive step is going", () => {
+    const timeline = buildRecipeTimeline([
+      step(1, 10),
+      step(2, 30, true), // 燉 30 分鐘
+      step(3, 5, false, [1]), // 燉的同時準備配菜
+      step(4, 5, false, [2, 3]),
+    ]);
+
+    expect(timeline.entries.map(e => [e.start, e.end])).toEqual([[0, 10], [10, 40], [10, 15], [40, 45]]);
+    expect(timeline.totalTime).toBe(45);
+    expect(timeline.sequentialTime).toBe(50);
+    expect(timeline.entries.filter(e => e.isCritical).map(e => e.stepNumber)).toEqual([1, 2, 4]);
+  });
+
+  it("should start steps with no dependencies from the beginning", () => {
+    const timeline = buildRecipeTimeline([
+      step(1, 30, true), // 醃肉
+      step(2, 10, false, []),
+      step(3, 5, false, [1, 2]),
+    ]);
+
+    expect(timeline.entries.map(e => [e.start, e.end])).toEqual([[0, 30], [0, 10], [30, 35]]);
+    expect(timeline.totalTime).toBe(35);
+    expect(timeline.entries.filter(e => e.isCritical).map(e => e.stepNumber)).toEqual([1, 3]);
+  });
+
+  it("should not overlap two active steps", () => {
+    const timeline = buildRecipeTimeline([step(1, 10), step(2, 5, false, [])]);
+
+    expect(timeline.entries.map(e => [e.start, e.end])).toEqual([[0, 10], [10, 15]]);
+    expect(timeline.entries.every(e => e.isCritical)).toBe(true);
+  });
+
+  it("should ignore dependencies on later or missing steps", () => {
+    const timeline = buildRecipeTimeline([step(1, 5, false, [2]), step(2, 5, true, [1, 9])]);
+
+    expect(timeline.entries[0].dependsOn).toEqual([]);
+    expect(timeline.entries[1].dependsOn).toEqual([1]);
+    expect(timeline.totalTime).toBe(10);
+  });
+
+  it("should schedule steps that share a step number", () => {
+    const timeline = buildRecipeTimeline([step(1, 5), step(2, 10), step(2, 3), step(3, 4, false, [2])]);
+
+    expect(timeline.entries.map(e => [e.index, e.stepNumber, e.start, e.end])).toEqual([
+      [0, 1, 0, 5],
+      [1, 2, 5, 15],
+      [2, 2, 15, 18],
+      [3, 3, 18, 22],
+    ]);
+    expect(timeline.totalTime).toBe(22);
+    expect(timeline.entries.every(e => e.isCritical)).toBe(true);
+  });
+
+  it("should return zero total time when no step has a duration", () => {
+    const timeline = buildRecipeTimeline([step(1, null), step(2, null)]);
+
+    expect(timeline.totalTime).toBe(0);
+    expect(timeline.entries.some(e => e.isCritical)).toBe(false);
+  });
+});
+
+describe("guessPassiveStep", () => {
+  it("should detect hands-off steps", () => {
+    expect(guessPassiveStep("細火燉 40 分鐘")).toBe(true);
+    expect(guessPassiveStep("放入焗爐焗 20 分鐘")).toBe(true);
+    expect(guessPassiveStep("Marinate the chicken overnight")).toBe(true);
+    expect(guessPassiveStep("Let it simmer for 30 minutes")).toBe(true);
+  });
+
+  it("should not flag hands-on steps", () => {
+    expect(guessPassiveStep("將洋蔥切粒")).toBe(false);
+    expect(guessPassiveStep("Stir-fry the vegetables")).toBe(false);
+    expect(guessPassiveStep("Use a roaster pan")).toBe(false);
+  });
+});
+
+describe("parseStepDependencies", () => {
+  it("should parse stored JSON arrays", () => {
+    expect(parseStepDependencies("[1,3]")).toEqual([1, 3]);
+    expect(parseStepDependencies("[]")).toEqual([]);
+  });
+
+  it("should return null for missing or invalid values", () => {
+    expect(parseStepDependencies(null)).toBeNull();
+    expect(parseStepDependencies("not json")).toBeNull();
+    expect(parseStepDependencies('{"a":1}')).toBeNull();
+  });
+});
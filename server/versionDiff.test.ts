@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { applyStepSelection, diffSnapshots, normalizeSnapshot } from "./versionDiff";
+
+const step = (stepNumber: number, instruction: string, extra: { duration?: number; dependsOn?: number[] } = {}) => ({
+  stepNumber,
+  instruction,
+  duration: extra.duration ?? null,
+  temperature: null,
+  tips: null,
+  imageUrl: null,
+  isPassive: false,
+  dependsOn: extra.dependsOn ? JSON.stringify(extra.dependsOn) : null,
+});
+
+const current = normalizeSnapshot({
+  recipe: { title: "番茄炒蛋", description: "家常菜", servings: 2, totalCalories: 400, isPublished: true },
+  ingredients: [
+    { name: "番茄", amount: "2", unit: "個", order: 1 },
+    { name: "雞蛋", amount: "3", unit: "隻", order: 2 },
+    { name: "糖", amount: "1", unit: "茶匙", order: 3 },
+  ],
+  steps: [
+    step(1, "打散雞蛋"),
+    step(2, "炒番茄", { duration: 3, dependsOn: [1] }),
+    step(3, "加入雞蛋炒勻", { dependsOn: [2] }),
+    step(4, "加糖調味", { dependsOn: [3] }),
+  ],
+  categories: [{ id: 1, name: "中式" }, { id: 2, name: "快手菜" }],
+});
+
+const version = normalizeSnapshot({
+  recipe: { title: "番茄炒蛋", description: "經典家常菜", servings: 2, totalCalories: 450, isPublished: true },
+  ingredients: [
+    { name: "番茄", amount: "3", unit: "個", order: 1 },
+    { name: "雞蛋", amount: "3", unit: "隻", order: 2 },
+    { name: "葱", amount: "1", unit: "棵", order: 3 },
+  ],
+  steps: [
+    step(1, "打散雞蛋，加少許鹽"),
+    step(2, "炒番茄", { duration: 5, dependsOn: [1] }),
+    step(3, "加入雞蛋炒勻", { dependsOn: [2] }),
+    step(4, "灑上葱花", { dependsOn: [3] }),
+    step(5, "上碟", { dependsOn: [4] }),
+  ],
+  categories: [{ id: 1, name: "中式" }, { id: 3, name: "素食" }],
+});
+
+describe("normalizeSnapshot", () => {
+  it("should fill missing fields in old snapshots", () => {
+    const snapshot = normalizeSnapshot({ recipe: { title: "舊食譜" }, ingredients: [{ name: "鹽" }], steps: [{ stepNumber: 1, instruction: "加鹽" }] });
+    expect(snapshot.recipe.description).toBeNull();
+    expect(snapshot.recipe.isPublished).toBe(false);
+    expect(snapshot.ingredients[0]).toEqual({ name: "鹽", amount: null, unit: null, notes: null, calories: null, order: null });
+    expect(snapshot.steps[0]).toMatchObject({ isPassive: false, dependsOn: null });
+    expect(snapshot.categories).toEqual([]);
+  });
+});
+
+describe("diffSnapshots", () => {
+  it("should report changed fields, ingredients and categories", () => {
+    const diff = diffSnapshots(current, version);
+
+    expect(diff.fields.map(field => [field.field, field.before, field.after])).toEqual([
+      ["description", "家常菜", "經典家常菜"],
+      ["totalCalories", 400, 450],
+    ]);
+    expect(diff.ingredients.map(entry => [entry.type, entry.before?.name ?? entry.after?.name, entry.changes])).toEqual([
+      ["modified", "番茄", ["amount"]],
+      ["unchanged", "雞蛋", []],
+      ["removed", "糖", []],
+      ["added", "葱", []],
+    ]);
+    expect(diff.categories.added).toEqual([{ id: 3, name: "素食" }]);
+    expect(diff.categories.removed).toEqual([{ id: 2, name: "快手菜" }]);
+  });
+
+  it("should align steps by content", () => {
+    const diff = diffSnapshots(current, version);
+    expect(diff.steps.map(entry => [entry.key, entry.type, entry.changes])).toEqual([
+      ["1-1", "modified", ["instruction"]],
+      ["2-2", "modified", ["duration"]],
+      ["3-3", "unchanged", []],
+      ["4-4", "modified", ["instruction"]],
+      ["0-5", "added", []],
+    ]);
+  });
+
+  it("should treat inserted steps as additions instead of shifting every step", () => {
+    const withInsertedStep = normalizeSnapshot({
+      steps: [step(1, "打散雞蛋"), step(2, "預熱鑊"), step(3, "炒番茄", { duration: 3 }), step(4, "加入雞蛋炒勻"), step(5, "加糖調味")],
+    });
+    const diff = diffSnapshots(current, withInsertedStep);
+    expect(diff.steps.map(entry => [entry.key, entry.type])).toEqual([
+      ["1-1", "unchanged"],
+      ["0-2", "added"],
+      ["2-3", "unchanged"],
+      ["3-4", "unchanged"],
+      ["4-5", "unchanged"],
+    ]);
+  });
+});
+
+describe("applyStepSelection", () => {
+  const diff = diffSnapshots(current, version).steps;
+
+  it("should restore a single step and keep the others", () => {
+    const steps = applyStepSelection(diff, new Set(["2-2"]));
+    expect(steps.map(s => [s.stepNumber, s.instruction, s.duration])).toEqual([
+      [1, "打散雞蛋", null],
+      [2, "炒番茄", 5],
+      [3, "加入雞蛋炒勻", null],
+      [4, "加糖調味", null],
+    ]);
+  });
+
+  it("should remove selected steps and renumber dependencies", () => {
+    const removal = diffSnapshots(current, normalizeSnapshot({ steps: [step(1, "炒番茄", { duration: 3 }), step(2, "上碟", { dependsOn: [1] })] })).steps;
+    expect(removal.map(entry => [entry.key, entry.type])).toEqual([
+      ["1-0", "removed"],
+      ["2-1", "unchanged"],
+      ["3-2", "modified"],
+      ["4-0", "removed"],
+    ]);
+
+    const steps = applyStepSelection(removal, new Set(["1-0"]));
+    expect(steps.map(s => [s.stepNumber, s.instruction, s.dependsOn])).toEqual([
+      [1, "炒番茄", "[]"],
+      [2, "加入雞蛋炒勻", "[1]"],
+      [3, "加糖調味", "[2]"],
+    ]);
+  });
+
+  it("should produce the version's steps when everything is selected", () => {
+    const steps = applyStepSelection(diff, new Set(diff.map(entry => entry.key)));
+    expect(steps).toEqual(version.steps);
+  });
+});
@@ -0,0 +1,389 @@
+import type { InsertRecipe } from "../drizzle/schema";
+import { refreshRecipeAllergens } from "./allergens";
+import * as db from "./db";
+import { toIngredientQuantityFields } from "./quantityParser";
+import type { DiffType } from "./suggestionApply";
+import { parseStepDependencies } from "@shared/timeline";
+
+/**
+ * 版本對比和部分還原
+ * 比較兩個版本快照(或快照和目前狀態)的食譜欄位、食材、步驟和分類；
+ * 還原時只套用選中的部分，例如只還原食材或某一個步驟
+ */
+
+// 可以對比和還原的食譜欄位
+export const RECIPE_DIFF_FIELDS = {
+  title: "名稱",
+  description: "描述",
+  servings: "份量",
+  difficulty: "難度",
+  prepTime: "準備時間",
+  cookTime: "烹飪時間",
+  totalTime: "總時間",
+  imageUrl: "圖片",
+  totalCalories: "總卡路里",
+  caloriesPerServing: "每份卡路里",
+  protein: "蛋白質",
+  carbs: "碳水化合物",
+  fat: "脂肪",
+  fiber: "纖維",
+  isPublished: "發佈狀態",
+} as const;
+
+export type RecipeDiffField = keyof typeof RECIPE_DIFF_FIELDS;
+
+// 非空元組，可以直接傳給 z.enum
+export const RECIPE_DIFF_FIELD_KEYS = Object.keys(RECIPE_DIFF_FIELDS) as [RecipeDiffField, ...RecipeDiffField[]];
+
+// 營養成分由食材計算，還原食材時一併還原
+const NUTRITION_FIELDS: RecipeDiffField[] = ["totalCalories", "caloriesPerServing", "protein", "carbs", "fat", "fiber"];
+
+export type SnapshotIngredient = {
+  name: string;
+  amount: string | null;
+  unit: string | null;
+  notes: string | null;
+  calories: number | null;
+  order: number | null;
+};
+
+export type SnapshotStep = {
+  stepNumber: number;
+  instruction: string;
+  duration: number | null;
+  temperature: string | null;
+  tips: string | null;
+  imageUrl: string | null;
+  isPassive: boolean;
+  dependsOn: string | null;
+};
+
+export type SnapshotCategory = { id: number; name: string };
+
+export type RecipeSnapshot = {
+  recipe: Partial<Record<RecipeDiffField, unknown>>;
+  ingredients: SnapshotIngredient[];
+  steps: SnapshotStep[];
+  categories: SnapshotCategory[];
+};
+
+export type FieldDiff = {
+  field: RecipeDiffField;
+  label: string;
+  before: unknown;
+  after: unknown;
+};
+
+export type IngredientDiff = {
+  type: DiffType;
+  before: SnapshotIngredient | null;
+  after: SnapshotIngredient | null;
+  changes: Array<"amount" | "unit" | "notes">;
+};
+
+export type StepDiff = {
+  key: string; // 用於部分還原時選擇步驟
+  type: DiffType;
+  before: SnapshotStep | null;
+  after: SnapshotStep | null;
+  changes: Array<"instruction" | "duration" | "temperature" | "tips" | "imageUrl">;
+};
+
+export type SnapshotDiff = {
+  fields: FieldDiff[];
+  ingredients: IngredientDiff[];
+  steps: StepDiff[];
+  categories: { added: SnapshotCategory[]; removed: SnapshotCategory[] };
+};
+
+export type RestoreParts = {
+  fields?: RecipeDiffField[];
+  ingredients?: boolean;
+  categories?: boolean;
+  stepKeys?: string[];
+};
+
+const asText = (value: unknown) => (typeof value === "string" && value.length > 0 ? value : null);
+const asNumber = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+
+/**
+ * 整理快照數據；舊版本的快照可能缺少部分欄位
+ */
+export function normalizeSnapshot(data: any): RecipeSnapshot {
+  const recipe: Partial<Record<RecipeDiffField, unknown>> = {};
+  for (const field of RECIPE_DIFF_FIELD_KEYS) {
+    recipe[field] = data?.recipe?.[field] ?? null;
+  }
+  recipe.isPublished = Boolean(recipe.isPublished);
+
+  const ingredients: SnapshotIngredient[] = (Array.isArray(data?.ingredients) ? data.ingredients : [])
+    .map((ingredient: any) => ({
+      name: String(ingredient?.name ?? ""),
+      amount: asText(ingredient?.amount),
+      unit: asText(ingredient?.unit),
+      notes: asText(ingredient?.notes),
+      calories: asNumber(ingredient?.calories),
+      order: asNumber(ingredient?.order),
+    }))
+    .sort((a: SnapshotIngredient, b: SnapshotIngredient) => (a.order ?? 0) - (b.order ?? 0));
+
+  const steps: SnapshotStep[] = (Array.isArray(data?.steps) ? data.steps : [])
+    .map((step: any) => ({
+      stepNumber: Number(step?.stepNumber) || 0,
+      instruction: String(step?.instruction ?? ""),
+      duration: asNumber(step?.duration),
+      temperature: asText(step?.temperature),
+      tips: asText(step?.tips),
+      imageUrl: asText(step?.imageUrl),
+      isPassive: Boolean(step?.isPassive),
+      dependsOn: asText(step?.dependsOn),
+    }))
+    .sort((a: SnapshotStep, b: SnapshotStep) => a.stepNumber - b.stepNumber);
+
+  const categories: SnapshotCategory[] = (Array.isArray(data?.categories) ? data.categories : [])
+    .map((category: any) => ({ id: Number(category?.id), name: String(category?.name ?? "") }))
+    .filter((category: SnapshotCategory) => Number.isInteger(category.id));
+
+  return { recipe, ingredients, steps, categories };
+}
+
+/**
+ * 取出快照中指定的食譜欄位，用於寫回 recipes 表
+ */
+export function snapshotRecipeFields(snapshot: RecipeSnapshot, fields: RecipeDiffField[]): Partial<InsertRecipe> {
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    values[field] = snapshot.recipe[field] ?? null;
+  }
+  return values as Partial<InsertRecipe>;
+}
+
+/**
+ * 把快照中的食材轉成可寫入的食材行(重新解析結構化份量)
+ */
+export function snapshotIngredientRows(ingredients: SnapshotIngredient[]): db.RecipeIngredientRow[] {
+  return ingredients.map((ingredient, index) => ({
+    name: ingredient.name,
+    amount: ingredient.amount,
+    unit: ingredient.unit,
+    ...toIngredientQuantityFields(ingredient.amount, ingredient.unit),
+    calories: ingredient.calories,
+    notes: ingredient.notes,
+    order: ingredient.order ?? index + 1,
+  }));
+}
+
+const normalizeKey = (text: string) => text.replace(/\s+/g, "").toLowerCase();
+
+function diffIngredients(before: SnapshotIngredient[], after: SnapshotIngredient[]): IngredientDiff[] {
+  const remaining = after.map((ingredient, index) => ({ ingredient, index }));
+  const matched = new Set<number>();
+  const result: IngredientDiff[] = [];
+
+  for (const ingredient of before) {
+    const match = remaining.find(item => !matched.has(item.index) && normalizeKey(item.ingredient.name) === normalizeKey(ingredient.name));
+    if (!match) {
+      result.push({ type: "removed", before: ingredient, after: null, changes: [] });
+      continue;
+    }
+    matched.add(match.index);
+    const changes = (["amount", "unit", "notes"] as const).filter(field => ingredient[field] !== match.ingredient[field]);
+    result.push({ type: changes.length > 0 ? "modified" : "unchanged", before: ingredient, after: match.ingredient, changes });
+  }
+  for (const item of remaining) {
+    if (!matched.has(item.index)) {
+      result.push({ type: "added", before: null, after: item.ingredient, changes: [] });
+    }
+  }
+  return result;
+}
+
+function stepChanges(before: SnapshotStep, after: SnapshotStep) {
+  return (["instruction", "duration", "temperature", "tips", "imageUrl"] as const).filter(field => before[field] !== after[field]);
+}
+
+function stepKey(before: SnapshotStep | null, after: SnapshotStep | null) {
+  return `${before?.stepNumber ?? 0}-${after?.stepNumber ?? 0}`;
+}
+
+/**
+ * 對齊兩組步驟：內容相同的步驟按最長公共子序列對齊，
+ * 兩個對齊點之間的步驟按順序配對為修改，多出來的為新增或刪除
+ */
+function diffSteps(before: SnapshotStep[], after: SnapshotStep[]): StepDiff[] {
+  const a = before.map(step => normalizeKey(step.instruction));
+  const b = after.map(step => normalizeKey(step.instruction));
+
+  // lcs[i][j] = a[i..] 和 b[j..] 的最長公共子序列長度
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: StepDiff[] = [];
+  let removedGap: SnapshotStep[] = [];
+  let addedGap: SnapshotStep[] = [];
+  const flushGap = () => {
+    const pairs = Math.min(removedGap.length, addedGap.length);
+    for (let k = 0; k < pairs; k++) {
+      const [oldStep, newStep] = [removedGap[k], addedGap[k]];
+      result.push({ key: stepKey(oldStep, newStep), type: "modified", before: oldStep, after: newStep, changes: stepChanges(oldStep, newStep) });
+    }
+    for (const step of removedGap.slice(pairs)) {
+      result.push({ key: stepKey(step, null), type: "removed", before: step, after: null, changes: [] });
+    }
+    for (const step of addedGap.slice(pairs)) {
+      result.push({ key: stepKey(null, step), type: "added", before: null, after: step, changes: [] });
+    }
+    removedGap = [];
+    addedGap = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flushGap();
+      const changes = stepChanges(before[i], after[j]);
+      result.push({
+        key: stepKey(before[i], after[j]),
+        type: changes.length > 0 ? "modified" : "unchanged",
+        before: before[i],
+        after: after[j],
+        changes,
+      });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removedGap.push(before[i++]);
+    } else {
+      addedGap.push(after[j++]);
+    }
+  }
+  flushGap();
+  return result;
+}
+
+/**
+ * 比較兩個快照，before 為基準，after 為對比的版本
+ */
+export function diffSnapshots(before: RecipeSnapshot, after: RecipeSnapshot): SnapshotDiff {
+  const fields = RECIPE_DIFF_FIELD_KEYS
+    .filter(field => (before.recipe[field] ?? null) !== (after.recipe[field] ?? null))
+    .map(field => ({ field, label: RECIPE_DIFF_FIELDS[field], before: before.recipe[field] ?? null, after: after.recipe[field] ?? null }));
+
+  const beforeCategoryIds = new Set(before.categories.map(category => category.id));
+  const afterCategoryIds = new Set(after.categories.map(category => category.id));
+
+  return {
+    fields,
+    ingredients: diffIngredients(before.ingredients, after.ingredients),
+    steps: diffSteps(before.steps, after.steps),
+    categories: {
+      added: after.categories.filter(category => !beforeCategoryIds.has(category.id)),
+      removed: before.categories.filter(category => !afterCategoryIds.has(category.id)),
+    },
+  };
+}
+
+/**
+ * 按選中的步驟差異生成新的步驟列表(diff 的 before 為目前步驟，after 為要還原的版本)
+ * 選中的修改改用版本的內容，選中的新增加回原來的位置，選中的刪除移除；之後重新編號並更新前置步驟
+ */
+export function applyStepSelection(diff: StepDiff[], selectedKeys: Set<string>): SnapshotStep[] {
+  const picked: Array<{ step: SnapshotStep; fromVersion: boolean }> = [];
+  const currentNumbers = new Map<number, number>();
+  const versionNumbers = new Map<number, number>();
+
+  for (const entry of diff) {
+    const selected = selectedKeys.has(entry.key);
+    let chosen: { step: SnapshotStep; fromVersion: boolean } | null = null;
+    if (entry.type === "added") {
+      if (selected) chosen = { step: entry.after!, fromVersion: true };
+    } else if (entry.type === "removed") {
+      if (!selected) chosen = { step: entry.before!, fromVersion: false };
+    } else if (entry.type === "modified" && selected) {
+      chosen = { step: entry.after!, fromVersion: true };
+    } else {
+      chosen = { step: entry.before!, fromVersion: false };
+    }
+    if (!chosen) continue;
+
+    const stepNumber = picked.length + 1;
+    if (entry.before) currentNumbers.set(entry.before.stepNumber, stepNumber);
+    if (entry.after) versionNumbers.set(entry.after.stepNumber, stepNumber);
+    picked.push(chosen);
+  }
+
+  return picked.map(({ step, fromVersion }, index) => {
+    const stepNumber = index + 1;
+    const dependencies = parseStepDependencies(step.dependsOn);
+    const numbers = fromVersion ? versionNumbers : currentNumbers;
+    return {
+      ...step,
+      stepNumber,
+      dependsOn: dependencies === null
+        ? null
+        : JSON.stringify(dependencies.map(n => numbers.get(n)).filter((n): n is number => n !== undefined && n < stepNumber)),
+    };
+  });
+}
+
+/**
+ * 把版本中選中的部分還原到目前的食譜；還原前後的版本記錄和還原內容在同一個事務中寫入
+ */
+export async function restoreVersionParts(
+  version: { recipeId: number; versionNumber: number; snapshotData: string },
+  parts: RestoreParts,
+  userId: number
+) {
+  const recipeId = version.recipeId;
+  const currentData = await db.getRecipeSnapshotData(recipeId);
+  if (!currentData) {
+    throw new Error("找不到食譜");
+  }
+  const current = normalizeSnapshot(currentData);
+  const target = normalizeSnapshot(JSON.parse(version.snapshotData));
+  const diff = diffSnapshots(current, target);
+
+  const fields = new Set(parts.fields ?? []);
+  if (parts.ingredients) {
+    NUTRITION_FIELDS.forEach(field => fields.add(field));
+  }
+
+  const selectedStepKeys = new Set(parts.stepKeys ?? []);
+  const restoreSteps = diff.steps.some(entry => entry.type !== "unchanged" && selectedStepKeys.has(entry.key));
+
+  const restored: string[] = [
+    ...Array.from(fields).filter(field => !parts.ingredients || !NUTRITION_FIELDS.includes(field)).map(field => RECIPE_DIFF_FIELDS[field]),
+    ...(parts.ingredients ? ["食材"] : []),
+    ...(restoreSteps ? ["步驟"] : []),
+    ...(parts.categories ? ["分類"] : []),
+  ];
+  if (restored.length === 0) {
+    throw new Error("請選擇要還原的內容");
+  }
+
+  await db.restoreRecipeParts(recipeId, {
+    recipe: snapshotRecipeFields(target, Array.from(fields)),
+    ingredients: parts.ingredients ? snapshotIngredientRows(target.ingredients) : undefined,
+    steps: restoreSteps ? applyStepSelection(diff.steps, selectedStepKeys) : undefined,
+    categoryIds: parts.categories ? await db.getExistingCategoryIds(target.categories.map(category => category.id)) : undefined,
+  }, {
+    userId,
+    snapshotData: currentData,
+    changeDescription: `部分還原前的快照 (即將還原版本 ${version.versionNumber} 的${restored.join("、")})`,
+    changedFields: [],
+  }, {
+    userId,
+    changeDescription: `已還原版本 ${version.versionNumber} 的${restored.join("、")}`,
+    changedFields: ["restored", ...(parts.ingredients ? ["ingredients"] : []), ...(restoreSteps ? ["steps"] : []), ...(parts.categories ? ["categories"] : []), ...Array.from(fields)],
+  });
+  if (parts.ingredients) {
+    await refreshRecipeAllergens(recipeId);
+  }
+
+  return { restored };
+}
@@ -0,0 +1,46 @@
+import { audioMimeTypeFromFileName, whisperTranscriber } from "./audioTranscription";
+import type { ScrapedContent } from "./webScraper";
+import { analyzeAndSaveRecipes, reportProgress, type ImportOptions, type ImportResult } from "./weblinkImport";
+
+const UNRECOGNIZED_VOICE_ERROR = '無法從錄音中識別食譜內容。\n\n建議替代方案：\n1. 在安靜的環境重新錄音，清楚讀出食材、份量和每個步驟\n2. 使用「手動輸入」功能直接輸入食譜內容';
+
+// 口述內容太短時(例如只錄到雜音)不值得交給 AI 分析
+const MIN_TRANSCRIPT_LENGTH = 30;
+
+/**
+ * 從口述錄音創建食譜
+ * 先把錄音轉成文字，再當作影片字幕交給與網址導入相同的預過濾和兩階段分析流程
+ */
+export async function importRecipesFromVoice(audioUrl: string, options: ImportOptions): Promise<ImportResult> {
+  console.log('[voiceImport] ========================================');
+  console.log('[voiceImport] 🚀 Starting recipe creation from voice memo');
+  console.log('[voiceImport] 🎙️  Audio URL:', audioUrl);
+  await reportProgress(options, { stage: "scrape", message: "轉錄錄音內容" });
+
+  const startTime = Date.now();
+  const transcript = await whisperTranscriber({
+    url: audioUrl,
+    mimeType: audioMimeTypeFromFileName(new URL(audioUrl).pathname) ?? "audio/webm",
+  });
+  console.log(`[voiceImport] ⏱️  Transcription completed in ${Date.now() - startTime}ms (${transcript.length} chars)`);
+
+  if (transcript.length < MIN_TRANSCRIPT_LENGTH) {
+    throw new Error(UNRECOGNIZED_VOICE_ERROR);
+  }
+
+  const scrapedContent: ScrapedContent = {
+    title: '',
+    content: transcript,
+    videoTranscript: transcript,
+    transcriptSource: "audio",
+    images: [],
+    success: true,
+  };
+
+  return analyzeAndSaveRecipes(scrapedContent, {
+    ...options,
+    inputMethod: "voice",
+    // 口述錄音是私人內容，預設不公開
+    isPublished: false,
+  });
+}
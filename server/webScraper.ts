@@ -1,5 +1,11 @@
 import { chromium } from "playwright";
 import { ENV } from "./_core/env";
+import { extractStructuredRecipes, type StructuredRecipe } from "./structuredRecipe";
+
+/**
+ * 分析內容的來源：影片字幕、音訊轉錄(沒有字幕的影片或語音口述)或網頁文字
+ */
+export type TranscriptSource = "captions" | "audio" | "page";
 
 export interface ScrapedContent {
   title: string;
@@ -8,6 +14,8 @@ export interface ScrapedContent {
   success: boolean;
   error?: string;
   videoTranscript?: string;
+  transcriptSource?: TranscriptSource; // 未設定時有 videoTranscript 即視為字幕
+  structuredRecipes?: StructuredRecipe[]; // 頁面內嵌的 schema.org Recipe(JSON-LD 或 microdata)
 }
 
 /**
@@ -157,6 +165,10 @@ export async function scrapeWebpage(url: string): Promise<ScrapedContent> {
     
     console.log('[WebScraper/scrapeWebpage] 📝 Final extracted title:', title || '(empty)');
     
+    // 提取文字前先讀取結構化食譜(提取文字時會移除 script 標籤)
+    const structuredRecipes = extractStructuredRecipes(await page.content());
+    console.log('[WebScraper/scrapeWebpage] 🧩 Structured recipes found:', structuredRecipes.length);
+    
     // 提取主要文本內容（優先尋找食譜相關區域）
     const content = await page.evaluate((isXHS) => {
       // 移除腳本和樣式標籤
@@ -273,7 +285,8 @@ export async function scrapeWebpage(url: string): Promise<ScrapedContent> {
       content: content.trim(),
       images,
       success: true,
-      videoTranscript: videoTranscript // Include transcript if extracted
+      videoTranscript: videoTranscript, // Include transcript if extracted
+      structuredRecipes,
     };
     
     console.log(`[WebScraper/scrapeWebpage] ✅ Scraping completed successfully`);
@@ -622,6 +635,9 @@ export async function simpleFetch(url: string): Promise<ScrapedContent> {
     
     console.log('[WebScraper/simpleFetch] 📝 Final extracted title:', title || '(not found)');
     
+    const structuredRecipes = extractStructuredRecipes(html);
+    console.log('[WebScraper/simpleFetch] 🧩 Structured recipes found:', structuredRecipes.length);
+    
     // 移除HTML標籤獲取純文本
     console.log('[WebScraper/simpleFetch] 🧹 Cleaning HTML (removing scripts, styles, tags)...');
     const content = html
@@ -647,7 +663,8 @@ export async function simpleFetch(url: string): Promise<ScrapedContent> {
       title,
       content: content.substring(0, 10000), // 增加內容長度以提高完整性
       images,
-      success: true
+      success: true,
+      structuredRecipes,
     };
     
     console.log('[WebScraper/simpleFetch] ✅ HTML scraping completed successfully');
@@ -0,0 +1,936 @@
+import { invokeLLM } from "./_core/llm";
+import { safeInvokeLLM } from "./llmHelpers";
+import { scrapeWebpage, simpleFetch, type ScrapedContent, type TranscriptSource } from "./webScraper";
+import * as db from "./db";
+import { calculateNutrition } from "./nutritionEngine";
+import { toIngredientQuantityFields } from "./quantityParser";
+import { refreshRecipeAllergens } from "./allergens";
+import { generateRecipeImage } from "./dishImage";
+import { isImageGenerationConfigured } from "./_core/imageGeneration";
+import { transcribeVideoAudio } from "./audioTranscription";
+import { guessPassiveStep } from "@shared/timeline";
+import {
+  formatStructuredRecipe,
+  isCompleteStructuredRecipe,
+  structuredRecipeToAnalysis,
+  type StructuredRecipe,
+} from "./structuredRecipe";
+
+// 內容主要是影片的網站(沒有字幕時可下載音訊轉錄)
+const VIDEO_SITES = ['xiaohongshu.com', 'xhslink.com', 'youtube.com', 'youtu.be', 'bilibili.com', 'douyin.com', 'tiktok.com'];
+
+/**
+ * 網址的主機是否為影片網站或其子域名(只比對主機名，路徑或查詢字串中出現網站名稱不算)
+ */
+export function isVideoSiteUrl(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase();
+  } catch {
+    return false;
+  }
+  return VIDEO_SITES.some(site => hostname === site || hostname.endsWith(`.${site}`));
+}
+
+/**
+ * 網址導入流程的階段
+ * scrape → prefilter → detect → analyze
+ */
+export type ImportStage = "scrape" | "prefilter" | "detect" | "analyze";
+
+export type ImportProgress = {
+  stage: ImportStage;
+  current?: number; // 已完成的食譜數(analyze 階段)
+  total?: number; // 偵測到的食譜總數(analyze 階段)
+  message?: string;
+};
+
+export type ImportOptions = {
+  userId: number;
+  onProgress?: (progress: ImportProgress) => void | Promise<void>;
+  onRecipeSaved?: (recipeId: number) => void | Promise<void>; // 每保存一個食譜就回報，讓任務重試時可以清理
+};
+
+export type AnalyzeOptions = ImportOptions & {
+  sourceUrl?: string;
+  imageUrl?: string;
+  inputMethod?: "manual" | "image" | "weblink" | "voice";
+  isPublished?: boolean; // 預設不公開；網址導入的內容本來就公開，由呼叫方決定
+};
+
+// Stage 1 偵測到的食譜；structured 為網頁內嵌的完整結構化食譜，有的話不需要 AI 分析
+type DetectedRecipe = {
+  title: string;
+  ingredients?: string[];
+  steps?: string[];
+  tips?: string;
+  structured?: StructuredRecipe;
+};
+
+export type ImportResult = {
+  recipeId: string; // For backward compatibility
+  recipeCount: number;
+  allRecipeIds: string[];
+  allRecipes: Array<{ id: string; title: string }>;
+};
+
+// 進度回報失敗不應中斷導入流程
+export async function reportProgress(options: ImportOptions, progress: ImportProgress) {
+  if (!options.onProgress) return;
+  try {
+    await options.onProgress(progress);
+  } catch (error) {
+    console.warn('[weblinkImport] ⚠️  Failed to report progress:', error instanceof Error ? error.message : String(error));
+  }
+}
+
+// 回報已保存的食譜；失敗只記錄警告，不中斷導入流程
+async function reportRecipeSaved(options: ImportOptions, recipeId: number) {
+  if (!options.onRecipeSaved) return;
+  try {
+    await options.onRecipeSaved(recipeId);
+  } catch (error) {
+    console.warn(`[weblinkImport] ⚠️  Failed to report saved recipe ${recipeId}:`, error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * 從網址抓取內容並創建食譜
+ * 先用 Playwright 抓取，失敗時改用 simpleFetch，然後交給兩階段 AI 分析
+ */
+export async function importRecipesFromWeblink(url: string, options: ImportOptions): Promise<ImportResult> {
+  console.log('[weblinkImport] ========================================');
+  console.log('[weblinkImport] 🚀 Starting recipe creation from URL');
+  console.log('[weblinkImport] 🔗 URL:', url);
+  console.log('[weblinkImport] 📍 Step 1: Attempting web scraping...');
+  await reportProgress(options, { stage: "scrape", message: url });
+  
+  // 先嘗試抓取網頁內容
+  let scrapedContent = await scrapeWebpage(url);
+  console.log('[weblinkImport] 📊 Playwright scraping result:', scrapedContent.success ? '✅ Success' : '❌ Failed');
+  
+  // 如果Playwright失敗,嘗試簡單fetch
+  if (!scrapedContent.success) {
+    console.log('[weblinkImport] 🔄 Step 2: Playwright failed, trying simpleFetch()...');
+    scrapedContent = await simpleFetch(url);
+    console.log('[weblinkImport] 📊 simpleFetch result:', scrapedContent.success ? '✅ Success' : '❌ Failed');
+  }
+
+  // 影片沒有字幕時，下載音訊並轉錄(需要安裝 yt-dlp，見 YT_DLP_SETUP.md)
+  const isVideoSite = isVideoSiteUrl(url);
+  const hasCaptions = !!scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > 50;
+  if (isVideoSite && !hasCaptions) {
+    console.log('[weblinkImport] 🔄 No video transcript, trying audio transcription fallback...');
+    await reportProgress(options, { stage: "scrape", message: "影片沒有字幕，正在下載音訊並轉錄" });
+    const audioTranscript = await transcribeVideoAudio(url);
+    if (audioTranscript && audioTranscript.length > 50) {
+      console.log(`[weblinkImport] ✅ Audio transcription fallback succeeded (${audioTranscript.length} chars)`);
+      scrapedContent = {
+        ...scrapedContent,
+        content: scrapedContent.content || '',
+        images: scrapedContent.images || [],
+        success: true,
+        videoTranscript: audioTranscript,
+        transcriptSource: "audio",
+      };
+    }
+  }
+  
+  // 如果仍然失敗,返回錯誤
+  if (!scrapedContent.success) {
+    // 檢查是否是小紅書或其他受限網站
+    const restrictedSites = ['xiaohongshu.com', 'xhslink.com', 'douyin.com', 'tiktok.com'];
+    const isRestrictedSite = restrictedSites.some(site => url.includes(site));
+    
+    if (isRestrictedSite) {
+      throw new Error(`無法讀取此網站內容。小紅書、抖音等平台的內容主要以影片形式呈現，系統無法直接處理影片。\n\n建議替代方案：\n1. 根據影片內容手動輸入食材和步驟\n2. 使用「手動輸入」功能創建食譜`);
+    }
+    
+    throw new Error(`無法訪問網址: ${scrapedContent.error || '未知錯誤'}。某些網站需要登入或有訪問限制。\n\n建議替代方案：\n1. 使用「手動輸入」功能直接輸入食譜內容\n2. 嘗試其他公開的食譜網站連結`);
+  }
+  
+  // 檢查是否有足夠的內容或影片字幕
+  console.log('[weblinkImport] 📍 Step 3: Validating scraped content...');
+  const hasVideoTranscript = scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > 50;
+  const hasContent = scrapedContent.content && scrapedContent.content.length >= 50;
+  
+  console.log('[weblinkImport] 📊 Content validation:');
+  console.log('[weblinkImport]   - Has video transcript:', hasVideoTranscript, `(${scrapedContent.videoTranscript?.length || 0} chars)`);
+  console.log('[weblinkImport]   - Has content:', hasContent, `(${scrapedContent.content?.length || 0} chars)`);
+  
+  if (!hasContent && !hasVideoTranscript) {
+    console.log('[weblinkImport] ❌ No sufficient content found');
+    // 檢查是否是影片內容網站
+    if (isVideoSite) {
+      throw new Error(`此網頁主要包含影片內容，文字資訊不足。影片中的食譜步驟無法直接讀取。\n\n建議替代方案：\n1. 觀看影片後手動記錄食材和步驟，使用「手動輸入」功能\n2. 嘗試其他包含文字食譜的網站連結`);
+    }
+    
+    throw new Error('網頁內容不足或需要登入。\n\n建議替代方案：\n1. 使用「手動輸入」功能直接輸入食譜內容\n2. 嘗試其他公開的食譜網站連結');
+  }
+
+  return analyzeAndSaveRecipes(scrapedContent, {
+    ...options,
+    sourceUrl: url,
+    inputMethod: "weblink",
+    isPublished: true,
+  });
+}
+
+/**
+ * 預過濾字幕並用 AI 偵測內容中的所有食譜(Stage 1)
+ */
+async function detectRecipesWithLLM(scrapedContent: ScrapedContent, options: ImportOptions): Promise<DetectedRecipe[]> {
+  const hasVideoTranscript = scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > 50;
+
+  // ===== TWO-STAGE AI ANALYSIS FLOW =====
+  console.log('[weblinkImport] 📍 Step 4: Starting AI analysis flow...');
+  console.log('[weblinkImport] ========================================');
+  
+  // Pre-filter Stage: Extract ONLY food/cooking related content from transcript
+  let filteredTranscript = scrapedContent.videoTranscript || '';
+  if (hasVideoTranscript) {
+    console.log('[weblinkImport] 📍 Step 4a: PRE-FILTER STAGE');
+    await reportProgress(options, { stage: "prefilter" });
+    console.log('[weblinkImport] 🔍 Pre-filter: Extracting food-related content only...');
+    console.log('[weblinkImport] 📊 Original transcript length:', scrapedContent.videoTranscript?.length || 0, 'characters');
+    console.log('[weblinkImport] 📊 Transcript preview (first 200 chars):', scrapedContent.videoTranscript?.substring(0, 200));
+    console.log('[weblinkImport] ⏳ Calling LLM for pre-filter...');
+    const preFilterStartTime = Date.now();
+    
+    try {
+      const preFilterResult = await invokeLLM({
+      messages: [
+        {
+          role: "system",
+          content: `你是一位專業的食譜內容過濾器和翻譯專家。你的任務是從提供的影片字幕中，提取與食物、烹飪、食材、食譜步驟、烹飪技巧、營養相關的內容，並將所有內容翻譯成繁體中文。
+
+**必須保留的內容**：
+- 所有食材和用量
+- 所有烹飪步驟和技巧
+- 烹飪方法比較（例如：「用這種方法比那種方法好」）
+- 食材選擇建議和比較（例如：「挪威的比澳洲的軟」）
+- 烹飪時間、溫度、火候等技術細節
+- 口感描述和特色（例如：「脆皮」、「爆汁」、「完美口感」）
+- 烹飪提示和注意事項
+- 任何與烹飪、食材、食譜相關的描述
+
+**可以移除的內容**：
+- 影片開頭或結尾的問候語、感謝語（如「大家好」、「謝謝觀看」）
+- 純廣告、推廣內容（如「記得訂閱」、「成為會員」）
+- 與烹飪完全無關的閒聊
+- 影片製作相關的評論（如「記得訂閱」、「按讚」）
+- 重複的內容
+- 表情符號和特殊符號
+- 網址連結（但保留網址中的關鍵字如「職人吹水」）
+
+**翻譯要求**：
+- **必須將所有非繁體中文的內容翻譯成繁體中文**
+- 如果原始字幕是英文、簡體中文或其他語言，請完整翻譯成繁體中文
+- 保留所有專業術語和烹飪用語的準確性
+- 確保翻譯後的內容自然流暢，符合繁體中文的表達習慣
+- 如果原始內容已經是繁體中文，則保持不變
+
+**重要原則**：
+1. **如果內容已經很短（少於500字），請盡量保留所有內容，只移除明顯的廣告和問候語**
+2. 保留所有烹飪技巧、比較說明和重要細節
+3. 確保所有內容都是繁體中文
+4. 翻譯要準確且自然
+5. **寧可多保留內容，也不要過度過濾**
+
+只返回純文本，不包含任何額外說明或Markdown格式。所有輸出必須是繁體中文。`
+        },
+        {
+          role: "user",
+          content: `請過濾以下影片字幕，只保留食譜相關內容（保留所有烹飪技巧和比較說明），並將所有內容翻譯成繁體中文：\n\n${scrapedContent.videoTranscript}`
+        }
+      ]
+    });
+    
+    const preFilterElapsedTime = Date.now() - preFilterStartTime;
+    console.log(`[weblinkImport] ⏱️  Pre-filter LLM call completed in ${preFilterElapsedTime}ms`);
+    console.log('[weblinkImport] 📥 Pre-filter response received');
+    console.log('[weblinkImport] 📊 Response structure:', {
+      hasChoices: !!preFilterResult.choices,
+      choicesLength: preFilterResult.choices?.length || 0,
+      hasMessage: !!preFilterResult.choices?.[0]?.message,
+      hasContent: !!preFilterResult.choices?.[0]?.message?.content
+    });
+    
+    filteredTranscript = preFilterResult.choices[0].message.content as string;
+    console.log('[weblinkImport] ✅ Pre-filter complete:');
+    const originalLength = scrapedContent.videoTranscript?.length || 0;
+    const filteredLength = filteredTranscript.length;
+    const reductionPercent = originalLength > 0 ? ((1 - filteredLength / originalLength) * 100).toFixed(1) : '0';
+    const reductionPercentNum = parseFloat(reductionPercent);
+    console.log(`  Original: ${originalLength} chars`);
+    console.log(`  Filtered: ${filteredLength} chars (${reductionPercent}% reduction)`);
+    console.log(`  Preview: ${filteredTranscript.substring(0, 200)}...`);
+    
+    // If filtered content is too short (< 100 chars) or reduction is too aggressive (> 90%), use original
+    if (filteredLength < 100 || (originalLength > 0 && reductionPercentNum > 90)) {
+      console.log('[weblinkImport] ⚠️  Pre-filter too aggressive (filtered content too short or reduction > 90%)');
+      console.log('[weblinkImport] 🔄 Using original transcript instead to preserve content');
+      filteredTranscript = scrapedContent.videoTranscript || '';
+    }
+    
+    } catch (preFilterError) {
+      console.error('[weblinkImport] ❌ Pre-filter LLM call failed:');
+      console.error('[weblinkImport]   Error type:', preFilterError instanceof Error ? preFilterError.constructor.name : typeof preFilterError);
+      console.error('[weblinkImport]   Error message:', preFilterError instanceof Error ? preFilterError.message : String(preFilterError));
+      if (preFilterError instanceof Error && preFilterError.stack) {
+        console.error('[weblinkImport]   Stack trace:', preFilterError.stack.substring(0, 500));
+      }
+      // Fallback: use original transcript if pre-filter fails
+      console.log('[weblinkImport] ⚠️  Using original transcript as fallback');
+      filteredTranscript = scrapedContent.videoTranscript || '';
+    }
+  }
+
+  // Stage 1: Detect and extract ALL recipes from the filtered transcript
+  console.log('[weblinkImport] ========================================');
+  console.log('[weblinkImport] 📍 Step 4b: STAGE 1 - RECIPE DETECTION');
+  console.log('[weblinkImport] 🔍 Stage 1: Detecting and extracting ALL recipes from transcript...');
+  await reportProgress(options, { stage: "detect" });
+  
+  // Use original transcript if filtered is too short
+  let transcriptForStage1 = filteredTranscript;
+  if (hasVideoTranscript && filteredTranscript.length < 100 && scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > filteredTranscript.length) {
+    console.log('[weblinkImport] ⚠️  Filtered transcript too short for Stage 1, using original transcript');
+    transcriptForStage1 = scrapedContent.videoTranscript;
+  }
+  
+  console.log('[weblinkImport] 📊 Input transcript length:', hasVideoTranscript ? transcriptForStage1.length : scrapedContent.content.substring(0, 10000).length, 'characters');
+  console.log('[weblinkImport] 📝 Video title:', scrapedContent.title);
+  console.log('[weblinkImport] ⏳ Calling LLM for Stage 1 (recipe detection)...');
+  const stage1StartTime = Date.now();
+  
+  let extractionResult;
+  let extractedRecipes: DetectedRecipe[] = [];
+  
+  // Build context with video title
+  const videoTitleContext = scrapedContent.title ? `\n\n**影片標題**: ${scrapedContent.title}\n\n` : '';
+  const stage1Prompt = `請從以下影片字幕中識別並提取**所有食譜**。${videoTitleContext}**影片字幕內容**:\n\n${hasVideoTranscript ? transcriptForStage1 : scrapedContent.content.substring(0, 10000)}`;
+  
+  try {
+    extractionResult = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: `你是一位專業的食譜分析師。你的任務是從影片字幕中識別並提取**所有**食譜。
+
+如果影片包含多個食譜，你必須將它們分別提取出來。每個食譜應該有：
+- title（食譜名稱）- **重要**：請保留影片標題中的關鍵描述詞，例如「米芝連」、「脆皮爆汁」、「完美口感」等特色描述
+- ingredients（食材列表，數組格式）
+- steps（步驟列表，數組格式）
+- tips（可選，烹飪提示）
+
+**重要規則**：
+1. 如果影片標題包含特殊描述（如「米芝連」、「脆皮爆汁」等），請在食譜名稱中保留這些特色
+2. 如果影片只有一個食譜，返回包含一個元素的數組。如果有多個食譜，返回包含多個元素的數組。
+3. 保留所有烹飪技巧和重要細節
+4. **即使內容較短，也要盡力從中提取食譜信息**。如果內容不足，可以根據影片標題和現有信息推斷基本的食譜結構
+5. 如果影片標題明確提到食譜名稱（如「揚州炒飯」），即使內容較短，也要創建一個基本的食譜結構
+
+只返回JSON數組格式，不要markdown代碼塊。`
+      },
+      {
+        role: "user",
+        content: stage1Prompt
+      }
+    ]
+  });
+  
+  const stage1ElapsedTime = Date.now() - stage1StartTime;
+  console.log(`[weblinkImport] ⏱️  Stage 1 LLM call completed in ${stage1ElapsedTime}ms`);
+  console.log('[weblinkImport] 📥 Stage 1 response received');
+  console.log('[weblinkImport] 📊 Response structure:', {
+    hasChoices: !!extractionResult.choices,
+    choicesLength: extractionResult.choices?.length || 0,
+    hasMessage: !!extractionResult.choices?.[0]?.message,
+    hasContent: !!extractionResult.choices?.[0]?.message?.content
+  });
+
+  let extractionJson = extractionResult.choices[0].message.content as string;
+  console.log('[weblinkImport] ✅ Stage 1 raw response (first 500 chars):', extractionJson.substring(0, 500));
+  
+  // Clean JSON
+  extractionJson = extractionJson.replace(/```json/gi, '').replace(/```/g, '');
+  const firstBracket = extractionJson.indexOf('[');
+  const lastBracket = extractionJson.lastIndexOf(']');
+  
+  if (firstBracket === -1 || lastBracket === -1) {
+    console.error('[weblinkImport] ❌ Stage 1: No valid JSON array found');
+    throw new Error('AI返回的分析結果格式錯誤，找不到有效的食譜數組。請重試。');
+  }
+  
+  extractionJson = extractionJson.substring(firstBracket, lastBracket + 1);
+  
+  try {
+    extractedRecipes = JSON.parse(extractionJson);
+    if (!Array.isArray(extractedRecipes)) {
+      extractedRecipes = [extractedRecipes];
+    }
+  } catch (parseError) {
+    console.error('[weblinkImport] ❌ Stage 1 JSON parse error:', parseError);
+    throw new Error('AI返回的JSON格式無效，請重試。');
+  }
+  
+  console.log(`[weblinkImport] ✅ Stage 1 detected ${extractedRecipes.length} recipe(s)`);
+  extractedRecipes.forEach((recipe, idx) => {
+    console.log(`[weblinkImport]   Recipe ${idx + 1}: ${recipe.title}`);
+  });
+  
+  } catch (stage1Error) {
+    console.error('[weblinkImport] ❌ Stage 1 LLM call failed:');
+    console.error('[weblinkImport]   Error type:', stage1Error instanceof Error ? stage1Error.constructor.name : typeof stage1Error);
+    console.error('[weblinkImport]   Error message:', stage1Error instanceof Error ? stage1Error.message : String(stage1Error));
+    if (stage1Error instanceof Error && stage1Error.stack) {
+      console.error('[weblinkImport]   Stack trace:', stage1Error.stack.substring(0, 500));
+    }
+    throw stage1Error; // Re-throw to stop processing
+  }
+
+  return extractedRecipes;
+}
+
+/**
+ * 用 AI 把偵測到的食譜轉換成結構化 JSON(Stage 2)
+ */
+async function structureRecipeWithLLM(recipe: DetectedRecipe, i: number, scrapedContent: ScrapedContent) {
+  const hasVideoTranscript = scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > 50;
+
+  // Stage 2: Create structured JSON for each recipe
+  console.log(`[weblinkImport] 📍 Step 5.${i + 1}a: STAGE 2 - RECIPE STRUCTURING`);
+  console.log(`[weblinkImport] 🔍 Stage 2: Creating structured recipe for: ${recipe.title}`);
+  
+  // Include video title and original transcript for context
+  const videoTitleInfo = scrapedContent.title ? `\n**影片標題**: ${scrapedContent.title}\n` : '';
+  const originalTranscriptContext = hasVideoTranscript && scrapedContent.videoTranscript 
+    ? `\n**原始影片字幕（供參考）**:\n${scrapedContent.videoTranscript.substring(0, 1000)}...\n` 
+    : '';
+  
+  const recipeAnalysis = await invokeLLM({
+    messages: [
+      {
+        role: "system",
+        content: `你是一位米芝蓮級大廚和營養師。你的任務是從提供的食譜細節中，生成一個完整的、結構化的JSON食譜。
+
+**強制要求（必須包含，不能為空）：**
+1. **標題（title）**：**重要** - 如果影片標題包含特殊描述（如「米芝連」、「脆皮爆汁」、「完美口感」等），請在食譜標題中保留這些特色描述。例如：「米芝連脆皮爆汁三文魚」而不是簡單的「煎三文魚」。
+
+2. **描述（description）**：根據影片標題和內容，寫一個吸引人的描述，突出食譜的特色（如「米芝連級別」、「脆皮爆汁」、「完美口感」等）。
+
+3. **食材清單（ingredients）**：必須識別並包含所有食材，至少3個以上。每種食材必須有：
+   - name（食材名稱）
+   - amount（數量，如「3」、「500」）
+   - unit（單位，如「個」、「g」、「ml」）
+   - calories（卡路里，必須是整數）
+
+4. **烹飪步驟（steps）**：必須按順序詳細描述每一步，至少3個步驟以上。每個步驟必須有：
+   - instruction（詳細的烹飪說明）
+   - duration（可選，分鐘數）
+   - temperature（可選，溫度）
+   - tips（可選，烹飪提示）
+   **重要**：保留所有烹飪技巧、比較說明和重要細節。
+
+5. **營養分析（nutrition）**：必須根據所有食材精準計算總營養成分，包括：
+   - totalCalories（總卡路里，必須是整數）
+   - protein（蛋白質，單位：克，必須是整數）
+   - carbs（碳水化合物，單位：克，必須是整數）
+   - fat（脂肪，單位：克，必須是整數）
+   - fiber（纖維，單位：克，必須是整數）
+
+6. **份量（servings）**：識別食譜的份量（幾人份），必須是正整數
+
+**重要**：根據提供的食譜細節和影片標題，使用專業知識補充完整的食材清單、烹飪步驟和營養分析。保留所有特色描述和烹飪技巧。`
+      },
+      {
+        role: "user",
+        content: `將以下食譜轉換為JSON格式：${videoTitleInfo}
+食譜名稱：${recipe.title}
+食材：${recipe.ingredients?.join(', ') || '無'}
+步驟：${recipe.steps?.join(' → ') || '無'}
+提示：${recipe.tips || '無'}${originalTranscriptContext}
+
+**只返回JSON格式（不要markdown代碼塊）：**
+{
+  "title": "食譜名稱",
+  "description": "簡短描述",
+  "servings": 份量數字,
+  "ingredients": [{"name": "食材名", "amount": "數量", "unit": "單位", "calories": 卡路里數字}],
+  "steps": [{"instruction": "步驟說明", "duration": 分鐘數字或null, "temperature": "溫度或null", "tips": "提示或null"}],
+  "nutrition": {"totalCalories": 數字, "protein": 數字, "carbs": 數字, "fat": 數字, "fiber": 數字}
+}`
+      }
+    ]
+  });
+
+  // Clean the JSON response
+  let analysisJson = recipeAnalysis.choices[0].message.content as string;
+  console.log(`[weblinkImport] 🔍 Stage 2 raw response for recipe ${i + 1} (first 500 chars):`, analysisJson.substring(0, 500));
+  
+  // Clean JSON
+  analysisJson = analysisJson.replace(/```json/gi, '').replace(/```/g, '');
+  const firstBrace = analysisJson.indexOf('{');
+  const lastBrace = analysisJson.lastIndexOf('}');
+  
+  if (firstBrace === -1 || lastBrace === -1) {
+    console.error(`[weblinkImport] ❌ Recipe ${i + 1}: No valid JSON found`);
+    throw new Error(`AI返回的分析結果格式錯誤，找不到有效的JSON結構。請重試。`);
+  }
+  
+  analysisJson = analysisJson.substring(firstBrace, lastBrace + 1);
+  
+  let analysis;
+  try {
+    analysis = JSON.parse(analysisJson);
+  } catch (parseError) {
+    console.error(`[weblinkImport] ❌ Recipe ${i + 1} JSON parse error:`, parseError);
+    throw new Error('AI返回的JSON格式無效，請重試。');
+  }
+
+  return analysis;
+}
+
+/**
+ * 兩階段 AI 分析：預過濾字幕 → 偵測所有食譜 → 逐個生成結構化食譜並儲存
+ * 網頁有完整的 schema.org Recipe 時直接使用結構化數據，AI 只用於補充(營養成分表找不到的食材、改良建議)
+ */
+export async function analyzeAndSaveRecipes(scrapedContent: ScrapedContent, options: AnalyzeOptions): Promise<ImportResult> {
+  const hasVideoTranscript = scrapedContent.videoTranscript && scrapedContent.videoTranscript.length > 50;
+  const transcriptSource: TranscriptSource = hasVideoTranscript ? scrapedContent.transcriptSource ?? "captions" : "page";
+  console.log('[weblinkImport] 📊 Transcript source:', transcriptSource);
+
+  // 頁面內嵌完整的 schema.org Recipe 時直接使用，跳過 AI 預過濾和兩階段分析
+  const structuredRecipes = scrapedContent.structuredRecipes ?? [];
+  const completeStructuredRecipes = structuredRecipes.filter(isCompleteStructuredRecipe);
+
+  let extractedRecipes: DetectedRecipe[];
+  if (completeStructuredRecipes.length > 0) {
+    console.log(`[weblinkImport] 🧩 Using ${completeStructuredRecipes.length} structured recipe(s) from ${completeStructuredRecipes[0].source}, skipping AI detection`);
+    await reportProgress(options, { stage: "detect" });
+    extractedRecipes = completeStructuredRecipes.map(structured => ({ title: structured.title, structured }));
+  } else {
+    // 結構化數據不完整時(例如只有食材)，附加在網頁內容前面給 AI 參考
+    const contentWithStructuredData = structuredRecipes.length > 0 && !hasVideoTranscript
+      ? { ...scrapedContent, content: `${structuredRecipes.map(formatStructuredRecipe).join("\n\n")}\n\n${scrapedContent.content}` }
+      : scrapedContent;
+    extractedRecipes = await detectRecipesWithLLM(contentWithStructuredData, options);
+  }
+
+  // Process each detected recipe IN PARALLEL for faster processing
+  console.log('[weblinkImport] ========================================');
+  console.log('[weblinkImport] 📍 Step 5: Processing detected recipes (PARALLEL)...');
+  const createdRecipeIds: string[] = [];
+  const createdRecipeTitles: string[] = [];
+  
+  console.log(`[weblinkImport] 🔄 Processing ${extractedRecipes.length} recipe(s) in parallel...`);
+  
+  // 食譜是並行處理的，按完成順序回報進度
+  let finishedCount = 0;
+  await reportProgress(options, { stage: "analyze", current: 0, total: extractedRecipes.length });
+  
+  // Process all recipes in parallel
+  const recipeProcessingPromises = extractedRecipes.map(async (recipe, i) => {
+    console.log('[weblinkImport] ========================================');
+    console.log(`[weblinkImport] 📝 Processing recipe ${i + 1}/${extractedRecipes.length}: ${recipe.title}`);
+    
+    try {
+      const analysis = recipe.structured
+        ? structuredRecipeToAnalysis(recipe.structured)
+        : await structureRecipeWithLLM(recipe, i, scrapedContent);
+      console.log(`[weblinkImport] 📋 Recipe ${i + 1} parsed:`, {
+        title: analysis.title,
+        ingredientsCount: analysis.ingredients?.length || 0,
+        stepsCount: analysis.steps?.length || 0,
+      });
+
+      // Validate and normalize
+      if (!analysis.title || typeof analysis.title !== 'string' || analysis.title.trim().length === 0) {
+        analysis.title = recipe.title || `食譜 ${i + 1}`;
+      }
+      if (!analysis.description || typeof analysis.description !== 'string') {
+        analysis.description = analysis.title;
+      }
+      if (!analysis.ingredients || !Array.isArray(analysis.ingredients) || analysis.ingredients.length === 0) {
+        throw new Error(`食譜 ${i + 1} 缺少食材清單。`);
+      }
+      if (!analysis.steps || !Array.isArray(analysis.steps) || analysis.steps.length === 0) {
+        throw new Error(`食譜 ${i + 1} 缺少烹飪步驟。`);
+      }
+      if (!analysis.nutrition || typeof analysis.nutrition !== 'object') {
+        throw new Error(`食譜 ${i + 1} 缺少營養分析。`);
+      }
+      
+      // Normalize nutrition values
+      analysis.nutrition.totalCalories = Math.round(analysis.nutrition.totalCalories || 0);
+      analysis.nutrition.protein = Math.round(analysis.nutrition.protein || 0);
+      analysis.nutrition.carbs = Math.round(analysis.nutrition.carbs || 0);
+      analysis.nutrition.fat = Math.round(analysis.nutrition.fat || 0);
+      analysis.nutrition.fiber = Math.round(analysis.nutrition.fiber || 0);
+      if (!analysis.servings || analysis.servings < 1) {
+        analysis.servings = 2;
+      }
+      analysis.servings = Math.round(analysis.servings);
+
+      // 以本地營養成分表重新計算營養，AI 的估算只用於表中找不到的食材；網站在結構化數據中提供的營養優先
+      try {
+        const nutritionResult = await calculateNutrition(analysis.ingredients);
+        const siteNutrition = recipe.structured?.nutrition;
+        const pick = (siteValue: number | null | undefined, current: number, computed: number) => (siteValue != null ? current : computed);
+        analysis.nutrition = {
+          ...analysis.nutrition,
+          totalCalories: pick(siteNutrition?.calories, analysis.nutrition.totalCalories, nutritionResult.totals.calories),
+          protein: pick(siteNutrition?.protein, analysis.nutrition.protein, nutritionResult.totals.protein),
+          carbs: pick(siteNutrition?.carbs, analysis.nutrition.carbs, nutritionResult.totals.carbs),
+          fat: pick(siteNutrition?.fat, analysis.nutrition.fat, nutritionResult.totals.fat),
+          fiber: pick(siteNutrition?.fiber, analysis.nutrition.fiber, nutritionResult.totals.fiber),
+        };
+        analysis.ingredients.forEach((ing: any, ingIndex: number) => {
+          ing.calories = Math.round(nutritionResult.ingredients[ingIndex].calories);
+        });
+        console.log(`[weblinkImport] 📊 Nutrition recalculated from nutrient table:`, nutritionResult.totals);
+      } catch (nutritionError) {
+        console.error(`[weblinkImport] ⚠️  Nutrient table calculation failed, keeping AI estimate:`, nutritionError instanceof Error ? nutritionError.message : String(nutritionError));
+      }
+
+      // Create recipe in database
+      console.log(`[weblinkImport] 📍 Step 5.${i + 1}b: DATABASE SAVE`);
+      console.log(`[weblinkImport] 💾 Saving recipe to database: ${analysis.title}`);
+      console.log(`[weblinkImport] 📊 Recipe details:`);
+      console.log(`[weblinkImport]   - Ingredients: ${analysis.ingredients.length}`);
+      console.log(`[weblinkImport]   - Steps: ${analysis.steps.length}`);
+      console.log(`[weblinkImport]   - Servings: ${analysis.servings}`);
+      
+      // Generate improvement suggestions and nutritional comparison IN PARALLEL
+      console.log(`[weblinkImport] 📍 Step 5.${i + 1}c: GENERATING IMPROVEMENT SUGGESTIONS & NUTRITION (PARALLEL)`);
+      console.log(`[weblinkImport] 🔍 Generating AI improvement suggestions and nutrition for: ${analysis.title}`);
+      
+      let improvements = '';
+      let improvedNutrition: any = null;
+      
+      try {
+        // Build ingredients and steps summary for improvement suggestions
+        const ingredientsSummary = analysis.ingredients?.map((ing: any) => 
+          `${ing.name} ${ing.amount}${ing.unit}`
+        ).join('\n') || '';
+        
+        const stepsSummary = analysis.steps?.map((step: any, idx: number) => 
+          `${idx + 1}. ${step.instruction}`
+        ).join('\n') || '';
+        
+        // Generate improvement suggestions
+        const improvementResult = await safeInvokeLLM({
+          messages: [
+            {
+              role: "system",
+              content: `你是擁有30年經驗的米芝蓮三星大廚和註冊營養師。你精通中西料理，擅長將傳統食譜改造成既健康又美味的現代版本。目的健康革命，均衡飲食的重要性，讓人享受美食之餘能有效了解成分、卡路裡、營養素，及提醒潛在不同的好處及風險。
+
+🌟 **核心健康原則（必須遵守）**：
+1. ✅ **用蜜糖或生果代替白砂糖** - 所有精製糖必須替換
+2. ✅ **用香菇粉代替部分鹽** - 減少鈉攝入，增加鮮味
+3. ✅ **精製產品 → 天然食材** - 優先使用全穀物、天然調味料
+4. ✅ **增加生果和蔬菜** - 提升纖維和維生素攝入
+5. ✅ **減少油脂和鹽分** - 使用健康烹飪方法
+
+**當前食譜營養成分**：
+- 總卡路里: ${analysis.nutrition?.totalCalories || 0} kcal
+- 蛋白質: ${analysis.nutrition?.protein || 0} g
+- 碳水化合物: ${analysis.nutrition?.carbs || 0} g
+- 脂肪: ${analysis.nutrition?.fat || 0} g
+- 纖維: ${analysis.nutrition?.fiber || 0} g
+
+**當前食譜內容**：
+標題: ${analysis.title}
+描述: ${analysis.description || ''}
+份量: ${analysis.servings} 人份
+
+食材:
+${ingredientsSummary}
+
+步驟:
+${stepsSummary}
+
+---
+
+請以米芝蓮級大廚的專業角度，提供**全面且詳細**的改良建議，包括：
+
+## 📝 請按以下結構回覆：
+
+### 🍎 健康升級方案（必須嚴格執行）
+1. **食材替代建議**：
+   - 列出3-5項具體的食材替代方案
+   - 說明每項替代的健康益處（如減糖、減鹽、增加纖維等）
+   - 提供替代食材的用量建議
+   - 例：白砂糖50g → 蜜糖40g（減少20%精製糖，天然果糖更健康）
+
+2. **營養強化技巧**：
+   - 如何在不改變風味的前提下增加營養價值
+   - 可以添加哪些超級食材（如奇亞籽、亞麻籽、堅果等）
+   - 如何增加蔬菜攝入量
+
+3. **健康烹飪方法**：
+   - 改良烹飪技巧以減少油脂和鹽分
+   - **🔥 重要：如果食譜涉及油炸（炸），必須建議改用氣炸鍋（氣炸）**
+     * 說明氣炸的溫度和時間設置（如：200°C氣炸15分鐘）
+     * 解釋如何達到酥脆效果但減少80%以上的油脂
+     * 提供噴油技巧（用噴霧器噴少量橄欖油）
+     * 氣炸的具體操作步驟和注意事項
+   - 推薦的烹飪溫度和時間調整
+   - 如何保留更多營養素
+
+### 👨‍🍳 烹飪技巧提升
+1. **專業技巧**：
+   - 分享3-5個米芝蓮級的烹飪秘訣
+   - 如何提升口感和風味層次
+   - 食材處理的專業手法
+
+2. **常見錯誤與解決**：
+   - 指出這道菜可能出現的問題
+   - 提供避免失敗的關鍵提示
+
+3. **擺盤與呈現**：
+   - 專業的擺盤建議
+   - 如何讓這道菜更有視覺吸引力
+
+### 🌟 風味升級建議
+1. **香料與調味**：
+   - 推薦額外的香料或調味料
+   - 如何用天然食材取代人工調味料
+   - 香料的使用時機和份量
+
+2. **質感與口感**：
+   - 如何改善食材的質感
+   - 創造多層次的口感體驗
+
+3. **創意變化**：
+   - 提供2-3種創意變化版本
+   - 適合不同場合的調整建議
+
+### 💡 實用貼士
+1. **食材採購**：
+   - 如何挑選最優質的食材
+   - 什麼季節最適合製作這道菜
+
+2. **提前準備**：
+   - 哪些步驟可以提前完成
+   - 如何節省烹飪時間
+
+3. **儲存與再加熱**：
+   - 最佳儲存方法
+   - 如何保持最佳風味
+
+4. **搭配建議**：
+   - 推薦的配菜或主食
+   - 適合的飲品搭配
+
+### 📊 營養優化總結
+- 列出改良後的主要健康益處
+- 預估營養成分的改善幅度（如減少XX%的鈉、增加XX%的纖維）
+- 適合的人群（如健身人士、糖尿病患者、兒童等）
+
+---
+
+**請提供詳細、具體、可操作的建議。用專業但易懂的語言，讓家庭廚師能輕鬆實踐。每個部分提供2-3個要點即可，總長度約800-1000字。**`
+            },
+            {
+              role: "user",
+              content: `請為以下食譜提供米芝蓮級的健康改良建議：\n\n${analysis.title}\n\n${ingredientsSummary}\n\n${stepsSummary}`
+            }
+          ]
+        });
+
+        const improvementContent = improvementResult.choices[0].message.content;
+        improvements = typeof improvementContent === 'string' ? improvementContent : String(improvementContent || "");
+        console.log(`[weblinkImport] ✅ Improvement suggestions generated (${improvements.length} chars)`);
+
+        // Calculate improved nutrition (runs after improvements, but recipes are processed in parallel)
+        const improvementsText = typeof improvements === 'string' ? improvements : String(improvements);
+        if (improvementsText && improvementsText.trim().length > 0) {
+          console.log(`[weblinkImport] 📊 Calculating improved nutrition...`);
+          const comparisonResult = await safeInvokeLLM({
+            messages: [
+              {
+                role: "system",
+                content: "你是營養分析AI。只返回純JSON，不要任何markdown或額外文字。"
+              },
+              {
+                role: "user",
+                content: `原始營養: 卡路里${analysis.nutrition?.totalCalories || 0}kcal, 蛋白質${analysis.nutrition?.protein || 0}g, 碳水化合物${analysis.nutrition?.carbs || 0}g, 脂肪${analysis.nutrition?.fat || 0}g, 纖維${analysis.nutrition?.fiber || 0}g
+
+改良建議:
+${improvementsText.substring(0, 1500)}
+
+計算改良後營養成分，只返回JSON格式:
+{"calories": 整數, "protein": 整數, "carbs": 整數, "fat": 整數, "fiber": 整數}`
+              }
+            ]
+          });
+
+          // Clean JSON response
+          let jsonResponse = comparisonResult.choices[0].message.content as string;
+          jsonResponse = jsonResponse.replace(/```json/gi, '').replace(/```/g, '');
+          jsonResponse = jsonResponse.replace(/\n/g, ' ').replace(/\s+/g, ' ');
+          
+          const firstBrace = jsonResponse.indexOf('{');
+          const lastBrace = jsonResponse.lastIndexOf('}');
+          
+          if (firstBrace !== -1 && lastBrace !== -1) {
+            jsonResponse = jsonResponse.substring(firstBrace, lastBrace + 1).trim();
+            const parsedNutrition = JSON.parse(jsonResponse);
+            improvedNutrition = parsedNutrition;
+            console.log(`[weblinkImport] ✅ Improved nutrition calculated:`, improvedNutrition);
+          }
+        }
+      } catch (improvementError) {
+        console.error(`[weblinkImport] ⚠️  Failed to generate improvement suggestions:`, improvementError);
+        // Continue without improvements - recipe is still valid
+      }
+
+      // Prepare aiAnalysis data with improved nutrition
+      const aiAnalysisData = {
+        ...analysis,
+        ...(improvedNutrition && { improvedNutrition: improvedNutrition }),
+        improvementSuggestionsFullText: improvements,
+        transcriptSource, // 分析內容來自字幕、音訊轉錄還是網頁文字
+        ...(recipe.structured && { structuredDataSource: recipe.structured.source }), // 直接讀取網頁的 JSON-LD 或 microdata
+      };
+
+      // 圖片導入使用上傳的照片；網址導入只採用結構化數據中指定的菜式圖片，其他網頁圖片不保存(稍後以 AI 生成菜式圖片)
+      const finalImageUrl = options.imageUrl ?? recipe.structured?.imageUrl ?? null;
+
+      // 食譜、食材和步驟在同一事務中寫入，中途失敗不會留下半成品食譜
+      const recipeId = await db.createRecipeWithContent({
+        userId: options.userId,
+        title: analysis.title || recipe.title,
+        description: analysis.description || `來自影片的食譜 ${i + 1}`,
+        inputMethod: options.inputMethod ?? "weblink",
+        sourceUrl: options.sourceUrl,
+        imageUrl: finalImageUrl,
+        servings: analysis.servings || 2,
+        prepTime: recipe.structured?.prepTime ?? null,
+        cookTime: recipe.structured?.cookTime ?? null,
+        totalTime: recipe.structured?.totalTime ?? null,
+        totalCalories: analysis.nutrition?.totalCalories || 0,
+        caloriesPerServing: analysis.servings > 0 ? Math.round(analysis.nutrition.totalCalories / analysis.servings) : 0,
+        protein: analysis.nutrition?.protein || 0,
+        carbs: analysis.nutrition?.carbs || 0,
+        fat: analysis.nutrition?.fat || 0,
+        fiber: analysis.nutrition?.fiber || 0,
+        aiAnalysis: JSON.stringify(aiAnalysisData),
+        improvementSuggestions: improvements, // Save improvement suggestions
+        isPublished: options.isPublished ?? false,
+      }, {
+        ingredients: Array.isArray(analysis.ingredients)
+          ? analysis.ingredients.map((ing: any, ingIndex: number) => ({
+              name: ing.name || '',
+              amount: ing.amount || '',
+              unit: ing.unit || '',
+              ...toIngredientQuantityFields(ing.amount, ing.unit),
+              calories: ing.calories || 0,
+              order: ingIndex + 1,
+            }))
+          : [],
+        steps: Array.isArray(analysis.steps)
+          ? analysis.steps.map((step: any, stepIndex: number) => {
+              // Convert duration to integer (round to nearest minute, minimum 1 if > 0)
+              let durationInt: number | null = null;
+              if (step.duration != null && step.duration !== undefined) {
+                if (step.duration > 0) {
+                  durationInt = Math.max(1, Math.round(step.duration));
+                } else {
+                  durationInt = null;
+                }
+              }
+
+              return {
+                stepNumber: stepIndex + 1,
+                instruction: step.instruction || '',
+                duration: durationInt,
+                temperature: step.temperature || null,
+                tips: step.tips || null,
+                isPassive: guessPassiveStep(step.instruction || ''),
+              };
+            })
+          : [],
+      });
+      await reportRecipeSaved(options, recipeId);
+      await refreshRecipeAllergens(recipeId);
+
+      // 沒有圖片時生成菜式圖片(未配置圖片生成服務則跳過)，失敗不影響導入
+      if (!finalImageUrl && isImageGenerationConfigured()) {
+        try {
+          await generateRecipeImage(recipeId);
+        } catch (imageError) {
+          console.warn(`[weblinkImport] ⚠️  Failed to generate dish image for recipe ${recipeId}:`, imageError instanceof Error ? imageError.message : String(imageError));
+        }
+      }
+
+      const recipeTitle = analysis.title || recipe.title || `食譜 ${i + 1}`;
+      console.log(`[weblinkImport] ✅ Recipe ${i + 1}/${extractedRecipes.length} created successfully!`);
+      console.log(`[weblinkImport]   - Recipe ID: ${recipeId}`);
+      console.log(`[weblinkImport]   - Title: ${recipeTitle}`);
+      
+      return {
+        recipeId: String(recipeId),
+        title: recipeTitle
+      };
+      
+    } catch (e) {
+      console.error(`[weblinkImport] ❌ Failed to create recipe ${i + 1}/${extractedRecipes.length}:`, e);
+      console.error(`[weblinkImport]   Error type:`, e instanceof Error ? e.constructor.name : typeof e);
+      console.error(`[weblinkImport]   Error message:`, e instanceof Error ? e.message : String(e));
+      return null; // Return null for failed recipes
+    } finally {
+      finishedCount++;
+      await reportProgress(options, {
+        stage: "analyze",
+        current: finishedCount,
+        total: extractedRecipes.length,
+        message: recipe.title,
+      });
+    }
+  });
+  
+  // Wait for all recipes to be processed in parallel
+  console.log('[weblinkImport] ⏳ Waiting for all recipes to complete (processing in parallel)...');
+  const recipeResults = await Promise.all(recipeProcessingPromises);
+  
+  // Collect successful recipe IDs and titles
+  recipeResults.forEach((result) => {
+    if (result) {
+      createdRecipeIds.push(result.recipeId);
+      createdRecipeTitles.push(result.title);
+    }
+  });
+  
+  console.log(`[weblinkImport] ✅ Parallel processing complete! ${createdRecipeIds.length}/${extractedRecipes.length} recipes succeeded`);
+
+  // Return result
+  console.log('[weblinkImport] ========================================');
+  console.log('[weblinkImport] 📍 Step 6: Finalizing results...');
+  
+  if (createdRecipeIds.length === 0) {
+    console.error('[weblinkImport] ❌ No recipes were created successfully');
+    throw new Error('未能創建任何食譜，請重試。');
+  }
+
+  const allRecipes = createdRecipeIds.map((id, idx) => ({
+    id,
+    title: createdRecipeTitles[idx] || `食譜 ${idx + 1}`
+  }));
+
+  console.log(`[weblinkImport] 🎉 SUCCESS! Created ${createdRecipeIds.length} recipe(s) successfully!`);
+  console.log('[weblinkImport] 📊 Final results:');
+  allRecipes.forEach((r, idx) => {
+    console.log(`[weblinkImport]   Recipe ${idx + 1}: ${r.title} (ID: ${r.id})`);
+  });
+  console.log('[weblinkImport] ========================================');
+  
+  return {
+    recipeId: createdRecipeIds[0], // For backward compatibility
+    recipeCount: createdRecipeIds.length,
+    allRecipeIds: createdRecipeIds,
+    allRecipes: allRecipes,
+  };
+}
@@ -0,0 +1,42 @@
+/**
+ * 過敏原列表(歐盟規定的 14 種主要過敏原，另加亞洲常見的蕎麥)
+ * 伺服器檢測食材和前端篩選、顯示共用
+ */
+
+export const ALLERGEN_CODES = [
+  "gluten",
+  "crustaceans",
+  "molluscs",
+  "fish",
+  "eggs",
+  "milk",
+  "peanuts",
+  "treeNuts",
+  "soybeans",
+  "sesame",
+  "celery",
+  "mustard",
+  "sulphites",
+  "lupin",
+  "buckwheat",
+] as const;
+
+export type AllergenCode = (typeof ALLERGEN_CODES)[number];
+
+export const ALLERGEN_LABELS: Record<AllergenCode, string> = {
+  gluten: "麩質穀物",
+  crustaceans: "甲殼類（蝦蟹）",
+  molluscs: "軟體動物（貝類、魷魚）",
+  fish: "魚類",
+  eggs: "蛋類",
+  milk: "奶類",
+  peanuts: "花生",
+  treeNuts: "堅果",
+  soybeans: "大豆",
+  sesame: "芝麻",
+  celery: "芹菜",
+  mustard: "芥末",
+  sulphites: "亞硫酸鹽",
+  lupin: "羽扇豆",
+  buckwheat: "蕎麥",
+};
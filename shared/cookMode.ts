@@ -0,0 +1,49 @@
+/**
+ * 烹飪模式的語音指令和計時器格式
+ * 前端烹飪模式使用，指令解析獨立出來方便測試
+ */
+
+export type CookModeCommand = "next" | "previous" | "startTimer" | "pauseTimer" | "read" | "exit";
+
+// 按順序匹配，較長、較具體的說法放在前面(例如「停止計時」要先於「開始計時」判斷)
+const COOK_MODE_PHRASES: Array<[CookModeCommand, string[]]> = [
+  ["pauseTimer", ["暫停計時", "停止計時", "暫停", "pause timer", "stop timer", "pause"]],
+  ["startTimer", ["開始計時", "計時", "start timer", "timer"]],
+  ["previous", ["上一步", "上一個", "返回上一步", "previous", "go back", "back"]],
+  ["next", ["下一步", "下一個", "繼續", "next", "continue", "done"]],
+  ["read", ["再讀一次", "讀一次", "重複", "朗讀", "read", "repeat", "again"]],
+  ["exit", ["退出", "離開", "結束", "exit", "quit", "close"]],
+];
+
+/**
+ * 把語音辨識結果轉成烹飪模式指令，無法辨認時返回 null
+ */
+export function parseCookModeCommand(transcript: string): CookModeCommand | null {
+  const normalized = transcript.trim().toLowerCase().replace(/[。，、！？,.!?]/g, " ");
+  if (!normalized) return null;
+
+  for (const [command, phrases] of COOK_MODE_PHRASES) {
+    const matched = phrases.some(phrase =>
+      // 英文要完整單詞匹配，避免 "back" 匹配到 "backing"
+      /^[a-z ]+$/.test(phrase)
+        ? new RegExp(`(^|[^a-z])${phrase}([^a-z]|$)`).test(normalized)
+        : normalized.includes(phrase)
+    );
+    if (matched) return command;
+  }
+  return null;
+}
+
+/**
+ * 把剩餘秒數格式化為 m:ss 或 h:mm:ss
+ */
+export function formatTimer(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, "0");
+  if (hours > 0) {
+    return `${hours}:${String(minutes).padStart(2, "0")}:${secs}`;
+  }
+  return `${minutes}:${secs}`;
+}
@@ -0,0 +1,54 @@
+/**
+ * 健康評分配置和規則類型
+ * 伺服器按配置計算評分，前端用於選擇配置和在管理後台編輯規則
+ */
+
+export const HEALTH_PROFILE_KEYS = [
+  "balanced",
+  "lowCarb",
+  "diabetic",
+  "highProtein",
+  "heartHealthy",
+  "elderlySoft",
+] as const;
+
+export type HealthProfileKey = (typeof HEALTH_PROFILE_KEYS)[number];
+
+export const DEFAULT_HEALTH_PROFILE: HealthProfileKey = "balanced";
+
+// 營養指標一律按每份計算
+export const HEALTH_METRICS = ["calories", "protein", "carbs", "fat", "fiber"] as const;
+
+export type HealthMetric = (typeof HEALTH_METRICS)[number];
+
+export const HEALTH_METRIC_LABELS: Record<HealthMetric, string> = {
+  calories: "每份卡路里 (kcal)",
+  protein: "每份蛋白質 (g)",
+  carbs: "每份碳水化合物 (g)",
+  fat: "每份脂肪 (g)",
+  fiber: "每份纖維 (g)",
+};
+
+export type HealthRuleOperator = "lt" | "gt";
+
+export const HEALTH_OPERATOR_LABELS: Record<HealthRuleOperator, string> = {
+  lt: "低於",
+  gt: "高於",
+};
+
+/**
+ * 評分規則：nutrient 比較每份營養，keyword 檢查食譜標題、食材和步驟是否包含任一關鍵字
+ * 符合規則時加上 points(可以是負數)
+ */
+export type HealthRule =
+  | { type: "nutrient"; label: string; metric: HealthMetric; operator: HealthRuleOperator; value: number; points: number }
+  | { type: "keyword"; label: string; keywords: string[]; points: number };
+
+export const HEALTH_SCORE_BASE = 5;
+export const HEALTH_SCORE_MIN = 1;
+export const HEALTH_SCORE_MAX = 10;
+
+export interface HealthScoreResult {
+  score: number;
+  matches: Array<{ label: string; points: number }>;
+}
@@ -0,0 +1,52 @@
+/**
+ * 食譜搜索共用的分詞邏輯(伺服器建立查詢和前端高亮使用同一套規則)
+ */
+
+// 中日韓文字(漢字、假名、韓文)沒有空格分隔，需要逐字處理
+const CJK_CHAR = /[぀-ヿ㐀-䶿一-鿿가-힯]/;
+
+// 字母和數字以外的字元(空格、標點、符號)都視為分隔
+const TERM_SEPARATOR = new RegExp("[^\\p{L}\\p{N}]+", "u");
+
+export const MAX_SEARCH_QUERY_LENGTH = 100;
+
+export function isCjkChar(char: string) {
+  return CJK_CHAR.test(char);
+}
+
+/**
+ * 把搜索字串拆成關鍵詞：以空格和標點分隔，轉小寫並去除重複
+ */
+export function extractSearchTerms(query: string): string[] {
+  const terms = query
+    .slice(0, MAX_SEARCH_QUERY_LENGTH)
+    .toLowerCase()
+    .split(TERM_SEPARATOR)
+    .filter(Boolean);
+  return Array.from(new Set(terms));
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * 把文字按關鍵詞切成高亮/非高亮片段(不分大小寫)
+ */
+export function splitHighlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+
+  // 長的關鍵詞優先，避免「番茄炒蛋」被「番茄」截斷
+  const pattern = [...terms]
+    .sort((a, b) => b.length - a.length)
+    .map(term => term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("|");
+  const regex = new RegExp(`(${pattern})`, "gi");
+
+  // split 使用捕獲組時，奇數位置是匹配到的關鍵詞
+  return text
+    .split(regex)
+    .map((part, index) => ({ text: part, match: index % 2 === 1 }))
+    .filter(segment => segment.text.length > 0);
+}
@@ -0,0 +1,165 @@
+/**
+ * 步驟時間線
+ * 主動步驟需要廚師親手操作(同一時間只能做一個)，被動步驟(燉煮、焗、醃、發酵等)開始後無需看顧，可與其他步驟同時進行；
+ * dependsOn 記錄步驟要等哪些步驟完成才能開始(未設定時接上一步)，據此排出時間線和關鍵路徑總時間
+ */
+
+export type TimelineStepInput = {
+  stepNumber: number;
+  duration: number | null; // 分鐘
+  isPassive: boolean;
+  dependsOn: number[] | null; // 前置步驟的步驟編號，null 表示接上一步
+};
+
+export type TimelineEntry = {
+  index: number; // 在輸入步驟數組中的位置(步驟編號可能重複)
+  stepNumber: number;
+  start: number; // 開始時間(分鐘，從 0 起計)
+  end: number;
+  isPassive: boolean;
+  dependsOn: number[]; // 實際生效的前置步驟
+  isCritical: boolean; // 是否在關鍵路徑上(延誤會令總時間變長)
+};
+
+export type RecipeTimeline = {
+  entries: TimelineEntry[];
+  totalTime: number; // 按時間線計算的總時間
+  sequentialTime: number; // 所有步驟逐個完成所需的時間
+};
+
+// 常見的無需看顧的步驟，用於導入和手動創建食譜時預設標記
+const PASSIVE_STEP_KEYWORDS = [
+  "燉", "焗", "烤", "醃", "浸", "發酵", "靜置", "冷藏", "冷凍", "雪櫃", "放涼", "攤涼", "解凍", "慢煮",
+  "simmer", "bake", "roast", "marinate", "soak", "proof", "chill", "refrigerate", "freeze", "cool", "thaw", "let rest",
+];
+
+/**
+ * 根據步驟說明推測是否為被動步驟
+ */
+export function guessPassiveStep(instruction: string): boolean {
+  const normalized = instruction.toLowerCase();
+  return PASSIVE_STEP_KEYWORDS.some(keyword =>
+    // 英文要完整單詞匹配(可帶 s/d/ed)，避免 roast 匹配到 roaster
+    /^[a-z ]+$/.test(keyword) ? new RegExp(`\\b${keyword}(s|d|ed)?\\b`).test(normalized) : normalized.includes(keyword)
+  );
+}
+
+/**
+ * 解析資料庫中的 dependsOn(JSON 數組)，無效或未設定時返回 null
+ */
+export function parseStepDependencies(value: string | null | undefined): number[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (!Array.isArray(parsed)) return null;
+    return parsed.filter((n): n is number => Number.isInteger(n));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 排出步驟時間線
+ * 被動步驟在前置步驟完成後立即開始；主動步驟還要等廚師空閒，廚師優先處理最早可以開始的步驟
+ * 內部按步驟在排序後的位置記錄，重複的步驟編號各自排程(依賴該編號時要等全部同編號步驟完成)
+ */
+export function buildRecipeTimeline(steps: TimelineStepInput[]): RecipeTimeline {
+  const sorted = steps
+    .map((step, index) => ({ step, index }))
+    .sort((a, b) => a.step.stepNumber - b.step.stepNumber);
+  const positionsByNumber = new Map<number, number[]>();
+  sorted.forEach(({ step }, position) => {
+    positionsByNumber.set(step.stepNumber, [...(positionsByNumber.get(step.stepNumber) ?? []), position]);
+  });
+
+  // 只允許依賴較前的步驟，避免循環
+  const dependencies = sorted.map(({ step }, position) => {
+    if (step.dependsOn === null) {
+      if (position === 0) return { numbers: [], positions: [] };
+      return { numbers: [sorted[position - 1].step.stepNumber], positions: [position - 1] };
+    }
+    const numbers = Array.from(new Set(step.dependsOn)).filter(n => n < step.stepNumber && positionsByNumber.has(n));
+    return { numbers, positions: numbers.flatMap(n => positionsByNumber.get(n)!) };
+  });
+
+  const scheduled = new Map<number, TimelineEntry>();
+  // 決定每個步驟開始時間的前一個步驟(前置步驟或廚師剛完成的主動步驟)，用於追溯關鍵路徑
+  const blockedBy = new Map<number, number | null>();
+  let cookFreeAt = 0;
+  let lastActiveStep: number | null = null;
+
+  const readyAt = (position: number) => {
+    let time = 0;
+    let blocker: number | null = null;
+    for (const dep of dependencies[position].positions) {
+      const end = scheduled.get(dep)!.end;
+      if (blocker === null || end >= time) {
+        time = end;
+        blocker = dep;
+      }
+    }
+    return { time, blocker };
+  };
+
+  const schedule = (position: number, start: number, blocker: number | null) => {
+    const { step, index } = sorted[position];
+    scheduled.set(position, {
+      index,
+      stepNumber: step.stepNumber,
+      start,
+      end: start + Math.max(0, step.duration ?? 0),
+      isPassive: step.isPassive,
+      dependsOn: dependencies[position].numbers,
+      isCritical: false,
+    });
+    blockedBy.set(position, blocker);
+  };
+
+  while (scheduled.size < sorted.length) {
+    const candidates = sorted
+      .map((_, position) => position)
+      .filter(position => !scheduled.has(position) && dependencies[position].positions.every(dep => scheduled.has(dep)));
+    if (candidates.length === 0) break;
+
+    const passive = candidates.filter(position => sorted[position].step.isPassive);
+    if (passive.length > 0) {
+      for (const position of passive) {
+        const ready = readyAt(position);
+        schedule(position, ready.time, ready.blocker);
+      }
+      continue;
+    }
+
+    // 主動步驟：選最早可以開始的(同時可以開始則按步驟順序)
+    let best = { position: candidates[0], start: Infinity, blocker: null as number | null };
+    for (const position of candidates) {
+      const ready = readyAt(position);
+      const start = Math.max(ready.time, cookFreeAt);
+      const blocker: number | null = start > ready.time ? lastActiveStep : ready.blocker;
+      if (start < best.start) {
+        best = { position, start, blocker };
+      }
+    }
+    schedule(best.position, best.start, best.blocker);
+    cookFreeAt = scheduled.get(best.position)!.end;
+    lastActiveStep = best.position;
+  }
+
+  const positions = sorted.map((_, position) => position).filter(position => scheduled.has(position));
+  const entries = positions.map(position => scheduled.get(position)!);
+  const totalTime = entries.reduce((max, entry) => Math.max(max, entry.end), 0);
+
+  // 從最後完成的步驟沿著阻擋鏈往回追溯
+  const last = [...positions].reverse().find(position => scheduled.get(position)!.end === totalTime);
+  let current: number | null = totalTime > 0 && last !== undefined ? last : null;
+  while (current !== null) {
+    scheduled.get(current)!.isCritical = true;
+    current = blockedBy.get(current) ?? null;
+  }
+
+  return {
+    entries,
+    totalTime,
+    sequentialTime: steps.reduce((sum, step) => sum + Math.max(0, step.duration ?? 0), 0),
+  };
+}